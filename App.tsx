@@ -6,6 +6,7 @@ import LoginForm from './components/LoginForm';
 // Lazy-load heavy dashboard components to reduce initial bundle size
 const AdminDashboard = React.lazy(() => import('./components/AdminDashboard'));
 const FacultyDashboard = React.lazy(() => import('./components/FacultyDashboard'));
+const CheckInDialog = React.lazy(() => import('./components/CheckInDialog'));
 
 // Use a single inline loader (the PLV loader below) as the Suspense fallback.
 import Footer from './components/Footer';
@@ -21,6 +22,9 @@ import { cn } from './components/ui/utils';
 import useIdleTimeout from './hooks/useIdleTimeout';
 import { useDarkMode } from './hooks/useDarkMode';
 import { isPastBookingTime, convertTo12Hour } from './utils/timeUtils';
+import { getOccurrenceDates } from './utils/recurrence';
+import { usesAdminDashboard, scopeRequestsForApprover, ROLE_LABELS } from './utils/approvers';
+import { CHECK_IN_PARAM, getCheckInClassroomId } from './utils/checkIn';
 import { executeWithNetworkHandling } from './lib/networkErrorHandler';
 import {
   authService,
@@ -60,7 +64,7 @@ export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'faculty';
+  role: 'admin' | 'faculty' | 'approver'; // 'approver': department head deciding requests for their departments
   department?: string; // Deprecated: kept for backward compatibility
   departments?: string[]; // New: array of departments for faculty teaching in multiple departments
   status: 'pending' | 'approved' | 'rejected';
@@ -108,11 +112,81 @@ export interface Classroom {
   name: string;
   capacity: number;
   equipment: string[];
-  building: string;
+  building: string; // Name of the building, kept in step with the building document
+  buildingId?: string; // Building document; missing on rooms not yet migrated
   floor: number;
   isAvailable: boolean;
   disabledUntil?: string; // ISO timestamp when classroom should be auto-enabled
   disableReason?: string; // Reason for disabling
+  ownerDepartment?: string; // Department the room belongs to, e.g. the IT labs
+  priorityWindowDays?: number; // Days before a date until which only the owning department can request the room
+  maintenanceWindows?: MaintenanceWindow[]; // Scheduled closures that have not been lifted yet
+  activeMaintenanceId?: string; // Window the room is currently disabled for, set by the maintenance job
+  blockedSlots?: ClassroomBlock[]; // Time ranges the room is closed for while staying available otherwise
+}
+
+// A campus building. Classrooms reference it by id; operating hours, blackouts and
+// auto-approval rules refer to it by name.
+export interface Building {
+  id: string;
+  name: string;
+  code: string; // Short code, e.g. "CEIT"
+  floors: number; // Classrooms are on floors 1 to floors
+  openingHours?: WeeklyHours; // Own hours; the campus hours apply when missing
+  accessibilityNotes?: string; // e.g. elevator, ramps, accessible restrooms
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// A time range on one date when a classroom cannot be booked, e.g. an afternoon aircon
+// repair. Conflict checks treat it like a confirmed reservation.
+export interface ClassroomBlock {
+  id: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // 24-hour format
+  endTime: string; // 24-hour format
+  reason: string;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+// A scheduled closure of a classroom, e.g. a renovation. Reservations overlapping it are
+// refused, and the room is disabled automatically while it lasts.
+export interface MaintenanceWindow {
+  id: string;
+  startAt: string; // ISO timestamp
+  endAt: string; // ISO timestamp
+  reason: string;
+  createdBy?: string;
+  createdAt?: string;
+  flaggedAt?: string; // When admins were warned about reservations inside the window
+}
+
+// Portable equipment lent out with bookings (projectors, speakers, extension cords),
+// as opposed to the fixed `Classroom.equipment` of a room
+export interface EquipmentItem {
+  id: string;
+  name: string;
+  description?: string;
+  quantity: number; // Units owned
+  isActive: boolean; // Retired items stay for history but cannot be reserved
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Units of an inventory item reserved with a booking
+export interface ReservedEquipment {
+  equipmentId: string;
+  name: string;
+  quantity: number;
+}
+
+// An inventory item with the units still free for a prospective booking
+export interface EquipmentAvailability {
+  id: string;
+  name: string;
+  quantity: number;
+  available: number;
 }
 
 export interface BookingRequest {
@@ -124,10 +198,44 @@ export interface BookingRequest {
   date: string;
   startTime: string;
   endTime: string;
+  // Start and end as ISO instants, computed from date + times in campus time (Asia/Manila).
+  // For a recurring series they are those of the first occurrence.
+  startAt?: string;
+  endAt?: string;
   purpose: string;
+  expectedAttendees?: number; // How many people will attend; checked against the room's capacity
+  reservedEquipment?: ReservedEquipment[]; // Portable equipment to pick up for the booking
   status: 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
   requestDate: string;
   adminFeedback?: string;
+  // Recurring series: `date` holds the first occurrence and `occurrenceDates`
+  // the fully expanded list (kept on the document so conflict queries can use array-contains)
+  recurrence?: RecurrenceRule;
+  occurrenceDates?: string[];
+  skippedDates?: string[]; // Occurrences left out at approval time because of conflicts
+  // Change request: proposes a new slot for an existing confirmed schedule. The proposal lives
+  // in the usual fields; the original stays confirmed until the request is approved.
+  changeOf?: ScheduleChangeOrigin;
+  // Multi-room event booking: every room is its own request sharing this id (the first room's
+  // request id). The rooms are approved, rejected and cancelled as a unit.
+  groupId?: string;
+}
+
+export interface ScheduleChangeOrigin {
+  scheduleId: string;
+  classroomId: string;
+  classroomName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'weekdays'; // 'weekly' repeats on the first date's weekday
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday, used when frequency === 'weekdays'
+  endDate?: string; // ISO YYYY-MM-DD, inclusive
+  count?: number; // Alternative to endDate: stop after this many occurrences
+  excludedDates?: string[]; // ISO dates to skip (holidays, exam weeks)
 }
 
 export interface Schedule {
@@ -139,8 +247,203 @@ export interface Schedule {
   date: string;
   startTime: string;
   endTime: string;
+  startAt?: string; // ISO instants of the start and end, computed in campus time (Asia/Manila)
+  endAt?: string;
   purpose: string;
+  expectedAttendees?: number; // Carried over from the approved request
+  reservedEquipment?: ReservedEquipment[];
   status: 'confirmed' | 'cancelled';
+  seriesId?: string; // Booking request id of the recurring series this occurrence belongs to
+  rescheduledFrom?: string; // Schedule this one replaced through an approved change request
+  rescheduledTo?: string; // Set on the cancelled original once its change request is approved
+  checkedInAt?: string; // When the faculty member checked in by scanning the room's QR code
+  checkedInBy?: string;
+  noShow?: boolean; // Set on a reservation released because nobody checked in
+  noShowAt?: string;
+  groupId?: string; // Multi-room event booking this room belongs to; cancelled as a unit
+  importId?: string; // Timetable import that created this schedule
+}
+
+// The parts of a schedule needed to recognise it (and the request it came from) in conflict checks
+export type ScheduleSlot = Pick<Schedule, 'id' | 'facultyId' | 'classroomId' | 'date' | 'startTime' | 'endTime'>;
+
+// A reservation that overlaps a requested slot, as reported by the conflict checks
+export interface BookingConflict {
+  id: string; // Id of the conflicting schedule, booking request or classroom block
+  type: 'schedule' | 'request' | 'block';
+  status: Schedule['status'] | BookingRequest['status']; // 'confirmed' for blocks
+  classroomId: string;
+  facultyId: string;
+  facultyName: string;
+  date: string; // The overlapping date (one occurrence for a series)
+  startTime: string;
+  endTime: string;
+  purpose?: string;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  facultyId: string;
+  facultyName: string;
+  classroomId: string;
+  classroomName: string;
+  date: string;
+  startTime: string; // 24-hour HH:MM, like booking requests
+  endTime: string;
+  purpose: string;
+  // 'notified': the slot freed up and the faculty was told; 'converted': a pending request was created for them
+  status: 'waiting' | 'notified' | 'converted' | 'cancelled' | 'expired';
+  autoConvert: boolean; // Submit a booking request automatically when the slot frees up
+  bookingRequestId?: string; // Request created on conversion
+  createdAt: string;
+  notifiedAt?: string;
+}
+
+export interface AcademicCalendar {
+  termName?: string; // e.g. "1st Semester AY 2025-2026"
+  termStart?: string; // ISO YYYY-MM-DD, first bookable day
+  termEnd?: string; // ISO YYYY-MM-DD, last bookable day
+  holidays: CalendarHoliday[];
+  blackouts: CalendarBlackout[];
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface CalendarHoliday {
+  date: string; // ISO YYYY-MM-DD
+  name: string;
+}
+
+export interface CalendarBlackout {
+  id: string;
+  building: string; // Building name, or '*' for every building (class suspensions)
+  startDate: string; // ISO YYYY-MM-DD, inclusive
+  endDate: string; // ISO YYYY-MM-DD, inclusive
+  reason: string;
+}
+
+export interface OperatingHours {
+  slotMinutes: number; // Booking granularity: start and end times fall on this grid from opening time
+  weekly: WeeklyHours; // Campus-wide hours
+  buildings: Record<string, WeeklyHours>; // Per-building overrides, keyed by building name
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// Indexed by weekday (0 = Sunday ... 6 = Saturday); null means closed all day
+export type WeeklyHours = Array<DayHours | null>;
+
+export interface DayHours {
+  open: string; // 24-hour HH:MM, earliest start time
+  close: string; // 24-hour HH:MM, latest end time
+}
+
+export interface BookingPolicies {
+  maxDurationMinutes: number; // Longest single reservation
+  minLeadMinutes: number; // How long before its start a reservation must be requested
+  maxAdvanceDays: number; // How many days ahead the first date may be
+  maxWeeklyHours: number | null; // Reserved hours per faculty per week (Mon-Sun); null for no cap
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface PolicyViolation {
+  code: 'max_duration' | 'min_lead_time' | 'max_advance' | 'weekly_hours' | 'capacity' | 'equipment' | 'priority_window';
+  message: string;
+}
+
+export interface AutoApprovalRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Each list matches any value when empty
+  classroomIds: string[];
+  buildings: string[];
+  departments: string[]; // Matches when the faculty member belongs to any of them
+  facultyIds: string[];
+  maxDurationMinutes: number | null; // Longest reservation the rule approves; null for any
+  minLeadMinutes: number | null; // Least notice before the start; null for any
+}
+
+export interface AutoApprovalRules {
+  rules: AutoApprovalRule[]; // Tried in order; the first match approves the request
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface CheckInSettings {
+  enabled: boolean; // Release reservations nobody checked in to
+  graceMinutes: number; // How long after the start a reservation is held without a check-in
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// The reservation a faculty member checked in to
+export interface CheckInResult {
+  scheduleId: string;
+  classroomName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  checkedInAt: string;
+  alreadyCheckedIn: boolean;
+}
+
+export interface DisplaySettings {
+  maskFacultyNames: boolean; // Door and lobby displays show initials instead of full names
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// A reservation as shown on the public displays: times and who holds the room, nothing else
+export interface DisplayBooking {
+  startTime: string;
+  endTime: string;
+  facultyName: string;
+}
+
+export interface DisplayRoom {
+  id: string;
+  name: string;
+  building: string;
+  isAvailable: boolean;
+  bookings: DisplayBooking[]; // Today's confirmed reservations, by start time
+}
+
+// A user's secret calendar feed token and the URL of the calendarFeed function
+export interface CalendarFeed {
+  token: string;
+  baseUrl: string;
+}
+
+// A versioned schema migration and its progress in the `_migrations` ledger
+export interface SchemaMigration {
+  id: number; // Migrations run in this order, each once
+  name: string;
+  description: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  cursor: string | null; // Where an interrupted or failed run resumes
+  scanned: number;
+  updated: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string | null;
+  lastError: string | null;
+  runBy: string | null;
+}
+
+// One call of the migration runner; call again while `done` is false
+export interface MigrationRunResult {
+  dryRun: boolean;
+  done: boolean;
+  resume: MigrationResumePoint | null; // Where a dry run stopped; dry runs write no progress
+  processed: Array<{ id: number; scanned: number; updated: number }>;
+  migrations: SchemaMigration[];
+}
+
+export interface MigrationResumePoint {
+  migrationId: number;
+  cursor: string | null;
 }
 
 export default function App() {
@@ -251,7 +554,18 @@ export default function App() {
     startTime?: string;
     endTime?: string;
     purpose?: string;
+    expectedAttendees?: number;
   } | null>(null);
+  // Classroom from a scanned check-in QR code; the dialog opens once the user is signed in
+  const [checkInClassroomId, setCheckInClassroomId] = useState<string | null>(() => getCheckInClassroomId());
+
+  // Drop the check-in parameter from the address bar so a refresh does not check in again
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(CHECK_IN_PARAM)) return;
+    url.searchParams.delete(CHECK_IN_PARAM);
+    window.history.replaceState(window.history.state, '', `${url.pathname}${url.search}${url.hash}`);
+  }, []);
 
   // Announcer - centralized announce function (provider wrapped in main.tsx)
   const { announce } = useAnnouncer();
@@ -326,7 +640,7 @@ export default function App() {
             const prevStatus = bookingPrevStatusRef.current ?? {};
             const newOnes = requests.filter(r => !prevIds.has(r.id) && r.status === 'pending');
 
-            if (newOnes.length > 0 && user?.role === 'admin') {
+            if (newOnes.length > 0 && usesAdminDashboard(user)) {
               // Announce up to 3 to avoid flooding
               newOnes.slice(0, 3).forEach((req) => {
                 try {
@@ -409,16 +723,16 @@ export default function App() {
           setLoadingMessage('Loading...');
         },
 
-        onSignupRequestsUpdate: user.role === 'admin' ? (requests) => {
+        onSignupRequestsUpdate: usesAdminDashboard(user) ? (requests) => {
           logger.log('👥 Real-time update: Signup Requests', requests.length);
           setSignupRequests(requests);
         } : undefined,
-        onSignupHistoryUpdate: user.role === 'admin' ? (history) => {
+        onSignupHistoryUpdate: usesAdminDashboard(user) ? (history) => {
           logger.log('📜 Real-time update: Signup History', history.length);
           setSignupHistory(history);
         } : undefined,
 
-        onUsersUpdate: user.role === 'admin' ? (users) => {
+        onUsersUpdate: usesAdminDashboard(user) ? (users) => {
           logger.log('👤 Real-time update: Users', users.length);
           setUsers(users);
         } : undefined,
@@ -434,8 +748,8 @@ export default function App() {
         setUsers([user]);
         setSignupRequests([]);
         setSignupHistory([]);
-      } else if (user.role === 'admin') {
-        // Load signup history for admins
+      } else if (usesAdminDashboard(user)) {
+        // Load signup history for admins and department approvers
         signupHistoryService.getAll()
           .then((history) => {
             logger.log('📜 Loaded signup history:', history.length);
@@ -535,13 +849,13 @@ export default function App() {
       if (result && result.user) {
         const user = result.user;
         setCurrentUser(user);
-        const greeting = user.role === 'admin' ? 'Welcome back, Administrator' : 'Welcome back';
+        const greeting = user.role === 'faculty' ? 'Welcome back' : `Welcome back, ${ROLE_LABELS[user.role]}`;
         toast.success(`${greeting}, ${user.name}!`, {
           duration: 4000,
         });
         
         // Set the appropriate dashboard URL based on user role
-        const dashboardPath = user.role === 'admin' ? '/admin/overview' : '/faculty/overview';
+        const dashboardPath = usesAdminDashboard(user) ? '/admin/overview' : '/faculty/overview';
         window.history.replaceState(null, '', dashboardPath);
         
         // Return success with optional password leak warning
@@ -638,9 +952,9 @@ export default function App() {
         setCurrentUser(user);
 
         // Show welcome message immediately based on user role
-        const greeting = user.role === 'admin' ? 'Welcome back, Administrator' : 'Welcome back';
+        const greeting = user.role === 'faculty' ? 'Welcome back' : `Welcome back, ${ROLE_LABELS[user.role]}`;
         toast.success(`${greeting}, ${user.name}!`, {
-          description: `You're logged in as ${user.role === 'admin' ? 'Administrator' : 'Faculty'}`,
+          description: `You're logged in as ${ROLE_LABELS[user.role]}`,
           duration: 4000,
         });
 
@@ -991,7 +1305,8 @@ export default function App() {
     startTime: string,
     endTime: string,
     checkPastTime: boolean = false,
-    excludeRequestId?: string
+    excludeRequestId?: string,
+    excludeSchedule?: ScheduleSlot
   ): Promise<boolean> => {
     // Check if booking time is in the past (only if checkPastTime is true)
     if (checkPastTime && isPastBookingTime(date, convertTo12Hour(startTime))) {
@@ -999,13 +1314,15 @@ export default function App() {
     }
 
     try {
-      return await bookingRequestService.checkConflicts(
+      const conflicts = await bookingRequestService.checkConflicts(
         classroomId,
         date,
         startTime,
         endTime,
-        excludeRequestId
+        excludeRequestId,
+        excludeSchedule
       );
+      return conflicts.length > 0;
     } catch (err) {
       logger.error('Error checking conflicts:', err);
       toast.error('Failed to check for conflicts');
@@ -1013,10 +1330,23 @@ export default function App() {
     }
   }, []);
 
+  // Lists what a slot conflicts with, for screens that show the details. Errors are left
+  // to the caller, which decides how to present a failed check.
+  const findConflicts = useCallback((
+    classroomId: string,
+    date: string,
+    startTime: string,
+    endTime: string,
+    excludeRequestId?: string,
+    excludeSchedule?: ScheduleSlot
+  ): Promise<BookingConflict[]> => (
+    bookingRequestService.checkConflicts(classroomId, date, startTime, endTime, excludeRequestId, excludeSchedule)
+  ), []);
+
   const handleBookingRequest = useCallback(async (request: Omit<BookingRequest, 'id' | 'requestDate' | 'status'>, suppressToast?: boolean) => {
     try {
       // Check if the booking time is in the past
-      if (isPastBookingTime(request.date, convertTo12Hour(request.startTime))) {
+      if (isPastBookingTime(request.date, convertTo12Hour(request.startTime), request.startAt)) {
         toast.error('Cannot request time slots that have already passed');
         return;
       }
@@ -1024,16 +1354,17 @@ export default function App() {
       // Check for conflicts with confirmed schedules and approved/pending requests
       // Note: There's still a potential race condition here (time between check and create)
       // In a production system, implement database-level unique constraints or use transactions
-      const hasConflict = await checkConflicts(
-        request.classroomId,
-        request.date,
-        request.startTime,
-        request.endTime,
-        false
-      );
-
-      if (hasConflict) {
-        toast.error('Classroom conflict detected - time slot already booked or has pending request');
+      // Recurring series are checked against every occurrence at once.
+      const conflictingDates = request.recurrence
+        ? await bookingRequestService.findConflictingDates(request.classroomId, getOccurrenceDates(request), request.startTime, request.endTime)
+        : (await checkConflicts(request.classroomId, request.date, request.startTime, request.endTime, false)) ? [request.date] : [];
+
+      if (conflictingDates.length > 0) {
+        toast.error(
+          request.recurrence
+            ? `Classroom conflict detected on ${conflictingDates.length} occurrence(s): ${conflictingDates.join(', ')}`
+            : 'Classroom conflict detected - time slot already booked or has pending request'
+        );
         return;
       }
 
@@ -1114,6 +1445,119 @@ export default function App() {
     }
   }, [checkConflicts]);
 
+  // Several rooms for one event, submitted together. The requests share a groupId and are
+  // approved, rejected and cancelled as a unit.
+  const handleBookingGroupRequest = useCallback(async (requests: Omit<BookingRequest, 'id' | 'requestDate' | 'status' | 'groupId'>[]) => {
+    try {
+      const [lead] = requests;
+      if (!lead) return;
+      if (isPastBookingTime(lead.date, convertTo12Hour(lead.startTime), lead.startAt)) {
+        toast.error('Cannot request time slots that have already passed');
+        return;
+      }
+
+      const conflicted = await Promise.all(requests.map(request =>
+        checkConflicts(request.classroomId, request.date, request.startTime, request.endTime, false)
+      ));
+      const conflictingRooms = requests.filter((_, index) => conflicted[index]).map(request => request.classroomName);
+      if (conflictingRooms.length > 0) {
+        toast.error(`Classroom conflict detected for ${conflictingRooms.join(', ')} - time slot already booked or has pending request`);
+        return;
+      }
+
+      const created = await bookingRequestService.createGroup(requests);
+      const createdIds = new Set(created.map(request => request.id));
+      setBookingRequests(prev => [...prev.filter(r => !createdIds.has(r.id)), ...created]);
+
+      toast.success(`Event reservation for ${created.length} rooms submitted!`, {
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            try {
+              for (const request of created) {
+                await bookingRequestService.delete(request.id).catch(() => bookingRequestService.cancelWithCallable(request.id));
+              }
+              setBookingRequests(prev => prev.filter(r => !createdIds.has(r.id)));
+              setExternalBookingPrefill(lead);
+              toast('Event reservation undone — form pre-filled');
+            } catch (err) {
+              logger.error('Undo of event reservation failed:', err);
+              toast.error('Could not undo reservation');
+            }
+          }
+        }
+      });
+    } catch (err) {
+      logger.error('Event booking request error:', err);
+      toast.error('Failed to submit event reservation. Please try again.');
+    }
+  }, [checkConflicts]);
+
+  // Faculty propose a new date, time or room for a confirmed reservation. The proposal is filed as a
+  // pending request carrying a snapshot of the original, which stays confirmed until an admin approves it.
+  const handleScheduleChangeRequest = useCallback(async (
+    schedule: Schedule,
+    proposal: Pick<BookingRequest, 'classroomId' | 'classroomName' | 'date' | 'startTime' | 'endTime'>
+  ): Promise<boolean> => {
+    if (isPastBookingTime(schedule.date, convertTo12Hour(schedule.startTime), schedule.startAt)) {
+      toast.error('This reservation has already started and can no longer be changed');
+      return false;
+    }
+    if (isPastBookingTime(proposal.date, convertTo12Hour(proposal.startTime))) {
+      toast.error('Cannot request time slots that have already passed');
+      return false;
+    }
+    if (
+      proposal.classroomId === schedule.classroomId &&
+      proposal.date === schedule.date &&
+      proposal.startTime === schedule.startTime &&
+      proposal.endTime === schedule.endTime
+    ) {
+      toast.error('The proposed slot is the same as the current reservation');
+      return false;
+    }
+    if (bookingRequests.some(req => req.status === 'pending' && req.changeOf?.scheduleId === schedule.id)) {
+      toast.error('A change request for this reservation is already pending');
+      return false;
+    }
+
+    try {
+      // The reservation being moved may overlap the proposal, so it is left out of the check
+      const conflict = await checkConflicts(proposal.classroomId, proposal.date, proposal.startTime, proposal.endTime, false, undefined, schedule);
+      if (conflict) {
+        toast.error('The proposed slot conflicts with another reservation or pending request');
+        return false;
+      }
+
+      const newRequest = await bookingRequestService.create({
+        facultyId: schedule.facultyId,
+        facultyName: schedule.facultyName,
+        ...proposal,
+        purpose: schedule.purpose,
+        ...(schedule.expectedAttendees ? { expectedAttendees: schedule.expectedAttendees } : {}),
+        ...(schedule.reservedEquipment?.length ? { reservedEquipment: schedule.reservedEquipment } : {}),
+        changeOf: {
+          scheduleId: schedule.id,
+          classroomId: schedule.classroomId,
+          classroomName: schedule.classroomName,
+          date: schedule.date,
+          startTime: schedule.startTime,
+          endTime: schedule.endTime,
+        },
+      });
+
+      setBookingRequests(prev => prev.some(req => req.id === newRequest.id) ? prev : [...prev, newRequest]);
+      toast.success('Change request submitted', {
+        description: 'Your current reservation stays in place until an admin approves the change.'
+      });
+      return true;
+    } catch (err) {
+      logger.error('Schedule change request error:', err);
+      toast.error('Failed to submit change request. Please try again.');
+      return false;
+    }
+  }, [bookingRequests, checkConflicts]);
+
   const handleRequestApproval = useCallback(async (requestId: string, approved: boolean, feedback?: string, suppressToast?: boolean) => {
     const result = await executeWithNetworkHandling(
       async () => {
@@ -1128,31 +1572,102 @@ export default function App() {
           throw new Error('Request has already been processed');
         }
 
-        // If approving, verify there are no conflicts with already approved/confirmed bookings
+        // The rooms of an event booking are approved or rejected together
+        const groupId = request.groupId;
+        const members = groupId ? bookingRequests.filter(req => req.groupId === groupId) : [];
+
         if (approved) {
-          // Check if the booking time has already passed
-          if (isPastBookingTime(request.date, convertTo12Hour(request.startTime))) {
+          // Check if the booking time has already passed. A series can still be approved
+          // until its last occurrence starts; the occurrences already past are skipped.
+          const lastDate = request.recurrence ? [...getOccurrenceDates(request)].sort().pop() : undefined;
+          if (lastDate
+            ? isPastBookingTime(lastDate, convertTo12Hour(request.startTime))
+            : isPastBookingTime(request.date, convertTo12Hour(request.startTime), request.startAt)) {
             throw new Error('Cannot approve: booking time has already passed');
           }
 
-          // Check for conflicts with existing confirmed schedules and approved requests
-          const hasConflict = await checkConflicts(
-            request.classroomId,
-            request.date,
-            request.startTime,
-            request.endTime,
-            false, // Don't check past time again (already checked above)
-            requestId // Exclude this request from conflict check
+          if (groupId) {
+            const scheduleIds = await bookingRequestService.approveGroupWithCallable(groupId, feedback);
+            setBookingRequests(prev =>
+              prev.map(req => req.groupId === groupId ? { ...req, status: 'approved' as const } : req)
+            );
+            setSchedules(prev => [
+              ...prev,
+              ...members.flatMap(member => (scheduleIds[member.id] ?? []).map(id => ({
+                id,
+                classroomId: member.classroomId,
+                classroomName: member.classroomName,
+                facultyId: member.facultyId,
+                facultyName: member.facultyName,
+                date: member.date,
+                startTime: member.startTime,
+                endTime: member.endTime,
+                purpose: member.purpose,
+                ...(member.expectedAttendees ? { expectedAttendees: member.expectedAttendees } : {}),
+                ...(member.reservedEquipment?.length ? { reservedEquipment: member.reservedEquipment } : {}),
+                status: 'confirmed' as const,
+                groupId
+              })))
+            ]);
+            return { approved, skipped: 0 };
+          }
+
+          // Approval runs server-side in a transaction: the conflict re-check, status change,
+          // schedule creation and audit entry commit together, so two admins approving
+          // overlapping requests at the same moment cannot both succeed.
+          const { scheduleIds, skippedDates } = await bookingRequestService.approveWithCallable(requestId, feedback);
+
+          const approvedDates = getOccurrenceDates(request).filter(date => !skippedDates.includes(date));
+          setBookingRequests(prev =>
+            prev.map(req => req.id === requestId ? { ...req, status: 'approved' as const, skippedDates } : req)
           );
+          // An approved change request replaces the original reservation in the same commit
+          const movedFrom = request.changeOf?.scheduleId;
+          setSchedules(prev => {
+            const original = movedFrom ? prev.find(s => s.id === movedFrom) : undefined;
+            const seriesId = request.recurrence ? request.id : original?.seriesId;
+            const created = scheduleIds.map((id, index) => ({
+              id,
+              classroomId: request.classroomId,
+              classroomName: request.classroomName,
+              facultyId: request.facultyId,
+              facultyName: request.facultyName,
+              date: approvedDates[index],
+              startTime: request.startTime,
+              endTime: request.endTime,
+              purpose: request.purpose,
+              ...(request.expectedAttendees ? { expectedAttendees: request.expectedAttendees } : {}),
+              ...(request.reservedEquipment?.length ? { reservedEquipment: request.reservedEquipment } : {}),
+              status: 'confirmed' as const,
+              ...(seriesId ? { seriesId } : {}),
+              ...(movedFrom ? { rescheduledFrom: movedFrom } : {})
+            }));
+            const updated = movedFrom
+              ? prev.map(s => s.id === movedFrom ? { ...s, status: 'cancelled' as const, rescheduledTo: scheduleIds[0] } : s)
+              : prev;
+            return [...updated, ...created];
+          });
 
-          if (hasConflict) {
-            throw new Error('Cannot approve: conflicts with existing confirmed booking. Please reject this request.');
+          return { approved, skipped: skippedDates.length };
+        }
+
+        if (groupId) {
+          const reason = feedback?.trim() ?? '';
+          if (!reason) {
+            throw new Error('A reason is required to reject an event booking');
           }
+          await bookingRequestService.rejectGroupWithCallable(groupId, reason);
+          setBookingRequests(prev =>
+            prev.map(req => req.groupId === groupId && req.status === 'pending'
+              ? { ...req, status: 'rejected' as const, adminFeedback: reason }
+              : req)
+          );
+          return { approved, skipped: 0 };
         }
 
         // Update the booking request status
-        const updateData: { status: 'approved' | 'rejected'; adminFeedback?: string } = {
-          status: approved ? 'approved' : 'rejected'
+        const updateData: { status: 'rejected'; adminFeedback?: string } = {
+          status: 'rejected'
         };
 
         // Only include adminFeedback if it's provided
@@ -1170,24 +1685,7 @@ export default function App() {
           prev.map(req => req.id === requestId ? updatedRequest : req)
         );
 
-        // Create schedule only if approved
-        if (approved) {
-          const newSchedule = await scheduleService.create({
-            classroomId: request.classroomId,
-            classroomName: request.classroomName,
-            facultyId: request.facultyId,
-            facultyName: request.facultyName,
-            date: request.date,
-            startTime: request.startTime,
-            endTime: request.endTime,
-            purpose: request.purpose,
-            status: 'confirmed'
-          });
-
-          setSchedules(prev => [...prev, newSchedule]);
-        }
-
-        return { approved };
+        return { approved, skipped: 0 };
       },
       {
         operationName: approved ? 'approve reservation' : 'reject reservation',
@@ -1198,7 +1696,9 @@ export default function App() {
     );
 
     if (result.success && !suppressToast) {
-      toast.success(result.data?.approved ? 'Reservation approved!' : 'Reservation rejected.');
+      toast.success(result.data?.approved ? 'Reservation approved!' : 'Reservation rejected.', result.data?.skipped
+        ? { description: `${result.data.skipped} conflicting occurrence(s) were skipped.` }
+        : undefined);
     } else if (!result.success) {
       // Error toast already shown by network handler, but log for debugging
       logger.error('Request approval failed:', result.error);
@@ -1210,7 +1710,7 @@ export default function App() {
         }
       }
     }
-  }, [bookingRequests, checkConflicts]);
+  }, [bookingRequests]);
 
   const handleSignupApproval = useCallback(
     async (requestId: string, approved: boolean, feedback?: string, skipConfirm: boolean = false) => {
@@ -1338,13 +1838,15 @@ export default function App() {
 
         await scheduleService.cancelApprovedBooking(scheduleId, feedback);
 
-        setSchedules(prev =>
-          prev.map(schedule =>
-            schedule.id === scheduleId
+        // The server cancels every room of an event booking together
+        setSchedules(prev => {
+          const groupId = prev.find(schedule => schedule.id === scheduleId)?.groupId;
+          return prev.map(schedule =>
+            schedule.id === scheduleId || (groupId && schedule.groupId === groupId && schedule.status === 'confirmed')
               ? { ...schedule, status: 'cancelled' as const, adminFeedback: feedback }
               : schedule
-          )
-        );
+          );
+        });
 
         return true;
       },
@@ -1377,6 +1879,26 @@ export default function App() {
           throw new Error('Cancellation reason is required');
         }
 
+        const seriesRequest = bookingRequests.find(req => req.id === requestId && !!req.recurrence);
+        if (seriesRequest) {
+          // Recurring series: the server cancels every upcoming occurrence and the series
+          // request together. Occurrences that already started are kept as history.
+          const cancelledIds = new Set(await scheduleService.cancelApprovedSeries(requestId, feedback));
+          setSchedules(prev =>
+            prev.map(schedule =>
+              cancelledIds.has(schedule.id) ? { ...schedule, status: 'cancelled' as const } : schedule
+            )
+          );
+          setBookingRequests(prev =>
+            prev.map(request =>
+              request.id === requestId
+                ? { ...request, status: 'cancelled' as const, adminFeedback: feedback }
+                : request
+            )
+          );
+          return true;
+        }
+
         // Find the corresponding schedule for this booking request
         const correspondingSchedule = schedules.find(schedule =>
           schedule.facultyId === bookingRequests.find(req => req.id === requestId)?.facultyId &&
@@ -1393,9 +1915,11 @@ export default function App() {
           // prevent duplicate notifications.
           await scheduleService.cancelApprovedBooking(correspondingSchedule.id, feedback);
 
+          // Every room of an event booking is cancelled with it
+          const groupId = correspondingSchedule.groupId;
           setSchedules(prev =>
             prev.map(schedule =>
-              schedule.id === correspondingSchedule.id
+              schedule.id === correspondingSchedule.id || (groupId && schedule.groupId === groupId && schedule.status === 'confirmed')
                 ? { ...schedule, status: 'cancelled' as const, ...(feedback ? { adminFeedback: feedback } : {}) }
                 : schedule
             )
@@ -1405,7 +1929,7 @@ export default function App() {
           // also update Firestore; this local update prevents a visual race.
           setBookingRequests(prev =>
             prev.map(request =>
-              request.id === requestId
+              request.id === requestId || (groupId && request.groupId === groupId && request.status === 'approved')
                 ? { ...request, status: 'cancelled' as const, adminFeedback: feedback }
                 : request
             )
@@ -1507,13 +2031,19 @@ export default function App() {
     toast.info('Rejection cancelled');
   }, []);
 
+  // Department approvers only see the requests of their departments
+  const scopedRequests = useMemo(
+    () => currentUser
+      ? scopeRequestsForApprover(currentUser, users, { bookingRequests, signupRequests, signupHistory })
+      : { bookingRequests, signupRequests, signupHistory },
+    [currentUser, users, bookingRequests, signupRequests, signupHistory]
+  );
+
   // Create dashboard props objects to prevent prop drilling and improve performance
   const adminDashboardProps = useMemo(() => ({
     user: currentUser!,
     classrooms,
-    bookingRequests,
-    signupRequests,
-    signupHistory,
+    ...scopedRequests,
     schedules,
     users,
     onLogout: handleLogout,
@@ -1523,8 +2053,8 @@ export default function App() {
     onCancelSchedule: handleCancelSchedule,
     onCancelApprovedBooking: handleCancelApprovedBooking,
     onUnlockAccount: handleUnlockAccount,
-    checkConflicts
-  }), [currentUser, classrooms, bookingRequests, signupRequests, signupHistory, schedules, users, handleLogout, handleClassroomUpdate, handleRequestApproval, handleSignupApproval, handleCancelSchedule, handleCancelApprovedBooking, handleUnlockAccount, checkConflicts]);
+    findConflicts
+  }), [currentUser, classrooms, scopedRequests, schedules, users, handleLogout, handleClassroomUpdate, handleRequestApproval, handleSignupApproval, handleCancelSchedule, handleCancelApprovedBooking, handleUnlockAccount, findConflicts]);
 
   const facultyDashboardProps = useMemo(() => ({
     user: currentUser!,
@@ -1535,11 +2065,14 @@ export default function App() {
     allBookingRequests: bookingRequests,
     onLogout: handleLogout,
     onBookingRequest: handleBookingRequest,
+    onBookingGroupRequest: handleBookingGroupRequest,
+    onRequestScheduleChange: handleScheduleChangeRequest,
     checkConflicts,
+    findConflicts,
     // External prefill support: FacultyDashboard will consume this and then call back
     externalInitialData: externalBookingPrefill,
     onExternalInitialDataConsumed: () => setExternalBookingPrefill(null),
-  }), [currentUser, classrooms, facultySchedules, schedules, facultyBookingRequests, bookingRequests, handleLogout, handleBookingRequest, checkConflicts, externalBookingPrefill]);
+  }), [currentUser, classrooms, facultySchedules, schedules, facultyBookingRequests, bookingRequests, handleLogout, handleBookingRequest, handleBookingGroupRequest, handleScheduleChangeRequest, checkConflicts, findConflicts, externalBookingPrefill]);
 
   // Preload logos on mount for instant availability
   useEffect(() => {
@@ -2298,11 +2831,16 @@ export default function App() {
               <ErrorBoundary>
                 <Suspense fallback={<SuspenseFallback message={loadingMessage ?? 'Loading...'} show={showOverlay} hide={hideOverlay} />}>
                   {/* Render the appropriate dashboard directly (react-router removed). */}
-                  {activeUser.role === 'admin' ? (
+                  {usesAdminDashboard(activeUser) ? (
                     <AdminDashboard {...adminDashboardProps} />
                   ) : (
                     <FacultyDashboard {...facultyDashboardProps} />
                   )}
+                  <CheckInDialog
+                    classroomId={checkInClassroomId}
+                    classrooms={classrooms}
+                    onClose={() => setCheckInClassroomId(null)}
+                  />
                 </Suspense>
               </ErrorBoundary>
                   {/* Using the single inline PLV loader for Suspense fallback; no portal loader mounted */}
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { CalendarDays, Plus, X, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { academicCalendarService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { ALL_BUILDINGS } from '../utils/academicCalendar';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import type { AcademicCalendar, CalendarBlackout, Classroom, User } from '../App';
+
+interface AcademicCalendarSettingsProps {
+  user: User;
+  classrooms: Classroom[];
+}
+
+type CalendarDraft = Omit<AcademicCalendar, 'updatedAt' | 'updatedBy'>;
+
+const EMPTY_CALENDAR: CalendarDraft = { termName: '', termStart: '', termEnd: '', holidays: [], blackouts: [] };
+
+export default function AcademicCalendarSettings({ user, classrooms }: AcademicCalendarSettingsProps) {
+  const [draft, setDraft] = useState<CalendarDraft>(EMPTY_CALENDAR);
+  const [lastUpdated, setLastUpdated] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [holidayInput, setHolidayInput] = useState({ date: '', name: '' });
+  const [blackoutInput, setBlackoutInput] = useState({ building: ALL_BUILDINGS, startDate: '', endDate: '', reason: '' });
+
+  const buildings = useMemo(
+    () => Array.from(new Set(classrooms.map(c => c.building).filter(Boolean))).sort(),
+    [classrooms]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    academicCalendarService.get()
+      .then((calendar) => {
+        if (cancelled || !calendar) return;
+        setDraft({
+          termName: calendar.termName ?? '',
+          termStart: calendar.termStart ?? '',
+          termEnd: calendar.termEnd ?? '',
+          holidays: calendar.holidays,
+          blackouts: calendar.blackouts,
+        });
+        setLastUpdated(calendar.updatedAt);
+      })
+      .catch((err) => {
+        logger.error('Failed to load academic calendar:', err);
+        toast.error('Failed to load the academic calendar');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const termError = draft.termStart && draft.termEnd && draft.termEnd < draft.termStart
+    ? 'Term end must be on or after the term start.'
+    : '';
+
+  const addHoliday = () => {
+    const name = holidayInput.name.trim();
+    if (!holidayInput.date || !name) {
+      toast.error('Holiday date and name are required');
+      return;
+    }
+    if (draft.holidays.some(h => h.date === holidayInput.date)) {
+      toast.error('That date is already listed as a holiday');
+      return;
+    }
+    setDraft(prev => ({ ...prev, holidays: [...prev.holidays, { date: holidayInput.date, name }].sort((a, b) => a.date.localeCompare(b.date)) }));
+    setHolidayInput({ date: '', name: '' });
+  };
+
+  const addBlackout = () => {
+    const reason = blackoutInput.reason.trim();
+    if (!blackoutInput.startDate || !blackoutInput.endDate || !reason) {
+      toast.error('Blackout dates and reason are required');
+      return;
+    }
+    if (blackoutInput.endDate < blackoutInput.startDate) {
+      toast.error('Blackout end date must be on or after its start date');
+      return;
+    }
+    const blackout: CalendarBlackout = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      building: blackoutInput.building,
+      startDate: blackoutInput.startDate,
+      endDate: blackoutInput.endDate,
+      reason,
+    };
+    setDraft(prev => ({ ...prev, blackouts: [...prev.blackouts, blackout].sort((a, b) => a.startDate.localeCompare(b.startDate)) }));
+    setBlackoutInput({ building: ALL_BUILDINGS, startDate: '', endDate: '', reason: '' });
+  };
+
+  const handleSave = async () => {
+    if (termError) {
+      toast.error(termError);
+      return;
+    }
+    setSaving(true);
+    try {
+      await academicCalendarService.save({
+        ...draft,
+        termName: draft.termName?.trim() || undefined,
+        termStart: draft.termStart || undefined,
+        termEnd: draft.termEnd || undefined,
+      }, user.id);
+      setLastUpdated(new Date().toISOString());
+      toast.success('Academic calendar saved');
+    } catch (err) {
+      logger.error('Failed to save academic calendar:', err);
+      toast.error('Failed to save the academic calendar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading academic calendar…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Academic Calendar
+        </CardTitle>
+        <CardDescription>
+          Reservations are only accepted within the term, and never on holidays or blackout dates.
+          {lastUpdated && <span className="block text-xs mt-1">Last updated {new Date(lastUpdated).toLocaleString()}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ProcessingFieldset isProcessing={saving} className="space-y-6">
+          {/* Term */}
+          <div className="space-y-2">
+            <h4 className="font-medium">Term</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="term-name">Name</Label>
+                <Input
+                  id="term-name"
+                  placeholder="e.g. 1st Semester AY 2025-2026"
+                  value={draft.termName ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, termName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="term-start">Start date</Label>
+                <Input
+                  id="term-start"
+                  type="date"
+                  value={draft.termStart ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, termStart: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="term-end">End date</Label>
+                <Input
+                  id="term-end"
+                  type="date"
+                  value={draft.termEnd ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, termEnd: e.target.value }))}
+                />
+              </div>
+            </div>
+            {termError && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {termError}
+              </p>
+            )}
+          </div>
+
+          {/* Holidays */}
+          <div className="space-y-2">
+            <h4 className="font-medium">Holidays</h4>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="date"
+                aria-label="Holiday date"
+                value={holidayInput.date}
+                onChange={(e) => setHolidayInput(prev => ({ ...prev, date: e.target.value }))}
+                className="sm:w-44"
+              />
+              <Input
+                aria-label="Holiday name"
+                placeholder="Holiday name"
+                value={holidayInput.name}
+                onChange={(e) => setHolidayInput(prev => ({ ...prev, name: e.target.value }))}
+              />
+              <Button type="button" variant="outline" onClick={addHoliday}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+            {draft.holidays.length === 0 ? (
+              <p className="text-sm text-gray-500">No holidays added.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {draft.holidays.map((holiday) => (
+                  <Badge key={holiday.date} variant="secondary" className="flex items-center gap-1 pr-1">
+                    <span>{holiday.date} · {holiday.name}</span>
+                    <button
+                      type="button"
+                      className="ml-1 hover:bg-gray-300 rounded-full p-0.5"
+                      aria-label={`Remove holiday ${holiday.name}`}
+                      onClick={() => setDraft(prev => ({ ...prev, holidays: prev.holidays.filter(h => h.date !== holiday.date) }))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Blackouts */}
+          <div className="space-y-2">
+            <h4 className="font-medium">Blackout Dates</h4>
+            <p className="text-sm text-gray-600">Close a building (or every building) for a range of days, e.g. exam weeks or class suspensions.</p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+              <Select value={blackoutInput.building} onValueChange={(value) => setBlackoutInput(prev => ({ ...prev, building: value }))}>
+                <SelectTrigger aria-label="Blackout building">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_BUILDINGS}>All buildings</SelectItem>
+                  {buildings.map((building) => (
+                    <SelectItem key={building} value={building}>{building}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                aria-label="Blackout start date"
+                value={blackoutInput.startDate}
+                onChange={(e) => setBlackoutInput(prev => ({ ...prev, startDate: e.target.value }))}
+              />
+              <Input
+                type="date"
+                aria-label="Blackout end date"
+                min={blackoutInput.startDate || undefined}
+                value={blackoutInput.endDate}
+                onChange={(e) => setBlackoutInput(prev => ({ ...prev, endDate: e.target.value }))}
+              />
+              <Input
+                aria-label="Blackout reason"
+                placeholder="Reason"
+                value={blackoutInput.reason}
+                onChange={(e) => setBlackoutInput(prev => ({ ...prev, reason: e.target.value }))}
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={addBlackout}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add blackout
+            </Button>
+            {draft.blackouts.length === 0 ? (
+              <p className="text-sm text-gray-500">No blackout dates added.</p>
+            ) : (
+              <ul className="divide-y border rounded-md">
+                {draft.blackouts.map((blackout) => (
+                  <li key={blackout.id} className="flex items-center justify-between gap-2 p-2 text-sm">
+                    <div>
+                      <span className="font-medium">{blackout.building === ALL_BUILDINGS ? 'All buildings' : blackout.building}</span>
+                      <span className="text-gray-600"> · {blackout.startDate}{blackout.endDate !== blackout.startDate ? ` to ${blackout.endDate}` : ''} · {blackout.reason}</span>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      aria-label={`Remove blackout ${blackout.reason}`}
+                      onClick={() => setDraft(prev => ({ ...prev, blackouts: prev.blackouts.filter(b => b.id !== blackout.id) }))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleSave} disabled={saving || !!termError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Calendar
+            </Button>
+          </div>
+        </ProcessingFieldset>
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,18 +20,29 @@ import {
   UserPlus,
   UserCog,
   Loader2,
-  Shield
+  Shield,
+  Package
 } from 'lucide-react';
 import { toast } from 'sonner';
 
 
 // Lazy-load heavier admin panels to reduce initial bundle size
 const ClassroomManagement = React.lazy(() => import('./ClassroomManagement'));
+const BuildingManagement = React.lazy(() => import('./BuildingManagement'));
+const EquipmentManagement = React.lazy(() => import('./EquipmentManagement'));
 const RequestApproval = React.lazy(() => import('./RequestApproval'));
 const SignupApproval = React.lazy(() => import('./SignupApproval'));
 const ScheduleViewer = React.lazy(() => import('./ScheduleViewer'));
+const TimetableImport = React.lazy(() => import('./TimetableImport'));
 const AdminReports = React.lazy(() => import('./AdminReports'));
 const ProfileSettings = React.lazy(() => import('./ProfileSettings'));
+const AcademicCalendarSettings = React.lazy(() => import('./AcademicCalendarSettings'));
+const OperatingHoursSettings = React.lazy(() => import('./OperatingHoursSettings'));
+const BookingPolicySettings = React.lazy(() => import('./BookingPolicySettings'));
+const AutoApprovalSettings = React.lazy(() => import('./AutoApprovalSettings'));
+const CheckInSettings = React.lazy(() => import('./CheckInSettings'));
+const DisplaySettings = React.lazy(() => import('./DisplaySettings'));
+const SchemaMigrations = React.lazy(() => import('./SchemaMigrations'));
 import NotificationBell from './NotificationBell';
 import NotificationCenter from './NotificationCenter';
 import { OfflineNotice } from './OfflineNotice';
@@ -44,7 +55,7 @@ const AuditLogsViewer = React.lazy(() => import('./AuditLogsViewer'));
 /* spinner removed by request; fallbacks reverted to text */
 import { userService, adminDeleteUser } from '../lib/firebaseService';
 import { notificationService } from '../lib/notificationService';
-import type { User, Classroom, BookingRequest, SignupRequest, SignupHistory, Schedule } from '../App';
+import type { User, Classroom, BookingRequest, SignupRequest, SignupHistory, Schedule, ScheduleSlot, BookingConflict } from '../App';
 
 interface AdminDashboardProps {
   user: User;
@@ -61,7 +72,7 @@ interface AdminDashboardProps {
   onCancelSchedule: (scheduleId: string, reason: string) => void;
   onCancelApprovedBooking?: (requestId: string, reason: string) => void;
   onUnlockAccount?: (userId: string) => Promise<void>;
-  checkConflicts: (classroomId: string, date: string, startTime: string, endTime: string, checkPastTime?: boolean) => boolean | Promise<boolean>;
+  findConflicts: (classroomId: string, date: string, startTime: string, endTime: string, excludeRequestId?: string, excludeSchedule?: ScheduleSlot) => Promise<BookingConflict[]>;
 }
 
 export default function AdminDashboard({
@@ -79,16 +90,21 @@ export default function AdminDashboard({
   onCancelSchedule,
   onCancelApprovedBooking,
   onUnlockAccount,
-  checkConflicts
+  findConflicts
 }: AdminDashboardProps) {
   const { announce } = useAnnouncer();
-  const allowedTabs = ['overview','classrooms','requests','signups','schedule','reports','settings','user-management','audit-logs'] as const;
+  // Department approvers only decide requests; managing rooms, users and settings stays with admins
+  const isApprover = user.role === 'approver';
+  const allowedTabs: readonly string[] = isApprover
+    ? ['overview','requests','signups','schedule','settings']
+    : ['overview','classrooms','equipment','requests','signups','schedule','reports','settings','user-management','audit-logs'];
+  const showTab = (tab: string) => allowedTabs.includes(tab);
   
   // Read initial tab from URL path or default to overview
   const getInitialTab = (): string => {
     const path = window.location.pathname.split('/').filter(Boolean);
     const lastSegment = path[path.length - 1];
-    return allowedTabs.includes(lastSegment as any) ? lastSegment : 'overview';
+    return allowedTabs.includes(lastSegment) ? lastSegment : 'overview';
   };
   
   const [activeTab, setActiveTab] = useState<string>(getInitialTab());
@@ -247,7 +263,7 @@ export default function AdminDashboard({
   const totalClassrooms = classrooms.length;
   const availableClassrooms = classrooms.filter(c => c.isAvailable).length;
   // Consider a request pending only if its status is 'pending' and its booking time is not already past
-  const pendingRequests = bookingRequests.filter(r => r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime))).length;
+  const pendingRequests = bookingRequests.filter(r => r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime), r.startAt)).length;
   const pendingSignups = signupRequests.filter(r => r.status === 'pending').length;
   const todaySchedules = schedules.filter(s => {
     const today = new Date().toISOString().split('T')[0];
@@ -300,7 +316,7 @@ export default function AdminDashboard({
               <Building2 className="h-6 w-6 sm:h-7 sm:w-7 md:h-8 md:w-8 text-blue-600 flex-shrink-0" />
               
               <div className="min-w-0 flex-1">
-                <h1 className="text-base sm:text-lg md:text-xl lg:text-2xl font-semibold text-gray-900 truncate">PLV CEIT Admin Dashboard</h1>
+                <h1 className="text-base sm:text-lg md:text-xl lg:text-2xl font-semibold text-gray-900 truncate">{isApprover ? 'PLV CEIT Department Approver Dashboard' : 'PLV CEIT Admin Dashboard'}</h1>
                 <p className="text-xs sm:text-sm md:text-base text-gray-600 hidden sm:block truncate">Classroom Reservation Management System</p>
               </div>
             </div>
@@ -358,15 +374,23 @@ export default function AdminDashboard({
       <div className="p-3 sm:p-4 md:p-6 lg:p-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4 sm:space-y-5 md:space-y-6">
           {/* Desktop Tab Layout */}
-          <TabsList className="hidden lg:grid w-full grid-cols-9 mx-auto max-w-full gap-0.5 md:gap-1 p-0.5 md:p-1">
+          <TabsList className={`hidden lg:grid w-full ${isApprover ? 'grid-cols-5' : 'grid-cols-10'} mx-auto max-w-full gap-0.5 md:gap-1 p-0.5 md:p-1`}>
             <TabsTrigger value="overview" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
               <BarChart3 className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
               <span className="hidden xl:inline">Overview</span>
             </TabsTrigger>
-            <TabsTrigger value="classrooms" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
-              <Settings className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
-              <span className="hidden xl:inline">Classrooms</span>
-            </TabsTrigger>
+            {showTab('classrooms') && (
+              <TabsTrigger value="classrooms" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
+                <Settings className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
+                <span className="hidden xl:inline">Classrooms</span>
+              </TabsTrigger>
+            )}
+            {showTab('equipment') && (
+              <TabsTrigger value="equipment" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
+                <Package className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
+                <span className="hidden xl:inline">Equipment</span>
+              </TabsTrigger>
+            )}
                 <TabsTrigger value="requests" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2 relative">
               <Users className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
               <span className="hidden xl:inline">Classroom Requests</span>
@@ -389,22 +413,28 @@ export default function AdminDashboard({
               <Calendar className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
               <span className="hidden xl:inline">Schedule</span>
             </TabsTrigger>
-            <TabsTrigger value="reports" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
-              <FileText className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
-              <span className="hidden xl:inline">Reports</span>
-            </TabsTrigger>
-            <TabsTrigger value="user-management" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
-              <Users className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
-              <span className="hidden xl:inline">Users</span>
-            </TabsTrigger>
+            {showTab('reports') && (
+              <TabsTrigger value="reports" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
+                <FileText className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
+                <span className="hidden xl:inline">Reports</span>
+              </TabsTrigger>
+            )}
+            {showTab('user-management') && (
+              <TabsTrigger value="user-management" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
+                <Users className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
+                <span className="hidden xl:inline">Users</span>
+              </TabsTrigger>
+            )}
             <TabsTrigger value="settings" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
               <UserCog className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
               <span className="hidden xl:inline">Settings</span>
             </TabsTrigger>
-            <TabsTrigger value="audit-logs" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
-              <Shield className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
-              <span className="hidden xl:inline">Audit</span>
-            </TabsTrigger>
+            {showTab('audit-logs') && (
+              <TabsTrigger value="audit-logs" className="flex items-center justify-center space-x-1 text-xs md:text-sm px-1 md:px-2 py-1.5 md:py-2">
+                <Shield className="h-3 w-3 md:h-4 md:w-4 flex-shrink-0" />
+                <span className="hidden xl:inline">Audit</span>
+              </TabsTrigger>
+            )}
           </TabsList>
           
           {/* Mobile & Tablet Horizontal Scrollable Tabs */}
@@ -414,10 +444,18 @@ export default function AdminDashboard({
                 <BarChart3 className="h-4 w-4 flex-shrink-0" />
                 <span>Overview</span>
               </TabsTrigger>
-              <TabsTrigger value="classrooms" className="mobile-tab-item flex items-center space-x-2">
-                <Settings className="h-4 w-4 flex-shrink-0" />
-                <span>Rooms</span>
-              </TabsTrigger>
+              {showTab('classrooms') && (
+                <TabsTrigger value="classrooms" className="mobile-tab-item flex items-center space-x-2">
+                  <Settings className="h-4 w-4 flex-shrink-0" />
+                  <span>Rooms</span>
+                </TabsTrigger>
+              )}
+              {showTab('equipment') && (
+                <TabsTrigger value="equipment" className="mobile-tab-item flex items-center space-x-2">
+                  <Package className="h-4 w-4 flex-shrink-0" />
+                  <span>Equipment</span>
+                </TabsTrigger>
+              )}
               <TabsTrigger value="requests" className="mobile-tab-item flex items-center space-x-2 relative">
                 <Users className="h-4 w-4 flex-shrink-0" />
                 <span>Requests</span>
@@ -440,22 +478,28 @@ export default function AdminDashboard({
                 <Calendar className="h-4 w-4 flex-shrink-0" />
                 <span>Schedule</span>
               </TabsTrigger>
-              <TabsTrigger value="reports" className="mobile-tab-item flex items-center space-x-2">
-                <FileText className="h-4 w-4 flex-shrink-0" />
-                <span>Reports</span>
-              </TabsTrigger>
-              <TabsTrigger value="user-management" className="mobile-tab-item flex items-center space-x-2">
-                <Users className="h-4 w-4 flex-shrink-0" />
-                <span>Users</span>
-              </TabsTrigger>
+              {showTab('reports') && (
+                <TabsTrigger value="reports" className="mobile-tab-item flex items-center space-x-2">
+                  <FileText className="h-4 w-4 flex-shrink-0" />
+                  <span>Reports</span>
+                </TabsTrigger>
+              )}
+              {showTab('user-management') && (
+                <TabsTrigger value="user-management" className="mobile-tab-item flex items-center space-x-2">
+                  <Users className="h-4 w-4 flex-shrink-0" />
+                  <span>Users</span>
+                </TabsTrigger>
+              )}
               <TabsTrigger value="settings" className="mobile-tab-item flex items-center space-x-2">
                 <UserCog className="h-4 w-4 flex-shrink-0" />
                 <span>Settings</span>
               </TabsTrigger>
-              <TabsTrigger value="audit-logs" className="mobile-tab-item flex items-center space-x-2">
-                <Shield className="h-4 w-4 flex-shrink-0" />
-                <span>Audit Logs</span>
-              </TabsTrigger>
+              {showTab('audit-logs') && (
+                <TabsTrigger value="audit-logs" className="mobile-tab-item flex items-center space-x-2">
+                  <Shield className="h-4 w-4 flex-shrink-0" />
+                  <span>Audit Logs</span>
+                </TabsTrigger>
+              )}
             </TabsList>
             <div className="tab-scroll-indicator"></div>
           </div>
@@ -463,46 +507,48 @@ export default function AdminDashboard({
           <TabsContent value="overview" className="space-y-4 sm:space-y-5 md:space-y-6">
             {/* Statistics Cards */}
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 sm:gap-4 md:gap-5 lg:gap-6 animate-in">
-              <div className="transition-all duration-300 hover:-translate-y-1">
-                <Card 
-                  className="h-full stat-card-clickable cursor-pointer" 
-                  onClick={() => setActiveTab('classrooms')}
-                  title="Click to view classroom management"
-                >
-                  <CardContent className="p-4 sm:p-5 md:p-6">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-xs sm:text-sm font-medium text-gray-600">Total Classrooms</p>
-                        <p className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-900">{totalClassrooms}</p>
-                      </div>
-                      <div className="transition-transform hover:rotate-12">
-                        <Building2 className="h-6 w-6 sm:h-7 sm:w-7 md:h-8 md:w-8 text-blue-600" />
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
-              
-
-              <div className="transition-all duration-300 hover:-translate-y-1">
-                <Card 
-                  className="h-full stat-card-clickable cursor-pointer" 
-                  onClick={() => setActiveTab('classrooms')}
-                  title="Click to view classroom management"
-                >
-                  <CardContent className="p-6">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm font-medium text-gray-600">Available Rooms</p>
-                        <p className="text-3xl font-bold text-green-600">{availableClassrooms}</p>
-                      </div>
-                      <div className="transition-transform hover:scale-110">
-                        <CheckCircle className="h-8 w-8 text-green-600" />
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
+              {!isApprover && (
+                <>
+                  <div className="transition-all duration-300 hover:-translate-y-1">
+                    <Card 
+                      className="h-full stat-card-clickable cursor-pointer" 
+                      onClick={() => setActiveTab('classrooms')}
+                      title="Click to view classroom management"
+                    >
+                      <CardContent className="p-4 sm:p-5 md:p-6">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="text-xs sm:text-sm font-medium text-gray-600">Total Classrooms</p>
+                            <p className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-900">{totalClassrooms}</p>
+                          </div>
+                          <div className="transition-transform hover:rotate-12">
+                            <Building2 className="h-6 w-6 sm:h-7 sm:w-7 md:h-8 md:w-8 text-blue-600" />
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                  <div className="transition-all duration-300 hover:-translate-y-1">
+                    <Card 
+                      className="h-full stat-card-clickable cursor-pointer" 
+                      onClick={() => setActiveTab('classrooms')}
+                      title="Click to view classroom management"
+                    >
+                      <CardContent className="p-6">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-medium text-gray-600">Available Rooms</p>
+                            <p className="text-3xl font-bold text-green-600">{availableClassrooms}</p>
+                          </div>
+                          <div className="transition-transform hover:scale-110">
+                            <CheckCircle className="h-8 w-8 text-green-600" />
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                </>
+              )}
 
               <div className="transition-all duration-300 hover:-translate-y-1">
                 <Card 
@@ -580,7 +626,7 @@ export default function AdminDashboard({
                   ) : (
                     <div className="space-y-4">
                       {recentRequests.map((request, index) => {
-                        const isExpired = request.status === 'expired' || (request.status === 'pending' && isPastBookingTime(request.date, convertTo12Hour(request.startTime)));
+                        const isExpired = request.status === 'expired' || (request.status === 'pending' && isPastBookingTime(request.date, convertTo12Hour(request.startTime), request.startAt));
                         return (
                           <div 
                             key={request.id} 
@@ -714,7 +760,7 @@ export default function AdminDashboard({
             </div>
 
             {/* Locked Accounts Warning */}
-            {users && users.filter(u => u.accountLocked).length > 0 && (
+            {!isApprover && users && users.filter(u => u.accountLocked).length > 0 && (
               <div className="animate-in" style={{ animationDelay: '0.4s' }}>
                 <Card className="border-red-200 bg-red-50 transition-shadow duration-200 hover:shadow-lg">
                         <CardHeader>
@@ -796,19 +842,37 @@ export default function AdminDashboard({
             )}
           </TabsContent>
 
-          <TabsContent value="classrooms">
-            <div className="animate-in">
-              <OfflineNotice showCachedMessage />
-              <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading classrooms. Please refresh the page.</div>}>
-                <Suspense fallback={<div className="p-4">Loading classrooms…</div>}>
-                  <ClassroomManagement
-                    classrooms={classrooms}
-                    onClassroomUpdate={onClassroomUpdate}
-                  />
-                </Suspense>
-              </ErrorBoundary>
-            </div>
-          </TabsContent>
+          {showTab('classrooms') && (
+            <TabsContent value="classrooms">
+              <div className="animate-in">
+                <OfflineNotice showCachedMessage />
+                <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading classrooms. Please refresh the page.</div>}>
+                  <Suspense fallback={<div className="p-4">Loading classrooms…</div>}>
+                    <div className="space-y-6">
+                      <ClassroomManagement
+                        classrooms={classrooms}
+                        onClassroomUpdate={onClassroomUpdate}
+                      />
+                      <BuildingManagement classrooms={classrooms} />
+                    </div>
+                  </Suspense>
+                </ErrorBoundary>
+              </div>
+            </TabsContent>
+          )}
+
+          {showTab('equipment') && (
+            <TabsContent value="equipment">
+              <div className="animate-in">
+                <OfflineNotice showCachedMessage />
+                <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading equipment. Please refresh the page.</div>}>
+                  <Suspense fallback={<div className="p-4">Loading equipment…</div>}>
+                    <EquipmentManagement schedules={schedules} />
+                  </Suspense>
+                </ErrorBoundary>
+              </div>
+            </TabsContent>
+          )}
 
           <TabsContent value="requests">
             <div className="animate-in">
@@ -817,9 +881,11 @@ export default function AdminDashboard({
                 <Suspense fallback={<div className="p-4">Loading requests…</div>}>
                   <RequestApproval
                     requests={bookingRequests}
+                    classrooms={classrooms}
+                    users={users}
                     onRequestApproval={onRequestApproval}
-                    onCancelApproved={onCancelApprovedBooking}
-                    checkConflicts={checkConflicts}
+                    onCancelApproved={isApprover ? undefined : onCancelApprovedBooking}
+                    findConflicts={findConflicts}
                     userId={user?.id}
                     initialTab={requestsInitialTab ?? undefined}
                     onInitialTabConsumed={() => setRequestsInitialTab(null)}
@@ -851,203 +917,227 @@ export default function AdminDashboard({
               <OfflineNotice showCachedMessage />
               <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading schedule. Please refresh the page.</div>}>
                 <Suspense fallback={<div className="p-4">Loading schedule…</div>}>
+                  {!isApprover && (
+                    <div className="mb-6">
+                      <TimetableImport classrooms={classrooms} users={users} schedules={schedules} bookingRequests={bookingRequests} />
+                    </div>
+                  )}
                   <ScheduleViewer
                     schedules={schedules}
                     classrooms={classrooms}
-                    onCancelSchedule={onCancelSchedule}
+                    onCancelSchedule={isApprover ? undefined : onCancelSchedule}
                   />
                 </Suspense>
               </ErrorBoundary>
             </div>
           </TabsContent>
 
-          <TabsContent value="reports">
-            <div className="animate-in">
-              <OfflineNotice showCachedMessage />
-              <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading reports. Please refresh the page.</div>}>
-                <Suspense fallback={<div className="p-4">Loading reports…</div>}>
-                  <AdminReports
-                    classrooms={classrooms}
-                    bookingRequests={bookingRequests}
-                    schedules={schedules}
-                    signupRequests={signupRequests}
-                  />
-                </Suspense>
-              </ErrorBoundary>
-            </div>
-          </TabsContent>
+          {showTab('reports') && (
+            <TabsContent value="reports">
+              <div className="animate-in">
+                <OfflineNotice showCachedMessage />
+                <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading reports. Please refresh the page.</div>}>
+                  <Suspense fallback={<div className="p-4">Loading reports…</div>}>
+                    <AdminReports
+                      classrooms={classrooms}
+                      bookingRequests={bookingRequests}
+                      schedules={schedules}
+                      signupRequests={signupRequests}
+                    />
+                  </Suspense>
+                </ErrorBoundary>
+              </div>
+            </TabsContent>
+          )}
 
           {/* Settings tab rendered once above; duplicate block removed to avoid rendering ProfileSettings twice */}
 
-          <TabsContent value="user-management">
-            <div className="animate-in">
-              <OfflineNotice showCachedMessage />
-              <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading user management. Please refresh the page.</div>}>
-                <Suspense fallback={<div className="p-4">Loading user management…</div>}>
-                <AdminUserManagement users={users} processingUserId={processingUserId}
-                onDisableUser={async (id: string, lockReason: string) => {
-                  // Use admin-specific lock so the account is marked as admin-disabled
-                  // and does not auto-unlock.
-                  setProcessingUserId(id);
-                  try {
-                    const res: any = await userService.lockAccountByAdmin(id, lockReason);
-                    const out = res || { success: true, message: 'Account locked by admin' };
-                    if (out?.message) toast.success(out.message);
-                    return out;
-                  } catch (err: any) {
-                    console.error('Lock account (admin) error', err);
-                    const msg = err?.message || 'Failed to lock account';
-                    toast.error(msg);
-                    return { success: false, message: msg };
-                  } finally {
-                    setProcessingUserId(null);
-                  }
-                }}
-                onEnableUser={async (id: string) => {
-                  setProcessingUserId(id);
-                  try {
-                    const res: any = await userService.unlockAccount(id);
-                    const out = res || { success: true, message: 'Account enabled' };
-                    if (out?.message) toast.success(out.message);
-                    return out;
-                  } catch (err: any) {
-                    console.error('Enable account error', err);
-                    const msg = err?.message || 'Failed to enable account';
-                    toast.error(msg);
-                    return { success: false, message: msg };
-                  } finally {
-                    setProcessingUserId(null);
-                  }
-                }}
-                onDeleteUser={async (id: string, hard?: boolean) => {
-                  setProcessingUserId(id);
-                  try {
-                    const res = await adminDeleteUser(id, !!hard);
-                    const out = res as any;
-                    // Build a single consolidated success message to avoid duplicate toasts
-                    const baseMsg = out?.message ?? 'User deleted';
-                    if (typeof out?.deletedSignupRequests === 'number' && out.deletedSignupRequests > 0) {
-                      const n = out.deletedSignupRequests;
-                      const combined = `${baseMsg} — ${n} pending signup request${n > 1 ? 's' : ''} removed`;
-                      toast.success(combined);
-                    } else if (baseMsg) {
-                      toast.success(baseMsg);
+          {showTab('user-management') && (
+            <TabsContent value="user-management">
+              <div className="animate-in">
+                <OfflineNotice showCachedMessage />
+                <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading user management. Please refresh the page.</div>}>
+                  <Suspense fallback={<div className="p-4">Loading user management…</div>}>
+                  <AdminUserManagement users={users} processingUserId={processingUserId}
+                  onDisableUser={async (id: string, lockReason: string) => {
+                    // Use admin-specific lock so the account is marked as admin-disabled
+                    // and does not auto-unlock.
+                    setProcessingUserId(id);
+                    try {
+                      const res: any = await userService.lockAccountByAdmin(id, lockReason);
+                      const out = res || { success: true, message: 'Account locked by admin' };
+                      if (out?.message) toast.success(out.message);
+                      return out;
+                    } catch (err: any) {
+                      console.error('Lock account (admin) error', err);
+                      const msg = err?.message || 'Failed to lock account';
+                      toast.error(msg);
+                      return { success: false, message: msg };
+                    } finally {
+                      setProcessingUserId(null);
+                    }
+                  }}
+                  onEnableUser={async (id: string) => {
+                    setProcessingUserId(id);
+                    try {
+                      const res: any = await userService.unlockAccount(id);
+                      const out = res || { success: true, message: 'Account enabled' };
+                      if (out?.message) toast.success(out.message);
+                      return out;
+                    } catch (err: any) {
+                      console.error('Enable account error', err);
+                      const msg = err?.message || 'Failed to enable account';
+                      toast.error(msg);
+                      return { success: false, message: msg };
+                    } finally {
+                      setProcessingUserId(null);
+                    }
+                  }}
+                  onDeleteUser={async (id: string, hard?: boolean) => {
+                    setProcessingUserId(id);
+                    try {
+                      const res = await adminDeleteUser(id, !!hard);
+                      const out = res as any;
+                      // Build a single consolidated success message to avoid duplicate toasts
+                      const baseMsg = out?.message ?? 'User deleted';
+                      if (typeof out?.deletedSignupRequests === 'number' && out.deletedSignupRequests > 0) {
+                        const n = out.deletedSignupRequests;
+                        const combined = `${baseMsg} — ${n} pending signup request${n > 1 ? 's' : ''} removed`;
+                        toast.success(combined);
+                      } else if (baseMsg) {
+                        toast.success(baseMsg);
+                      }
+                      return out;
+                    } catch (err: any) {
+                      console.error('Delete user error', err);
+                      const msg = err?.message || 'Failed to delete user';
+                      toast.error(msg);
+                      return { success: false, message: msg };
+                    } finally {
+                      setProcessingUserId(null);
+                    }
+                  }}
+                  onChangeRole={async (id: string, role: User['role'] | undefined) => {
+                    if (!role) {
+                      toast.error('Invalid role');
+                      return { success: false, message: 'Invalid role' };
                     }
-                    return out;
-                  } catch (err: any) {
-                    console.error('Delete user error', err);
-                    const msg = err?.message || 'Failed to delete user';
-                    toast.error(msg);
-                    return { success: false, message: msg };
-                  } finally {
-                    setProcessingUserId(null);
-                  }
-                }}
-                onChangeRole={async (id: string, role: 'admin' | 'faculty' | undefined) => {
-                  if (!role) {
-                    toast.error('Invalid role');
-                    return { success: false, message: 'Invalid role' };
-                  }
                   
-                  setProcessingUserId(id);
-                  try {
-                    // Import the custom claims service
-                    const { customClaimsService } = await import('../lib/customClaimsService');
+                    setProcessingUserId(id);
+                    try {
+                      // Import the custom claims service
+                      const { customClaimsService } = await import('../lib/customClaimsService');
                     
-                    // Use the new changeUserRole function which automatically updates custom claims
-                    const result = await customClaimsService.changeUserRole(id, role);
+                      // Use the new changeUserRole function which automatically updates custom claims
+                      const result = await customClaimsService.changeUserRole(id, role);
                     
-                    // Only show success toast, not error (error is shown in catch block)
-                    if (result.success) {
-                      toast.success(result.message);
-                    } else {
-                      // If the function returns success: false, show the error message
-                      toast.error(result.message);
-                    }
+                      // Only show success toast, not error (error is shown in catch block)
+                      if (result.success) {
+                        toast.success(result.message);
+                      } else {
+                        // If the function returns success: false, show the error message
+                        toast.error(result.message);
+                      }
 
-                    // Infer whether the target user has a recent sign-in (active session).
-                    // If their lastSignInAt is within the last 60 minutes, flag them as likely logged in.
-                    let notifyCurrentlyLoggedIn = false;
-                    try {
-                      // Fetch user data to check last sign in
-                      const userData = await userService.getById(id);
-                      const last = userData?.lastSignInAt;
-                      if (last) {
-                        const lastDate = new Date(last);
-                        if (!isNaN(lastDate.getTime())) {
-                          const mins = (Date.now() - lastDate.getTime()) / 60000;
-                          if (mins < 60) notifyCurrentlyLoggedIn = true;
+                      // Infer whether the target user has a recent sign-in (active session).
+                      // If their lastSignInAt is within the last 60 minutes, flag them as likely logged in.
+                      let notifyCurrentlyLoggedIn = false;
+                      try {
+                        // Fetch user data to check last sign in
+                        const userData = await userService.getById(id);
+                        const last = userData?.lastSignInAt;
+                        if (last) {
+                          const lastDate = new Date(last);
+                          if (!isNaN(lastDate.getTime())) {
+                            const mins = (Date.now() - lastDate.getTime()) / 60000;
+                            if (mins < 60) notifyCurrentlyLoggedIn = true;
+                          }
                         }
+                      } catch (e) {
+                        // swallow
                       }
-                    } catch (e) {
-                      // swallow
-                    }
 
-                    return { ...result, notifyCurrentlyLoggedIn };
-                  } catch (err: any) {
-                    console.error('Change role error', err);
-                    const msg = err?.message || 'Failed to change role';
-                    // Show error toast only once
-                    toast.error(msg);
-                    return { success: false, message: msg };
-                  } finally {
-                    setProcessingUserId(null);
-                  }
-                }}
-                onNotifyUser={async (targetUserId: string, payload: any) => {
-                  // Use notificationService to create an in-app notification (server-side)
-                  // Do not show a toast here — AdminUserManagement will surface the success message.
-                  try {
-                    const message = payload?.body || payload?.title || 'Your account role was changed by an administrator. Please sign out and sign in again to apply the new changes.';
-                    await notificationService.createNotification(targetUserId, 'info', message, { actorId: user.id });
-                  } catch (err) {
-                    console.error('onNotifyUser failed', err);
-                    // Re-throw so the caller can show an error toast
-                    throw err;
-                  }
-                }}
-                onUnlockAccount={async (id: string) => {
-                  setProcessingUserId(id);
-                  try {
-                    const res: any = await userService.unlockAccount(id);
-                    const out = res || { success: true, message: 'Account unlocked' };
-                    if (out?.message) toast.success(out.message);
-                    return out;
-                  } catch (err: any) {
-                    console.error('Unlock user error', err);
-                    const msg = err?.message || 'Failed to unlock account';
-                    toast.error(msg);
-                    return { success: false, message: msg };
-                  } finally {
-                    setProcessingUserId(null);
-                  }
-                }}
-                />
-              </Suspense>
-            </ErrorBoundary>
-            </div>
-          </TabsContent>
+                      return { ...result, notifyCurrentlyLoggedIn };
+                    } catch (err: any) {
+                      console.error('Change role error', err);
+                      const msg = err?.message || 'Failed to change role';
+                      // Show error toast only once
+                      toast.error(msg);
+                      return { success: false, message: msg };
+                    } finally {
+                      setProcessingUserId(null);
+                    }
+                  }}
+                  onNotifyUser={async (targetUserId: string, payload: any) => {
+                    // Use notificationService to create an in-app notification (server-side)
+                    // Do not show a toast here — AdminUserManagement will surface the success message.
+                    try {
+                      const message = payload?.body || payload?.title || 'Your account role was changed by an administrator. Please sign out and sign in again to apply the new changes.';
+                      await notificationService.createNotification(targetUserId, 'info', message, { actorId: user.id });
+                    } catch (err) {
+                      console.error('onNotifyUser failed', err);
+                      // Re-throw so the caller can show an error toast
+                      throw err;
+                    }
+                  }}
+                  onUnlockAccount={async (id: string) => {
+                    setProcessingUserId(id);
+                    try {
+                      const res: any = await userService.unlockAccount(id);
+                      const out = res || { success: true, message: 'Account unlocked' };
+                      if (out?.message) toast.success(out.message);
+                      return out;
+                    } catch (err: any) {
+                      console.error('Unlock user error', err);
+                      const msg = err?.message || 'Failed to unlock account';
+                      toast.error(msg);
+                      return { success: false, message: msg };
+                    } finally {
+                      setProcessingUserId(null);
+                    }
+                  }}
+                  />
+                </Suspense>
+              </ErrorBoundary>
+              </div>
+            </TabsContent>
+          )}
 
           <TabsContent value="settings">
             <div className="animate-in">
               <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading settings. Please refresh the page.</div>}>
                 <Suspense fallback={<div className="p-4">Loading settings…</div>}>
-                  <ProfileSettings user={user} />
+                  <div className="space-y-6">
+                    <ProfileSettings user={user} classrooms={classrooms} />
+                    {!isApprover && (
+                      <>
+                        <AcademicCalendarSettings user={user} classrooms={classrooms} />
+                        <OperatingHoursSettings user={user} />
+                        <BookingPolicySettings user={user} />
+                        <AutoApprovalSettings user={user} classrooms={classrooms} users={users} />
+                        <CheckInSettings user={user} />
+                        <DisplaySettings user={user} classrooms={classrooms} />
+                        <SchemaMigrations users={users} />
+                      </>
+                    )}
+                  </div>
                 </Suspense>
               </ErrorBoundary>
             </div>
           </TabsContent>
 
-          <TabsContent value="audit-logs">
-            <div className="animate-in">
-              <OfflineNotice showCachedMessage />
-              <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading audit logs. Please refresh the page.</div>}>
-                <Suspense fallback={<div className="p-4">Loading audit logs…</div>}>
-                  <AuditLogsViewer adminUserId={user.id} users={users} />
-                </Suspense>
-              </ErrorBoundary>
-            </div>
-          </TabsContent>
+          {showTab('audit-logs') && (
+            <TabsContent value="audit-logs">
+              <div className="animate-in">
+                <OfflineNotice showCachedMessage />
+                <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading audit logs. Please refresh the page.</div>}>
+                  <Suspense fallback={<div className="p-4">Loading audit logs…</div>}>
+                    <AuditLogsViewer adminUserId={user.id} users={users} />
+                  </Suspense>
+                </ErrorBoundary>
+              </div>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
@@ -5,6 +5,8 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { TrendingUp, Users, Calendar, Clock, Building2, MapPin, Download } from 'lucide-react';
 import { Button } from './ui/button';
 import type { Classroom, Schedule, BookingRequest, SignupRequest } from '../App';
+import { useBuildings } from '../hooks/useBuildings';
+import { findClassroomBuilding, getBuildingKey, normalizeBuildingName } from '../utils/buildings';
 
 interface AdminReportsProps {
   classrooms: Classroom[];
@@ -22,6 +24,7 @@ const renderPieLabel = (props: { name: string; percent: number }) => {
 
 function AdminReports({ classrooms, schedules, bookingRequests, signupRequests }: AdminReportsProps) {
   const [reportPeriod, setReportPeriod] = useState<'week' | 'month' | 'semester'>('month');
+  const buildings = useBuildings();
 
   const { start, end } = useMemo(() => {
       const today = new Date();
@@ -49,6 +52,13 @@ function AdminReports({ classrooms, schedules, bookingRequests, signupRequests }
       return scheduleDate >= start && scheduleDate <= end && s.status === 'confirmed';
     }), [schedules, start, end]);
 
+  // Reservations released because nobody checked in
+  const noShowSchedules = useMemo(() =>
+    schedules.filter(s => {
+      const scheduleDate = new Date(s.date);
+      return scheduleDate >= start && scheduleDate <= end && s.noShow === true;
+    }), [schedules, start, end]);
+
   const filteredRequests = useMemo(() => 
     bookingRequests.filter(r => {
       const requestDate = new Date(r.requestDate);
@@ -81,9 +91,10 @@ function AdminReports({ classrooms, schedules, bookingRequests, signupRequests }
       approvalRate: parseFloat(approvalRate),
       totalHours,
       utilizationRate: parseFloat(utilizationRate),
-      totalClasses: filteredSchedules.length
+      totalClasses: filteredSchedules.length,
+      noShows: noShowSchedules.length
     };
-  }, [filteredSchedules, filteredRequests, classrooms.length]);
+  }, [filteredSchedules, noShowSchedules, filteredRequests, classrooms.length]);
 
   // Classroom utilization data
   const classroomUtilization = useMemo(() => {
@@ -145,23 +156,23 @@ function AdminReports({ classrooms, schedules, bookingRequests, signupRequests }
     return weeks;
   }, [schedules, bookingRequests]);
 
-  // Building usage distribution
+  // Building usage distribution, grouped by building so variant spellings of unlinked rooms
+  // still land in the same slice
   const buildingUsage = useMemo(() => {
-    const usage = new Map();
+    const usage = new Map<string, { name: string; value: number }>();
     
     filteredSchedules.forEach(schedule => {
       const classroom = classrooms.find(c => c.id === schedule.classroomId);
       if (classroom) {
-        const current = usage.get(classroom.building) || 0;
-        usage.set(classroom.building, current + 1);
+        const building = findClassroomBuilding(buildings, classroom);
+        const key = building?.id ?? getBuildingKey(classroom.building || '');
+        const current = usage.get(key) ?? { name: building?.name ?? normalizeBuildingName(classroom.building || ''), value: 0 };
+        usage.set(key, { ...current, value: current.value + 1 });
       }
     });
 
-    return Array.from(usage.entries()).map(([building, count]) => ({
-      name: building,
-      value: count
-    }));
-  }, [filteredSchedules, classrooms]);
+    return Array.from(usage.values());
+  }, [filteredSchedules, classrooms, buildings]);
 
   const handleExportReport = () => {
     const reportData = {
@@ -290,7 +301,10 @@ function AdminReports({ classrooms, schedules, bookingRequests, signupRequests }
               </div>
               <Calendar className="h-8 w-8 text-blue-600" />
             </div>
-            <p className="text-sm text-gray-500 mt-2">{Math.round(stats.totalHours)} total hours</p>
+            <p className="text-sm text-gray-500 mt-2">
+              {Math.round(stats.totalHours)} total hours
+              {stats.noShows > 0 && ` • ${stats.noShows} no-show${stats.noShows === 1 ? '' : 's'}`}
+            </p>
           </CardContent>
         </Card>
 
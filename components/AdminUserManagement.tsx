@@ -11,6 +11,7 @@ import { Label } from './ui/label';
 import { toast } from 'sonner';
 import { Trash2, User, UserMinus, Lock, Unlock, Loader2 } from 'lucide-react';
 import type { User as AppUser } from '../App';
+import { getUserDepartments } from '../utils/approvers';
 
 interface AdminUserManagementProps {
   users?: AppUser[];
@@ -190,6 +191,7 @@ export default function AdminUserManagement({ users = [], processingUserId, onDi
                 <SelectItem value="all">All roles</SelectItem>
                 <SelectItem value="admin">Admin</SelectItem>
                 <SelectItem value="faculty">Faculty</SelectItem>
+                <SelectItem value="approver">Approver</SelectItem>
               </SelectContent>
             </Select>
 
@@ -277,10 +279,29 @@ export default function AdminUserManagement({ users = [], processingUserId, onDi
                     {onChangeRole && (
                       <div className="ml-2">
                           {u.role !== 'admin' ? (
-                                // Open confirmation modal before promoting to admin
-                                <Button size="sm" variant="ghost" className="rounded-full" onClick={() => setPendingPromotionUser(u)} disabled={!!currentAction || isOtherRowDisabled}>
-                                  {currentAction === 'changeRole:admin' ? <Loader2 className="animate-spin h-4 w-4 mr-2" /> : null} Make admin
-                                </Button>
+                                <>
+                                  {/* Open confirmation modal before promoting to admin */}
+                                  <Button size="sm" variant="ghost" className="rounded-full" onClick={() => setPendingPromotionUser(u)} disabled={!!currentAction || isOtherRowDisabled}>
+                                    {currentAction === 'changeRole:admin' ? <Loader2 className="animate-spin h-4 w-4 mr-2" /> : null} Make admin
+                                  </Button>
+                                  {u.role === 'approver' ? (
+                                    <Button size="sm" variant="ghost" className="rounded-full" onClick={() => handleChangeRole(u.id, 'faculty')} disabled={!!currentAction || isOtherRowDisabled}>
+                                      {currentAction === 'changeRole:faculty' ? <Loader2 className="animate-spin h-4 w-4 mr-2" /> : null} Make faculty
+                                    </Button>
+                                  ) : (
+                                    // Approvers decide requests for their departments, so they need at least one
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="rounded-full"
+                                      onClick={() => handleChangeRole(u.id, 'approver')}
+                                      disabled={!!currentAction || isOtherRowDisabled || getUserDepartments(u).length === 0}
+                                      title={`Decides requests for ${getUserDepartments(u).join(', ') || 'no departments'}`}
+                                    >
+                                      {currentAction === 'changeRole:approver' ? <Loader2 className="animate-spin h-4 w-4 mr-2" /> : null} Make approver
+                                    </Button>
+                                  )}
+                                </>
                               ) : (
                                 <Button size="sm" variant="ghost" className="rounded-full" onClick={() => handleChangeRole(u.id, 'faculty')} disabled={!!currentAction || isOtherRowDisabled}>
                                   {currentAction === 'changeRole:faculty' ? <Loader2 className="animate-spin h-4 w-4 mr-2" /> : null} Make faculty
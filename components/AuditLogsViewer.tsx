@@ -42,6 +42,8 @@ const ACTION_TYPE_LABELS: Record<string, { label: string; color: string }> = {
   'booking.cancel': { label: 'Reservation Cancelled', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' },
   'booking.expire': { label: 'Reservation Expired', color: 'bg-gray-100 text-gray-800 dark:bg-gray-800/50 dark:text-gray-400' },
   'booking.update': { label: 'Reservation Updated', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400' },
+  'waitlist.offer': { label: 'Waitlist Slot Offered', color: 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-400' },
+  'booking.calendar_adjust': { label: 'Closed Dates Removed', color: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400' },
   
   // Signup events
   'signup.approve': { label: 'Signup Approved', color: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Zap, Plus, X, ArrowUp, ArrowDown, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { autoApprovalRulesService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { createAutoApprovalRule, hasRuleCondition } from '../utils/autoApproval';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import type { AutoApprovalRule, Classroom, User } from '../App';
+
+interface AutoApprovalSettingsProps {
+  user: User;
+  classrooms: Classroom[];
+  users: User[];
+}
+
+type ListField = 'classroomIds' | 'buildings' | 'departments' | 'facultyIds';
+type LimitField = 'maxDurationMinutes' | 'minLeadMinutes';
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+interface ValuePickerProps {
+  label: string;
+  anyLabel: string;
+  options: Option[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}
+
+// Chosen values as removable badges plus a select to add more; nothing chosen means any
+function ValuePicker({ label, anyLabel, options, selected, onChange }: ValuePickerProps) {
+  const labelFor = (value: string) => options.find(o => o.value === value)?.label ?? value;
+  const available = options.filter(o => !selected.includes(o.value));
+
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap items-center gap-1 min-h-8">
+        {selected.length === 0 && <span className="text-sm text-gray-500">{anyLabel}</span>}
+        {selected.map((value) => (
+          <Badge key={value} variant="secondary" className="gap-1">
+            {labelFor(value)}
+            <button
+              type="button"
+              aria-label={`Remove ${labelFor(value)}`}
+              onClick={() => onChange(selected.filter(v => v !== value))}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <Select value="" onValueChange={(value) => onChange([...selected, value])} disabled={available.length === 0}>
+        <SelectTrigger aria-label={`Add ${label.toLowerCase()}`}>
+          <SelectValue placeholder={available.length === 0 ? 'Nothing left to add' : `Add ${label.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {available.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Limit inputs show hours; an empty field means no limit
+const toHoursText = (minutes: number | null) => (minutes === null ? '' : String(minutes / 60));
+
+export default function AutoApprovalSettings({ user, classrooms, users }: AutoApprovalSettingsProps) {
+  const [rules, setRules] = useState<AutoApprovalRule[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const classroomOptions = useMemo<Option[]>(
+    () => classrooms
+      .map(c => ({ value: c.id, label: c.building ? `${c.name} (${c.building})` : c.name }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [classrooms]
+  );
+  const buildingOptions = useMemo<Option[]>(
+    () => Array.from(new Set(classrooms.map(c => c.building).filter(Boolean))).sort().map(b => ({ value: b, label: b })),
+    [classrooms]
+  );
+  const faculty = useMemo(() => users.filter(u => u.role === 'faculty'), [users]);
+  const facultyOptions = useMemo<Option[]>(
+    () => faculty.map(u => ({ value: u.id, label: u.name || u.email })).sort((a, b) => a.label.localeCompare(b.label)),
+    [faculty]
+  );
+  const departmentOptions = useMemo<Option[]>(
+    () => Array.from(new Set(faculty.flatMap(u => (u.departments?.length ? u.departments : u.department ? [u.department] : []))))
+      .sort()
+      .map(d => ({ value: d, label: d })),
+    [faculty]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    autoApprovalRulesService.get()
+      .then((config) => {
+        if (cancelled || !config) return;
+        setRules(config.rules);
+        setLastUpdated(config.updatedAt);
+      })
+      .catch((err) => {
+        logger.error('Failed to load auto-approval rules:', err);
+        toast.error('Failed to load auto-approval rules');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const updateRule = (id: string, changes: Partial<AutoApprovalRule>) =>
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const setList = (id: string, field: ListField, values: string[]) => updateRule(id, { [field]: values });
+
+  const setLimit = (id: string, field: LimitField, text: string) =>
+    updateRule(id, { [field]: text.trim() === '' ? null : Math.round(Number(text) * 60) });
+
+  const moveRule = (index: number, offset: -1 | 1) =>
+    setRules(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const rulesError = (() => {
+    for (const rule of rules) {
+      if (!rule.name.trim()) return 'Every rule needs a name.';
+      if (rule.enabled && !hasRuleCondition(rule)) return `"${rule.name}" needs at least one condition before it can be enabled.`;
+      if (rule.maxDurationMinutes !== null && !(rule.maxDurationMinutes > 0)) return `"${rule.name}": maximum duration must be greater than zero.`;
+      if (rule.minLeadMinutes !== null && !(rule.minLeadMinutes >= 0)) return `"${rule.name}": minimum notice cannot be negative.`;
+    }
+    return '';
+  })();
+
+  const handleSave = async () => {
+    if (rulesError) {
+      toast.error(rulesError);
+      return;
+    }
+    setSaving(true);
+    try {
+      await autoApprovalRulesService.save(rules.map(rule => ({ ...rule, name: rule.name.trim() })), user.id);
+      setLastUpdated(new Date().toISOString());
+      toast.success('Auto-approval rules saved');
+    } catch (err) {
+      logger.error('Failed to save auto-approval rules:', err);
+      toast.error('Failed to save auto-approval rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading auto-approval rules…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5" />
+          Auto-Approval Rules
+        </CardTitle>
+        <CardDescription>
+          New requests that match a rule and have no conflicts are approved immediately. Rules are tried from top to bottom; requests that match none wait for review.
+          {lastUpdated && <span className="block text-xs mt-1">Last updated {new Date(lastUpdated).toLocaleString()}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ProcessingFieldset isProcessing={saving} className="space-y-6">
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500">No rules yet. Every request is reviewed by an admin.</p>
+          ) : (
+            <ol className="space-y-4">
+              {rules.map((rule, index) => (
+                <li key={rule.id} className="border rounded-md p-4 space-y-4">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <span className="text-sm font-medium text-gray-500 w-6">{index + 1}.</span>
+                    <Input
+                      aria-label="Rule name"
+                      className="sm:max-w-xs"
+                      maxLength={80}
+                      value={rule.name}
+                      onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                    />
+                    <div className="flex items-center gap-2 sm:ml-2">
+                      <Switch
+                        id={`rule-enabled-${rule.id}`}
+                        checked={rule.enabled}
+                        onCheckedChange={(checked: boolean) => updateRule(rule.id, { enabled: checked })}
+                      />
+                      <Label htmlFor={`rule-enabled-${rule.id}`} className="text-gray-600">{rule.enabled ? 'Enabled' : 'Disabled'}</Label>
+                    </div>
+                    <div className="flex items-center gap-1 sm:ml-auto">
+                      <Button type="button" size="sm" variant="ghost" aria-label="Move rule up" disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" aria-label="Move rule down" disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        aria-label={`Delete rule ${rule.name}`}
+                        onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <ValuePicker
+                      label="Classrooms"
+                      anyLabel="Any classroom"
+                      options={classroomOptions}
+                      selected={rule.classroomIds}
+                      onChange={(values) => setList(rule.id, 'classroomIds', values)}
+                    />
+                    <ValuePicker
+                      label="Buildings"
+                      anyLabel="Any building"
+                      options={buildingOptions}
+                      selected={rule.buildings}
+                      onChange={(values) => setList(rule.id, 'buildings', values)}
+                    />
+                    <ValuePicker
+                      label="Departments"
+                      anyLabel="Any department"
+                      options={departmentOptions}
+                      selected={rule.departments}
+                      onChange={(values) => setList(rule.id, 'departments', values)}
+                    />
+                    <ValuePicker
+                      label="Faculty"
+                      anyLabel="Any faculty member"
+                      options={facultyOptions}
+                      selected={rule.facultyIds}
+                      onChange={(values) => setList(rule.id, 'facultyIds', values)}
+                    />
+                    <div className="space-y-1">
+                      <Label htmlFor={`rule-duration-${rule.id}`}>Maximum duration (hours)</Label>
+                      <Input
+                        id={`rule-duration-${rule.id}`}
+                        type="number"
+                        min={0.25}
+                        step={0.25}
+                        placeholder="Any duration"
+                        value={toHoursText(rule.maxDurationMinutes)}
+                        onChange={(e) => setLimit(rule.id, 'maxDurationMinutes', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`rule-lead-${rule.id}`}>Minimum notice (hours)</Label>
+                      <Input
+                        id={`rule-lead-${rule.id}`}
+                        type="number"
+                        min={0}
+                        step={1}
+                        placeholder="Any notice"
+                        value={toHoursText(rule.minLeadMinutes)}
+                        onChange={(e) => setLimit(rule.id, 'minLeadMinutes', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">A request must meet every condition set here. Departments match the requesting faculty member&apos;s departments.</p>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {rulesError && (
+            <p className="text-sm text-red-600 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {rulesError}
+            </p>
+          )}
+
+          <div className="flex justify-between">
+            <Button type="button" variant="outline" onClick={() => setRules(prev => [...prev, createAutoApprovalRule(`Rule ${prev.length + 1}`)])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add rule
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving || !!rulesError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Rules
+            </Button>
+          </div>
+        </ProcessingFieldset>
+      </CardContent>
+    </Card>
+  );
+}
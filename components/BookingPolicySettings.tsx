@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { ShieldCheck, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { bookingPoliciesService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { DEFAULT_BOOKING_POLICIES } from '../utils/bookingPolicies';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import type { BookingPolicies, User } from '../App';
+
+interface BookingPolicySettingsProps {
+  user: User;
+}
+
+// Form values are kept as strings so fields can be cleared while typing
+type PolicyDraft = {
+  maxDurationHours: string;
+  minLeadMinutes: string;
+  maxAdvanceDays: string;
+  weeklyCapEnabled: boolean;
+  maxWeeklyHours: string;
+};
+
+const toDraft = (policies: BookingPolicies): PolicyDraft => ({
+  maxDurationHours: String(policies.maxDurationMinutes / 60),
+  minLeadMinutes: String(policies.minLeadMinutes),
+  maxAdvanceDays: String(policies.maxAdvanceDays),
+  weeklyCapEnabled: policies.maxWeeklyHours !== null,
+  maxWeeklyHours: policies.maxWeeklyHours !== null ? String(policies.maxWeeklyHours) : '20',
+});
+
+export default function BookingPolicySettings({ user }: BookingPolicySettingsProps) {
+  const [draft, setDraft] = useState<PolicyDraft>(toDraft(DEFAULT_BOOKING_POLICIES));
+  const [lastUpdated, setLastUpdated] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    bookingPoliciesService.get()
+      .then((policies) => {
+        if (cancelled || !policies) return;
+        setDraft(toDraft(policies));
+        setLastUpdated(policies.updatedAt);
+      })
+      .catch((err) => {
+        logger.error('Failed to load booking policies:', err);
+        toast.error('Failed to load booking policies');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const maxDurationHours = Number(draft.maxDurationHours);
+  const minLeadMinutes = Number(draft.minLeadMinutes);
+  const maxAdvanceDays = Number(draft.maxAdvanceDays);
+  const maxWeeklyHours = Number(draft.maxWeeklyHours);
+
+  const policyError = (() => {
+    if (!draft.maxDurationHours || !(maxDurationHours > 0) || maxDurationHours > 24 || !Number.isInteger(maxDurationHours * 4)) {
+      return 'Maximum duration must be between 0.25 and 24 hours, in quarter hours.';
+    }
+    if (!draft.minLeadMinutes || !Number.isInteger(minLeadMinutes) || minLeadMinutes < 0) {
+      return 'Minimum lead time must be a whole number of minutes.';
+    }
+    if (!draft.maxAdvanceDays || !Number.isInteger(maxAdvanceDays) || maxAdvanceDays < 1) {
+      return 'Advance limit must be at least 1 day.';
+    }
+    if (draft.weeklyCapEnabled && (!draft.maxWeeklyHours || !(maxWeeklyHours > 0))) {
+      return 'Weekly hour cap must be greater than zero.';
+    }
+    return '';
+  })();
+
+  const handleSave = async () => {
+    if (policyError) {
+      toast.error(policyError);
+      return;
+    }
+    setSaving(true);
+    try {
+      await bookingPoliciesService.save({
+        maxDurationMinutes: Math.round(maxDurationHours * 60),
+        minLeadMinutes,
+        maxAdvanceDays,
+        maxWeeklyHours: draft.weeklyCapEnabled ? maxWeeklyHours : null,
+      }, user.id);
+      setLastUpdated(new Date().toISOString());
+      toast.success('Booking policies saved');
+    } catch (err) {
+      logger.error('Failed to save booking policies:', err);
+      toast.error('Failed to save booking policies');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading booking policies…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Booking Policies
+        </CardTitle>
+        <CardDescription>
+          Limits every reservation request must respect. Requests that break them are rejected automatically.
+          {lastUpdated && <span className="block text-xs mt-1">Last updated {new Date(lastUpdated).toLocaleString()}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ProcessingFieldset isProcessing={saving} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="policy-max-duration">Maximum duration (hours)</Label>
+              <Input
+                id="policy-max-duration"
+                type="number"
+                min={0.25}
+                max={24}
+                step={0.25}
+                value={draft.maxDurationHours}
+                onChange={(e) => setDraft(prev => ({ ...prev, maxDurationHours: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-min-lead">Minimum lead time (minutes)</Label>
+              <Input
+                id="policy-min-lead"
+                type="number"
+                min={0}
+                step={5}
+                value={draft.minLeadMinutes}
+                onChange={(e) => setDraft(prev => ({ ...prev, minLeadMinutes: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-max-advance">Book up to (days ahead)</Label>
+              <Input
+                id="policy-max-advance"
+                type="number"
+                min={1}
+                step={1}
+                value={draft.maxAdvanceDays}
+                onChange={(e) => setDraft(prev => ({ ...prev, maxAdvanceDays: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="policy-weekly-cap"
+                checked={draft.weeklyCapEnabled}
+                onCheckedChange={(checked: boolean) => setDraft(prev => ({ ...prev, weeklyCapEnabled: checked }))}
+              />
+              <Label htmlFor="policy-weekly-cap">Limit reserved hours per faculty member per week</Label>
+            </div>
+            {draft.weeklyCapEnabled && (
+              <div className="space-y-1 max-w-xs">
+                <Label htmlFor="policy-weekly-hours">Weekly hour cap (Monday to Sunday)</Label>
+                <Input
+                  id="policy-weekly-hours"
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={draft.maxWeeklyHours}
+                  onChange={(e) => setDraft(prev => ({ ...prev, maxWeeklyHours: e.target.value }))}
+                />
+                <p className="text-xs text-gray-500">Counts confirmed reservations and pending requests.</p>
+              </div>
+            )}
+          </div>
+
+          {policyError && (
+            <p className="text-sm text-red-600 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {policyError}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleSave} disabled={saving || !!policyError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Policies
+            </Button>
+          </div>
+        </ProcessingFieldset>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Clock, Lightbulb, MapPin } from 'lucide-react';
+import { convertTo12Hour, formatTimeRange } from '../utils/timeUtils';
+import type { BookingSuggestions as Suggestions, SlotSuggestion } from '../utils/bookingSuggestions';
+
+interface BookingSuggestionsProps {
+  suggestions: Suggestions;
+  onSelect: (suggestion: SlotSuggestion) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * One-click alternatives for a conflicting slot. Renders nothing when there are none.
+ */
+export default function BookingSuggestions({ suggestions, onSelect, disabled, className = '' }: BookingSuggestionsProps) {
+  const { sameRoom, otherRooms } = suggestions;
+  if (sameRoom.length === 0 && otherRooms.length === 0) return null;
+
+  const timeLabel = (s: SlotSuggestion) => formatTimeRange(convertTo12Hour(s.startTime), convertTo12Hour(s.endTime));
+
+  return (
+    <div className={`p-3 border border-sky-200 bg-sky-50 rounded-lg space-y-2 ${className}`}>
+      <div className="flex items-center gap-2">
+        <Lightbulb className="h-4 w-4 text-sky-700" />
+        <p className="text-sm font-medium text-sky-800">Available alternatives</p>
+      </div>
+      {sameRoom.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-sky-700">Same room, nearest free times</p>
+          <div className="flex flex-wrap gap-2">
+            {sameRoom.map((s) => (
+              <Button
+                key={`${s.startTime}-${s.endTime}`}
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={disabled}
+                onClick={() => onSelect(s)}
+                aria-label={`Use ${s.classroomName} ${timeLabel(s)}`}
+              >
+                <Clock className="h-3 w-3 mr-1" />
+                {timeLabel(s)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+      {otherRooms.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-sky-700">Other rooms free at {timeLabel(otherRooms[0])}</p>
+          <div className="flex flex-wrap gap-2">
+            {otherRooms.map((s) => (
+              <Button
+                key={s.classroomId}
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={disabled}
+                onClick={() => onSelect(s)}
+                aria-label={`Use ${s.classroomName} ${timeLabel(s)}`}
+              >
+                <MapPin className="h-3 w-3 mr-1" />
+                {s.classroomName}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Building2, Plus, Edit, Trash2, Loader2, AlertTriangle, Accessibility } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildingService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { useBuildings } from '../hooks/useBuildings';
+import { useOperatingHours } from '../hooks/useOperatingHours';
+import { sanitizeText } from '../utils/inputValidation';
+import { resolveOperatingHours, validateWeeklyHours } from '../utils/operatingHours';
+import { MAX_FLOOR_COUNT, findClassroomBuilding, normalizeBuildingName, suggestBuildingCode, validateBuilding } from '../utils/buildings';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import WeeklyHoursEditor from './WeeklyHoursEditor';
+import type { Building, Classroom, WeeklyHours } from '../App';
+
+interface BuildingManagementProps {
+  classrooms: Classroom[];
+}
+
+const LIMITS = {
+  NAME: 60,
+  CODE: 10,
+  NOTES: 300,
+};
+
+const EMPTY_FORM = {
+  name: '',
+  code: '',
+  floors: '1',
+  accessibilityNotes: '',
+  openingHours: null as WeeklyHours | null,
+};
+
+export default function BuildingManagement({ classrooms }: BuildingManagementProps) {
+  const buildings = useBuildings();
+  const operatingHours = useOperatingHours();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Building | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  // The code follows the name until the admin types one
+  const [codeTouched, setCodeTouched] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [buildingToDelete, setBuildingToDelete] = useState<Building | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const { slotMinutes, weekly: campusHours } = resolveOperatingHours(operatingHours);
+
+  const classroomCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    classrooms.forEach(c => {
+      const building = findClassroomBuilding(buildings, c);
+      if (building) counts.set(building.id, (counts.get(building.id) ?? 0) + 1);
+    });
+    return counts;
+  }, [buildings, classrooms]);
+
+  // Classrooms saved before buildings existed, still only linked by a free-text name
+  const unlinkedCount = classrooms.filter(c => !c.buildingId).length;
+
+  const floors = Number(formData.floors);
+  const hoursError = formData.openingHours ? validateWeeklyHours(formData.openingHours, slotMinutes) : null;
+  const formError = validateBuilding({ name: formData.name, code: formData.code, floors }, buildings, editing?.id) ?? hoursError;
+
+  // Classrooms on floors the building would no longer have
+  const roomsAboveTopFloor = editing && Number.isInteger(floors)
+    ? classrooms.filter(c => findClassroomBuilding(buildings, c)?.id === editing.id && c.floor > floors).length
+    : 0;
+
+  const openDialog = (building: Building | null) => {
+    setEditing(building);
+    setFormData(building
+      ? {
+        name: building.name,
+        code: building.code,
+        floors: String(building.floors),
+        accessibilityNotes: building.accessibilityNotes ?? '',
+        openingHours: building.openingHours ?? null,
+      }
+      : EMPTY_FORM);
+    setCodeTouched(!!building);
+    setDialogOpen(true);
+  };
+
+  const handleNameChange = (name: string) => {
+    setFormData(prev => ({ ...prev, name, code: codeTouched ? prev.code : suggestBuildingCode(name) }));
+  };
+
+  const handleSave = async () => {
+    if (formError) return;
+    setSaving(true);
+    const payload = {
+      name: sanitizeText(normalizeBuildingName(formData.name), LIMITS.NAME),
+      code: sanitizeText(formData.code.trim().toUpperCase(), LIMITS.CODE),
+      floors,
+      openingHours: formData.openingHours ?? undefined,
+      accessibilityNotes: formData.accessibilityNotes.trim() ? sanitizeText(formData.accessibilityNotes.trim(), LIMITS.NOTES) : undefined,
+    };
+    try {
+      if (editing) {
+        await buildingService.update(editing.id, payload);
+        toast.success(`${payload.name} updated`);
+      } else {
+        await buildingService.create(payload);
+        toast.success(`${payload.name} added`);
+      }
+      setDialogOpen(false);
+    } catch (err) {
+      logger.error('Failed to save building:', err);
+      toast.error('Failed to save the building', { description: err instanceof Error ? err.message : 'Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!buildingToDelete) return;
+    setDeleting(true);
+    try {
+      await buildingService.delete(buildingToDelete.id);
+      toast.success(`${buildingToDelete.name} deleted`);
+      setBuildingToDelete(null);
+    } catch (err) {
+      logger.error('Failed to delete building:', err);
+      toast.error('Failed to delete the building', { description: err instanceof Error ? err.message : 'Please try again.' });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Buildings
+          </CardTitle>
+          <CardDescription>
+            Classrooms are assigned to one of these buildings and a floor within it. Buildings without their own hours follow the campus operating hours.
+          </CardDescription>
+        </div>
+        <Button type="button" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add building
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {unlinkedCount > 0 && (
+          <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3 flex items-start gap-2">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            {unlinkedCount} classroom{unlinkedCount !== 1 ? 's are' : ' is'} not linked to a building yet. Run the pending schema migrations under Settings, or edit the classroom and pick its building.
+          </p>
+        )}
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Building</TableHead>
+                <TableHead>Floors</TableHead>
+                <TableHead>Hours</TableHead>
+                <TableHead>Classrooms</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {buildings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    No buildings yet
+                  </TableCell>
+                </TableRow>
+              ) : buildings.map((building) => (
+                <TableRow key={building.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{building.name}</span>
+                      <Badge variant="outline" className="text-xs">{building.code}</Badge>
+                    </div>
+                    {building.accessibilityNotes && (
+                      <div className="text-xs text-gray-500 flex items-start gap-1 mt-1">
+                        <Accessibility className="h-3 w-3 mt-0.5 shrink-0" />
+                        <span className="break-words">{building.accessibilityNotes}</span>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{building.floors}</TableCell>
+                  <TableCell>
+                    {building.openingHours
+                      ? <Badge variant="secondary" className="text-xs">Own hours</Badge>
+                      : <span className="text-sm text-gray-500">Campus hours</span>}
+                  </TableCell>
+                  <TableCell>{classroomCounts.get(building.id) ?? 0}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button type="button" size="sm" variant="ghost" aria-label={`Edit ${building.name}`} onClick={() => openDialog(building)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" aria-label={`Delete ${building.name}`} onClick={() => setBuildingToDelete(building)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !saving && setDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto p-3 sm:p-6 w-[calc(100vw-32px)]">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Building' : 'Add Building'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'A new name is applied to its classrooms, operating hours, calendar blackouts and auto-approval rules.'
+                : 'Classrooms can be assigned to the building once it is added.'}
+            </DialogDescription>
+          </DialogHeader>
+          <ProcessingFieldset isProcessing={saving} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem] gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="building-name">Name *</Label>
+                <Input
+                  id="building-name"
+                  maxLength={LIMITS.NAME}
+                  placeholder="e.g., CEIT Building"
+                  value={formData.name}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="building-code">Code *</Label>
+                <Input
+                  id="building-code"
+                  maxLength={LIMITS.CODE}
+                  placeholder="e.g., CEIT"
+                  value={formData.code}
+                  onChange={(e) => {
+                    setCodeTouched(true);
+                    setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }));
+                  }}
+                />
+              </div>
+            </div>
+            <div className="space-y-1 max-w-[10rem]">
+              <Label htmlFor="building-floors">Floors *</Label>
+              <Input
+                id="building-floors"
+                type="number"
+                min={1}
+                max={MAX_FLOOR_COUNT}
+                value={formData.floors}
+                onChange={(e) => setFormData(prev => ({ ...prev, floors: e.target.value }))}
+              />
+            </div>
+            {roomsAboveTopFloor > 0 && (
+              <p className="text-xs text-amber-700 flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {roomsAboveTopFloor} classroom{roomsAboveTopFloor !== 1 ? 's are' : ' is'} on a higher floor. Edit {roomsAboveTopFloor !== 1 ? 'them' : 'it'} afterwards.
+              </p>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="building-accessibility">Accessibility notes</Label>
+              <Textarea
+                id="building-accessibility"
+                rows={2}
+                maxLength={LIMITS.NOTES}
+                placeholder="e.g., Elevator by the main entrance; ramp at the east wing"
+                value={formData.accessibilityNotes}
+                onChange={(e) => setFormData(prev => ({ ...prev, accessibilityNotes: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="building-own-hours"
+                  checked={!!formData.openingHours}
+                  onCheckedChange={(checked: boolean) => setFormData(prev => ({
+                    ...prev,
+                    openingHours: checked ? campusHours.map(d => (d ? { ...d } : null)) : null,
+                  }))}
+                />
+                <Label htmlFor="building-own-hours">Own opening hours</Label>
+              </div>
+              {formData.openingHours ? (
+                <WeeklyHoursEditor
+                  idPrefix="building"
+                  week={formData.openingHours}
+                  onChange={(openingHours) => setFormData(prev => ({ ...prev, openingHours }))}
+                />
+              ) : (
+                <p className="text-xs text-gray-500">Follows the campus operating hours.</p>
+              )}
+            </div>
+            {formError && (formData.name || editing) && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {formError}
+              </p>
+            )}
+          </ProcessingFieldset>
+          <DialogFooter className="pt-4">
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !!formError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Changes' : 'Add Building'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!buildingToDelete} onOpenChange={(open) => !open && !deleting && setBuildingToDelete(null)}>
+        <DialogContent className="sm:max-w-[400px] p-3 sm:p-6 w-[calc(100vw-32px)]">
+          <DialogHeader>
+            <DialogTitle>Delete Building</DialogTitle>
+            <DialogDescription>
+              Delete <b>{buildingToDelete?.name}</b>? A building can only be deleted once no classroom is assigned to it. Its own opening hours are removed with it.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="pt-4">
+            <Button variant="outline" onClick={() => setBuildingToDelete(null)} disabled={deleting}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
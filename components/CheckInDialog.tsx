@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { CheckCircle2, AlertTriangle, Loader2 } from 'lucide-react';
+import { scheduleService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { convertTo12Hour, formatTimeRange } from '../utils/timeUtils';
+import type { CheckInResult, Classroom } from '../App';
+
+interface CheckInDialogProps {
+  // Classroom from the scanned QR code; null closes the dialog
+  classroomId: string | null;
+  classrooms: Classroom[];
+  onClose: () => void;
+}
+
+// Checks in as soon as it opens, so scanning the room's code is the only step
+export default function CheckInDialog({ classroomId, classrooms, onClose }: CheckInDialogProps) {
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    if (!classroomId) return;
+    let cancelled = false;
+    scheduleService.checkIn(classroomId)
+      .then((res) => { if (!cancelled) setResult(res); })
+      .catch((err) => {
+        logger.error('Check-in failed:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to check in');
+      });
+    return () => { cancelled = true; };
+  }, [classroomId]);
+
+  const roomName = result?.classroomName ?? classrooms.find(c => c.id === classroomId)?.name ?? 'this classroom';
+
+  return (
+    <Dialog open={!!classroomId} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Check in to {roomName}</DialogTitle>
+          <DialogDescription>Checking in confirms you are using your reservation.</DialogDescription>
+        </DialogHeader>
+        {!result && !error && (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking in…
+          </div>
+        )}
+        {result && (
+          <div className="flex items-start gap-2 text-green-700" role="status">
+            <CheckCircle2 className="h-5 w-5 mt-0.5 shrink-0" />
+            <p>
+              {result.alreadyCheckedIn ? 'You are already checked in' : 'You are checked in'} for {result.date}, {formatTimeRange(convertTo12Hour(result.startTime), convertTo12Hour(result.endTime))}.
+            </p>
+          </div>
+        )}
+        {error && (
+          <div className="flex items-start gap-2 text-red-600" role="alert">
+            <AlertTriangle className="h-5 w-5 mt-0.5 shrink-0" />
+            <p>{error}</p>
+          </div>
+        )}
+        <DialogFooter>
+          <Button type="button" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
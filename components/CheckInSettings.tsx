@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { QrCode, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { checkInSettingsService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { CHECK_IN_EARLY_MINUTES, DEFAULT_CHECK_IN_SETTINGS } from '../utils/checkIn';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import type { User } from '../App';
+
+interface CheckInSettingsProps {
+  user: User;
+}
+
+export default function CheckInSettings({ user }: CheckInSettingsProps) {
+  const [enabled, setEnabled] = useState(DEFAULT_CHECK_IN_SETTINGS.enabled);
+  // Kept as a string so the field can be cleared while typing
+  const [graceMinutes, setGraceMinutes] = useState(String(DEFAULT_CHECK_IN_SETTINGS.graceMinutes));
+  const [lastUpdated, setLastUpdated] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkInSettingsService.get()
+      .then((settings) => {
+        if (cancelled || !settings) return;
+        setEnabled(settings.enabled);
+        setGraceMinutes(String(settings.graceMinutes));
+        setLastUpdated(settings.updatedAt);
+      })
+      .catch((err) => {
+        logger.error('Failed to load check-in settings:', err);
+        toast.error('Failed to load check-in settings');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const grace = Number(graceMinutes);
+  const settingsError = !graceMinutes || !Number.isInteger(grace) || grace < 5 || grace > 240
+    ? 'Grace period must be a whole number of minutes between 5 and 240.'
+    : '';
+
+  const handleSave = async () => {
+    if (settingsError) {
+      toast.error(settingsError);
+      return;
+    }
+    setSaving(true);
+    try {
+      await checkInSettingsService.save({ enabled, graceMinutes: grace }, user.id);
+      setLastUpdated(new Date().toISOString());
+      toast.success('Check-in settings saved');
+    } catch (err) {
+      logger.error('Failed to save check-in settings:', err);
+      toast.error('Failed to save check-in settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading check-in settings…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Check-In &amp; No-Shows
+        </CardTitle>
+        <CardDescription>
+          Faculty check in by scanning the QR code posted in each classroom, from {CHECK_IN_EARLY_MINUTES} minutes before their reservation until it ends. Print the codes from Classroom Management.
+          {lastUpdated && <span className="block text-xs mt-1">Last updated {new Date(lastUpdated).toLocaleString()}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ProcessingFieldset isProcessing={saving} className="space-y-6">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="check-in-release"
+              checked={enabled}
+              onCheckedChange={(checked: boolean) => setEnabled(checked)}
+            />
+            <Label htmlFor="check-in-release">Release reservations nobody checks in to</Label>
+          </div>
+
+          <div className="space-y-1 max-w-xs">
+            <Label htmlFor="check-in-grace">Grace period (minutes after the start)</Label>
+            <Input
+              id="check-in-grace"
+              type="number"
+              min={5}
+              max={240}
+              step={5}
+              value={graceMinutes}
+              onChange={(e) => setGraceMinutes(e.target.value)}
+            />
+            <p className="text-xs text-gray-500">
+              Released reservations are cancelled, the faculty member is notified, and the room is offered to the waitlist. They are counted as no-shows in reports.
+            </p>
+          </div>
+
+          {settingsError && (
+            <p className="text-sm text-red-600 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {settingsError}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleSave} disabled={saving || !!settingsError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Settings
+            </Button>
+          </div>
+        </ProcessingFieldset>
+      </CardContent>
+    </Card>
+  );
+}
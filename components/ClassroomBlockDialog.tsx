@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import { AlertTriangle, CalendarX, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getAuth } from 'firebase/auth';
+import { bookingRequestService, classroomService, scheduleService } from '../lib/firebaseService';
+import { notificationService } from '../lib/notificationService';
+import { logger } from '../lib/logger';
+import { convertTo12Hour, formatTimeRange } from '../utils/timeUtils';
+import { createClassroomBlockId, findReservationsInRange, getUpcomingBlocks, validateClassroomBlock } from '../utils/classroomBlocks';
+import type { BookingRequest, Classroom, ClassroomBlock, Schedule } from '../App';
+
+interface ClassroomBlockDialogProps {
+  // Classroom whose blocked time ranges are managed; null closes the dialog
+  classroom: Classroom | null;
+  onClose: () => void;
+  onUpdated: (classroom: Classroom) => void;
+}
+
+const REASON_MAX = 200;
+
+const EMPTY_FORM = { date: '', startTime: '13:00', endTime: '17:00', reason: '' };
+
+const describeBlock = (block: Pick<ClassroomBlock, 'date' | 'startTime' | 'endTime'>) =>
+  `${new Date(`${block.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}, ${formatTimeRange(convertTo12Hour(block.startTime), convertTo12Hour(block.endTime))}`;
+
+export default function ClassroomBlockDialog({ classroom, onClose, onUpdated }: ClassroomBlockDialogProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [bookingRequests, setBookingRequests] = useState<BookingRequest[]>([]);
+  const [loadingReservations, setLoadingReservations] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const classroomId = classroom?.id;
+  useEffect(() => {
+    setForm(EMPTY_FORM);
+    if (!classroomId) return;
+    let cancelled = false;
+    setLoadingReservations(true);
+    Promise.all([scheduleService.getAll(), bookingRequestService.getAll()])
+      .then(([allSchedules, allRequests]) => {
+        if (cancelled) return;
+        setSchedules(allSchedules);
+        setBookingRequests(allRequests);
+      })
+      .catch((err) => {
+        logger.error('Failed to load reservations for blocking a time range:', err);
+        toast.error('Failed to load reservations', { description: 'Affected reservations cannot be shown.' });
+      })
+      .finally(() => { if (!cancelled) setLoadingReservations(false); });
+    return () => { cancelled = true; };
+  }, [classroomId]);
+
+  const upcoming = classroom ? getUpcomingBlocks(classroom) : [];
+  const formError = validateClassroomBlock(form.date, form.startTime, form.endTime, form.reason);
+
+  // Only reservations inside the chosen range are affected
+  const affected = useMemo(() => (classroom && form.date && form.startTime < form.endTime
+    ? findReservationsInRange(classroom.id, form.date, form.startTime, form.endTime, schedules, bookingRequests)
+    : { schedules: [], bookingRequests: [] }
+  ), [classroom, form.date, form.startTime, form.endTime, schedules, bookingRequests]);
+  const affectedItems = [...affected.schedules, ...affected.bookingRequests];
+
+  const handleAdd = async () => {
+    if (!classroom || formError) return;
+    const actorId = getAuth().currentUser?.uid;
+    const block: ClassroomBlock = {
+      id: createClassroomBlockId(),
+      date: form.date,
+      startTime: form.startTime,
+      endTime: form.endTime,
+      reason: form.reason.trim(),
+      createdBy: actorId,
+      createdAt: new Date().toISOString(),
+    };
+    setSaving(true);
+    try {
+      const updated = await classroomService.addBlock(classroom.id, block);
+      onUpdated(updated);
+
+      // Tell the faculty whose reservations fall inside the range, like disabling the room does
+      const facultyIds = new Set(affectedItems.map(item => item.facultyId));
+      const message = `The classroom "${classroom.name}" is unavailable on ${describeBlock(block)}. Reason: ${block.reason}. Please contact admin regarding your affected reservations.`;
+      await Promise.allSettled(Array.from(facultyIds).map(facultyId =>
+        notificationService.createNotification(facultyId, 'classroom_disabled', message, { actorId })
+          .catch((err) => logger.error(`Failed to notify faculty ${facultyId}:`, err))
+      ));
+
+      setForm(EMPTY_FORM);
+      toast.success('Time range blocked', {
+        description: facultyIds.size > 0
+          ? `${affectedItems.length} affected reservation(s) notified.`
+          : `${classroom.name} stays available outside this range.`,
+      });
+    } catch (err) {
+      logger.error('Failed to block time range:', err);
+      toast.error('Failed to block time range', { description: err instanceof Error ? err.message : 'Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (block: ClassroomBlock) => {
+    if (!classroom) return;
+    setRemovingId(block.id);
+    try {
+      const updated = await classroomService.removeBlock(classroom.id, block.id);
+      onUpdated(updated);
+      toast.success('Block removed');
+    } catch (err) {
+      logger.error('Failed to remove block:', err);
+      toast.error('Failed to remove block', { description: err instanceof Error ? err.message : 'Please try again.' });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!classroom} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarX className="h-5 w-5" />
+            Block Time · {classroom?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Close the room for part of a day, for example during a repair. The rest of the day stays bookable, and the blocked range counts as reserved in conflict checks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Blocked</h4>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time ranges blocked.</p>
+          ) : (
+            <ul className="space-y-2">
+              {upcoming.map((block) => (
+                <li key={block.id} className="p-3 border rounded-lg flex items-start justify-between gap-3">
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-sm font-medium">{describeBlock(block)}</p>
+                    <p className="text-xs text-gray-600 break-words">{block.reason}</p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    aria-label="Remove block"
+                    disabled={removingId !== null}
+                    onClick={() => handleRemove(block)}
+                  >
+                    {removingId === block.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <ProcessingFieldset isProcessing={saving} className="space-y-3 pt-2 border-t">
+          <h4 className="text-sm font-semibold pt-2">Block a time range</h4>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1 col-span-3 sm:col-span-1">
+              <Label htmlFor="block-date" className="text-xs sm:text-sm">Date</Label>
+              <Input id="block-date" type="date" value={form.date} onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))} />
+            </div>
+            <div className="space-y-1 col-span-3 sm:col-span-1">
+              <Label htmlFor="block-start" className="text-xs sm:text-sm">From</Label>
+              <Input id="block-start" type="time" value={form.startTime} onChange={(e) => setForm(prev => ({ ...prev, startTime: e.target.value }))} />
+            </div>
+            <div className="space-y-1 col-span-3 sm:col-span-1">
+              <Label htmlFor="block-end" className="text-xs sm:text-sm">To</Label>
+              <Input id="block-end" type="time" value={form.endTime} onChange={(e) => setForm(prev => ({ ...prev, endTime: e.target.value }))} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="block-reason" className="text-xs sm:text-sm">Reason</Label>
+            <Textarea
+              id="block-reason"
+              placeholder="e.g. Aircon repair"
+              value={form.reason}
+              maxLength={REASON_MAX}
+              rows={2}
+              onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+            />
+          </div>
+          {form.date && formError && (
+            <p className="text-xs text-red-600 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {formError}
+            </p>
+          )}
+          {affectedItems.length > 0 && (
+            <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-900 space-y-1">
+              <p className="font-medium flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {affectedItems.length} reservation{affectedItems.length !== 1 ? 's' : ''} in this range
+              </p>
+              <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+                {affectedItems.map(item => (
+                  <li key={item.id}>
+                    {item.facultyName} · {formatTimeRange(convertTo12Hour(item.startTime), convertTo12Hour(item.endTime))}
+                  </li>
+                ))}
+              </ul>
+              <p>The faculty will be notified and asked to contact admin about their reservations.</p>
+            </div>
+          )}
+        </ProcessingFieldset>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+          <Button type="button" onClick={handleAdd} disabled={!!formError || saving || loadingReservations}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {affectedItems.length > 0 ? 'Block & Notify' : 'Block Time Range'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import { AlertTriangle, Loader2, Trash2, Wrench } from 'lucide-react';
+import { toast } from 'sonner';
+import { getAuth } from 'firebase/auth';
+import { bookingRequestService, classroomService, scheduleService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { convertTo12Hour, getCampusInstant } from '../utils/timeUtils';
+import {
+  MAINTENANCE_FLAG_LEAD_DAYS,
+  createMaintenanceWindowId,
+  findReservationsInWindow,
+  formatMaintenanceWindow,
+  getUpcomingMaintenance,
+  validateMaintenanceWindow,
+} from '../utils/maintenanceWindows';
+import type { BookingRequest, Classroom, MaintenanceWindow, Schedule } from '../App';
+
+interface ClassroomMaintenanceDialogProps {
+  // Classroom whose maintenance is managed; null closes the dialog
+  classroom: Classroom | null;
+  onClose: () => void;
+  onUpdated: (classroom: Classroom) => void;
+}
+
+const REASON_MAX = 200;
+
+const EMPTY_FORM = { startDate: '', startTime: '08:00', endDate: '', endTime: '17:00', reason: '' };
+
+// Dates and times are entered in campus time, like every booking
+const toWindowRange = (form: typeof EMPTY_FORM) => ({
+  start: form.startDate && form.startTime ? getCampusInstant(form.startDate, form.startTime) : null,
+  end: form.endDate && form.endTime ? getCampusInstant(form.endDate, form.endTime) : null,
+});
+
+const describeReservation = (item: Schedule | BookingRequest) =>
+  `${item.facultyName} · ${item.date} ${convertTo12Hour(item.startTime)} – ${convertTo12Hour(item.endTime)}`;
+
+export default function ClassroomMaintenanceDialog({ classroom, onClose, onUpdated }: ClassroomMaintenanceDialogProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [bookingRequests, setBookingRequests] = useState<BookingRequest[]>([]);
+  const [loadingReservations, setLoadingReservations] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  // Set once the admin has seen the reservations inside the new window
+  const [confirmAffected, setConfirmAffected] = useState(false);
+
+  const classroomId = classroom?.id;
+  useEffect(() => {
+    setForm(EMPTY_FORM);
+    setConfirmAffected(false);
+    if (!classroomId) return;
+    let cancelled = false;
+    setLoadingReservations(true);
+    Promise.all([scheduleService.getAll(), bookingRequestService.getAll()])
+      .then(([allSchedules, allRequests]) => {
+        if (cancelled) return;
+        setSchedules(allSchedules);
+        setBookingRequests(allRequests);
+      })
+      .catch((err) => {
+        logger.error('Failed to load reservations for maintenance windows:', err);
+        toast.error('Failed to load reservations', { description: 'Reservations inside maintenance windows cannot be shown.' });
+      })
+      .finally(() => { if (!cancelled) setLoadingReservations(false); });
+    return () => { cancelled = true; };
+  }, [classroomId]);
+
+  const upcoming = classroom ? getUpcomingMaintenance(classroom) : [];
+  const { start, end } = toWindowRange(form);
+  const formError = validateMaintenanceWindow(start, end, form.reason);
+
+  // Reservations inside the window being added; ISO strings keep the dependencies comparable
+  const startAt = start?.toISOString();
+  const endAt = end?.toISOString();
+  const affected = useMemo(() => (classroom && startAt && endAt && endAt > startAt
+    ? findReservationsInWindow({ startAt, endAt }, classroom.id, schedules, bookingRequests)
+    : { schedules: [], bookingRequests: [] }
+  ), [classroom, startAt, endAt, schedules, bookingRequests]);
+  const affectedCount = affected.schedules.length + affected.bookingRequests.length;
+
+  const updateForm = (changes: Partial<typeof EMPTY_FORM>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setConfirmAffected(false);
+  };
+
+  const handleAdd = async () => {
+    if (!classroom || !start || !end || formError) return;
+    if (affectedCount > 0 && !confirmAffected) {
+      setConfirmAffected(true);
+      return;
+    }
+    const window: MaintenanceWindow = {
+      id: createMaintenanceWindowId(),
+      startAt: start.toISOString(),
+      endAt: end.toISOString(),
+      reason: form.reason.trim(),
+      createdBy: getAuth().currentUser?.uid,
+      createdAt: new Date().toISOString(),
+    };
+    setSaving(true);
+    try {
+      const updated = await classroomService.addMaintenanceWindow(classroom.id, window);
+      onUpdated(updated);
+      setForm(EMPTY_FORM);
+      setConfirmAffected(false);
+      toast.success('Maintenance scheduled', {
+        description: affectedCount > 0
+          ? `${affectedCount} reservation${affectedCount !== 1 ? 's fall' : ' falls'} inside the window and must be moved or cancelled.`
+          : `${classroom.name} will be closed ${formatMaintenanceWindow(window)}.`,
+      });
+    } catch (err) {
+      logger.error('Failed to schedule maintenance:', err);
+      toast.error('Failed to schedule maintenance', { description: err instanceof Error ? err.message : 'Please try again.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (window: MaintenanceWindow) => {
+    if (!classroom) return;
+    setRemovingId(window.id);
+    try {
+      const updated = await classroomService.removeMaintenanceWindow(classroom.id, window.id);
+      onUpdated(updated);
+      toast.success(classroom.activeMaintenanceId === window.id ? 'Maintenance ended early' : 'Maintenance cancelled');
+    } catch (err) {
+      logger.error('Failed to remove maintenance window:', err);
+      toast.error('Failed to remove maintenance window', { description: err instanceof Error ? err.message : 'Please try again.' });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!classroom} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            Maintenance · {classroom?.name}
+          </DialogTitle>
+          <DialogDescription>
+            The room cannot be booked during a maintenance window and is disabled automatically while it lasts. Admins are reminded {MAINTENANCE_FLAG_LEAD_DAYS} days ahead about reservations inside a window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Scheduled</h4>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No maintenance scheduled.</p>
+          ) : (
+            <ul className="space-y-2">
+              {upcoming.map((window) => {
+                const inside = classroom ? findReservationsInWindow(window, classroom.id, schedules, bookingRequests) : null;
+                const insideCount = inside ? inside.schedules.length + inside.bookingRequests.length : 0;
+                const inEffect = classroom?.activeMaintenanceId === window.id && !classroom.isAvailable;
+                return (
+                  <li key={window.id} className="p-3 border rounded-lg flex items-start justify-between gap-3">
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-sm font-medium">{formatMaintenanceWindow(window)}</p>
+                      <p className="text-xs text-gray-600 break-words">{window.reason}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {inEffect && <Badge variant="secondary" className="text-xs">In effect</Badge>}
+                        {!loadingReservations && insideCount > 0 && (
+                          <Badge variant="outline" className="text-xs bg-amber-50 text-amber-800 border-amber-200">
+                            {insideCount} reservation{insideCount !== 1 ? 's' : ''} inside
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      aria-label={inEffect ? 'End maintenance now' : 'Cancel maintenance'}
+                      disabled={removingId !== null}
+                      onClick={() => handleRemove(window)}
+                    >
+                      {removingId === window.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <ProcessingFieldset isProcessing={saving} className="space-y-3 pt-2 border-t">
+          <h4 className="text-sm font-semibold pt-2">Schedule maintenance</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-start-date" className="text-xs sm:text-sm">Starts</Label>
+              <Input id="maintenance-start-date" type="date" value={form.startDate} onChange={(e) => updateForm({ startDate: e.target.value, endDate: form.endDate || e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-start-time" className="text-xs sm:text-sm">At</Label>
+              <Input id="maintenance-start-time" type="time" value={form.startTime} onChange={(e) => updateForm({ startTime: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-end-date" className="text-xs sm:text-sm">Ends</Label>
+              <Input id="maintenance-end-date" type="date" value={form.endDate} min={form.startDate || undefined} onChange={(e) => updateForm({ endDate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="maintenance-end-time" className="text-xs sm:text-sm">At</Label>
+              <Input id="maintenance-end-time" type="time" value={form.endTime} onChange={(e) => updateForm({ endTime: e.target.value })} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="maintenance-reason" className="text-xs sm:text-sm">Reason</Label>
+            <Textarea
+              id="maintenance-reason"
+              placeholder="e.g. Ceiling repairs, aircon replacement"
+              value={form.reason}
+              maxLength={REASON_MAX}
+              rows={2}
+              onChange={(e) => updateForm({ reason: e.target.value })}
+            />
+          </div>
+          {form.startDate && form.endDate && formError && (
+            <p className="text-xs text-red-600 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {formError}
+            </p>
+          )}
+          {affectedCount > 0 && (
+            <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-900 space-y-1">
+              <p className="font-medium flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {affectedCount} reservation{affectedCount !== 1 ? 's fall' : ' falls'} inside this window
+              </p>
+              <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+                {[...affected.schedules, ...affected.bookingRequests].map(item => (
+                  <li key={item.id}>{describeReservation(item)}</li>
+                ))}
+              </ul>
+              <p>They are not cancelled automatically. Move or cancel them before the room closes.</p>
+            </div>
+          )}
+        </ProcessingFieldset>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>Close</Button>
+          <Button type="button" onClick={handleAdd} disabled={!!formError || saving || loadingReservations}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {affectedCount > 0 && confirmAffected ? 'Schedule anyway' : 'Schedule maintenance'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
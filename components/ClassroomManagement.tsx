@@ -13,7 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Switch } from './ui/switch';
 import { Textarea } from './ui/textarea';
-import { Plus, Edit, Trash2, Users, MapPin, Loader2, X, AlertCircle, AlertTriangle, Calendar, Clock } from 'lucide-react';
+import { Plus, Edit, Trash2, Users, MapPin, Loader2, X, AlertCircle, AlertTriangle, Calendar, CalendarX, Clock, QrCode, Wrench } from 'lucide-react';
 import ProcessingFieldset from './ui/ProcessingFieldset';
 import { toast } from 'sonner';
 import type { Classroom, BookingRequest, Schedule } from '../App';
@@ -24,6 +24,15 @@ import BulkOperationLoader from './BulkOperationLoader';
 import useBulkRunner, { BulkTask } from '../hooks/useBulkRunner';
 import { useRef } from 'react';
 import ScrollableBulkList from './ui/ScrollableBulkList';
+import ClassroomQrDialog from './ClassroomQrDialog';
+import ClassroomMaintenanceDialog from './ClassroomMaintenanceDialog';
+import ClassroomBlockDialog from './ClassroomBlockDialog';
+import { DEPARTMENTS, MAX_PRIORITY_WINDOW_DAYS, describeOwnership } from '../utils/classroomOwnership';
+import { formatMaintenanceWindow, getUpcomingMaintenance } from '../utils/maintenanceWindows';
+import { getUpcomingBlocks } from '../utils/classroomBlocks';
+import { convertTo12Hour } from '../utils/timeUtils';
+import { findClassroomBuilding, formatFloor, getFloorOptions } from '../utils/buildings';
+import { useBuildings } from '../hooks/useBuildings';
 
 interface ClassroomManagementProps {
   classrooms: Classroom[];
@@ -37,15 +46,20 @@ const LIMITS = {
   CAPACITY_MAX: 200,
 };
 
-// Default building name - system is limited to CEIT Building at PLV
+// Building name used while no buildings have been set up - PLV started with CEIT Building only
 const DEFAULT_BUILDING = 'CEIT Building';
 
 // Validation error messages
 interface ValidationErrors {
   name?: string;
   capacity?: string;
+  building?: string;
+  priorityWindowDays?: string;
 }
 
+// Select value for a room that belongs to no department
+const NO_OWNER = '__none__';
+
 // Available equipment options with their icons
 const EQUIPMENT_OPTIONS = [
   'Projector',
@@ -64,6 +78,7 @@ const EQUIPMENT_OPTIONS = [
 ];
 
 export default function ClassroomManagement({ classrooms, onClassroomUpdate }: ClassroomManagementProps) {
+  const buildings = useBuildings();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingClassroom, setEditingClassroom] = useState<Classroom | null>(null);
   const [formData, setFormData] = useState({
@@ -71,12 +86,18 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
     capacity: '',
     equipment: [] as string[],
     building: DEFAULT_BUILDING,
+    buildingId: '',
     floor: '1',
-    isAvailable: true
+    isAvailable: true,
+    ownerDepartment: NO_OWNER,
+    priorityWindowDays: ''
   });
   const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [classroomToDelete, setClassroomToDelete] = useState<Classroom | null>(null);
+  const [qrClassroom, setQrClassroom] = useState<Classroom | null>(null);
+  const [maintenanceClassroom, setMaintenanceClassroom] = useState<Classroom | null>(null);
+  const [blockClassroom, setBlockClassroom] = useState<Classroom | null>(null);
   const [deletingSimple, setDeletingSimple] = useState(false);
   // Delete-warning dialog state (shows when classroom has pending/approved reservations)
   const [deleteWarningOpen, setDeleteWarningOpen] = useState(false);
@@ -137,8 +158,11 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
       capacity: '',
       equipment: [],
       building: DEFAULT_BUILDING,
+      buildingId: '',
       floor: '1',
-      isAvailable: true
+      isAvailable: true,
+      ownerDepartment: NO_OWNER,
+      priorityWindowDays: ''
     });
     setValidationErrors({});
   };
@@ -227,15 +251,44 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
     return undefined;
   };
 
+  // Validate the priority window of an owned room; empty means no priority window
+  const validatePriorityWindow = (days: string): string | undefined => {
+    if (!days.trim()) return undefined;
+    const num = Number(days);
+    if (!Number.isInteger(num) || num < 1 || num > MAX_PRIORITY_WINDOW_DAYS) {
+      return `Priority window must be a whole number of days between 1 and ${MAX_PRIORITY_WINDOW_DAYS}`;
+    }
+    return undefined;
+  };
+
+  const selectedBuilding = buildings.find(b => b.id === formData.buildingId);
+  // A room already above the building's top floor keeps its floor on the list until it is moved
+  const floorOptions = Array.from(new Set([...getFloorOptions(selectedBuilding), parseInt(formData.floor)]))
+    .filter(floor => !isNaN(floor))
+    .sort((a, b) => a - b);
+
+  const handleBuildingChange = (buildingId: string) => {
+    const building = buildings.find(b => b.id === buildingId);
+    setFormData(prev => ({
+      ...prev,
+      buildingId,
+      floor: building && parseInt(prev.floor) > building.floors ? '1' : prev.floor,
+    }));
+    setValidationErrors(prev => ({ ...prev, building: undefined }));
+  };
+
   // Validate entire form
   const validateForm = (): boolean => {
     const errors: ValidationErrors = {
       name: validateRoomName(formData.name),
       capacity: validateCapacity(formData.capacity),
+      // Free-text buildings only remain until the first building is set up
+      building: buildings.length > 0 && !selectedBuilding ? 'Select a building' : undefined,
+      priorityWindowDays: formData.ownerDepartment !== NO_OWNER ? validatePriorityWindow(formData.priorityWindowDays) : undefined,
     };
 
     setValidationErrors(errors);
-    return !errors.name && !errors.capacity;
+    return !errors.name && !errors.capacity && !errors.building && !errors.priorityWindowDays;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -249,6 +302,9 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
     
     // Sanitize name for submission (trim and collapse multiple spaces)
     const sanitizedName = sanitizeText(formData.name, LIMITS.ROOM_NAME);
+    // A room without an owner has no priority window
+    const ownerDepartment = formData.ownerDepartment !== NO_OWNER ? formData.ownerDepartment : undefined;
+    const priorityWindowDays = ownerDepartment && formData.priorityWindowDays.trim() ? Number(formData.priorityWindowDays) : undefined;
     
     const result = await executeWithNetworkHandling(
       async () => {
@@ -257,18 +313,24 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
             name: sanitizedName,
             capacity: parseInt(formData.capacity),
             equipment: formData.equipment,
-            building: formData.building,
+            building: selectedBuilding?.name ?? formData.building,
+            buildingId: selectedBuilding?.id,
             floor: parseInt(formData.floor),
-            isAvailable: formData.isAvailable
+            isAvailable: formData.isAvailable,
+            ownerDepartment,
+            priorityWindowDays
           });
         } else {
           await classroomService.create({
             name: sanitizedName,
             capacity: parseInt(formData.capacity),
             equipment: formData.equipment,
-            building: formData.building,
+            building: selectedBuilding?.name ?? formData.building,
+            buildingId: selectedBuilding?.id,
             floor: parseInt(formData.floor),
-            isAvailable: formData.isAvailable
+            isAvailable: formData.isAvailable,
+            ownerDepartment,
+            priorityWindowDays
           });
         }
         const updatedClassrooms = await classroomService.getAll();
@@ -300,8 +362,11 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
       capacity: classroom.capacity.toString(),
       equipment: classroom.equipment,
       building: classroom.building || DEFAULT_BUILDING,
+      buildingId: findClassroomBuilding(buildings, classroom)?.id ?? '',
       floor: classroom.floor.toString(),
-      isAvailable: classroom.isAvailable
+      isAvailable: classroom.isAvailable,
+      ownerDepartment: classroom.ownerDepartment || NO_OWNER,
+      priorityWindowDays: classroom.priorityWindowDays?.toString() ?? ''
     });
     setIsAddDialogOpen(true);
   };
@@ -1053,6 +1118,34 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
                     </p>
                   </div>
 
+                  {buildings.length > 0 && (
+                    <div className="space-y-1 sm:space-y-2">
+                      <Label htmlFor="building" className="text-xs sm:text-sm">Building *</Label>
+                      <Select value={formData.buildingId} onValueChange={handleBuildingChange}>
+                        <SelectTrigger
+                          id="building"
+                          className={`text-xs sm:text-sm ${validationErrors.building ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+                        >
+                          <SelectValue placeholder={editingClassroom?.building ? `${editingClassroom.building} (not linked)` : 'Select a building'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {buildings.map(building => (
+                            <SelectItem key={building.id} value={building.id}>{building.name} ({building.code})</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {validationErrors.building && (
+                        <p className="text-[10px] sm:text-sm text-red-500 flex items-center gap-1">
+                          <AlertCircle className="h-3 w-3" />
+                          {validationErrors.building}
+                        </p>
+                      )}
+                      {selectedBuilding?.accessibilityNotes && (
+                        <p className="text-[10px] sm:text-xs text-gray-500">{selectedBuilding.accessibilityNotes}</p>
+                      )}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4">
                     <div className="space-y-1 sm:space-y-2">
                       <Label htmlFor="capacity" className="text-xs sm:text-sm">Room Capacity *</Label>
@@ -1084,16 +1177,13 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
                     <div className="space-y-1 sm:space-y-2">
                       <Label htmlFor="floor" className="text-xs sm:text-sm">Floor *</Label>
                       <Select value={formData.floor} onValueChange={(value: string) => setFormData(prev => ({ ...prev, floor: value }))}>
-                        <SelectTrigger className="text-xs sm:text-sm">
+                        <SelectTrigger id="floor" className="text-xs sm:text-sm">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="1">1st Floor</SelectItem>
-                          <SelectItem value="2">2nd Floor</SelectItem>
-                          <SelectItem value="3">3rd Floor</SelectItem>
-                          <SelectItem value="4">4th Floor</SelectItem>
-                          <SelectItem value="5">5th Floor</SelectItem>
-                          <SelectItem value="6">6th Floor</SelectItem>
+                          {floorOptions.map(floor => (
+                            <SelectItem key={floor} value={String(floor)}>{formatFloor(floor)}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -1145,6 +1235,55 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
                     )}
                   </div>
 
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4">
+                    <div className="space-y-1 sm:space-y-2">
+                      <Label htmlFor="ownerDepartment" className="text-xs sm:text-sm">Owning Department</Label>
+                      <Select
+                        value={formData.ownerDepartment}
+                        onValueChange={(value: string) => {
+                          setFormData(prev => ({ ...prev, ownerDepartment: value }));
+                          if (value === NO_OWNER) setValidationErrors(prev => ({ ...prev, priorityWindowDays: undefined }));
+                        }}
+                      >
+                        <SelectTrigger id="ownerDepartment" className="text-xs sm:text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_OWNER}>None (open to all departments)</SelectItem>
+                          {DEPARTMENTS.map(department => (
+                            <SelectItem key={department} value={department}>{department}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1 sm:space-y-2">
+                      <Label htmlFor="priorityWindowDays" className="text-xs sm:text-sm">Priority Window (days)</Label>
+                      <Input
+                        id="priorityWindowDays"
+                        type="number"
+                        placeholder="14"
+                        min={1}
+                        max={MAX_PRIORITY_WINDOW_DAYS}
+                        value={formData.priorityWindowDays}
+                        disabled={formData.ownerDepartment === NO_OWNER}
+                        onChange={(e) => {
+                          setFormData(prev => ({ ...prev, priorityWindowDays: e.target.value }));
+                          setValidationErrors(prev => ({ ...prev, priorityWindowDays: validatePriorityWindow(e.target.value) }));
+                        }}
+                        className={`text-xs sm:text-sm ${validationErrors.priorityWindowDays ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+                      />
+                      {validationErrors.priorityWindowDays && (
+                        <p className="text-[10px] sm:text-sm text-red-500 flex items-center gap-1">
+                          <AlertCircle className="h-3 w-3" />
+                          {validationErrors.priorityWindowDays}
+                        </p>
+                      )}
+                      <p className="text-[10px] sm:text-xs text-gray-500">
+                        Only the owning department can request the room until this many days before a date
+                      </p>
+                    </div>
+                  </div>
+
                   <div className="flex items-center space-x-2">
                     <Switch
                       id="available"
@@ -1303,7 +1442,24 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
                       <TableCell>
                         <input type="checkbox" aria-label={`Select classroom ${classroom.name}`} checked={!!selectedIds[classroom.id]} onChange={(e) => toggleSelect(classroom.id, e.target.checked)} className="h-4 w-4 text-indigo-600 rounded border-gray-300" />
                       </TableCell>
-                      <TableCell className="font-medium">{classroom.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {classroom.name}
+                        {describeOwnership(classroom) && (
+                          <p className="text-xs font-normal text-gray-500">{describeOwnership(classroom)}</p>
+                        )}
+                        {getUpcomingMaintenance(classroom).slice(0, 1).map(window => (
+                          <p key={window.id} className="text-xs font-normal text-amber-700 flex items-center gap-1">
+                            <Wrench className="h-3 w-3 flex-shrink-0" />
+                            Maintenance {formatMaintenanceWindow(window)}
+                          </p>
+                        ))}
+                        {getUpcomingBlocks(classroom).slice(0, 1).map(block => (
+                          <p key={block.id} className="text-xs font-normal text-amber-700 flex items-center gap-1">
+                            <CalendarX className="h-3 w-3 flex-shrink-0" />
+                            Blocked {block.date}, {convertTo12Hour(block.startTime)} – {convertTo12Hour(block.endTime)}
+                          </p>
+                        ))}
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center space-x-1">
                           <MapPin className="h-4 w-4 text-gray-400" />
@@ -1355,6 +1511,30 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            aria-label={`Show check-in QR code for ${classroom.name}`}
+                            onClick={() => setQrClassroom(classroom)}
+                          >
+                            <QrCode className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            aria-label={`Block a time range for ${classroom.name}`}
+                            onClick={() => setBlockClassroom(classroom)}
+                          >
+                            <CalendarX className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            aria-label={`Schedule maintenance for ${classroom.name}`}
+                            onClick={() => setMaintenanceClassroom(classroom)}
+                          >
+                            <Wrench className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -1385,6 +1565,24 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
           )}
         </CardContent>
       </Card>
+      <ClassroomQrDialog classroom={qrClassroom} onClose={() => setQrClassroom(null)} />
+      <ClassroomBlockDialog
+        classroom={blockClassroom}
+        onClose={() => setBlockClassroom(null)}
+        onUpdated={(updated) => {
+          setBlockClassroom(updated);
+          onClassroomUpdate(classrooms.map(c => (c.id === updated.id ? updated : c)));
+        }}
+      />
+      <ClassroomMaintenanceDialog
+        classroom={maintenanceClassroom}
+        onClose={() => setMaintenanceClassroom(null)}
+        onUpdated={(updated) => {
+          setMaintenanceClassroom(updated);
+          onClassroomUpdate(classrooms.map(c => (c.id === updated.id ? updated : c)));
+        }}
+      />
+
         {/* Bulk Action Dialog */}
       <Dialog open={isBulkDialogOpen} onOpenChange={setIsBulkDialogOpen}>
         <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto p-3 sm:p-6 w-[calc(100vw-32px)] gap-2 sm:gap-4">
@@ -1894,6 +2092,20 @@ export default function ClassroomManagement({ classrooms, onClassroomUpdate }: C
             >
               Cancel
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                // Only part of a day needs closing: block that range and keep the room available
+                const classroom = classroomToDisable;
+                handleDisableCancel();
+                setBlockClassroom(classroom);
+              }}
+              disabled={disabling}
+              className="w-full sm:w-auto text-xs sm:text-sm"
+            >
+              <CalendarX className="h-4 w-4 mr-2" />
+              Block a Time Range Instead
+            </Button>
             <Button 
               variant="destructive" 
               onClick={handleDisableConfirm}
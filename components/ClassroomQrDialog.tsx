@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Download, Printer, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '../lib/logger';
+import { buildCheckInUrl } from '../utils/checkIn';
+import type { Classroom } from '../App';
+
+interface ClassroomQrDialogProps {
+  // Classroom whose code is shown; null closes the dialog
+  classroom: Classroom | null;
+  onClose: () => void;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export default function ClassroomQrDialog({ classroom, onClose }: ClassroomQrDialogProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDataUrl(null);
+    if (!classroom) return;
+    let cancelled = false;
+    QRCode.toDataURL(buildCheckInUrl(classroom.id), { width: 512, margin: 2, errorCorrectionLevel: 'M' })
+      .then((url) => { if (!cancelled) setDataUrl(url); })
+      .catch((err) => {
+        logger.error('Failed to generate classroom QR code:', err);
+        toast.error('Failed to generate QR code');
+      });
+    return () => { cancelled = true; };
+  }, [classroom]);
+
+  const label = classroom ? (classroom.building ? `${classroom.name} (${classroom.building})` : classroom.name) : '';
+
+  const handleDownload = () => {
+    if (!classroom || !dataUrl) return;
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = `check-in-${classroom.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.png`;
+    link.click();
+  };
+
+  const handlePrint = () => {
+    if (!dataUrl) return;
+    const win = window.open('', '_blank', 'width=600,height=700');
+    if (!win) {
+      toast.error('Allow pop-ups to print the QR code');
+      return;
+    }
+    win.document.write(`<!doctype html><html><head><title>${escapeHtml(label)} check-in</title></head>
+<body style="font-family: sans-serif; text-align: center; padding: 32px;">
+<h1 style="margin-bottom: 4px;">${escapeHtml(label)}</h1>
+<p style="margin-top: 0;">Scan to check in to your reservation</p>
+<img src="${dataUrl}" alt="Check-in QR code" style="width: 360px; height: 360px;" onload="window.print()" />
+</body></html>`);
+    win.document.close();
+  };
+
+  return (
+    <Dialog open={!!classroom} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Check-in QR code</DialogTitle>
+          <DialogDescription>
+            Post this code in {label || 'the classroom'}. Faculty scan it to check in to their reservation.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center py-2">
+          {dataUrl ? (
+            <img src={dataUrl} alt={`Check-in QR code for ${label}`} className="w-64 h-64" />
+          ) : (
+            <div className="w-64 h-64 flex items-center justify-center text-gray-500">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          )}
+        </div>
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={handleDownload} disabled={!dataUrl}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+          <Button type="button" onClick={handlePrint} disabled={!dataUrl}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { describeConflict } from '../utils/conflicts';
+import type { BookingConflict } from '../App';
+
+interface ConflictListProps {
+  conflicts: BookingConflict[];
+  // Show each conflict's date, for lists covering several occurrences
+  withDate?: boolean;
+  // Show at most this many, followed by a count of the rest
+  limit?: number;
+  className?: string;
+}
+
+export default function ConflictList({ conflicts, withDate = false, limit, className = '' }: ConflictListProps) {
+  const shown = limit !== undefined ? conflicts.slice(0, limit) : conflicts;
+  const hidden = conflicts.length - shown.length;
+
+  return (
+    <ul className={`list-disc ml-4 space-y-0.5 ${className}`}>
+      {shown.map((conflict) => (
+        <li key={`${conflict.type}-${conflict.id}-${conflict.date}`} className="break-words">
+          {describeConflict(conflict, withDate)}
+        </li>
+      ))}
+      {hidden > 0 && <li className="list-none -ml-4">and {hidden} more</li>}
+    </ul>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { MonitorSmartphone, Copy, ExternalLink, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { displayService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { DEFAULT_DISPLAY_SETTINGS, buildDisplayUrl } from '../utils/displays';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import type { Classroom, User } from '../App';
+
+interface DisplaySettingsProps {
+  user: User;
+  classrooms: Classroom[];
+}
+
+// Select values are prefixed so rooms and buildings can share one list
+const ROOM_PREFIX = 'room:';
+const BUILDING_PREFIX = 'building:';
+
+export default function DisplaySettings({ user, classrooms }: DisplaySettingsProps) {
+  const [maskFacultyNames, setMaskFacultyNames] = useState(DEFAULT_DISPLAY_SETTINGS.maskFacultyNames);
+  const [lastUpdated, setLastUpdated] = useState<string | undefined>();
+  const [selected, setSelected] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const buildings = useMemo(
+    () => Array.from(new Set(classrooms.map(c => c.building).filter(Boolean))).sort(),
+    [classrooms]
+  );
+  const sortedClassrooms = useMemo(
+    () => [...classrooms].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })),
+    [classrooms]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    displayService.getSettings()
+      .then((settings) => {
+        if (cancelled || !settings) return;
+        setMaskFacultyNames(settings.maskFacultyNames);
+        setLastUpdated(settings.updatedAt);
+      })
+      .catch((err) => {
+        logger.error('Failed to load display settings:', err);
+        toast.error('Failed to load display settings');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const displayUrl = selected.startsWith(ROOM_PREFIX)
+    ? buildDisplayUrl({ classroomId: selected.slice(ROOM_PREFIX.length) })
+    : selected.startsWith(BUILDING_PREFIX)
+      ? buildDisplayUrl({ building: selected.slice(BUILDING_PREFIX.length) })
+      : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(displayUrl);
+      toast.success('Display link copied');
+    } catch (err) {
+      logger.warn('Failed to copy display link:', err);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await displayService.saveSettings({ maskFacultyNames }, user.id);
+      setLastUpdated(new Date().toISOString());
+      toast.success('Display settings saved');
+    } catch (err) {
+      logger.error('Failed to save display settings:', err);
+      toast.error('Failed to save display settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading display settings…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Door &amp; Lobby Displays
+        </CardTitle>
+        <CardDescription>
+          Public pages for tablets outside rooms and lobby screens. They show today&apos;s reservations without signing in and refresh every minute.
+          {lastUpdated && <span className="block text-xs mt-1">Last updated {new Date(lastUpdated).toLocaleString()}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ProcessingFieldset isProcessing={saving} className="space-y-6">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="display-mask-names"
+                checked={maskFacultyNames}
+                onCheckedChange={(checked: boolean) => setMaskFacultyNames(checked)}
+              />
+              <Label htmlFor="display-mask-names">Show faculty initials instead of full names</Label>
+            </div>
+            <p className="text-xs text-gray-500">Displays never show the purpose of a reservation.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Display link</Label>
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger aria-label="Room or building to display" className="sm:max-w-sm">
+                <SelectValue placeholder="Choose a room or building" />
+              </SelectTrigger>
+              <SelectContent>
+                {buildings.map((building) => (
+                  <SelectItem key={`${BUILDING_PREFIX}${building}`} value={`${BUILDING_PREFIX}${building}`}>{building} (lobby)</SelectItem>
+                ))}
+                {sortedClassrooms.map((classroom) => (
+                  <SelectItem key={`${ROOM_PREFIX}${classroom.id}`} value={`${ROOM_PREFIX}${classroom.id}`}>
+                    {classroom.building ? `${classroom.name} (${classroom.building})` : classroom.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {displayUrl && (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <code className="text-xs bg-gray-100 rounded px-2 py-1 break-all">{displayUrl}</code>
+                <div className="flex gap-2">
+                  <Button type="button" size="sm" variant="outline" onClick={handleCopy}>
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => window.open(displayUrl, '_blank', 'noopener')}>
+                    <ExternalLink className="h-4 w-4 mr-1" />
+                    Open
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Settings
+            </Button>
+          </div>
+        </ProcessingFieldset>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from './ui/badge';
+import { Clock, AlertTriangle, Loader2 } from 'lucide-react';
+import { displayService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { convertTo12Hour, formatTimeRange } from '../utils/timeUtils';
+import { DISPLAY_REFRESH_MS, describeRoomStatus, getRoomStatus, toLocalDateString, type DisplayTarget } from '../utils/displays';
+import type { DisplayBooking, DisplayRoom } from '../App';
+
+interface DoorDisplayProps {
+  target: DisplayTarget;
+}
+
+const formatBookingTime = (booking: DisplayBooking) =>
+  formatTimeRange(convertTo12Hour(booking.startTime), convertTo12Hour(booking.endTime));
+
+function RoomPanel({ room, now, large }: { room: DisplayRoom; now: Date; large: boolean }) {
+  const status = getRoomStatus(room.bookings, now);
+  const inUse = status.state === 'in_use';
+  const time = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+  const upcoming = room.bookings.filter(b => b.endTime > time);
+
+  return (
+    <section className={`rounded-xl border-4 p-6 space-y-4 ${!room.isAvailable ? 'border-gray-400 bg-gray-50' : inUse ? 'border-red-500 bg-red-50' : 'border-green-500 bg-green-50'}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h2 className={`font-bold text-gray-900 ${large ? 'text-5xl' : 'text-2xl'}`}>{room.name}</h2>
+          {room.building && <p className="text-gray-600">{room.building}</p>}
+        </div>
+        {!room.isAvailable && <Badge variant="secondary">Not available for booking</Badge>}
+      </div>
+
+      <p className={`font-semibold ${large ? 'text-4xl' : 'text-xl'} ${inUse ? 'text-red-700' : 'text-green-700'}`} aria-live="polite">
+        {describeRoomStatus(status)}
+      </p>
+      {status.state === 'in_use' && (
+        <p className={large ? 'text-2xl' : ''}>{status.current.facultyName} · {formatBookingTime(status.current)}</p>
+      )}
+      {status.next && (
+        <p className={`text-gray-700 ${large ? 'text-xl' : 'text-sm'}`}>
+          Next: {formatBookingTime(status.next)} · {status.next.facultyName}
+        </p>
+      )}
+
+      {large && (
+        <div>
+          <h3 className="text-lg font-medium text-gray-700 mb-2">Today</h3>
+          {upcoming.length === 0 ? (
+            <p className="text-gray-500">No more reservations today.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 text-lg">
+              {upcoming.map((booking) => (
+                <li key={`${booking.startTime}-${booking.endTime}`} className="py-2 flex justify-between gap-4">
+                  <span>{formatBookingTime(booking)}</span>
+                  <span className="text-gray-700">{booking.facultyName}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+// Full-screen, sign-in free view for tablets outside rooms and lobby screens
+export default function DoorDisplay({ target }: DoorDisplayProps) {
+  const [rooms, setRooms] = useState<DisplayRoom[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the clock and statuses current between schedule reloads
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 15 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      displayService.getSchedule(target, toLocalDateString(new Date()))
+        .then((result) => {
+          if (cancelled) return;
+          setRooms(result);
+          setError(null);
+        })
+        .catch((err) => {
+          logger.error('Failed to load display schedule:', err);
+          // Keep showing the last schedule we had; only show the error when there is none
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the schedule');
+        });
+    };
+    load();
+    const timer = window.setInterval(load, DISPLAY_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [target]);
+
+  const title = 'building' in target ? target.building : rooms?.[0]?.name ?? 'Classroom';
+  const single = 'classroomId' in target;
+
+  return (
+    <main className="min-h-screen bg-white p-6 md:p-10 space-y-6">
+      <header className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold text-gray-900">{single ? 'Room Schedule' : title}</h1>
+        <div className="flex items-center gap-2 text-2xl text-gray-700">
+          <Clock className="h-6 w-6" />
+          <span>{now.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</span>
+        </div>
+      </header>
+
+      {rooms === null && !error && (
+        <div className="flex items-center gap-2 text-gray-600 text-xl">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading schedule…
+        </div>
+      )}
+      {error && rooms === null && (
+        <p className="text-xl text-red-600 flex items-center gap-2" role="alert">
+          <AlertTriangle className="h-5 w-5" />
+          {error}
+        </p>
+      )}
+
+      {rooms && (
+        single ? (
+          rooms[0] && <RoomPanel room={rooms[0]} now={now} large />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {rooms.map((room) => <RoomPanel key={room.id} room={room} now={now} large={false} />)}
+          </div>
+        )
+      )}
+    </main>
+  );
+}
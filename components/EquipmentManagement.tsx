@@ -0,0 +1,352 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Package, Plus, Edit, Trash2, Loader2, AlertTriangle, Printer, ArrowUpRight, ArrowDownLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { equipmentService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { sanitizeText } from '../utils/inputValidation';
+import { convertTo12Hour } from '../utils/timeUtils';
+import { toLocalDateString } from '../utils/displays';
+import { buildEquipmentHandoffs, describeReservedEquipment } from '../utils/equipment';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import type { EquipmentItem, Schedule } from '../App';
+
+interface EquipmentManagementProps {
+  schedules: Schedule[];
+}
+
+const LIMITS = {
+  NAME: 60,
+  DESCRIPTION: 200,
+  QUANTITY_MAX: 500,
+};
+
+const EMPTY_FORM = { name: '', description: '', quantity: '1', isActive: true };
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export default function EquipmentManagement({ schedules }: EquipmentManagementProps) {
+  const [items, setItems] = useState<EquipmentItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<EquipmentItem | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [itemToDelete, setItemToDelete] = useState<EquipmentItem | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [listDate, setListDate] = useState(() => toLocalDateString(new Date()));
+
+  useEffect(() => {
+    const unsubscribe = equipmentService.subscribe(
+      (next) => {
+        setItems(next);
+        setLoading(false);
+      },
+      () => {
+        toast.error('Failed to load the equipment inventory');
+        setLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, []);
+
+  const handoffs = useMemo(() => buildEquipmentHandoffs(schedules, listDate), [schedules, listDate]);
+
+  const quantity = Number(formData.quantity);
+  const formError = !formData.name.trim()
+    ? 'Name is required.'
+    : !Number.isInteger(quantity) || quantity < 0 || quantity > LIMITS.QUANTITY_MAX
+      ? `Quantity must be a whole number from 0 to ${LIMITS.QUANTITY_MAX}.`
+      : items.some(i => i.id !== editing?.id && i.name.trim().toLowerCase() === formData.name.trim().toLowerCase())
+        ? 'An item with this name already exists.'
+        : '';
+
+  const openDialog = (item: EquipmentItem | null) => {
+    setEditing(item);
+    setFormData(item
+      ? { name: item.name, description: item.description ?? '', quantity: String(item.quantity), isActive: item.isActive }
+      : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (formError) return;
+    setSaving(true);
+    const payload = {
+      name: sanitizeText(formData.name.trim()),
+      description: formData.description.trim() ? sanitizeText(formData.description.trim()) : undefined,
+      quantity,
+      isActive: formData.isActive,
+    };
+    try {
+      if (editing) {
+        await equipmentService.update(editing.id, payload);
+        toast.success(`${payload.name} updated`);
+      } else {
+        await equipmentService.create(payload);
+        toast.success(`${payload.name} added to the inventory`);
+      }
+      setDialogOpen(false);
+    } catch (err) {
+      logger.error('Failed to save equipment item:', err);
+      toast.error('Failed to save the equipment item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (item: EquipmentItem, isActive: boolean) => {
+    try {
+      await equipmentService.update(item.id, { isActive });
+    } catch (err) {
+      logger.error('Failed to update equipment item:', err);
+      toast.error(`Failed to update ${item.name}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!itemToDelete) return;
+    setDeleting(true);
+    try {
+      await equipmentService.delete(itemToDelete.id);
+      toast.success(`${itemToDelete.name} removed from the inventory`);
+      setItemToDelete(null);
+    } catch (err) {
+      logger.error('Failed to delete equipment item:', err);
+      toast.error('Failed to delete the equipment item');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handlePrint = () => {
+    const win = window.open('', '_blank', 'width=800,height=900');
+    if (!win) {
+      toast.error('Allow pop-ups to print the list');
+      return;
+    }
+    const rows = handoffs.map(h => `<tr>
+<td>${escapeHtml(convertTo12Hour(h.time))}</td>
+<td>${h.kind === 'pickup' ? 'Pickup' : 'Return'}</td>
+<td>${escapeHtml(describeReservedEquipment(h.schedule.reservedEquipment))}</td>
+<td>${escapeHtml(h.schedule.facultyName)}</td>
+<td>${escapeHtml(h.schedule.classroomName)}</td>
+<td style="width: 120px;"></td>
+</tr>`).join('');
+    win.document.write(`<!doctype html><html><head><title>Equipment pickups and returns ${escapeHtml(listDate)}</title></head>
+<body style="font-family: sans-serif; padding: 24px;">
+<h1 style="margin-bottom: 4px;">Equipment pickups and returns</h1>
+<p style="margin-top: 0;">${escapeHtml(listDate)}</p>
+<table border="1" cellpadding="6" style="border-collapse: collapse; width: 100%;">
+<thead><tr><th>Time</th><th>Type</th><th>Items</th><th>Faculty</th><th>Room</th><th>Signature</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>
+<script>window.print()</script>
+</body></html>`);
+    win.document.close();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Portable Equipment
+            </CardTitle>
+            <CardDescription>
+              Items faculty can reserve with a booking. Availability counts the units held by overlapping bookings; inactive items cannot be reserved.
+            </CardDescription>
+          </div>
+          <Button type="button" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add item
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center gap-2 text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading inventory…
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Reservable</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                        No portable equipment yet
+                      </TableCell>
+                    </TableRow>
+                  ) : items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.name}</div>
+                        {item.description && <div className="text-xs text-gray-500">{item.description}</div>}
+                      </TableCell>
+                      <TableCell>{item.quantity}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={item.isActive}
+                          aria-label={`${item.name} can be reserved`}
+                          onCheckedChange={(checked: boolean) => handleToggleActive(item, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button type="button" size="sm" variant="ghost" aria-label={`Edit ${item.name}`} onClick={() => openDialog(item)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" size="sm" variant="ghost" aria-label={`Delete ${item.name}`} onClick={() => setItemToDelete(item)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2">
+          <div>
+            <CardTitle>Pickups and Returns</CardTitle>
+            <CardDescription>Items to hand out at the start of each confirmed booking and take back at its end.</CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="equipment-list-date">Date</Label>
+              <Input id="equipment-list-date" type="date" value={listDate} onChange={(e) => e.target.value && setListDate(e.target.value)} />
+            </div>
+            <Button type="button" variant="outline" onClick={handlePrint} disabled={handoffs.length === 0}>
+              <Printer className="h-4 w-4 mr-1" />
+              Print
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {handoffs.length === 0 ? (
+            <p className="text-sm text-gray-500">No equipment is reserved for this date.</p>
+          ) : (
+            <ul className="divide-y border rounded-md">
+              {handoffs.map((handoff) => (
+                <li key={`${handoff.kind}-${handoff.schedule.id}`} className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 p-3 text-sm">
+                  <span className="w-20 font-medium">{convertTo12Hour(handoff.time)}</span>
+                  <Badge variant={handoff.kind === 'pickup' ? 'default' : 'secondary'} className="w-fit gap-1">
+                    {handoff.kind === 'pickup' ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownLeft className="h-3 w-3" />}
+                    {handoff.kind === 'pickup' ? 'Pickup' : 'Return'}
+                  </Badge>
+                  <span className="flex-1 break-words">{describeReservedEquipment(handoff.schedule.reservedEquipment)}</span>
+                  <span className="text-gray-600">{handoff.schedule.facultyName} · {handoff.schedule.classroomName}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !saving && setDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[425px] p-3 sm:p-6 w-[calc(100vw-32px)]">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Equipment' : 'Add Equipment'}</DialogTitle>
+            <DialogDescription>Confirmed bookings keep their units if the quantity is lowered.</DialogDescription>
+          </DialogHeader>
+          <ProcessingFieldset isProcessing={saving} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="equipment-name">Name *</Label>
+              <Input
+                id="equipment-name"
+                maxLength={LIMITS.NAME}
+                placeholder="e.g., Portable Projector"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="equipment-description">Description</Label>
+              <Input
+                id="equipment-description"
+                maxLength={LIMITS.DESCRIPTION}
+                placeholder="e.g., Epson, with HDMI cable"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="equipment-quantity">Quantity *</Label>
+              <Input
+                id="equipment-quantity"
+                type="number"
+                min={0}
+                max={LIMITS.QUANTITY_MAX}
+                value={formData.quantity}
+                onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value }))}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="equipment-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="equipment-active">Can be reserved</Label>
+            </div>
+            {formError && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {formError}
+              </p>
+            )}
+          </ProcessingFieldset>
+          <DialogFooter className="pt-4">
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !!formError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Changes' : 'Add Item'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!itemToDelete} onOpenChange={(open) => !open && !deleting && setItemToDelete(null)}>
+        <DialogContent className="sm:max-w-[400px] p-3 sm:p-6 w-[calc(100vw-32px)]">
+          <DialogHeader>
+            <DialogTitle>Delete Equipment</DialogTitle>
+            <DialogDescription>
+              Delete <b>{itemToDelete?.name}</b> from the inventory? Confirmed bookings keep their items, but pending requests for it can no longer be approved. To stop new reservations only, turn off &quot;Reservable&quot; instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="pt-4">
+            <Button variant="outline" onClick={() => setItemToDelete(null)} disabled={deleting}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, Suspense, useMemo } from 'react';
 import { logger } from '../lib/logger';
-import { abbreviateDepartments , convertTo12Hour, convertTo24Hour, formatTimeRange, isPastBookingTime, isReasonableBookingDuration, addDaysToDateString } from '../utils/timeUtils';
+import { abbreviateDepartments , convertTo12Hour, convertTo24Hour, formatTimeRange, getOperatingHoursViolation, isPastBookingTime, isReasonableBookingDuration, addDaysToDateString } from '../utils/timeUtils';
 /* spinner removed by request; fallbacks reverted to text */
 // Tab persistence removed: default to overview on login
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
@@ -26,6 +26,7 @@ const RoomBooking = React.lazy(() => import('./RoomBooking'));
 const RoomSearch = React.lazy(() => import('./RoomSearch'));
 const FacultySchedule = React.lazy(() => import('./FacultySchedule'));
 const ProfileSettings = React.lazy(() => import('./ProfileSettings'));
+const WaitlistPanel = React.lazy(() => import('./WaitlistPanel'));
 import NotificationBell from './NotificationBell';
 import NotificationCenter from './NotificationCenter';
 import { OfflineQueueViewer } from './OfflineQueueViewer';
@@ -34,7 +35,10 @@ import ErrorBoundary from './ErrorBoundary';
 import type { Notification } from '../lib/notificationService';
 import { LogoutConfirmDialog } from './LogoutConfirmDialog';
 import { useNotificationContext } from '../contexts/NotificationContext';
-import type { User, Classroom, BookingRequest, Schedule } from '../App';
+import { useOperatingHours } from '../hooks/useOperatingHours';
+import { useBookingPolicies } from '../hooks/useBookingPolicies';
+import { DEFAULT_BOOKING_POLICIES } from '../utils/bookingPolicies';
+import type { User, Classroom, BookingRequest, Schedule, BookingConflict } from '../App';
 
 interface FacultyDashboardProps {
   user: User;
@@ -45,7 +49,13 @@ interface FacultyDashboardProps {
   allBookingRequests: BookingRequest[];
   onLogout: () => void;
   onBookingRequest: (request: Omit<BookingRequest, 'id' | 'requestDate' | 'status'>, suppressToast?: boolean) => void;
+  // Submit several rooms as one event booking, approved and cancelled as a unit
+  onBookingGroupRequest?: (requests: Omit<BookingRequest, 'id' | 'requestDate' | 'status' | 'groupId'>[]) => Promise<void>;
+  // Propose a new date, time or room for a confirmed reservation; resolves true once submitted
+  onRequestScheduleChange?: (schedule: Schedule, proposal: Pick<BookingRequest, 'classroomId' | 'classroomName' | 'date' | 'startTime' | 'endTime'>) => Promise<boolean>;
   checkConflicts: (classroomId: string, date: string, startTime: string, endTime: string, checkPastTime?: boolean) => boolean | Promise<boolean>;
+  // Lists what a slot conflicts with, for the booking form's submit check
+  findConflicts: (classroomId: string, date: string, startTime: string, endTime: string, excludeRequestId?: string) => Promise<BookingConflict[]>;
   // Optional external prefill data (e.g., when user undoes a recent booking)
   externalInitialData?: {
     classroomId?: string;
@@ -53,6 +63,7 @@ interface FacultyDashboardProps {
     startTime?: string;
     endTime?: string;
     purpose?: string;
+    expectedAttendees?: number;
   } | null;
   onExternalInitialDataConsumed?: () => void;
 }
@@ -66,7 +77,10 @@ export default function FacultyDashboard({
   allBookingRequests,
   onLogout,
   onBookingRequest,
+  onBookingGroupRequest,
+  onRequestScheduleChange,
   checkConflicts,
+  findConflicts,
   externalInitialData,
   onExternalInitialDataConsumed
 }: FacultyDashboardProps) {
@@ -127,8 +141,13 @@ export default function FacultyDashboard({
     startTime?: string;
     endTime?: string;
     purpose?: string;
+    expectedAttendees?: number;
   } | null>(null);
 
+  // Quick rebook validates against the admin-configured operating hours and booking policies
+  const operatingHours = useOperatingHours();
+  const maxDurationMinutes = (useBookingPolicies() ?? DEFAULT_BOOKING_POLICIES).maxDurationMinutes;
+
   // Get notifications for graying out acknowledged items and counting unacknowledged
   const notificationCtx = useNotificationContext();
   const acknowledgedNotifications = notificationCtx.notifications.filter(n => n.acknowledgedAt);
@@ -141,6 +160,11 @@ export default function FacultyDashboard({
     setActiveTab('overview');
   };
 
+  const handleBookingGroupRequestWithRedirect = onBookingGroupRequest && (async (requests: Omit<BookingRequest, 'id' | 'requestDate' | 'status' | 'groupId'>[]) => {
+    await onBookingGroupRequest(requests);
+    setActiveTab('overview');
+  });
+
   // Handle notification navigation
   const handleNotificationNavigate = (notification: Notification) => {
     setShowNotifications(false); // Close notification panel
@@ -195,6 +219,13 @@ export default function FacultyDashboard({
       // For classroom disabled, show in requests/pending tab as it affects pending bookings
       setActiveTab('schedule');
       setScheduleInitialTab('requests');
+    } else if (notification.type === 'waitlist') {
+      // Converted entries link to the new request; otherwise open the booking tab with the waitlist
+      if (notification.bookingRequestId) {
+        navigateByBookingStatus(notification.bookingRequestId);
+      } else {
+        setActiveTab('booking');
+      }
     } else if (notification.type === 'signup') {
       // Faculty users shouldn't receive signup notifications, but handle it gracefully
       setActiveTab('overview');
@@ -220,13 +251,14 @@ export default function FacultyDashboard({
   };
 
   // Handle reserve from search - redirect to booking tab with prefilled data
-  const handleReserveFromSearch = (classroomId: string, date: string, startTime: string, endTime: string) => {
+  const handleReserveFromSearch = (classroomId: string, date: string, startTime: string, endTime: string, expectedAttendees?: number) => {
     setBookingInitialData({
       classroomId,
       date,
       startTime,
       endTime,
-      purpose: ''
+      purpose: '',
+      expectedAttendees
     });
     setActiveTab('booking');
   };
@@ -246,7 +278,7 @@ export default function FacultyDashboard({
   }, [externalInitialData, onExternalInitialDataConsumed]);
 
   // Quick rebook: attempt to submit immediately, otherwise fall back to opening the booking form with prefill
-  const handleQuickRebook = async (initial: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string }) => {
+  const handleQuickRebook = async (initial: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string; expectedAttendees?: number }) => {
     if (!initial || !initial.classroomId || !initial.date || !initial.startTime || !initial.endTime) {
       toast.error('Missing booking information for quick rebook.');
       setBookingInitialData(initial);
@@ -267,14 +299,24 @@ export default function FacultyDashboard({
       return;
     }
 
-    if (!isReasonableBookingDuration(initial.startTime, initial.endTime)) {
-      toast.error('Requested duration is invalid (min 30 minutes, max 8 hours). Opening form to adjust.');
+    if (!isReasonableBookingDuration(initial.startTime, initial.endTime, operatingHours, maxDurationMinutes)) {
+      toast.error(`Requested duration is invalid (min one time slot, max ${maxDurationMinutes / 60} hours). Opening form to adjust.`);
       setBookingInitialData(initial);
       toast('Form pre-filled with the previous booking — please review and submit.');
       setActiveTab('booking');
       return;
     }
 
+    const building = classrooms.find(c => c.id === initial.classroomId)?.building;
+    const hoursViolation = getOperatingHoursViolation(operatingHours, targetDate, convertTo24Hour(initial.startTime), convertTo24Hour(initial.endTime), building);
+    if (hoursViolation) {
+      toast.error(`${hoursViolation}. Opening the booking form for adjustments.`);
+      setBookingInitialData({ ...initial, date: targetDate });
+      toast('Form pre-filled with the previous booking — please review and submit.');
+      setActiveTab('booking');
+      return;
+    }
+
   const start24 = convertTo24Hour(initial.startTime);
   const end24 = convertTo24Hour(initial.endTime);
 
@@ -297,7 +339,8 @@ export default function FacultyDashboard({
         date: targetDate,
         startTime: start24,
         endTime: end24,
-        purpose: initial.purpose || ''
+        purpose: initial.purpose || '',
+        ...(initial.expectedAttendees ? { expectedAttendees: initial.expectedAttendees } : {})
       } as Omit<BookingRequest, 'id' | 'requestDate' | 'status'>;
 
     // Suppress the default booking toast and show a specialized quick-rebook toast
@@ -345,7 +388,7 @@ export default function FacultyDashboard({
       acc.total++;
       if (r.status === 'approved') acc.approved++;
       else if (r.status === 'rejected') acc.rejected++;
-      else if (r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime))) {
+      else if (r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime), r.startAt)) {
         acc.pending++;
       }
       return acc;
@@ -844,9 +887,16 @@ export default function FacultyDashboard({
                     schedules={allSchedules}
                     bookingRequests={allBookingRequests}
                     onBookingRequest={handleBookingRequestWithRedirect}
+                    onBookingGroupRequest={handleBookingGroupRequestWithRedirect}
                     initialData={bookingInitialData ?? undefined}
                     user={user}
-                    checkConflicts={checkConflicts}
+                    findConflicts={findConflicts}
+                  />
+                  <WaitlistPanel
+                    userId={user.id}
+                    onBook={(classroomId, date, startTime, endTime, purpose) => {
+                      setBookingInitialData({ classroomId, date, startTime, endTime, purpose });
+                    }}
                   />
                 </Suspense>
               </ErrorBoundary>
@@ -877,6 +927,8 @@ export default function FacultyDashboard({
                   <FacultySchedule
                     schedules={schedules}
                     bookingRequests={bookingRequests}
+                    classrooms={classrooms}
+                    onRequestChange={onRequestScheduleChange}
                     initialTab={scheduleInitialTab}
                     userId={user?.id}
                     acknowledgedNotifications={acknowledgedNotifications}
@@ -884,7 +936,7 @@ export default function FacultyDashboard({
                     highlightedRequestId={highlightedRequestId}
                     onHighlightConsumed={() => setHighlightedRequestId(null)}
                     onInitialTabConsumed={() => setScheduleInitialTab(null)}
-                    onQuickRebook={(initial: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string }) => {
+                    onQuickRebook={(initial: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string; expectedAttendees?: number }) => {
                       void handleQuickRebook(initial);
                     }}
                   />
@@ -897,7 +949,7 @@ export default function FacultyDashboard({
             <div className="animate-in">
               <ErrorBoundary fallback={<div className="p-4 text-center text-red-500">Error loading settings. Please refresh the page.</div>}>
                 <Suspense fallback={<div className="p-4">Loading settings…</div>}>
-                  <ProfileSettings user={user} />
+                  <ProfileSettings user={user} classrooms={classrooms} />
                 </Suspense>
               </ErrorBoundary>
             </div>
@@ -14,18 +14,26 @@ import { Label } from './ui/label';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/enhanced-tabs';
 import { readPreferredTab } from '../utils/tabPersistence';
-import { Calendar, Clock, MapPin, CheckCircle, XCircle, AlertTriangle, MessageSquare, X, Loader2 } from 'lucide-react';
+import { Calendar, Clock, MapPin, CheckCircle, XCircle, AlertTriangle, MessageSquare, X, Loader2, Repeat, Package } from 'lucide-react';
 import { convertTo12Hour, formatTimeRange, isPastBookingTime } from '../utils/timeUtils';
-import type { Schedule, BookingRequest } from '../App';
+import { describeRecurrence, getOccurrenceDates } from '../utils/recurrence';
+import { describeReservedEquipment } from '../utils/equipment';
+import { describeGroupScheduleRooms } from '../utils/bookingGroups';
+import ScheduleChangeDialog, { ScheduleChangeProposal } from './ScheduleChangeDialog';
+import ScheduleChangeDiff from './ScheduleChangeDiff';
+import type { Schedule, BookingRequest, Classroom } from '../App';
 import type { Notification } from '../lib/notificationService';
 
 interface FacultyScheduleProps {
   schedules: Schedule[];
   bookingRequests: BookingRequest[];
+  classrooms?: Classroom[];
   initialTab?: 'upcoming' | 'requests' | 'approved' | 'cancelled' | 'history' | 'rejected' | null;
   onCancelSelected?: (scheduleId: string) => Promise<void> | void;
   // Callback when user chooses to "Quick Rebook" — attempt one-click submission
-  onQuickRebook?: (initialData: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string }) => void;
+  onQuickRebook?: (initialData: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string; expectedAttendees?: number }) => void;
+  // Propose a new date, time or room for a confirmed reservation; resolves true once submitted
+  onRequestChange?: (schedule: Schedule, proposal: ScheduleChangeProposal) => Promise<boolean>;
   userId?: string;
   acknowledgedNotifications?: Notification[];
   allNotifications?: Notification[];
@@ -51,7 +59,7 @@ const highlightAndScroll = (el: HTMLElement | null) => {
   }
 };
 
-export default function FacultySchedule({ schedules, bookingRequests, initialTab, onCancelSelected, onQuickRebook, userId, acknowledgedNotifications = [], allNotifications = [], highlightedRequestId, onHighlightConsumed, onInitialTabConsumed }: FacultyScheduleProps) {
+export default function FacultySchedule({ schedules, bookingRequests, classrooms = [], initialTab, onCancelSelected, onQuickRebook, onRequestChange, userId, acknowledgedNotifications = [], allNotifications = [], highlightedRequestId, onHighlightConsumed, onInitialTabConsumed }: FacultyScheduleProps) {
   const STORAGE_KEY_BASE = 'plv:facultySchedule:activeTab';
   const STORAGE_KEY = userId ? `${STORAGE_KEY_BASE}:${userId}` : STORAGE_KEY_BASE;
   const allowed = ['upcoming', 'requests', 'approved', 'cancelled', 'history', 'rejected'] as const;
@@ -96,9 +104,11 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
   const [attemptedCancelSchedule, setAttemptedCancelSchedule] = useState<Schedule | null>(null);
   // Quick rebook confirmation dialog state
   const [quickDialogOpen, setQuickDialogOpen] = useState(false);
-  const [quickDialogData, setQuickDialogData] = useState<{ classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string } | null>(null);
+  const [quickDialogData, setQuickDialogData] = useState<{ classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string; expectedAttendees?: number } | null>(null);
+  // Confirmed reservation the "Request Change" dialog is open for
+  const [changeSchedule, setChangeSchedule] = useState<Schedule | null>(null);
 
-  const openQuickDialog = (data: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string }) => {
+  const openQuickDialog = (data: { classroomId: string; classroomName: string; date: string; startTime: string; endTime: string; purpose?: string; expectedAttendees?: number }) => {
     setQuickDialogData(data);
     setQuickDialogOpen(true);
   };
@@ -172,13 +182,15 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
   };
 
   // Filter requests
-  const pendingRequests = uniqueBookingRequests.filter(r => r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime)));
+  const pendingRequests = uniqueBookingRequests.filter(r => r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime), r.startAt));
+  // Schedules with a change request awaiting review
+  const pendingChangeIds = new Set(pendingRequests.flatMap(r => r.changeOf ? [r.changeOf.scheduleId] : []));
   const approvedRequests = uniqueBookingRequests.filter(r => r.status === 'approved');
   const rejectedRequests = uniqueBookingRequests.filter(r => r.status === 'rejected');
   const cancelledRequests = uniqueBookingRequests.filter(r => r.status === 'cancelled');
   // Expired requests: either server-marked as expired OR pending but past their start time
   const expiredRequests = uniqueBookingRequests.filter(r => 
-    r.status === 'expired' || (r.status === 'pending' && isPastBookingTime(r.date, convertTo12Hour(r.startTime)))
+    r.status === 'expired' || (r.status === 'pending' && isPastBookingTime(r.date, convertTo12Hour(r.startTime), r.startAt))
   ).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
   // Count only items with unacknowledged notifications for badges
@@ -216,6 +228,8 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
   };
 
   const ScheduleCard = ({ schedule }: { schedule: Schedule }) => {
+    const pendingChange = pendingChangeIds.has(schedule.id);
+    const rescheduled = schedule.status === 'cancelled' && !!schedule.rescheduledTo;
     return (
       <Card className={`border-l-4 ${
         schedule.status === 'cancelled' ? 'border-l-red-500 bg-red-50' : 'border-l-blue-500'
@@ -228,8 +242,10 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
                 <span className="font-medium">{formatDateShort(schedule.date)}</span>
               </div>
               <div className="flex items-center space-x-2">
+                {pendingChange && <Badge variant="outline">Change requested</Badge>}
+                {schedule.checkedInAt && <Badge variant="outline">Checked in</Badge>}
                 <Badge variant={schedule.status === 'cancelled' ? 'destructive' : 'default'}>
-                  {schedule.status === 'cancelled' ? 'Cancelled' : 'Confirmed'}
+                  {rescheduled ? 'Moved' : schedule.noShow ? 'No-show' : schedule.status === 'cancelled' ? 'Cancelled' : 'Confirmed'}
                 </Badge>
               </div>
             </div>
@@ -241,15 +257,25 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
               </div>
               <div className="flex items-center space-x-2">
                 <MapPin className="h-4 w-4 text-gray-500" />
-                <span>{schedule.classroomName}</span>
+                <span>{schedule.groupId ? `Event booking · ${describeGroupScheduleRooms(schedules, schedule.groupId)}` : schedule.classroomName}</span>
               </div>
+              {schedule.reservedEquipment && schedule.reservedEquipment.length > 0 && (
+                <div className="flex items-center space-x-2 md:col-span-2">
+                  <Package className="h-4 w-4 text-gray-500" />
+                  <span>{describeReservedEquipment(schedule.reservedEquipment)}</span>
+                </div>
+              )}
             </div>
 
             <div>
               <p className="font-medium text-gray-900">{schedule.purpose}</p>
               <p className="text-sm text-gray-500 mt-1">{formatDate(schedule.date)}</p>
               {schedule.status === 'cancelled' && (
-                <p className="text-sm text-red-600 mt-1 italic">This reservation has been cancelled</p>
+                <p className="text-sm text-red-600 mt-1 italic">
+                  {rescheduled
+                    ? 'This reservation was moved to a new slot'
+                    : schedule.noShow ? 'Released because nobody checked in' : 'This reservation has been cancelled'}
+                </p>
               )}
               {schedule.status === 'confirmed' && !isCancellationAllowed(schedule.date, schedule.startTime) && (
                 <p className="text-sm text-amber-600 mt-1 italic">Cancellation not allowed (less than 48 hours notice)</p>
@@ -266,12 +292,24 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
                       date: schedule.date,
                       startTime: convertTo12Hour(schedule.startTime),
                       endTime: convertTo12Hour(schedule.endTime),
-                      purpose: schedule.purpose || ''
+                      purpose: schedule.purpose || '',
+                      expectedAttendees: schedule.expectedAttendees
                     });
                   }}
                 >
                   Quick Rebook
                 </Button>
+                {schedule.status === 'confirmed' && onRequestChange && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={pendingChange || isPastBookingTime(schedule.date, convertTo12Hour(schedule.startTime), schedule.startAt)}
+                    onClick={() => setChangeSchedule(schedule)}
+                    title={pendingChange ? 'A change request for this reservation is awaiting review' : 'Propose a new date, time or room'}
+                  >
+                    Request Change
+                  </Button>
+                )}
                 {schedule.status === 'confirmed' && (
                   <Button
                     variant="destructive"
@@ -325,16 +363,28 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
             </Badge>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-            <div className="flex items-center space-x-2">
-              <Clock className="h-4 w-4 text-gray-500" />
-              <span>{formatTimeRange(convertTo12Hour(request.startTime), convertTo12Hour(request.endTime))}</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <MapPin className="h-4 w-4 text-gray-500" />
-              <span>{request.classroomName}</span>
+          {request.changeOf ? (
+            <ScheduleChangeDiff original={request.changeOf} proposal={request} />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              <div className="flex items-center space-x-2">
+                <Clock className="h-4 w-4 text-gray-500" />
+                <span>{formatTimeRange(convertTo12Hour(request.startTime), convertTo12Hour(request.endTime))}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <MapPin className="h-4 w-4 text-gray-500" />
+                <span>{request.classroomName}</span>
+              </div>
+              {request.recurrence && (
+                <div className="flex items-center space-x-2 md:col-span-2">
+                  <Repeat className="h-4 w-4 text-gray-500" />
+                  <span>
+                    {describeRecurrence(request.recurrence, request.date)} · {getOccurrenceDates(request).length} occurrences
+                  </span>
+                </div>
+              )}
             </div>
-          </div>
+          )}
 
           <div>
             <p className="font-medium text-gray-900">{request.purpose}</p>
@@ -364,7 +414,8 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
                   date: request.date,
                   startTime: convertTo12Hour(request.startTime),
                   endTime: convertTo12Hour(request.endTime),
-                  purpose: request.purpose || ''
+                  purpose: request.purpose || '',
+                  expectedAttendees: request.expectedAttendees
                 });
               }}
             >
@@ -539,6 +590,15 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
           </DialogContent>
         </Dialog>
 
+        {onRequestChange && (
+          <ScheduleChangeDialog
+            schedule={changeSchedule}
+            classrooms={classrooms}
+            onClose={() => setChangeSchedule(null)}
+            onSubmit={onRequestChange}
+          />
+        )}
+
         {/* Individual Cancellation Confirmation Dialog */}
         <Dialog open={!!attemptedCancelSchedule} onOpenChange={(open) => !open && setAttemptedCancelSchedule(null)}>
           <DialogContent>
@@ -554,6 +614,9 @@ export default function FacultySchedule({ schedules, bookingRequests, initialTab
                 <p className="text-sm"><strong>Date:</strong> {formatDateShort(attemptedCancelSchedule.date)}</p>
                 <p className="text-sm"><strong>Time:</strong> {formatTimeRange(convertTo12Hour(attemptedCancelSchedule.startTime), convertTo12Hour(attemptedCancelSchedule.endTime))}</p>
                 <p className="text-sm"><strong>Purpose:</strong> {attemptedCancelSchedule.purpose}</p>
+                {attemptedCancelSchedule.groupId && (
+                  <p className="text-sm text-amber-700">This room is part of an event booking. Cancelling it also cancels {describeGroupScheduleRooms(schedules, attemptedCancelSchedule.groupId)}.</p>
+                )}
               </div>
             )}
             <div className="mt-6 flex justify-end gap-2">
@@ -2,7 +2,7 @@ import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { logger } from '../lib/logger';
 import type { Notification } from '../lib/notificationService';
 import { useNotificationContext } from '../contexts/NotificationContext';
-import { Bell, CheckCircle, XCircle, UserPlus, Warning } from '@phosphor-icons/react';
+import { Bell, CheckCircle, XCircle, UserPlus, Warning, Hourglass } from '@phosphor-icons/react';
 import { Loader2 } from 'lucide-react';
 
 type Props = {
@@ -37,6 +37,8 @@ const NotificationItem: React.FC<{ n: Notification; onAcknowledge: (id: string)
               <Warning size={20} className="text-amber-600" />
             ) : n.type === 'signup' ? (
               <UserPlus size={20} className="text-blue-600" />
+            ) : n.type === 'waitlist' ? (
+              <Hourglass size={20} className="text-teal-600" />
             ) : (
               <Bell size={20} className="text-gray-600" />
             )}
@@ -49,6 +51,7 @@ const NotificationItem: React.FC<{ n: Notification; onAcknowledge: (id: string)
                : n.type === 'faculty_cancelled' ? 'Faculty cancelled reservation'
                : n.type === 'classroom_disabled' ? 'Classroom disabled' 
                : n.type === 'signup' ? 'New signup request' 
+               : n.type === 'waitlist' ? 'Waitlisted slot available' 
                : 'Info'}
             </div>
             <div className="text-xs text-gray-600 mt-1">{n.message}</div>
@@ -5,7 +5,7 @@
  * allows users to cancel queued requests, and shows sync status.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
@@ -22,8 +22,11 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { offlineQueueService, type QueuedBookingRequest } from '../lib/offlineQueueService';
+import { bookingRequestService } from '../lib/firebaseService';
 import { toast } from 'sonner';
 import { convertTo12Hour } from '../utils/timeUtils';
+import type { BookingSuggestions as Suggestions, SlotSuggestion } from '../utils/bookingSuggestions';
+import BookingSuggestions from './BookingSuggestions';
 import type { Classroom } from '../App';
 
 interface OfflineQueueViewerProps {
@@ -41,6 +44,9 @@ export function OfflineQueueViewer({ classrooms, onRetryBooking }: OfflineQueueV
   const [queuedRequests, setQueuedRequests] = useState<QueuedBookingRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Alternatives for conflicting entries, keyed by queueId
+  const [suggestions, setSuggestions] = useState<Record<string, Suggestions>>({});
+  const requestedSuggestionsRef = useRef<Set<string>>(new Set());
 
   const loadQueue = async () => {
     try {
@@ -70,6 +76,22 @@ export function OfflineQueueViewer({ classrooms, onRetryBooking }: OfflineQueueV
     return unsubscribe;
   }, []);
 
+  // Look up alternatives for entries that hit a conflict during sync (needs a connection)
+  useEffect(() => {
+    if (!navigator.onLine) return;
+    queuedRequests
+      .filter(q => q.queueStatus === 'conflict' && !requestedSuggestionsRef.current.has(q.queueId))
+      .forEach((queued) => {
+        requestedSuggestionsRef.current.add(queued.queueId);
+        bookingRequestService.suggestAlternatives(queued.bookingData, classrooms)
+          .then((result) => setSuggestions(prev => ({ ...prev, [queued.queueId]: result })))
+          .catch((err) => {
+            requestedSuggestionsRef.current.delete(queued.queueId);
+            console.error('Failed to load alternatives for queued booking:', err);
+          });
+      });
+  }, [queuedRequests, classrooms]);
+
   const handleRemove = async (queueId: string) => {
     try {
       await offlineQueueService.removeQueuedRequest(queueId);
@@ -103,6 +125,25 @@ export function OfflineQueueViewer({ classrooms, onRetryBooking }: OfflineQueueV
     }
   };
 
+  const handleUseSuggestion = async (queued: QueuedBookingRequest, suggestion: SlotSuggestion) => {
+    if (!onRetryBooking) return;
+
+    try {
+      await offlineQueueService.removeQueuedRequest(queued.queueId);
+      onRetryBooking({
+        classroomId: suggestion.classroomId,
+        date: suggestion.date,
+        startTime: suggestion.startTime,
+        endTime: suggestion.endTime,
+        purpose: queued.bookingData.purpose
+      });
+      toast.info('Booking form opened with the suggested slot. Please review and submit.');
+    } catch (error) {
+      console.error('Error applying suggestion:', error);
+      toast.error('Failed to apply suggestion');
+    }
+  };
+
   const getStatusBadge = (status: QueuedBookingRequest['queueStatus']) => {
     switch (status) {
       case 'pending-validation':
@@ -231,6 +272,13 @@ export function OfflineQueueViewer({ classrooms, onRetryBooking }: OfflineQueueV
                   </div>
                 </div>
 
+                {queued.queueStatus === 'conflict' && onRetryBooking && suggestions[queued.queueId] && (
+                  <BookingSuggestions
+                    suggestions={suggestions[queued.queueId]}
+                    onSelect={(suggestion) => handleUseSuggestion(queued, suggestion)}
+                  />
+                )}
+
                 <div className="flex items-center justify-between pt-2 border-t">
                   {getStatusBadge(queued.queueStatus)}
                   
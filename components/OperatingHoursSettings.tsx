@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Clock, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { operatingHoursService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { DEFAULT_OPERATING_HOURS, SLOT_MINUTE_OPTIONS, validateWeeklyHours } from '../utils/operatingHours';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import WeeklyHoursEditor from './WeeklyHoursEditor';
+import type { OperatingHours, User } from '../App';
+
+interface OperatingHoursSettingsProps {
+  user: User;
+}
+
+type HoursDraft = Omit<OperatingHours, 'buildings' | 'updatedAt' | 'updatedBy'>;
+
+export default function OperatingHoursSettings({ user }: OperatingHoursSettingsProps) {
+  const [draft, setDraft] = useState<HoursDraft>(DEFAULT_OPERATING_HOURS);
+  // Buildings with their own hours; those are edited on the buildings themselves
+  const [buildingsWithHours, setBuildingsWithHours] = useState<string[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    operatingHoursService.get()
+      .then((hours) => {
+        if (cancelled || !hours) return;
+        setDraft({ slotMinutes: hours.slotMinutes, weekly: hours.weekly });
+        setBuildingsWithHours(Object.keys(hours.buildings).sort());
+        setLastUpdated(hours.updatedAt);
+      })
+      .catch((err) => {
+        logger.error('Failed to load operating hours:', err);
+        toast.error('Failed to load operating hours');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const hoursError = validateWeeklyHours(draft.weekly, draft.slotMinutes);
+
+  const handleSave = async () => {
+    if (hoursError) {
+      toast.error(hoursError);
+      return;
+    }
+    setSaving(true);
+    try {
+      await operatingHoursService.save(draft, user.id);
+      setLastUpdated(new Date().toISOString());
+      toast.success('Operating hours saved');
+    } catch (err) {
+      logger.error('Failed to save operating hours:', err);
+      toast.error('Failed to save operating hours');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading operating hours…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Operating Hours
+        </CardTitle>
+        <CardDescription>
+          Reservations must start and end within these hours. Buildings without their own hours follow the campus hours.
+          {lastUpdated && <span className="block text-xs mt-1">Last updated {new Date(lastUpdated).toLocaleString()}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ProcessingFieldset isProcessing={saving} className="space-y-6">
+          {/* Slot length */}
+          <div className="space-y-1 max-w-xs">
+            <Label htmlFor="slot-minutes">Time slot length</Label>
+            <Select
+              value={String(draft.slotMinutes)}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, slotMinutes: Number(value) }))}
+            >
+              <SelectTrigger id="slot-minutes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_MINUTE_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">Start and end times are offered in steps of this length from opening time.</p>
+          </div>
+
+          {/* Campus hours */}
+          <div className="space-y-2">
+            <h4 className="font-medium">Campus Hours</h4>
+            <WeeklyHoursEditor idPrefix="campus" week={draft.weekly} onChange={(weekly) => setDraft(prev => ({ ...prev, weekly }))} />
+          </div>
+
+          {/* Building hours */}
+          <div className="space-y-2">
+            <h4 className="font-medium">Building Hours</h4>
+            <p className="text-sm text-gray-600">
+              A building can have its own hours, e.g. an annex that closes earlier. Set them on the building in the Buildings list of the Classrooms tab.
+            </p>
+            {buildingsWithHours.length === 0 ? (
+              <p className="text-sm text-gray-500">Every building follows the campus hours.</p>
+            ) : (
+              <p className="text-sm text-gray-500">Own hours: {buildingsWithHours.join(', ')}</p>
+            )}
+          </div>
+
+          {hoursError && (
+            <p className="text-sm text-red-600 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {hoursError}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleSave} disabled={saving || !!hoursError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Hours
+            </Button>
+          </div>
+        </ProcessingFieldset>
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,23 +22,30 @@ import {
   X,
   Sun,
   Moon,
-  Monitor
+  Monitor,
+  CalendarDays,
+  Copy,
+  RefreshCw
 } from 'lucide-react';
 import { toast } from 'sonner';
-import type { User } from '../App';
-import { authService, userService } from '../lib/firebaseService';
+import type { CalendarFeed, Classroom, User } from '../App';
+import { authService, calendarFeedService, userService } from '../lib/firebaseService';
 import { pushService } from '../lib/pushService';
 import { useDarkMode } from '../hooks/useDarkMode';
 import { Switch } from './ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import ProcessingFieldset from './ui/ProcessingFieldset';
+import { ROLE_LABELS } from '../utils/approvers';
+import { getClassroomFeedUrl, getPersonalFeedUrl, toWebcalUrl } from '../utils/calendarFeeds';
 
 interface ProfileSettingsProps {
   user: User;
   onTogglePush?: (enabled: boolean) => Promise<any> | void;
+  // Rooms offered in the calendar feed picker
+  classrooms?: Classroom[];
 }
 
-export default function ProfileSettings({ user, onTogglePush }: ProfileSettingsProps) {
+export default function ProfileSettings({ user, onTogglePush, classrooms = [] }: ProfileSettingsProps) {
   const [passwordData, setPasswordData] = useState({
     currentPassword: '',
     newPassword: '',
@@ -63,8 +70,20 @@ export default function ProfileSettings({ user, onTogglePush }: ProfileSettingsP
   const userHasToggledRef = React.useRef(false);
   const { theme, setTheme } = useDarkMode();
 
+  // Calendar feed state
+  const [calendarFeed, setCalendarFeed] = useState<CalendarFeed | null>(null);
+  const [isLoadingFeed, setIsLoadingFeed] = useState(true);
+  const [feedClassroomId, setFeedClassroomId] = useState('');
+  const [showRegenerateFeedDialog, setShowRegenerateFeedDialog] = useState(false);
+  const [isRegeneratingFeed, setIsRegeneratingFeed] = useState(false);
+  const sortedFeedClassrooms = React.useMemo(
+    () => [...classrooms].sort((a, b) => a.name.localeCompare(b.name)),
+    [classrooms]
+  );
+
   // Profile editing state
   const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const canEditDepartments = isEditingProfile && user.role !== 'approver';
   const [profileData, setProfileData] = useState({
     name: user.name,
     departments: (user.departments && user.departments.length > 0 ? user.departments : (user.department ? [user.department] : [])) as string[]
@@ -109,6 +128,47 @@ export default function ProfileSettings({ user, onTogglePush }: ProfileSettingsP
     }
   }, []);
 
+  // Load (or create) the calendar feed token
+  useEffect(() => {
+    let cancelled = false;
+    calendarFeedService.get()
+      .then((feed) => { if (!cancelled) setCalendarFeed(feed); })
+      .catch((err) => logger.warn('Failed to load calendar feed:', err))
+      .finally(() => { if (!cancelled) setIsLoadingFeed(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleCopyFeedUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Calendar link copied');
+    } catch (err) {
+      logger.warn('Failed to copy calendar link:', err);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleRegenerateFeed = async () => {
+    setIsRegeneratingFeed(true);
+    try {
+      setCalendarFeed(await calendarFeedService.regenerate());
+      setShowRegenerateFeedDialog(false);
+      toast.success('Calendar link regenerated', {
+        description: 'Calendars subscribed with the old link will stop updating. Subscribe again with the new link.'
+      });
+    } catch (err) {
+      logger.error('Failed to regenerate calendar feed:', err);
+      toast.error('Failed to regenerate calendar link', {
+        description: err instanceof Error ? err.message : 'Please try again.'
+      });
+    } finally {
+      setIsRegeneratingFeed(false);
+    }
+  };
+
+  const personalFeedUrl = calendarFeed ? getPersonalFeedUrl(calendarFeed) : '';
+  const classroomFeedUrl = calendarFeed && feedClassroomId ? getClassroomFeedUrl(calendarFeed, feedClassroomId) : '';
+
   // Verify actual push subscription status on mount
   // This reconciles UI state with actual PushManager state to fix drift issues
   useEffect(() => {
@@ -815,16 +875,17 @@ export default function ProfileSettings({ user, onTogglePush }: ProfileSettingsP
               <Label className="text-sm font-medium text-gray-600">Role</Label>
               <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg">
                 <Shield className="h-4 w-4 text-gray-500" />
-                <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
-                  {user.role === 'admin' ? 'Administrator' : 'Faculty'}
+                <Badge variant={user.role === 'faculty' ? 'secondary' : 'default'}>
+                  {ROLE_LABELS[user.role]}
                 </Badge>
               </div>
             </div>
 
             {/* Department Field */}
             <div className="space-y-2">
-              <Label className="text-sm font-medium text-gray-600">Department{isEditingProfile && 's'}</Label>
-              {isEditingProfile ? (
+              {/* An approver's departments set what they may decide, so only admins change them */}
+              <Label className="text-sm font-medium text-gray-600">Department{canEditDepartments && 's'}</Label>
+              {canEditDepartments ? (
                 <div className="space-y-2">
                   <Select
                     value=""
@@ -920,6 +981,115 @@ export default function ProfileSettings({ user, onTogglePush }: ProfileSettingsP
         </CardContent>
       </Card>
 
+      {/* Calendar Feed */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Calendar Feed
+          </CardTitle>
+          <CardDescription>
+            Subscribe to your confirmed reservations from your phone or desktop calendar. Calendars refresh the feed on their own schedule, usually every few hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingFeed ? (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading calendar link…
+            </div>
+          ) : !calendarFeed ? (
+            <p className="text-sm text-muted-foreground">The calendar link could not be loaded. Refresh the page to try again.</p>
+          ) : (
+            <ProcessingFieldset isProcessing={isRegeneratingFeed} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="calendar-feed-url">My reservations</Label>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input id="calendar-feed-url" value={personalFeedUrl} readOnly className="font-mono text-xs" onFocus={(e) => e.currentTarget.select()} />
+                  <div className="flex gap-2 shrink-0">
+                    <Button type="button" variant="outline" onClick={() => handleCopyFeedUrl(personalFeedUrl)}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </Button>
+                    <Button type="button" variant="outline" asChild>
+                      <a href={toWebcalUrl(personalFeedUrl)}>
+                        <CalendarDays className="h-4 w-4 mr-2" />
+                        Subscribe
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {sortedFeedClassrooms.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Classroom bookings</Label>
+                  <Select value={feedClassroomId} onValueChange={setFeedClassroomId}>
+                    <SelectTrigger aria-label="Classroom to subscribe to" className="sm:max-w-sm">
+                      <SelectValue placeholder="Choose a classroom" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortedFeedClassrooms.map((classroom) => (
+                        <SelectItem key={classroom.id} value={classroom.id}>
+                          {classroom.building ? `${classroom.name} (${classroom.building})` : classroom.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {classroomFeedUrl && (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Input value={classroomFeedUrl} readOnly aria-label="Classroom calendar link" className="font-mono text-xs" onFocus={(e) => e.currentTarget.select()} />
+                      <div className="flex gap-2 shrink-0">
+                        <Button type="button" variant="outline" onClick={() => handleCopyFeedUrl(classroomFeedUrl)}>
+                          <Copy className="h-4 w-4 mr-2" />
+                          Copy
+                        </Button>
+                        <Button type="button" variant="outline" asChild>
+                          <a href={toWebcalUrl(classroomFeedUrl)}>
+                            <CalendarDays className="h-4 w-4 mr-2" />
+                            Subscribe
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border-t pt-4">
+                <p className="text-xs text-muted-foreground">
+                  These links work without signing in. If one was shared by mistake, regenerate it; every link above changes and the old ones stop working.
+                </p>
+                <Button type="button" variant="outline" className="shrink-0" onClick={() => setShowRegenerateFeedDialog(true)}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate link
+                </Button>
+              </div>
+            </ProcessingFieldset>
+          )}
+
+          <AlertDialog open={showRegenerateFeedDialog} onOpenChange={(v) => { if (isRegeneratingFeed) return; setShowRegenerateFeedDialog(v); }}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Regenerate calendar link?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Calendars subscribed with your current links will stop receiving updates. You will need to subscribe again with the new link.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isRegeneratingFeed}>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => { e.preventDefault(); handleRegenerateFeed(); }}
+                  disabled={isRegeneratingFeed}
+                >
+                  {isRegeneratingFeed ? 'Regenerating…' : 'Regenerate'}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardContent>
+      </Card>
+
       {/* Push Notification Preferences */}
       <Card>
         <CardHeader>
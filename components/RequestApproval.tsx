@@ -6,11 +6,18 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Label } from './ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { readPreferredTab, writeStoredTab, writeTabToHash } from '../utils/tabPersistence';
-import { CheckCircle, XCircle, Clock, Loader2 } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Loader2, Repeat, AlertTriangle, MapPin, Building2 } from 'lucide-react';
 import ProcessingFieldset from './ui/ProcessingFieldset';
 import { convertTo12Hour, isPastBookingTime } from '../utils/timeUtils';
-import type { BookingRequest } from '../App';
+import { describeRecurrence, getOccurrenceDates } from '../utils/recurrence';
+import { findRequestConflicts, isBlockingConflict } from '../utils/conflicts';
+import { collectBookingGroups, describeGroupRooms, isGroupLead } from '../utils/bookingGroups';
+import { describeOwnershipForRequester } from '../utils/classroomOwnership';
+import { getUserDepartments } from '../utils/approvers';
+import type { BookingConflict, BookingRequest, Classroom, ScheduleSlot, User } from '../App';
 import RequestCard from './RequestCard';
+import ScheduleChangeDiff from './ScheduleChangeDiff';
+import ConflictList from './ConflictList';
 import { toast } from 'sonner';
 import BulkOperationLoader from './BulkOperationLoader';
 import useBulkRunner, { BulkTask } from '../hooks/useBulkRunner';
@@ -19,9 +26,13 @@ import ScrollableBulkList, { ScrollableBulkSummary } from './ui/ScrollableBulkLi
 
 interface RequestApprovalProps {
   requests: BookingRequest[];
+  // Used to show how each request's group fits its room
+  classrooms?: Classroom[];
+  // Used to show whether the requester belongs to the department that owns the room
+  users?: User[];
   onRequestApproval: (requestId: string, approved: boolean, feedback?: string, suppressToast?: boolean) => Promise<void>;
   onCancelApproved?: (requestId: string, reason: string) => void;
-  checkConflicts: (classroomId: string, date: string, startTime: string, endTime: string, checkPastTime?: boolean, excludeRequestId?: string) => boolean | Promise<boolean>;
+  findConflicts: (classroomId: string, date: string, startTime: string, endTime: string, excludeRequestId?: string, excludeSchedule?: ScheduleSlot) => Promise<BookingConflict[]>;
   userId?: string;
   initialTab?: 'pending' | 'approved' | 'rejected' | 'expired';
   onInitialTabConsumed?: () => void;
@@ -46,7 +57,7 @@ const highlightAndScroll = (el: HTMLElement | null) => {
   }
 };
 
-export default function RequestApproval({ requests, onRequestApproval, onCancelApproved, checkConflicts, userId, initialTab, onInitialTabConsumed, highlightedRequestId, onHighlightConsumed }: RequestApprovalProps) {
+export default function RequestApproval({ requests, classrooms = [], users = [], onRequestApproval, onCancelApproved, findConflicts, userId, initialTab, onInitialTabConsumed, highlightedRequestId, onHighlightConsumed }: RequestApprovalProps) {
   const STORAGE_KEY_BASE = 'plv:requestApproval:activeTab';
   const STORAGE_KEY = userId ? `${STORAGE_KEY_BASE}:${userId}` : STORAGE_KEY_BASE;
   const allowedTabs = ['pending', 'approved', 'rejected', 'expired'];
@@ -88,15 +99,37 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
   const [feedbackError, setFeedbackError] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [actionType, setActionType] = useState<'approve' | 'reject'>('approve');
+  // What the request in the dialog overlaps, so the admin can weigh competing requests
+  const [dialogConflicts, setDialogConflicts] = useState<BookingConflict[]>([]);
   const { announce } = useAnnouncer();
 
+  // A multi-room event booking is listed once, as its first room, and acted on as a unit
+  const bookingGroups = React.useMemo(() => collectBookingGroups(requests), [requests]);
+  const listedRequests = requests.filter(isGroupLead);
+  const getGroupMembers = (request: BookingRequest) => (request.groupId ? bookingGroups.get(request.groupId) : undefined);
+  const getOwnershipContext = (request: BookingRequest) => describeOwnershipForRequester(
+    classrooms.find(c => c.id === request.classroomId),
+    getUserDepartments(users.find(u => u.id === request.facultyId))
+  );
+
   // Consider a request expired if server-marked or if it's still pending but its start time is in the past
-  const expiredRequests = requests.filter(r => r.status === 'expired' || (r.status === 'pending' && isPastBookingTime(r.date, convertTo12Hour(r.startTime))));
+  const expiredRequests = listedRequests.filter(r => r.status === 'expired' || (r.status === 'pending' && isPastBookingTime(r.date, convertTo12Hour(r.startTime), r.startAt)));
 
   // Pending requests exclude server-marked expired ones (status === 'expired') and time-based expired ones
-  const pendingRequests = requests.filter(r => r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime)));
-  const approvedRequests = requests.filter(r => r.status === 'approved');
-  const rejectedRequests = requests.filter(r => r.status === 'rejected');
+  const pendingRequests = listedRequests.filter(r => r.status === 'pending' && !isPastBookingTime(r.date, convertTo12Hour(r.startTime), r.startAt));
+  const approvedRequests = listedRequests.filter(r => r.status === 'approved');
+  const rejectedRequests = listedRequests.filter(r => r.status === 'rejected');
+
+  useEffect(() => {
+    setDialogConflicts([]);
+    if (!isDialogOpen || !selectedRequest || selectedRequest.status !== 'pending') return;
+    let cancelled = false;
+    const members = (selectedRequest.groupId && bookingGroups.get(selectedRequest.groupId)) || [selectedRequest];
+    Promise.all(members.map(member => findRequestConflicts(member, findConflicts)))
+      .then((perRoom) => { if (!cancelled) setDialogConflicts(perRoom.flat()); })
+      .catch(() => { /* the request card already reports a failed check */ });
+    return () => { cancelled = true; };
+  }, [isDialogOpen, selectedRequest, findConflicts, bookingGroups]);
 
   const handleAction = (request: BookingRequest, type: 'approve' | 'reject') => {
     setSelectedRequest(request);
@@ -415,9 +448,12 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
                     <div key={request.id} id={`request-card-${request.id}`}>
                       <RequestCard
                         request={request}
+                        classroom={classrooms.find(c => c.id === request.classroomId)}
+                        groupMembers={getGroupMembers(request)}
+                        ownershipContext={getOwnershipContext(request)}
                         onApprove={() => handleAction(request, 'approve')}
                         onReject={() => handleAction(request, 'reject')}
-                        checkConflicts={checkConflicts}
+                        findConflicts={findConflicts}
                         status="pending"
                         showSelect
                         selected={!!selectedIds[request.id]}
@@ -473,10 +509,13 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
                     <div key={request.id} id={`request-card-${request.id}`}>
                       <RequestCard
                         request={request}
+                        classroom={classrooms.find(c => c.id === request.classroomId)}
+                        groupMembers={getGroupMembers(request)}
+                        ownershipContext={getOwnershipContext(request)}
                         onApprove={() => {}}
                         onReject={() => {}}
                         onCancelApproved={onCancelApproved}
-                        checkConflicts={checkConflicts}
+                        findConflicts={findConflicts}
                         status="approved"
                         showSelect
                         selected={!!approvedSelectedIds[request.id]}
@@ -507,6 +546,9 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
                   <div key={request.id} id={`request-card-${request.id}`}>
                     <RequestCard
                       request={request}
+                      classroom={classrooms.find(c => c.id === request.classroomId)}
+                      groupMembers={getGroupMembers(request)}
+                      ownershipContext={getOwnershipContext(request)}
                       status="expired"
                     />
                   </div>
@@ -532,9 +574,12 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
                   <div key={request.id} id={`request-card-${request.id}`}>
                     <RequestCard
                       request={request}
+                      classroom={classrooms.find(c => c.id === request.classroomId)}
+                      groupMembers={getGroupMembers(request)}
+                      ownershipContext={getOwnershipContext(request)}
                       onApprove={() => {}}
                       onReject={() => {}}
-                      checkConflicts={checkConflicts}
+                      findConflicts={findConflicts}
                       status="rejected"
                     />
                   </div>
@@ -562,9 +607,13 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
               )}
             </DialogTitle>
             <DialogDescription className="text-[10px] sm:text-sm">
-              {actionType === 'approve' 
-                ? 'You are about to approve this classroom reservation request. The faculty member will be notified.'
-                : 'You are about to reject this classroom reservation request. Please provide a clear reason for the faculty member.'}
+              {selectedRequest?.changeOf
+                ? (actionType === 'approve'
+                  ? 'Approving moves the confirmed reservation to the proposed slot. The faculty member will be notified.'
+                  : 'Rejecting keeps the current reservation as it is. Please provide a clear reason for the faculty member.')
+                : actionType === 'approve' 
+                  ? 'You are about to approve this classroom reservation request. The faculty member will be notified.'
+                  : 'You are about to reject this classroom reservation request. Please provide a clear reason for the faculty member.'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -584,15 +633,60 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
                   </span>
                 </div>
                 <div className="text-xs xs:text-sm text-gray-700 space-y-0.5 xs:space-y-1">
-                  <div className="flex items-center gap-1.5 xs:gap-2">
-                    <Clock className="h-3 w-3 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
-                    <span>{convertTo12Hour(selectedRequest.startTime)} - {convertTo12Hour(selectedRequest.endTime)}</span>
-                  </div>
+                  {selectedRequest.changeOf ? (
+                    <ScheduleChangeDiff original={selectedRequest.changeOf} proposal={selectedRequest} />
+                  ) : (
+                    <div className="flex items-center gap-1.5 xs:gap-2">
+                      <Clock className="h-3 w-3 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
+                      <span>{convertTo12Hour(selectedRequest.startTime)} - {convertTo12Hour(selectedRequest.endTime)}</span>
+                    </div>
+                  )}
+                  {(getGroupMembers(selectedRequest)?.length ?? 0) > 1 && (
+                    <div className="flex items-start gap-1.5 xs:gap-2">
+                      <MapPin className="h-3 w-3 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0 mt-0.5" />
+                      <span>
+                        Event booking: {describeGroupRooms(getGroupMembers(selectedRequest) ?? [])}.
+                        {actionType === 'approve' ? ' All rooms are approved together, or none if one is unavailable.' : ' All rooms are rejected together.'}
+                      </span>
+                    </div>
+                  )}
+                  {getOwnershipContext(selectedRequest) && (
+                    <div className="flex items-start gap-1.5 xs:gap-2">
+                      <Building2 className="h-3 w-3 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0 mt-0.5" />
+                      <span>{getOwnershipContext(selectedRequest)}</span>
+                    </div>
+                  )}
+                  {selectedRequest.recurrence && (
+                    <div className="flex items-start gap-1.5 xs:gap-2">
+                      <Repeat className="h-3 w-3 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0 mt-0.5" />
+                      <span>
+                        {describeRecurrence(selectedRequest.recurrence, selectedRequest.date)} · {getOccurrenceDates(selectedRequest).length} occurrences.
+                        {actionType === 'approve' && ' Conflicting occurrences will be skipped.'}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex flex-col xs:flex-row xs:items-center gap-0.5 xs:gap-2">
                     <span className="font-medium text-xs xs:text-sm">Purpose:</span>
                     <span className="text-xs xs:text-sm break-words">{selectedRequest.purpose}</span>
                   </div>
                 </div>
+                {dialogConflicts.length > 0 && (
+                  <div className="border-t border-gray-200 pt-1.5 xs:pt-2 text-xs xs:text-sm">
+                    <p className="flex items-center gap-1.5 font-medium text-amber-800">
+                      <AlertTriangle className="h-3 w-3 xs:h-4 xs:w-4 flex-shrink-0" />
+                      Overlaps {dialogConflicts.length} other reservation{dialogConflicts.length !== 1 ? 's' : ''}
+                    </p>
+                    <ConflictList
+                      conflicts={dialogConflicts}
+                      withDate={!!selectedRequest.recurrence}
+                      limit={5}
+                      className="text-gray-700 mt-1"
+                    />
+                    {actionType === 'approve' && dialogConflicts.some(conflict => !isBlockingConflict(conflict)) && (
+                      <p className="text-gray-500 mt-1">Approving takes the slot; overlapping pending requests can no longer be approved for the same time.</p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
             
@@ -613,7 +707,7 @@ export default function RequestApproval({ requests, onRequestApproval, onCancelA
                       <div className="flex items-start justify-between gap-1.5 xs:gap-2">
                         <div className="space-y-0.5 xs:space-y-1 flex-1 min-w-0">
                           <p className="font-medium text-gray-900 text-xs xs:text-sm">{reservation.facultyName}</p>
-                          <p className="text-gray-700 text-xs xs:text-sm">{reservation.classroomName}</p>
+                          <p className="text-gray-700 text-xs xs:text-sm">{describeGroupRooms(getGroupMembers(reservation) ?? [reservation])}</p>
                           <p className="text-gray-600 text-[10px] xs:text-xs leading-tight">
                             {new Date(reservation.date).toLocaleDateString('en-US', { 
                               weekday: 'short', 
@@ -8,18 +8,35 @@ import { Textarea } from './ui/textarea';
 import { Label } from './ui/label';
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from './ui/tooltip';
 import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
-import { CheckCircle, XCircle, Clock, Calendar, MapPin, User, AlertTriangle, Loader2 } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, Calendar, MapPin, User, Users, AlertTriangle, Loader2, Repeat, Package, Building2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { convertTo12Hour, formatTimeRange, isPastBookingTime } from '../utils/timeUtils';
-import type { BookingRequest } from '../App';
+import { describeRecurrence, getOccurrenceDates } from '../utils/recurrence';
+import { findRequestConflicts, isBlockingConflict } from '../utils/conflicts';
+import { describeCapacityFit, getCapacityFit, type CapacityFit } from '../utils/capacity';
+import { describeReservedEquipment } from '../utils/equipment';
+import { describeGroupRooms } from '../utils/bookingGroups';
+import type { BookingConflict, BookingRequest, Classroom, ScheduleSlot } from '../App';
 import ProcessingFieldset from './ui/ProcessingFieldset';
+import ScheduleChangeDiff from './ScheduleChangeDiff';
+import ConflictList from './ConflictList';
+
+const CAPACITY_FIT_STYLES: Record<CapacityFit, string> = {
+  over: 'bg-red-50 border-red-200 text-red-800',
+  snug: 'bg-amber-50 border-amber-200 text-amber-800',
+  good: 'bg-green-50 border-green-200 text-green-800',
+  roomy: 'bg-blue-50 border-blue-200 text-blue-800',
+};
 
 export default function RequestCard({
   request,
+  classroom,
+  groupMembers,
+  ownershipContext,
   onApprove,
   onReject,
   onCancelApproved,
-  checkConflicts,
+  findConflicts,
   status,
   // New props for selection
   showSelect,
@@ -28,17 +45,34 @@ export default function RequestCard({
   disabled,
 }: {
   request: BookingRequest;
+  // The requested room, for the capacity-fit indicator
+  classroom?: Classroom;
+  // Every room of a multi-room event booking, first room first; the card stands for the group
+  groupMembers?: BookingRequest[];
+  // Who owns a department-owned room and whether the requester belongs to that department
+  ownershipContext?: string | null;
   onApprove?: () => void;
   onReject?: () => void;
   onCancelApproved?: (requestId: string, reason: string) => void;
-  checkConflicts?: (classroomId: string, date: string, startTime: string, endTime: string, checkPastTime?: boolean, excludeRequestId?: string) => boolean | Promise<boolean>;
+  findConflicts?: (classroomId: string, date: string, startTime: string, endTime: string, excludeRequestId?: string, excludeSchedule?: ScheduleSlot) => Promise<BookingConflict[]>;
   status: 'pending' | 'approved' | 'rejected' | 'expired';
   showSelect?: boolean;
   selected?: boolean;
   onToggleSelect?: (checked: boolean) => void;
   disabled?: boolean;
 }) {
-  const [hasConflict, setHasConflict] = useState(false);
+  const [conflicts, setConflicts] = useState<BookingConflict[]>([]);
+  const [conflictCheckFailed, setConflictCheckFailed] = useState(false);
+  const occurrenceDates = getOccurrenceDates(request);
+  // Confirmed reservations block approval; other pending requests only compete for the slot
+  const blockingConflicts = conflicts.filter(isBlockingConflict);
+  const competingRequests = conflicts.filter(conflict => !isBlockingConflict(conflict));
+  // For recurring series: occurrences that conflict (these are skipped on approval)
+  const conflictingDates = request.recurrence ? Array.from(new Set(blockingConflicts.map(conflict => conflict.date))) : [];
+  // A series is only blocked when every occurrence conflicts
+  const hasConflict = conflictCheckFailed || (request.recurrence
+    ? conflictingDates.length > 0 && conflictingDates.length === occurrenceDates.length
+    : blockingConflicts.length > 0);
   const [cancelReason, setCancelReason] = useState('');
   const [cancelError, setCancelError] = useState<string | null>(null);
   const { announce } = useAnnouncer();
@@ -47,38 +81,27 @@ export default function RequestCard({
 
   useEffect(() => {
     const checkForConflicts = async () => {
-      if (typeof checkConflicts !== 'function') return;
+      if (typeof findConflicts !== 'function') return;
       try {
-        const result = checkConflicts(
-          request.classroomId,
-          request.date,
-          request.startTime,
-          request.endTime,
-          false,
-          request.id
-        );
-        if (result instanceof Promise) {
-          const conflict = await result;
-          setHasConflict(conflict);
-        } else {
-          setHasConflict(result);
-        }
+        const perRoom = await Promise.all((groupMembers ?? [request]).map(member => findRequestConflicts(member, findConflicts)));
+        setConflicts(perRoom.flat());
+        setConflictCheckFailed(false);
       } catch (error) {
         logger.error('Error checking conflicts:', error);
-        setHasConflict(true);
+        setConflictCheckFailed(true);
       }
     };
 
-    if (status === 'pending' && typeof checkConflicts === 'function') {
+    if (status === 'pending' && typeof findConflicts === 'function') {
       checkForConflicts();
     }
-  }, [request, checkConflicts, status]);
+  }, [request, groupMembers, findConflicts, status]);
 
   const isServerExpired = request.status === 'expired';
-  const isExpired = isServerExpired || (status === 'pending' && isPastBookingTime(request.date, convertTo12Hour(request.startTime)));
+  const isExpired = isServerExpired || (status === 'pending' && isPastBookingTime(request.date, convertTo12Hour(request.startTime), request.startAt));
   // For approved bookings, determine if the reservation has already started or passed.
   // The backend already rejects cancellations for already-started/past bookings, so reflect that in the UI.
-  const isLapsedBooking = isServerExpired || isPastBookingTime(request.date, convertTo12Hour(request.startTime));
+  const isLapsedBooking = isServerExpired || isPastBookingTime(request.date, convertTo12Hour(request.startTime), request.startAt);
 
   const borderColor = status === 'pending'
     ? (hasConflict ? 'border-l-red-500' : 'border-l-orange-500')
@@ -134,36 +157,141 @@ export default function RequestCard({
             <div className="min-w-0">
               <p className="text-xs xs:text-sm font-semibold text-red-900 leading-tight">Scheduling Conflict</p>
               <p className="text-[10px] xs:text-xs text-red-700 mt-0.5 xs:mt-1 leading-tight">
-                This time slot conflicts with an existing reservation.
+                {conflictCheckFailed
+                  ? 'Conflicts could not be checked. Refresh to try again.'
+                  : request.recurrence
+                    ? 'Every occurrence of this series conflicts with an existing reservation.'
+                    : request.changeOf
+                      ? 'The proposed slot conflicts with another reservation. The current reservation stays in place.'
+                      : 'This time slot conflicts with an existing reservation.'}
               </p>
+              {blockingConflicts.length > 0 && (
+                <ConflictList
+                  conflicts={blockingConflicts}
+                  withDate={!!request.recurrence}
+                  limit={5}
+                  className="text-[10px] xs:text-xs text-red-700 mt-1 leading-tight"
+                />
+              )}
             </div>
           </div>
         )}
 
-        <div className="space-y-2 xs:space-y-2.5 sm:space-y-3">
-          <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
-            <Calendar className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
-            <span className="font-medium text-gray-900 leading-tight break-words">
-              {new Date(request.date).toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })}
-            </span>
+        {!hasConflict && conflictingDates.length > 0 && status === 'pending' && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-2 xs:p-3 flex items-start gap-1.5 xs:gap-2">
+            <AlertTriangle className="h-4 w-4 xs:h-5 xs:w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="min-w-0">
+              <p className="text-xs xs:text-sm font-semibold text-amber-900 leading-tight">
+                {conflictingDates.length} of {occurrenceDates.length} occurrences conflict
+              </p>
+              <p className="text-[10px] xs:text-xs text-amber-800 mt-0.5 xs:mt-1 leading-tight break-words">
+                These dates will be skipped if the series is approved: {conflictingDates.join(', ')}
+              </p>
+              <ConflictList
+                conflicts={blockingConflicts}
+                withDate
+                limit={5}
+                className="text-[10px] xs:text-xs text-amber-800 mt-1 leading-tight"
+              />
+            </div>
           </div>
+        )}
 
-          <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
-            <Clock className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
-            <span className="text-gray-700 leading-tight">
-              {formatTimeRange(convertTo12Hour(request.startTime), convertTo12Hour(request.endTime))}
-            </span>
+        {competingRequests.length > 0 && status === 'pending' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 xs:p-3 flex items-start gap-1.5 xs:gap-2">
+            <Clock className="h-4 w-4 xs:h-5 xs:w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div className="min-w-0">
+              <p className="text-xs xs:text-sm font-semibold text-yellow-900 leading-tight">
+                Overlaps {competingRequests.length} other pending request{competingRequests.length !== 1 ? 's' : ''}
+              </p>
+              <ConflictList
+                conflicts={competingRequests}
+                withDate={!!request.recurrence}
+                limit={5}
+                className="text-[10px] xs:text-xs text-yellow-800 mt-0.5 xs:mt-1 leading-tight"
+              />
+            </div>
           </div>
+        )}
 
-          <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
-            <MapPin className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
-            <span className="text-gray-700 leading-tight break-words">{request.classroomName}</span>
-          </div>
+        <div className="space-y-2 xs:space-y-2.5 sm:space-y-3">
+          {request.changeOf ? (
+            <ScheduleChangeDiff original={request.changeOf} proposal={request} />
+          ) : (
+            <>
+              <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
+                <Calendar className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
+                <span className="font-medium text-gray-900 leading-tight break-words">
+                  {new Date(request.date).toLocaleDateString('en-US', {
+                    weekday: 'long',
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric'
+                  })}
+                </span>
+              </div>
+
+              <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
+                <Clock className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
+                <span className="text-gray-700 leading-tight">
+                  {formatTimeRange(convertTo12Hour(request.startTime), convertTo12Hour(request.endTime))}
+                </span>
+              </div>
+            </>
+          )}
+
+          {request.recurrence && (
+            <div className="flex items-start gap-2 xs:gap-3 text-xs xs:text-sm">
+              <Repeat className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-700 leading-tight break-words">
+                  {describeRecurrence(request.recurrence, request.date)} · {occurrenceDates.length} occurrence{occurrenceDates.length !== 1 ? 's' : ''}
+                </p>
+                {request.skippedDates && request.skippedDates.length > 0 && (
+                  <p className="text-gray-500 mt-0.5 leading-tight break-words">Skipped: {request.skippedDates.join(', ')}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!request.changeOf && (
+            <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
+              <MapPin className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
+              <span className="text-gray-700 leading-tight break-words">
+                {groupMembers && groupMembers.length > 1
+                  ? `Event booking · ${groupMembers.length} rooms: ${describeGroupRooms(groupMembers)}`
+                  : request.classroomName}
+              </span>
+            </div>
+          )}
+
+          {ownershipContext && (
+            <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
+              <Building2 className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
+              <span className="text-gray-700 leading-tight break-words">{ownershipContext}</span>
+            </div>
+          )}
+
+          {request.expectedAttendees && (
+            <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
+              <Users className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
+              {/* The attendees of an event booking are spread over its rooms */}
+              {classroom && classroom.capacity > 0 && !(groupMembers && groupMembers.length > 1) ? (
+                <span className={`border rounded px-1.5 py-0.5 leading-tight ${CAPACITY_FIT_STYLES[getCapacityFit(classroom.capacity, request.expectedAttendees)]}`}>
+                  {describeCapacityFit(classroom.capacity, request.expectedAttendees)}
+                </span>
+              ) : (
+                <span className="text-gray-700 leading-tight">{request.expectedAttendees} expected attendees</span>
+              )}
+            </div>
+          )}
+
+          {request.reservedEquipment && request.reservedEquipment.length > 0 && (
+            <div className="flex items-center gap-2 xs:gap-3 text-xs xs:text-sm">
+              <Package className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0" />
+              <span className="text-gray-700 leading-tight break-words">{describeReservedEquipment(request.reservedEquipment)}</span>
+            </div>
+          )}
 
           <div className="flex items-start gap-2 xs:gap-3 text-xs xs:text-sm">
             <User className="h-3.5 w-3.5 xs:h-4 xs:w-4 text-gray-500 flex-shrink-0 mt-0.5" />
@@ -273,6 +401,7 @@ export default function RequestCard({
                     <AlertDialogDescription>
                       Are you sure you want to cancel this approved reservation? This action cannot be undone.
                       The faculty member will need to submit a new request if they need this classroom again.
+                      {groupMembers && groupMembers.length > 1 && ` All ${groupMembers.length} rooms of this event booking will be cancelled.`}
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <div className="mt-4 w-full">
@@ -3,21 +3,40 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Label } from './ui/label';
+import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge'; 
+import { Checkbox } from './ui/checkbox';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
-import { Calendar as CalendarIcon, Clock, MapPin, Users, AlertTriangle, CheckCircle, Loader2, WifiOff, CloudOff } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, MapPin, Users, Building2, AlertTriangle, CheckCircle, Loader2, WifiOff, CloudOff, Repeat, X, Hourglass, Package } from 'lucide-react';
 import { getIconForEquipment } from '../lib/equipmentIcons';
 import { toast } from 'sonner';
 import { useAnnouncer } from './Announcer';
 import ProcessingFieldset from './ui/ProcessingFieldset';
 import Calendar from './ui/calendar';
 import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
-import { generateTimeSlots, convertTo24Hour, convertTo12Hour, getValidEndTimes, isPastBookingTime, isValidSchoolTime, isReasonableBookingDuration } from '../utils/timeUtils';
+import { generateTimeSlots, convertTo24Hour, convertTo12Hour, getValidEndTimes, getOperatingHoursViolation, isPastBookingTime, isValidSchoolTime, isReasonableBookingDuration, addDaysToDateString } from '../utils/timeUtils';
+import { expandRecurrence, describeRecurrence, getOccurrenceDates, MAX_SERIES_OCCURRENCES, MAX_SERIES_SPAN_DAYS, WEEKDAY_LABELS, getWeekday } from '../utils/recurrence';
+import { getDateBlockReason } from '../utils/academicCalendar';
+import { getMaintenanceBlockReason } from '../utils/maintenanceWindows';
+import { useAcademicCalendar } from '../hooks/useAcademicCalendar';
+import { useOperatingHours } from '../hooks/useOperatingHours';
+import { resolveOperatingHours } from '../utils/operatingHours';
+import { useBookingPolicies } from '../hooks/useBookingPolicies';
+import { DEFAULT_BOOKING_POLICIES, evaluateBookingPolicies, type PolicySlot } from '../utils/bookingPolicies';
 import { executeWithNetworkHandling } from '../lib/networkErrorHandler';
 import { offlineQueueService } from '../lib/offlineQueueService';
-import type { User, Classroom, BookingRequest, Schedule } from '../App';
+import { bookingPoliciesService, equipmentService, waitlistService } from '../lib/firebaseService';
+import { collectOccupiedSlots, findBookingSuggestions, type SlotSuggestion } from '../utils/bookingSuggestions';
+import BookingSuggestions from './BookingSuggestions';
+import { blockToConflict, describeConflict, requestToConflict, scheduleToConflict } from '../utils/conflicts';
+import { findOverlappingBlocks } from '../utils/classroomBlocks';
+import { MAX_EXPECTED_ATTENDEES, describeCapacityFit, getCapacityFit, getCapacityViolation, getGroupCapacityViolation } from '../utils/capacity';
+import { describeReservedEquipment, getEquipmentViolations } from '../utils/equipment';
+import { describeOwnership, getPriorityWindowViolation } from '../utils/classroomOwnership';
+import { getUserDepartments } from '../utils/approvers';
+import type { User, Classroom, BookingRequest, Schedule, RecurrenceRule, PolicyViolation, BookingConflict, EquipmentAvailability, ReservedEquipment } from '../App';
 
 interface RoomBookingProps {
   user: User;
@@ -25,6 +44,8 @@ interface RoomBookingProps {
   schedules?: Schedule[];
   bookingRequests?: BookingRequest[];
   onBookingRequest: (request: Omit<BookingRequest, 'id' | 'requestDate' | 'status'>, suppressToast?: boolean) => void;
+  // Submit several rooms as one event booking; without it only single rooms can be booked
+  onBookingGroupRequest?: (requests: Omit<BookingRequest, 'id' | 'requestDate' | 'status' | 'groupId'>[]) => Promise<void>;
   // Optional initial data to pre-fill the booking form (used by "Book Similar")
   initialData?: {
     classroomId?: string;
@@ -32,12 +53,11 @@ interface RoomBookingProps {
     startTime?: string; // 12-hour format (e.g. "7:00 AM") or 24-hour (will be converted)
     endTime?: string; // 12-hour format or 24-hour
     purpose?: string;
+    expectedAttendees?: number;
   };
-  checkConflicts: (classroomId: string, date: string, startTime: string, endTime: string, checkPastTime?: boolean, excludeRequestId?: string) => boolean | Promise<boolean>;
+  findConflicts: (classroomId: string, date: string, startTime: string, endTime: string, excludeRequestId?: string) => Promise<BookingConflict[]>;
 }
 
-const timeSlots = generateTimeSlots();
-
 // Helper function to validate time range
 const isValidTimeRange = (startTime: string, endTime: string): boolean => {
   if (!startTime || !endTime) return false;
@@ -54,30 +74,45 @@ const isValidTimeRange = (startTime: string, endTime: string): boolean => {
   return endMinutes > startMinutes;
 };
 
-export default function RoomBooking({ user, classrooms = [], schedules = [], bookingRequests = [], onBookingRequest, initialData, checkConflicts }: RoomBookingProps) {
+export default function RoomBooking({ user, classrooms = [], schedules = [], bookingRequests = [], onBookingRequest, onBookingGroupRequest, initialData, findConflicts }: RoomBookingProps) {
   const { announce } = useAnnouncer();
   const [formData, setFormData] = useState({
     classroomId: '',
     date: '',
     startTime: '',
     endTime: '',
-    purpose: ''
+    purpose: '',
+    expectedAttendees: ''
   });
-  const [conflicts, setConflicts] = useState<string[]>([]);
+  const [conflicts, setConflicts] = useState<BookingConflict[]>([]);
   const [errors, setErrors] = useState({
     classroomId: '',
     date: '',
     startTime: '',
     endTime: '',
     purpose: '',
+    expectedAttendees: '',
   });
-  const [pendingConflicts, setPendingConflicts] = useState<string[]>([]);
+  const [pendingConflicts, setPendingConflicts] = useState<BookingConflict[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [showPolicyWarning, setShowPolicyWarning] = useState(false);
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [hasLocalConflict, setHasLocalConflict] = useState(false);
+  // Recurring series
+  const [repeat, setRepeat] = useState<'none' | RecurrenceRule['frequency']>('none');
+  const [repeatDays, setRepeatDays] = useState<number[]>([]);
+  const [repeatEndMode, setRepeatEndMode] = useState<'date' | 'count'>('date');
+  const [repeatEndDate, setRepeatEndDate] = useState('');
+  const [repeatCount, setRepeatCount] = useState('');
+  const [excludedDates, setExcludedDates] = useState<string[]>([]);
+  const [excludeInput, setExcludeInput] = useState('');
+  // Waitlist for occupied slots
+  const [waitlistAutoConvert, setWaitlistAutoConvert] = useState(false);
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
+  // Multi-room event: rooms booked together with the chosen one
+  const [additionalRoomIds, setAdditionalRoomIds] = useState<string[]>([]);
 
   const availableClassrooms = classrooms.filter(c => c.isAvailable);
 
@@ -104,17 +139,237 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
     return `${year}-${month}-${day}`;
   })();
 
-  // Get maximum date (2 months from today)
-  const maxDate = (() => {
-    const now = new Date();
-    const future = new Date(now);
-    future.setMonth(future.getMonth() + 2);
-    const year = future.getFullYear();
-    const month = String(future.getMonth() + 1).padStart(2, '0');
-    const day = String(future.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  // Admin-configured booking policies (defaults until loaded)
+  const bookingPolicies = useBookingPolicies();
+  const policies = bookingPolicies ?? DEFAULT_BOOKING_POLICIES;
+  // Violations reported by the server on the last submission attempt
+  const [serverViolations, setServerViolations] = useState<PolicyViolation[]>([]);
+
+  // Get maximum date (advance limit from the booking policies)
+  const maxDate = addDaysToDateString(today, policies.maxAdvanceDays);
+  const advanceLimitMessage = `Bookings can only be made up to ${policies.maxAdvanceDays} days in advance.`;
+
+  // Dates closed by the academic calendar (outside the term, holidays, building blackouts)
+  const academicCalendar = useAcademicCalendar();
+  const selectedClassroom = classrooms.find(c => c.id === formData.classroomId);
+  const selectedBuilding = selectedClassroom?.building;
+  const dateBlockReason = formData.date ? getDateBlockReason(academicCalendar, formData.date, selectedBuilding) : null;
+  // Admin-configured hours for the building and weekday (defaults until loaded)
+  const operatingHours = useOperatingHours();
+  const slotMinutes = resolveOperatingHours(operatingHours).slotMinutes;
+  // Times offered for the chosen date and building (none on closed dates)
+  const dayTimeSlots = React.useMemo(
+    () => generateTimeSlots(formData.date, academicCalendar, selectedBuilding, operatingHours),
+    [formData.date, academicCalendar, selectedBuilding, operatingHours]
+  );
+  const hoursViolation = formData.date && formData.startTime && formData.endTime
+    ? getOperatingHoursViolation(operatingHours, formData.date, convertTo24Hour(formData.startTime), convertTo24Hour(formData.endTime), selectedBuilding)
+    : null;
+  // Scheduled maintenance of the selected room overlapping the chosen slot
+  const maintenanceBlockReason = selectedClassroom && formData.date && formData.startTime && formData.endTime
+    ? getMaintenanceBlockReason(selectedClassroom, formData.date, formData.startTime, formData.endTime)
+    : null;
+
+  // Build the recurrence rule from the repeat controls. Optional keys are only set when
+  // present because Firestore rejects undefined values.
+  const recurrenceRule = React.useMemo<RecurrenceRule | null>(() => {
+    if (repeat === 'none' || !formData.date) return null;
+    const rule: RecurrenceRule = { frequency: repeat };
+    if (repeat === 'weekdays') rule.daysOfWeek = [...repeatDays].sort((a, b) => a - b);
+    if (repeatEndMode === 'date' && repeatEndDate) rule.endDate = repeatEndDate;
+    if (repeatEndMode === 'count' && Number(repeatCount) > 0) rule.count = Number(repeatCount);
+    if (excludedDates.length > 0) rule.excludedDates = [...excludedDates].sort();
+    return rule;
+  }, [repeat, repeatDays, repeatEndMode, repeatEndDate, repeatCount, excludedDates, formData.date]);
+
+  const expandedDates = React.useMemo(
+    () => (recurrenceRule ? expandRecurrence(formData.date, recurrenceRule) : []),
+    [recurrenceRule, formData.date]
+  );
+
+  // Occurrences on closed dates, on weekdays whose hours do not cover the booked time or
+  // during maintenance of the room are dropped from the series rather than blocking it
+  const [occurrenceDates, closedOccurrences] = React.useMemo(() => {
+    const open: string[] = [];
+    const closed: string[] = [];
+    const start24 = convertTo24Hour(formData.startTime);
+    const end24 = convertTo24Hour(formData.endTime);
+    expandedDates.forEach(date => (
+      getDateBlockReason(academicCalendar, date, selectedBuilding) ||
+      getOperatingHoursViolation(operatingHours, date, start24, end24, selectedBuilding) ||
+      (selectedClassroom && getMaintenanceBlockReason(selectedClassroom, date, start24, end24))
+        ? closed
+        : open
+    ).push(date));
+    return [open, closed];
+  }, [expandedDates, academicCalendar, operatingHours, selectedBuilding, selectedClassroom, formData.startTime, formData.endTime]);
+
+  const seriesMaxDate = formData.date ? addDaysToDateString(formData.date, MAX_SERIES_SPAN_DAYS) : '';
+
+  // Rooms that cannot join an event booking for the chosen slot, with the reason: taken by
+  // another reservation, closed in their building or under maintenance. The server
+  // re-checks every room.
+  const unavailableEventRooms = React.useMemo(() => {
+    const reasons = new Map<string, string>();
+    if (!formData.date || !formData.startTime || !formData.endTime) return reasons;
+    const start24 = convertTo24Hour(formData.startTime);
+    const end24 = convertTo24Hour(formData.endTime);
+    collectOccupiedSlots(formData.date, schedules, bookingRequests, classrooms)
+      .filter(slot => start24 < slot.endTime && end24 > slot.startTime)
+      .forEach(slot => reasons.set(slot.classroomId, 'Booked at this time'));
+    classrooms.forEach(room => {
+      const closed = getDateBlockReason(academicCalendar, formData.date, room.building)
+        ?? getOperatingHoursViolation(operatingHours, formData.date, start24, end24, room.building)
+        ?? getMaintenanceBlockReason(room, formData.date, start24, end24);
+      if (closed && !reasons.has(room.id)) reasons.set(room.id, closed);
+    });
+    return reasons;
+  }, [formData.date, formData.startTime, formData.endTime, schedules, bookingRequests, classrooms, academicCalendar, operatingHours]);
+
+  // The other rooms of an event booking. Events are single bookings: a series books one room.
+  const eventRooms = React.useMemo(
+    () => (onBookingGroupRequest && !recurrenceRule
+      ? classrooms.filter(c => c.isAvailable && c.id !== formData.classroomId && additionalRoomIds.includes(c.id) && !unavailableEventRooms.has(c.id))
+      : []),
+    [onBookingGroupRequest, recurrenceRule, classrooms, formData.classroomId, additionalRoomIds, unavailableEventRooms]
+  );
+
+  // Expected attendees, checked against the chosen room's capacity with the policies below.
+  // An event booking spreads them over its rooms, so the seats of every room count.
+  const attendeeCount = Number(formData.expectedAttendees);
+  const isValidAttendeeCount = Number.isInteger(attendeeCount) && attendeeCount >= 1 && attendeeCount <= MAX_EXPECTED_ATTENDEES;
+  const selectedSeats = (selectedClassroom?.capacity ?? 0) + eventRooms.reduce((sum, room) => sum + room.capacity, 0);
+
+  // Portable equipment: free units for the chosen slot (every occurrence of a series) and
+  // the units picked, by item id. Availability is null until loaded for the current slot.
+  const [equipmentAvailability, setEquipmentAvailability] = useState<EquipmentAvailability[] | null>(null);
+  const [equipmentQuantities, setEquipmentQuantities] = useState<Record<string, string>>({});
+  const [equipmentError, setEquipmentError] = useState(false);
+  const equipmentDates = React.useMemo(
+    () => (recurrenceRule ? occurrenceDates : formData.date ? [formData.date] : []),
+    [recurrenceRule, occurrenceDates, formData.date]
+  );
+  const hasEquipmentSlot = equipmentDates.length > 0 && !!formData.startTime && !!formData.endTime;
+
+  useEffect(() => {
+    setEquipmentAvailability(null);
+    setEquipmentError(false);
+    if (!hasEquipmentSlot || isOffline) return;
+    let cancelled = false;
+    equipmentService.getAvailability(equipmentDates, convertTo24Hour(formData.startTime), convertTo24Hour(formData.endTime))
+      .then((items) => { if (!cancelled) setEquipmentAvailability(items); })
+      .catch((err) => {
+        console.warn('Failed to load equipment availability', err);
+        if (!cancelled) setEquipmentError(true);
+      });
+    return () => { cancelled = true; };
+  }, [equipmentDates, formData.startTime, formData.endTime, hasEquipmentSlot, isOffline]);
+
+  const reservedEquipment = React.useMemo<ReservedEquipment[]>(() => Object.entries(equipmentQuantities)
+    .map(([equipmentId, text]) => ({
+      equipmentId,
+      name: equipmentAvailability?.find(item => item.id === equipmentId)?.name ?? '',
+      quantity: Number(text),
+    }))
+    .filter(item => item.name && Number.isInteger(item.quantity) && item.quantity > 0), [equipmentQuantities, equipmentAvailability]);
+  // Picked items are only known once availability has loaded for the current slot
+  const isEquipmentLoading = hasEquipmentSlot && !isOffline && !equipmentAvailability && !equipmentError
+    && Object.values(equipmentQuantities).some(text => Number(text) > 0);
+
+  // Booking policy violations for the current form, counting the faculty member's other
+  // confirmed schedules and pending requests towards the weekly cap
+  const policyViolations = React.useMemo(() => {
+    if (!formData.date || !formData.startTime || !formData.endTime) return [];
+    const dates = recurrenceRule ? occurrenceDates : [formData.date];
+    if (dates.length === 0) return [];
+    const existing: PolicySlot[] = [
+      ...schedules
+        .filter(s => s.facultyId === user.id && s.status === 'confirmed')
+        .map(({ date, startTime, endTime }) => ({ date, startTime, endTime })),
+      ...bookingRequests
+        .filter(r => r.facultyId === user.id && r.status === 'pending')
+        .flatMap(r => getOccurrenceDates(r).map(date => ({ date, startTime: r.startTime, endTime: r.endTime }))),
+    ];
+    const local = evaluateBookingPolicies(
+      bookingPolicies,
+      { date: dates[0], startTime: convertTo24Hour(formData.startTime), endTime: convertTo24Hour(formData.endTime) },
+      dates,
+      existing
+    );
+    const classroom = classrooms.find(c => c.id === formData.classroomId);
+    const capacityViolation = eventRooms.length > 0
+      ? getGroupCapacityViolation(classroom ? [classroom, ...eventRooms] : eventRooms, attendeeCount)
+      : getCapacityViolation(classroom, attendeeCount);
+    if (capacityViolation) local.push(capacityViolation);
+    const departments = getUserDepartments(user);
+    const priorityViolation = getPriorityWindowViolation(classroom, departments, dates);
+    if (priorityViolation) local.push(priorityViolation);
+    // Every room of an event booking must be open to the requester
+    eventRooms.forEach(room => {
+      const roomPriorityViolation = getPriorityWindowViolation(room, departments, dates);
+      if (roomPriorityViolation) local.push(roomPriorityViolation);
+    });
+    if (equipmentAvailability) local.push(...getEquipmentViolations(equipmentAvailability, reservedEquipment));
+    return [...local, ...serverViolations.filter(v => !local.some(l => l.code === v.code))];
+  }, [formData.date, formData.startTime, formData.endTime, formData.classroomId, attendeeCount, classrooms, recurrenceRule, occurrenceDates, schedules, bookingRequests, user, bookingPolicies, serverViolations, equipmentAvailability, reservedEquipment, eventRooms]);
+
+  // A server answer only describes the form it was given
+  React.useEffect(() => {
+    setServerViolations([]);
+  }, [formData.classroomId, formData.date, formData.startTime, formData.endTime, formData.expectedAttendees, recurrenceRule, equipmentQuantities]);
+
+  const recurrenceError = (() => {
+    if (!recurrenceRule) return '';
+    if (repeat === 'weekdays' && repeatDays.length === 0) return 'Select at least one weekday.';
+    if (repeatEndMode === 'date') {
+      if (!repeatEndDate) return 'Please select when the series ends.';
+      if (repeatEndDate < formData.date) return 'End date must be on or after the first date.';
+      if (repeatEndDate > seriesMaxDate) return `A series can run for at most ${MAX_SERIES_SPAN_DAYS} days.`;
+    } else {
+      const count = Number(repeatCount);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES) {
+        return `Number of occurrences must be between 1 and ${MAX_SERIES_OCCURRENCES}.`;
+      }
+    }
+    if (occurrenceDates.length === 0) {
+      return closedOccurrences.length > 0 ? 'Every occurrence falls on a closed date.' : 'This series has no occurrences.';
+    }
+    return '';
   })();
 
+  // Local preview of occurrences that overlap existing reservations (the first date is
+  // covered by the regular conflict warnings above). The server re-checks on submit.
+  const seriesConflicts = React.useMemo(() => {
+    if (!recurrenceRule || !formData.classroomId || !formData.startTime || !formData.endTime) return [];
+    const start24 = convertTo24Hour(formData.startTime);
+    const end24 = convertTo24Hour(formData.endTime);
+    return occurrenceDates.filter(date => date !== formData.date && (
+      findOverlappingBlocks(selectedClassroom, date, start24, end24).length > 0 ||
+      schedules.some(schedule =>
+        schedule.classroomId === formData.classroomId &&
+        schedule.date === date &&
+        schedule.status === 'confirmed' &&
+        start24 < schedule.endTime && end24 > schedule.startTime
+      ) ||
+      bookingRequests.some(request =>
+        request.classroomId === formData.classroomId &&
+        request.status === 'pending' &&
+        getOccurrenceDates(request).includes(date) &&
+        start24 < request.endTime && end24 > request.startTime
+      )
+    ));
+  }, [recurrenceRule, occurrenceDates, selectedClassroom, formData.classroomId, formData.date, formData.startTime, formData.endTime, schedules, bookingRequests]);
+
+  const resetRecurrence = () => {
+    setRepeat('none');
+    setRepeatDays([]);
+    setRepeatEndMode('date');
+    setRepeatEndDate('');
+    setRepeatCount('');
+    setExcludedDates([]);
+    setExcludeInput('');
+  };
+
   // Helper to format internal ISO (YYYY-MM-DD) to MM/DD/YYYY for display
   const formatISOToMDY = (iso?: string) => {
     if (!iso) return '';
@@ -173,7 +428,8 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
       date: initialData.date ?? '',
       startTime: normalizeTime(initialData.startTime),
       endTime: normalizeTime(initialData.endTime),
-      purpose: initialData.purpose ?? ''
+      purpose: initialData.purpose ?? '',
+      expectedAttendees: initialData.expectedAttendees ? String(initialData.expectedAttendees) : ''
     });
   }, [initialData]);
 
@@ -182,12 +438,12 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
   React.useEffect(() => {
     if (formData.startTime && formData.endTime) {
       // Check if current end time is still valid for the new start time
-      const validEndTimes = getValidEndTimes(formData.startTime, timeSlots);
+      const validEndTimes = getValidEndTimes(formData.startTime, dayTimeSlots, policies.maxDurationMinutes);
       if (!validEndTimes.includes(formData.endTime)) {
         setFormData(prev => ({ ...prev, endTime: '' }));
       }
     }
-  }, [formData.startTime]);
+  }, [formData.startTime, dayTimeSlots, policies.maxDurationMinutes]);
 
   // Check for conflicts when form data changes
   React.useEffect(() => {
@@ -234,14 +490,13 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
 
         setHasLocalConflict(localConflict);
 
-        // Set conflicts
-        setConflicts(confirmedConflicts.map(schedule => 
-          `${schedule.facultyName} has reserved this room from ${convertTo12Hour(schedule.startTime)} to ${convertTo12Hour(schedule.endTime)}`
-        ));
+        // Time ranges an admin blocked on the room count as confirmed reservations
+        const blockConflicts = findOverlappingBlocks(classrooms.find(c => c.id === formData.classroomId), formData.date, startTime24, endTime24)
+          .map(block => blockToConflict(formData.classroomId, block));
 
-        setPendingConflicts(pendingConflictReqs.map(request => 
-          `${request.facultyName} has a pending reservation request for this room from ${convertTo12Hour(request.startTime)} to ${convertTo12Hour(request.endTime)}`
-        ));
+        // Set conflicts
+        setConflicts([...confirmedConflicts.map(scheduleToConflict), ...blockConflicts]);
+        setPendingConflicts(pendingConflictReqs.map(request => requestToConflict(request)));
       } else {
         setConflicts([]);
         setPendingConflicts([]);
@@ -252,8 +507,37 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
     checkAllConflicts();
   }, [formData, schedules, bookingRequests, user.id, user.name, classrooms]);
 
+  // When the slot is taken, offer the nearest free times in this room and other suitable rooms
+  const suggestions = React.useMemo(() => {
+    if ((conflicts.length === 0 && pendingConflicts.length === 0) || !formData.startTime || !formData.endTime) {
+      return { sameRoom: [], otherRooms: [] };
+    }
+    return findBookingSuggestions(
+      {
+        classroomId: formData.classroomId,
+        date: formData.date,
+        startTime: convertTo24Hour(formData.startTime),
+        endTime: convertTo24Hour(formData.endTime),
+      },
+      classrooms,
+      collectOccupiedSlots(formData.date, schedules, bookingRequests, classrooms),
+      { calendar: academicCalendar, hours: operatingHours }
+    );
+  }, [conflicts, pendingConflicts, formData.classroomId, formData.date, formData.startTime, formData.endTime, classrooms, schedules, bookingRequests, academicCalendar, operatingHours]);
+
+  const applySuggestion = (suggestion: SlotSuggestion) => {
+    setFormData(prev => ({
+      ...prev,
+      classroomId: suggestion.classroomId,
+      startTime: convertTo12Hour(suggestion.startTime),
+      endTime: convertTo12Hour(suggestion.endTime),
+    }));
+    setErrors(prev => ({ ...prev, classroomId: '', startTime: '', endTime: '' }));
+    try { announce(`Selected ${suggestion.classroomName}, ${convertTo12Hour(suggestion.startTime)} to ${convertTo12Hour(suggestion.endTime)}`, 'polite'); } catch (e) {}
+  };
+
   const validate = () => {
-    const newErrors = { classroomId: '', date: '', startTime: '', endTime: '', purpose: '' };
+    const newErrors = { classroomId: '', date: '', startTime: '', endTime: '', purpose: '', expectedAttendees: '' };
     let isValid = true;
 
     if (!formData.classroomId) {
@@ -267,7 +551,10 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
       newErrors.date = 'Date cannot be in the past.';
       isValid = false;
     } else if (formData.date > maxDate) {
-      newErrors.date = 'Bookings can only be made up to 2 months in advance.';
+      newErrors.date = advanceLimitMessage;
+      isValid = false;
+    } else if (dateBlockReason) {
+      newErrors.date = `This date is closed. ${dateBlockReason}.`;
       isValid = false;
     }
     if (!formData.startTime) {
@@ -282,18 +569,34 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
       newErrors.purpose = 'Purpose is required.';
       isValid = false;
     }
+    if (!isValidAttendeeCount) {
+      newErrors.expectedAttendees = `Enter the expected number of attendees (1-${MAX_EXPECTED_ATTENDEES}).`;
+      isValid = false;
+    }
 
     if (formData.startTime && formData.endTime && !isValidTimeRange(formData.startTime, formData.endTime)) {
       newErrors.endTime = 'End time must be after start time.';
       isValid = false;
     }
 
-    if (formData.startTime && !isValidSchoolTime(formData.startTime)) {
-      newErrors.startTime = 'Time must be within school hours (7am-8pm).';
+    if (formData.startTime && !isValidSchoolTime(formData.startTime, operatingHours, formData.date, selectedBuilding)) {
+      newErrors.startTime = 'Time must be within operating hours.';
       isValid = false;
     }
-    if (formData.endTime && !isValidSchoolTime(formData.endTime)) {
-      newErrors.endTime = 'Time must be within school hours (7am-8pm).';
+    if (formData.endTime && !isValidSchoolTime(formData.endTime, operatingHours, formData.date, selectedBuilding)) {
+      newErrors.endTime = 'Time must be within operating hours.';
+      isValid = false;
+    }
+    if (hoursViolation && !newErrors.startTime && !newErrors.endTime) {
+      newErrors.startTime = `${hoursViolation}.`;
+      isValid = false;
+    }
+    if (maintenanceBlockReason && !newErrors.startTime && !newErrors.endTime) {
+      newErrors.startTime = maintenanceBlockReason;
+      isValid = false;
+    }
+
+    if (recurrenceError) {
       isValid = false;
     }
 
@@ -301,6 +604,42 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
     return isValid;
   };
 
+  const handleJoinWaitlist = async () => {
+    const selectedClassroom = classrooms.find(c => c.id === formData.classroomId);
+    if (!selectedClassroom || !formData.date || !formData.startTime || !formData.endTime) return;
+    if (!formData.purpose.trim()) {
+      setErrors(prev => ({ ...prev, purpose: 'Purpose is required.' }));
+      toast.error('Please enter a purpose before joining the waitlist.');
+      return;
+    }
+
+    setIsJoiningWaitlist(true);
+    try {
+      await waitlistService.join({
+        facultyId: user.id,
+        facultyName: user.name,
+        classroomId: selectedClassroom.id,
+        classroomName: selectedClassroom.name,
+        date: formData.date,
+        startTime: convertTo24Hour(formData.startTime),
+        endTime: convertTo24Hour(formData.endTime),
+        purpose: formData.purpose.trim(),
+        autoConvert: waitlistAutoConvert,
+      });
+      const description = waitlistAutoConvert
+        ? 'If the slot frees up, a reservation request will be submitted for you.'
+        : "We'll notify you if the slot frees up.";
+      toast.success('Added to the waitlist', { description });
+      try { announce(`Added to the waitlist. ${description}`, 'polite'); } catch (e) {}
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to join the waitlist';
+      toast.error(message);
+      try { announce(message, 'assertive'); } catch (e) {}
+    } finally {
+      setIsJoiningWaitlist(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isSubmitting) return; // Prevent multiple submissions
@@ -319,9 +658,16 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
     setShowConfirmDialog(false);
     setIsSubmitting(true);
     try {
-      if (!isReasonableBookingDuration(formData.startTime, formData.endTime)) {
-        toast.error('Reservation duration must be between 30 minutes and 8 hours');
-        try { announce('Reservation duration must be between 30 minutes and eight hours.', 'assertive'); } catch (e) {}
+      if (!isReasonableBookingDuration(formData.startTime, formData.endTime, operatingHours, policies.maxDurationMinutes)) {
+        const maxHours = policies.maxDurationMinutes / 60;
+        toast.error(`Reservation duration must be between ${slotMinutes} minutes and ${maxHours} hours`);
+        try { announce(`Reservation duration must be between ${slotMinutes} minutes and ${maxHours} hours.`, 'assertive'); } catch (e) {}
+        return;
+      }
+
+      if (policyViolations.length > 0) {
+        toast.error(policyViolations[0].message);
+        try { announce(policyViolations.map(v => v.message).join(' '), 'assertive'); } catch (e) {}
         return;
       }
 
@@ -345,11 +691,37 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
         date: formData.date,
         startTime: convertTo24Hour(formData.startTime),
         endTime: convertTo24Hour(formData.endTime),
-        purpose: formData.purpose
+        purpose: formData.purpose,
+        expectedAttendees: attendeeCount,
+        ...(reservedEquipment.length > 0 ? { reservedEquipment } : {}),
+        // A series starts at its first remaining occurrence in case the chosen date was excluded
+        ...(recurrenceRule ? { date: occurrenceDates[0], recurrence: recurrenceRule, occurrenceDates } : {})
       };
+      // The other rooms of an event booking share everything but the room; portable
+      // equipment is picked up with the first room
+      const eventRequests: Omit<BookingRequest, 'id' | 'requestDate' | 'status' | 'groupId'>[] = eventRooms.map(room => ({
+        facultyId: request.facultyId,
+        facultyName: request.facultyName,
+        classroomId: room.id,
+        classroomName: room.name,
+        date: request.date,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        purpose: request.purpose,
+        expectedAttendees: request.expectedAttendees,
+      }));
 
       // OFFLINE MODE: Queue the request
       if (isOffline) {
+        if (recurrenceRule) {
+          toast.error('Recurring series cannot be queued offline. Please reconnect to submit.');
+          return;
+        }
+        if (eventRequests.length > 0) {
+          toast.error('Event reservations for several rooms cannot be queued offline. Please reconnect to submit.');
+          return;
+        }
+
         try {
           await offlineQueueService.queueBooking(request);
           
@@ -368,9 +740,12 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
             date: '',
             startTime: '',
             endTime: '',
-            purpose: ''
+            purpose: '',
+            expectedAttendees: ''
           });
-          setErrors({ classroomId: '', date: '', startTime: '', endTime: '', purpose: '' });
+          setErrors({ classroomId: '', date: '', startTime: '', endTime: '', purpose: '', expectedAttendees: '' });
+          setEquipmentQuantities({});
+          resetRecurrence();
           
           return;
         } catch (error) {
@@ -380,27 +755,84 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
         }
       }
 
-      // ONLINE MODE: Normal submission with conflict check
-      // Re-check for conflicts right before submission
-      const hasConflict = await checkConflicts(
-        formData.classroomId,
-        formData.date,
-        convertTo24Hour(formData.startTime),
-        convertTo24Hour(formData.endTime),
-        true // Also check against past times as a final safeguard
-      );
+      // ONLINE MODE: Ask the server for the authoritative policy check first. If the check
+      // itself fails, submit anyway; the server enforces the same policies on creation.
+      try {
+        const violations = await bookingPoliciesService.check({
+          date: request.date,
+          startTime: request.startTime,
+          endTime: request.endTime,
+          occurrenceDates: recurrenceRule ? occurrenceDates : undefined,
+          classroomId: request.classroomId,
+          // The server checks one room; the seats of an event's rooms are checked together above
+          expectedAttendees: eventRequests.length > 0 ? undefined : request.expectedAttendees,
+        });
+        if (violations.length > 0) {
+          setServerViolations(violations);
+          toast.error(violations[0].message);
+          try { announce(violations.map(v => v.message).join(' '), 'assertive'); } catch (e) {}
+          return;
+        }
+      } catch (err) {
+        console.warn('Booking policy check failed; submitting anyway', err);
+      }
+
+      // Final safeguard against times that passed while the form was open
+      if (isPastBookingTime(formData.date, formData.startTime)) {
+        toast.error('The requested time slot has already passed.');
+        try { announce('The requested time slot has already passed.', 'assertive'); } catch (e) {}
+        return;
+      }
+
+      // Normal submission with conflict check
+      // Re-check for conflicts right before submission (every occurrence for a series,
+      // every room for an event booking)
+      let submitConflicts: BookingConflict[];
+      try {
+        const slots = recurrenceRule
+          ? occurrenceDates.map(date => ({ classroomId: formData.classroomId, date }))
+          : [request, ...eventRequests].map(({ classroomId }) => ({ classroomId, date: formData.date }));
+        const perSlot = await Promise.all(slots.map(({ classroomId, date }) => findConflicts(
+          classroomId,
+          date,
+          convertTo24Hour(formData.startTime),
+          convertTo24Hour(formData.endTime)
+        )));
+        submitConflicts = perSlot.flat();
+      } catch (err) {
+        console.error('Conflict check failed:', err);
+        toast.error('Failed to check for conflicts. Please try again.');
+        return;
+      }
+      const conflictingDates = Array.from(new Set(submitConflicts.map(conflict => conflict.date)));
 
-      if (hasConflict) {
-        toast.error('A conflict was detected. The requested time slot is no longer available.');
-        try { announce('A conflict was detected. The requested time slot is no longer available.', 'assertive'); } catch (e) {}
-        // Optionally, you might want to refresh schedules/bookings here
+      if (recurrenceRule && conflictingDates.length > 0) {
+        const msg = `${conflictingDates.length} occurrence(s) conflict with existing reservations: ${conflictingDates.join(', ')}. Exclude them and try again.`;
+        toast.error(msg);
+        try { announce(msg, 'assertive'); } catch (e) {}
+        return;
+      }
+
+      if (submitConflicts.length > 0) {
+        const details = submitConflicts
+          .map(conflict => eventRequests.length > 0
+            ? `${classrooms.find(c => c.id === conflict.classroomId)?.name ?? 'Room'}: ${describeConflict(conflict)}`
+            : describeConflict(conflict))
+          .join('. ');
+        toast.error('A conflict was detected. The requested time slot is no longer available.', { description: details });
+        try { announce(`A conflict was detected. ${details}.`, 'assertive'); } catch (e) {}
         return;
       }
 
       // Execute with network error handling
       const result = await executeWithNetworkHandling(
         async () => {
-          await onBookingRequest(request); // Let App.tsx show the success toast with undo action
+          // Let App.tsx show the success toast with undo action
+          if (eventRequests.length > 0 && onBookingGroupRequest) {
+            await onBookingGroupRequest([request, ...eventRequests]);
+          } else {
+            await onBookingRequest(request);
+          }
           return request;
         },
         {
@@ -421,9 +853,13 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
         date: '',
         startTime: '',
         endTime: '',
-        purpose: ''
+        purpose: '',
+        expectedAttendees: ''
       });
-      setErrors({ classroomId: '', date: '', startTime: '', endTime: '', purpose: '' });
+      setErrors({ classroomId: '', date: '', startTime: '', endTime: '', purpose: '', expectedAttendees: '' });
+      setEquipmentQuantities({});
+      setAdditionalRoomIds([]);
+      resetRecurrence();
       try { announce('Reservation request submitted. You will be notified when it is approved.', 'polite'); } catch (e) {}
 
     } finally {
@@ -431,8 +867,6 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
     }
   };
 
-  const selectedClassroom = classrooms.find(c => c.id === formData.classroomId);
-
   // Use shared equipment icon helpers
 
   // Use shared getIconForEquipment helper
@@ -513,6 +947,39 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                 )}
               </div>
 
+              {/* Expected Attendees */}
+              <div className="space-y-1">
+                <Label htmlFor="expectedAttendees" className="text-sm sm:text-base">Expected Attendees *</Label>
+                <Input
+                  id="expectedAttendees"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={MAX_EXPECTED_ATTENDEES}
+                  step={1}
+                  placeholder="e.g., 35"
+                  value={formData.expectedAttendees}
+                  onChange={(e) => {
+                    setFormData(prev => ({ ...prev, expectedAttendees: e.target.value }));
+                    if (errors.expectedAttendees) setErrors(prev => ({ ...prev, expectedAttendees: '' }));
+                  }}
+                  className={`h-10 sm:h-11 md:h-12 text-sm sm:text-base ${errors.expectedAttendees ? 'border-red-500' : ''}`}
+                />
+                {selectedClassroom && isValidAttendeeCount && selectedClassroom.capacity > 0 && (
+                  <p className={`text-xs sm:text-sm flex items-center gap-1 ${getCapacityFit(selectedSeats, attendeeCount) === 'over' ? 'text-red-600' : 'text-gray-600'}`}>
+                    <Users className="h-3 w-3" />
+                    {describeCapacityFit(selectedSeats, attendeeCount)}
+                    {eventRooms.length > 0 && ` across ${eventRooms.length + 1} rooms`}
+                  </p>
+                )}
+                {errors.expectedAttendees && (
+                  <p className="text-xs sm:text-sm text-red-600 flex items-center gap-1 mt-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {errors.expectedAttendees}
+                  </p>
+                )}
+              </div>
+
               {/* Classroom Details */}
               <AnimatePresence>
                 {selectedClassroom && (
@@ -539,6 +1006,12 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                             <MapPin className="h-3 w-3 sm:h-4 sm:w-4" />
                             <span>{selectedClassroom.building}, Floor {selectedClassroom.floor}</span>
                           </div>
+                          {describeOwnership(selectedClassroom) && (
+                            <div className="flex items-center space-x-1 text-xs sm:text-sm text-gray-600">
+                              <Building2 className="h-3 w-3 sm:h-4 sm:w-4" />
+                              <span>{describeOwnership(selectedClassroom)}</span>
+                            </div>
+                          )}
                           {selectedClassroom.equipment.length > 0 && (
                             <motion.div 
                               className="flex flex-wrap gap-1"
@@ -595,7 +1068,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                         } else if (v < today) {
                           setErrors(prev => ({ ...prev, date: 'Date must be today or later.' }));
                         } else if (v > maxDate) {
-                          setErrors(prev => ({ ...prev, date: 'Bookings can only be made up to 2 months in advance.' }));
+                          setErrors(prev => ({ ...prev, date: advanceLimitMessage }));
                         } else {
                           setErrors(prev => ({ ...prev, date: '' }));
                           setFormData(prev => ({ ...prev, date: v }));
@@ -639,7 +1112,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                             } else if (iso < today) {
                               setErrors(prev => ({ ...prev, date: 'Invalid or past date.' }));
                             } else if (iso > maxDate) {
-                              setErrors(prev => ({ ...prev, date: 'Bookings can only be made up to 2 months in advance.' }));
+                              setErrors(prev => ({ ...prev, date: advanceLimitMessage }));
                             } else {
                               setErrors(prev => ({ ...prev, date: '' }));
                               setFormData(prev => ({ ...prev, date: iso }));
@@ -648,6 +1121,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                           }}
                           min={today}
                           max={maxDate}
+                          isDateDisabled={(iso) => !!getDateBlockReason(academicCalendar, iso, selectedBuilding)}
                         />
                       </div>
                     </PopoverContent>
@@ -660,6 +1134,12 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                   {errors.date}
                 </p>
               )}
+              {dateBlockReason && !errors.date && (
+                <p className="text-xs sm:text-sm text-red-600 flex items-center gap-1 -mt-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  This date is closed for reservations. {dateBlockReason}.
+                </p>
+              )}
 
               {/* Time Selection */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
@@ -673,7 +1153,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                       <SelectValue placeholder="Select start time" />
                     </SelectTrigger>
                   <SelectContent>
-                    {timeSlots.map((time) => {
+                    {dayTimeSlots.map((time) => {
                       // Check if this start time falls within any existing booking or pending request
                       const getStartTimeConflictType = () => {
                         if (!formData.classroomId || !formData.date) return 'none';
@@ -689,6 +1169,10 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                           schedule.status === 'confirmed' &&
                           convertTo24Hour(time) >= schedule.startTime && 
                           convertTo24Hour(time) < schedule.endTime
+                        ) || (selectedClassroom?.blockedSlots ?? []).some(block =>
+                          block.date === formData.date &&
+                          convertTo24Hour(time) >= block.startTime &&
+                          convertTo24Hour(time) < block.endTime
                         );
                         
                         const hasPendingConflict = bookingRequests.some(request => 
@@ -759,7 +1243,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                       <SelectValue placeholder={formData.startTime ? "Select end time" : "Select start time first"} />
                     </SelectTrigger>
                     <SelectContent>
-                      {getValidEndTimes(formData.startTime, timeSlots).map((time) => {
+                      {getValidEndTimes(formData.startTime, dayTimeSlots, policies.maxDurationMinutes).map((time) => {
                         // Check if this end time would cause a conflict
                         const getEndTimeConflictType = () => {
                           if (!formData.classroomId || !formData.date || !formData.startTime) return 'none';
@@ -781,7 +1265,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                               (endTime24 > schedule.startTime && endTime24 <= schedule.endTime) ||
                               (startTime24 <= schedule.startTime && endTime24 >= schedule.endTime)
                             )
-                          );
+                          ) || findOverlappingBlocks(selectedClassroom, formData.date, startTime24, endTime24).length > 0;
                           
                           const hasPendingConflict = bookingRequests.some(request => 
                             request.classroomId === formData.classroomId &&
@@ -840,6 +1324,18 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                   )}
                 </div>
               </div>
+              {hoursViolation && !dateBlockReason && !errors.startTime && (
+                <p className="text-xs sm:text-sm text-red-600 flex items-center gap-1 -mt-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {hoursViolation}.
+                </p>
+              )}
+              {maintenanceBlockReason && !dateBlockReason && !hoursViolation && !errors.startTime && (
+                <p className="text-xs sm:text-sm text-red-600 flex items-center gap-1 -mt-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {maintenanceBlockReason}
+                </p>
+              )}
 
               {/* Duration Display */}
               <AnimatePresence>
@@ -883,6 +1379,263 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                 )}
               </AnimatePresence>
 
+              {/* Recurrence */}
+              <div className="space-y-2">
+                <Label htmlFor="repeat" className="text-sm sm:text-base">Repeat</Label>
+                <Select value={repeat} onValueChange={(value) => setRepeat(value as typeof repeat)}>
+                  <SelectTrigger id="repeat" className="h-10 sm:h-11 md:h-12 text-sm sm:text-base">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Does not repeat</SelectItem>
+                    <SelectItem value="weekly">
+                      {formData.date ? `Weekly on ${WEEKDAY_LABELS[getWeekday(formData.date)]}` : 'Weekly'}
+                    </SelectItem>
+                    <SelectItem value="weekdays">Weekly on selected days</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {repeat !== 'none' && (
+                  <div className="space-y-3 p-3 border rounded-lg bg-muted/30">
+                    {repeat === 'weekdays' && (
+                      <div className="space-y-1">
+                        <Label className="text-sm">Days</Label>
+                        <div className="flex flex-wrap gap-1" role="group" aria-label="Days of the week">
+                          {WEEKDAY_LABELS.map((label, day) => {
+                            const active = repeatDays.includes(day);
+                            return (
+                              <Button
+                                key={label}
+                                type="button"
+                                size="sm"
+                                variant={active ? 'default' : 'outline'}
+                                aria-pressed={active}
+                                onClick={() => setRepeatDays(prev => active ? prev.filter(d => d !== day) : [...prev, day])}
+                              >
+                                {label}
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="repeatEndMode" className="text-sm">Ends</Label>
+                        <Select value={repeatEndMode} onValueChange={(value) => setRepeatEndMode(value as 'date' | 'count')}>
+                          <SelectTrigger id="repeatEndMode" className="h-10 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="date">On date</SelectItem>
+                            <SelectItem value="count">After a number of occurrences</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        {repeatEndMode === 'date' ? (
+                          <>
+                            <Label htmlFor="repeatEndDate" className="text-sm">End date</Label>
+                            <Input
+                              id="repeatEndDate"
+                              type="date"
+                              min={formData.date || today}
+                              max={seriesMaxDate || undefined}
+                              value={repeatEndDate}
+                              onChange={(e) => setRepeatEndDate(e.target.value)}
+                              className="h-10 text-sm"
+                            />
+                          </>
+                        ) : (
+                          <>
+                            <Label htmlFor="repeatCount" className="text-sm">Occurrences</Label>
+                            <Input
+                              id="repeatCount"
+                              type="number"
+                              min={1}
+                              max={MAX_SERIES_OCCURRENCES}
+                              value={repeatCount}
+                              onChange={(e) => setRepeatCount(e.target.value)}
+                              className="h-10 text-sm"
+                            />
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label htmlFor="excludeDate" className="text-sm">Skip dates (holidays, exam weeks)</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="excludeDate"
+                          type="date"
+                          min={formData.date || today}
+                          max={seriesMaxDate || undefined}
+                          value={excludeInput}
+                          onChange={(e) => setExcludeInput(e.target.value)}
+                          className="h-10 text-sm"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          disabled={!isValidISODate(excludeInput) || excludedDates.includes(excludeInput)}
+                          onClick={() => {
+                            setExcludedDates(prev => [...prev, excludeInput]);
+                            setExcludeInput('');
+                          }}
+                        >
+                          Add
+                        </Button>
+                      </div>
+                      {excludedDates.length > 0 && (
+                        <div className="flex flex-wrap gap-1 pt-1">
+                          {[...excludedDates].sort().map(date => (
+                            <Badge key={date} variant="secondary" className="text-xs inline-flex items-center gap-1">
+                              {formatISOToMDY(date)}
+                              <button
+                                type="button"
+                                aria-label={`Remove ${formatISOToMDY(date)} from skipped dates`}
+                                onClick={() => setExcludedDates(prev => prev.filter(d => d !== date))}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    {recurrenceRule && !recurrenceError && (
+                      <p className="text-xs sm:text-sm text-gray-600 flex items-center gap-1">
+                        <Repeat className="h-3 w-3" />
+                        {describeRecurrence(recurrenceRule, formData.date)} · {occurrenceDates.length} occurrence{occurrenceDates.length !== 1 ? 's' : ''}
+                      </p>
+                    )}
+                    {closedOccurrences.length > 0 && (
+                      <p className="text-xs sm:text-sm text-amber-700">
+                        Skipping {closedOccurrences.length} closed date{closedOccurrences.length !== 1 ? 's' : ''} (holidays, blackouts, outside the term, outside operating hours or during maintenance): {closedOccurrences.map(formatISOToMDY).join(', ')}
+                      </p>
+                    )}
+                    {recurrenceError && (
+                      <p className="text-xs sm:text-sm text-red-600 flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        {recurrenceError}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Additional Rooms (event booking) */}
+              {onBookingGroupRequest && repeat === 'none' && formData.classroomId && !isOffline && (
+                <div className="space-y-2 p-3 border rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4 text-gray-600" />
+                    <Label className="text-sm sm:text-base">Additional Rooms (optional)</Label>
+                  </div>
+                  <p className="text-xs sm:text-sm text-gray-600">
+                    Book more rooms for the same event. The rooms are approved together and cancelling one cancels them all.
+                  </p>
+                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {availableClassrooms.filter(room => room.id !== formData.classroomId).map((room) => {
+                      const reason = unavailableEventRooms.get(room.id);
+                      return (
+                        <li key={room.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`event-room-${room.id}`}
+                            checked={eventRooms.some(r => r.id === room.id)}
+                            disabled={!!reason}
+                            onCheckedChange={(checked) => setAdditionalRoomIds(prev =>
+                              checked === true ? [...prev, room.id] : prev.filter(id => id !== room.id)
+                            )}
+                          />
+                          <Label htmlFor={`event-room-${room.id}`} className="font-normal text-sm">
+                            {room.name}
+                            <span className={`ml-2 text-xs ${reason ? 'text-red-600' : 'text-gray-500'}`}>
+                              {reason ?? `${room.capacity} seats`}
+                            </span>
+                          </Label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
+              {/* Portable Equipment */}
+              {hasEquipmentSlot && !isOffline && (equipmentError || (equipmentAvailability && equipmentAvailability.length > 0)) && (
+                <div className="space-y-2 p-3 border rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <Package className="h-4 w-4 text-gray-600" />
+                    <Label className="text-sm sm:text-base">Portable Equipment (optional)</Label>
+                  </div>
+                  {equipmentError ? (
+                    <p className="text-xs sm:text-sm text-gray-600">Equipment availability could not be loaded. You can still submit the request without equipment.</p>
+                  ) : (
+                    <>
+                      <p className="text-xs sm:text-sm text-gray-600">
+                        Reserve items to pick up at the start of your booking{recurrenceRule ? ' and return at its end, for every occurrence' : ' and return at its end'}.
+                      </p>
+                      <ul className="space-y-2">
+                        {equipmentAvailability?.map((item) => (
+                          <li key={item.id} className="flex items-center justify-between gap-3">
+                            <Label htmlFor={`equipment-${item.id}`} className="font-normal text-sm">
+                              {item.name}
+                              <span className={`block text-xs ${item.available === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                {item.available} of {item.quantity} available
+                              </span>
+                            </Label>
+                            <Input
+                              id={`equipment-${item.id}`}
+                              type="number"
+                              inputMode="numeric"
+                              min={0}
+                              max={item.available}
+                              step={1}
+                              placeholder="0"
+                              disabled={item.available === 0 && !equipmentQuantities[item.id]}
+                              value={equipmentQuantities[item.id] ?? ''}
+                              onChange={(e) => setEquipmentQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                              className="w-20 h-9"
+                            />
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Series Conflict Warning */}
+              <AnimatePresence>
+                {seriesConflicts.length > 0 && (
+                  <motion.div
+                    className="flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg"
+                    initial={{ opacity: 0, scale: 0.9, x: -20 }}
+                    animate={{ opacity: 1, scale: 1, x: 0 }}
+                    exit={{ opacity: 0, scale: 0.9, x: -20 }}
+                    transition={{ duration: 0.3 }}
+                  >
+                    <AlertTriangle className="h-5 w-5 text-red-600 flex-shrink-0" />
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-red-800">
+                        {seriesConflicts.length} occurrence{seriesConflicts.length !== 1 ? 's' : ''} conflict with existing reservations
+                      </p>
+                      <p className="text-sm text-red-700">{seriesConflicts.map(formatISOToMDY).join(', ')}</p>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setExcludedDates(prev => Array.from(new Set([...prev, ...seriesConflicts])))}
+                      >
+                        Skip conflicting dates
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
               {/* Conflict Warning */}
               <AnimatePresence>
                 {conflicts.length > 0 && (
@@ -903,13 +1656,13 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                       <p className="text-sm font-medium text-red-800">Reservation Conflict</p>
                       {conflicts.map((conflict, index) => (
                         <motion.p 
-                          key={index} 
+                          key={conflict.id} 
                           className="text-sm text-red-700"
                           initial={{ opacity: 0, y: 10 }}
                           animate={{ opacity: 1, y: 0 }}
                           transition={{ delay: index * 0.1 }}
                         >
-                          {conflict}
+                          {describeConflict(conflict)}
                         </motion.p>
                       ))}
                     </div>
@@ -917,6 +1670,21 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                 )}
               </AnimatePresence>
 
+              {/* Booking policy violations */}
+              {policyViolations.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg" role="alert">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-red-600" />
+                    <p className="text-sm font-medium text-red-800">This request breaks the booking policies</p>
+                  </div>
+                  <ul className="mt-1 ml-6 list-disc text-sm text-red-700 space-y-0.5">
+                    {policyViolations.map((violation) => (
+                      <li key={`${violation.code}-${violation.message}`}>{violation.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Local Queue Conflict Warning */}
               <AnimatePresence>
                 {hasLocalConflict && (
@@ -987,13 +1755,13 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                       <p className="text-sm font-medium text-yellow-800">Other Pending Requests</p>
                       {pendingConflicts.map((conflict, index) => (
                         <motion.p 
-                          key={index} 
+                          key={conflict.id} 
                           className="text-sm text-yellow-700"
                           initial={{ opacity: 0, y: 10 }}
                           animate={{ opacity: 1, y: 0 }}
                           transition={{ delay: index * 0.1 }}
                         >
-                          {conflict}
+                          {describeConflict(conflict)}
                         </motion.p>
                       ))}
                       <p className="text-xs text-yellow-600 mt-1 italic">
@@ -1004,6 +1772,38 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                 )}
               </AnimatePresence>
 
+              {/* Alternatives (single bookings only) */}
+              {(conflicts.length > 0 || pendingConflicts.length > 0) && !recurrenceRule && (
+                <BookingSuggestions suggestions={suggestions} onSelect={applySuggestion} />
+              )}
+
+              {/* Waitlist (single bookings only, while online) */}
+              {(conflicts.length > 0 || pendingConflicts.length > 0) && !recurrenceRule && !isOffline && (
+                <div className="p-3 border border-teal-200 bg-teal-50 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Hourglass className="h-4 w-4 text-teal-700" />
+                    <p className="text-sm font-medium text-teal-800">Want this exact slot?</p>
+                  </div>
+                  <p className="text-sm text-teal-700">
+                    Join the waitlist and you'll be notified if this room frees up for {formData.startTime} - {formData.endTime}.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="waitlist-auto-convert"
+                      checked={waitlistAutoConvert}
+                      onCheckedChange={(checked) => setWaitlistAutoConvert(checked === true)}
+                    />
+                    <Label htmlFor="waitlist-auto-convert" className="text-sm text-teal-800 font-normal">
+                      Automatically submit a reservation request for me when it frees up
+                    </Label>
+                  </div>
+                  <Button type="button" size="sm" variant="outline" onClick={handleJoinWaitlist} disabled={isJoiningWaitlist}>
+                    {isJoiningWaitlist && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Join Waitlist
+                  </Button>
+                </div>
+              )}
+
               {/* Past Time Warning */}
               <AnimatePresence>
                 {formData.date && formData.startTime && isPastBookingTime(formData.date, formData.startTime) && (
@@ -1097,7 +1897,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                 >
                   <Button 
                     type="submit"
-                    disabled={isSubmitting || (conflicts.length > 0 && !isOffline) || hasLocalConflict || !formData.classroomId || !formData.date || !formData.startTime || !formData.endTime || !formData.purpose.trim() || Object.values(errors).some(e => e)}
+                    disabled={isSubmitting || (conflicts.length > 0 && !isOffline) || hasLocalConflict || seriesConflicts.length > 0 || !!recurrenceError || !!dateBlockReason || !!hoursViolation || !!maintenanceBlockReason || policyViolations.length > 0 || isEquipmentLoading || !formData.classroomId || !formData.date || !formData.startTime || !formData.endTime || !formData.purpose.trim() || !isValidAttendeeCount || Object.values(errors).some(e => e)}
                     className="w-full sm:w-auto transition-all duration-200 disabled:opacity-50"
                   >
                     {isSubmitting ? (
@@ -1198,7 +1998,7 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
               <div className="flex items-center gap-2 text-sm">
                 <MapPin className="h-4 w-4 text-blue-600" />
                 <span className="font-medium text-blue-900">
-                  {classrooms.find(c => c.id === formData.classroomId)?.name || 'Classroom'}
+                  {[classrooms.find(c => c.id === formData.classroomId)?.name || 'Classroom', ...eventRooms.map(room => room.name)].join(', ')}
                 </span>
               </div>
               
@@ -1218,6 +2018,29 @@ export default function RoomBooking({ user, classrooms = [], schedules = [], boo
                 <Clock className="h-4 w-4 text-blue-600" />
                 <span>{formData.startTime} - {formData.endTime}</span>
               </div>
+
+              {isValidAttendeeCount && (
+                <div className="flex items-center gap-2 text-sm text-blue-800">
+                  <Users className="h-4 w-4 text-blue-600" />
+                  <span>{attendeeCount} expected attendee{attendeeCount !== 1 ? 's' : ''}</span>
+                </div>
+              )}
+
+              {reservedEquipment.length > 0 && (
+                <div className="flex items-center gap-2 text-sm text-blue-800">
+                  <Package className="h-4 w-4 text-blue-600" />
+                  <span>{describeReservedEquipment(reservedEquipment)}</span>
+                </div>
+              )}
+
+              {recurrenceRule && (
+                <div className="flex items-center gap-2 text-sm text-blue-800">
+                  <Repeat className="h-4 w-4 text-blue-600" />
+                  <span>
+                    {describeRecurrence(recurrenceRule, formData.date)} · {occurrenceDates.length} occurrence{occurrenceDates.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+              )}
               
               <div className="pt-2 border-t border-blue-200">
                 <p className="text-sm font-medium text-blue-900 mb-1">Purpose:</p>
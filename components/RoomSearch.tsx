@@ -1,26 +1,36 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Badge } from './ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { Search, MapPin, Users, Clock, CheckCircle, XCircle, X } from 'lucide-react';
+import { Search, MapPin, Users, Clock, CheckCircle, XCircle, X, CalendarRange, AlertTriangle } from 'lucide-react';
 import Calendar from './ui/calendar';
 import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
-import { generateTimeSlots, convertTo24Hour, isValidTimeRange, isPastBookingTime, getValidEndTimes } from '../utils/timeUtils';
+import { generateTimeSlots, convertTo12Hour, convertTo24Hour, isValidTimeRange, isPastBookingTime, getValidEndTimes, getOperatingHoursViolation, addDaysToDateString, formatTimeRange } from '../utils/timeUtils';
 import type { Classroom, Schedule, BookingRequest } from '../App';
 import { getIconForEquipment } from '../lib/equipmentIcons';
+import { getDateBlockReason, isDateBlocked } from '../utils/academicCalendar';
+import { getMaintenanceBlockReason } from '../utils/maintenanceWindows';
+import { findOverlappingBlocks } from '../utils/classroomBlocks';
+import { useAcademicCalendar } from '../hooks/useAcademicCalendar';
+import { useOperatingHours } from '../hooks/useOperatingHours';
+import { useBookingPolicies } from '../hooks/useBookingPolicies';
+import { getDayHours, resolveOperatingHours } from '../utils/operatingHours';
+import { describeCapacityFit, sortByCapacityFit } from '../utils/capacity';
+import { DEFAULT_BOOKING_POLICIES, formatPolicyMinutes } from '../utils/bookingPolicies';
+import { MAX_FREE_WINDOW_DAYS, findFreeWindows, validateFreeWindowQuery } from '../utils/freeWindowSearch';
+import { toLocalDateString } from '../utils/displays';
 
 interface RoomSearchProps {
   classrooms: Classroom[];
   schedules: Schedule[];
   bookingRequests: BookingRequest[];
-  onReserve?: (classroomId: string, date: string, startTime: string, endTime: string) => void;
+  // expectedAttendees is the group size searched for, when one was entered
+  onReserve?: (classroomId: string, date: string, startTime: string, endTime: string, expectedAttendees?: number) => void;
 }
 
-const timeSlots = generateTimeSlots();
-
 // Available equipment options for filtering
 const EQUIPMENT_OPTIONS = [
   'Projector',
@@ -47,6 +57,42 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
     equipment: [] as string[]
   });
 
+  // Flexible mode looks for any free slot of a given length within a time window and a
+  // range of dates, instead of one exact date and time
+  const [mode, setMode] = useState<'exact' | 'flexible'>('exact');
+  const [flexibleFilters, setFlexibleFilters] = useState(() => {
+    const fromDate = toLocalDateString(new Date());
+    return { durationMinutes: '60', windowStart: '', windowEnd: '', fromDate, toDate: addDaysToDateString(fromDate, 6) };
+  });
+
+  // Campus-wide closures (outside the term, holidays, suspensions) disable the date itself;
+  // building blackouts only hide the classrooms in that building.
+  const academicCalendar = useAcademicCalendar();
+  const campusClosedReason = searchFilters.date ? getDateBlockReason(academicCalendar, searchFilters.date) : null;
+
+  // Times span every building's operating hours for the chosen weekday; classrooms in
+  // buildings that are closed at the chosen time are hidden from the results.
+  const operatingHours = useOperatingHours();
+  const timeSlots = useMemo(
+    () => generateTimeSlots(searchFilters.date || undefined, null, undefined, operatingHours),
+    [searchFilters.date, operatingHours]
+  );
+
+  const isBuildingClosed = useCallback((building: string) => {
+    if (!searchFilters.date) return false;
+    if (isDateBlocked(academicCalendar, searchFilters.date, building)) return true;
+    if (searchFilters.startTime && searchFilters.endTime) {
+      return !!getOperatingHoursViolation(
+        operatingHours,
+        searchFilters.date,
+        convertTo24Hour(searchFilters.startTime),
+        convertTo24Hour(searchFilters.endTime),
+        building
+      );
+    }
+    return !getDayHours(operatingHours, searchFilters.date, building);
+  }, [searchFilters.date, searchFilters.startTime, searchFilters.endTime, academicCalendar, operatingHours]);
+
   // Defensive handlers to prevent selecting disabled times (some Select implementations
   // may still trigger onValueChange in edge cases). These double-check business rules
   // and ignore selections that should be disabled.
@@ -147,14 +193,14 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
   };
 
   // Check if classroom is available for given time slot
-  const isClassroomAvailable = (classroomId: string, date: string, startTime: string, endTime: string): boolean => {
+  const isClassroomAvailable = useCallback((classroomId: string, date: string, startTime: string, endTime: string): boolean => {
     if (!date || !startTime || !endTime) return true;
 
     // Convert 12-hour format to 24-hour for comparison with stored schedule data
     const startTime24 = convertTo24Hour(startTime);
     const endTime24 = convertTo24Hour(endTime);
 
-    // Check confirmed schedules
+    // Check confirmed schedules and time ranges blocked on the room
     const scheduleConflict = schedules.some(schedule => 
       schedule.classroomId === classroomId &&
       schedule.date === date &&
@@ -164,7 +210,7 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
         (endTime24 > schedule.startTime && endTime24 <= schedule.endTime) ||
         (startTime24 <= schedule.startTime && endTime24 >= schedule.endTime)
       )
-    );
+    ) || findOverlappingBlocks(classrooms.find(c => c.id === classroomId), date, startTime24, endTime24).length > 0;
 
     // Check pending booking requests
     const pendingConflict = bookingRequests.some(request => 
@@ -179,7 +225,7 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
     );
 
     return !scheduleConflict && !pendingConflict;
-  };
+  }, [classrooms, schedules, bookingRequests]);
 
   // Get conflict type for time slot
   const getTimeSlotConflictType = (time: string, isStartTime: boolean = true): 'none' | 'confirmed' | 'pending' | 'both' => {
@@ -255,53 +301,15 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
     return 'none';
   };
 
-  // Check if a time slot has conflicts across any available classroom
-  const hasTimeSlotConflicts = (time: string, isStartTime: boolean = true): boolean => {
-    if (!searchFilters.date) return false;
-    
-    const availableClassrooms = classrooms.filter(c => c.isAvailable);
-    if (availableClassrooms.length === 0) return false;
-
-    // For start time, check if this time would conflict with any booking
-    if (isStartTime) {
-      return availableClassrooms.some(classroom => {
-        // Check confirmed schedules
-        const scheduleConflict = schedules.some(schedule => 
-          schedule.classroomId === classroom.id &&
-          schedule.date === searchFilters.date &&
-          schedule.status === 'confirmed' &&
-          convertTo24Hour(time) >= schedule.startTime && 
-          convertTo24Hour(time) < schedule.endTime
-        );
-        
-        // Check pending booking requests
-        const pendingConflict = bookingRequests.some(request => 
-          request.classroomId === classroom.id &&
-          request.date === searchFilters.date &&
-          request.status === 'pending' &&
-          convertTo24Hour(time) >= request.startTime && 
-          convertTo24Hour(time) < request.endTime
-        );
-        
-        return scheduleConflict || pendingConflict;
-      });
-    } else {
-      // For end time, check with selected start time
-      if (!searchFilters.startTime) return false;
-      return availableClassrooms.some(classroom => 
-        !isClassroomAvailable(classroom.id, searchFilters.date, searchFilters.startTime, time)
-      );
-    }
-  };
-
   // Filter and search classrooms
+  const groupSize = parseInt(searchFilters.minCapacity) > 0 ? parseInt(searchFilters.minCapacity) : undefined;
+
   const filteredClassrooms = useMemo(() => {
     let filtered = classrooms.filter(classroom => classroom.isAvailable);
 
-    // Filter by capacity
-    if (searchFilters.minCapacity) {
-      const minCap = parseInt(searchFilters.minCapacity);
-      filtered = filtered.filter(c => c.capacity >= minCap);
+    // Filter to rooms that seat the whole group
+    if (groupSize) {
+      filtered = filtered.filter(c => c.capacity >= groupSize);
     }
 
     // Filter by equipment
@@ -315,15 +323,58 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
       );
     }
 
-    // Filter by availability for the specified time slot
+    // Hide classrooms whose building is closed on the chosen date or outside its hours
+    if (searchFilters.date) {
+      filtered = filtered.filter(c => !isBuildingClosed(c.building));
+    }
+
+    // Filter by availability for the specified time slot, including scheduled maintenance
     if (searchFilters.date && searchFilters.startTime && searchFilters.endTime) {
       filtered = filtered.filter(c => 
-        isClassroomAvailable(c.id, searchFilters.date, searchFilters.startTime, searchFilters.endTime)
+        isClassroomAvailable(c.id, searchFilters.date, searchFilters.startTime, searchFilters.endTime) &&
+        !getMaintenanceBlockReason(c, searchFilters.date, searchFilters.startTime, searchFilters.endTime)
       );
     }
 
-    return filtered.sort((a, b) => a.name.localeCompare(b.name));
-  }, [classrooms, schedules, searchFilters]);
+    // With a group size, the best-fitting rooms come first
+    const byName = filtered.sort((a, b) => a.name.localeCompare(b.name));
+    return groupSize ? sortByCapacityFit(byName, groupSize) : byName;
+  }, [classrooms, searchFilters, groupSize, isBuildingClosed, isClassroomAvailable]);
+
+  // Buildings closed by a blackout or their operating hours, for the results summary
+  const closedBuildings = useMemo(() => {
+    if (!searchFilters.date || campusClosedReason) return [];
+    const buildings = Array.from(new Set(classrooms.filter(c => c.isAvailable).map(c => c.building)));
+    return buildings.filter(isBuildingClosed);
+  }, [classrooms, searchFilters.date, campusClosedReason, isBuildingClosed]);
+
+  // Flexible mode: durations on the slot grid up to the longest reservation allowed, and
+  // window times spanning every building's hours
+  const maxDurationMinutes = (useBookingPolicies() ?? DEFAULT_BOOKING_POLICIES).maxDurationMinutes;
+  const { slotMinutes } = resolveOperatingHours(operatingHours);
+  const durationOptions = useMemo(
+    () => Array.from({ length: Math.floor(maxDurationMinutes / slotMinutes) }, (_, i) => (i + 1) * slotMinutes),
+    [maxDurationMinutes, slotMinutes]
+  );
+  const windowTimes = useMemo(() => generateTimeSlots(undefined, null, undefined, operatingHours), [operatingHours]);
+  const windowStart = flexibleFilters.windowStart || windowTimes[0] || '';
+  const windowEnd = flexibleFilters.windowEnd || windowTimes[windowTimes.length - 1] || '';
+
+  const flexibleQuery = useMemo(() => ({
+    durationMinutes: Number(flexibleFilters.durationMinutes),
+    windowStart: windowStart ? convertTo24Hour(windowStart) : '',
+    windowEnd: windowEnd ? convertTo24Hour(windowEnd) : '',
+    fromDate: flexibleFilters.fromDate,
+    toDate: flexibleFilters.toDate,
+    minCapacity: groupSize,
+    requiredEquipment: searchFilters.equipment,
+  }), [flexibleFilters, windowStart, windowEnd, groupSize, searchFilters.equipment]);
+  const flexibleError = mode === 'flexible' ? validateFreeWindowQuery(flexibleQuery, today) : null;
+
+  const freeWindows = useMemo(() => {
+    if (mode !== 'flexible' || flexibleError) return [];
+    return findFreeWindows(flexibleQuery, classrooms, schedules, bookingRequests, { calendar: academicCalendar, hours: operatingHours });
+  }, [mode, flexibleError, flexibleQuery, classrooms, schedules, bookingRequests, academicCalendar, operatingHours]);
 
   const handleSearch = () => {
     // The filtering happens automatically through useMemo
@@ -338,6 +389,7 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
       minCapacity: '',
       equipment: []
     });
+    setFlexibleFilters({ durationMinutes: '60', windowStart: '', windowEnd: '', fromDate: today, toDate: addDaysToDateString(today, 6) });
   };
 
   const hasActiveFilters = searchFilters.date !== '' || 
@@ -350,149 +402,115 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
     <div className="space-y-6">
       {/* Search Filters */}
       <Card>
-        <CardHeader>
-          <CardTitle>Search Available Classrooms</CardTitle>
-          <CardDescription>Find classrooms that meet your requirements</CardDescription>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle>Search Available Classrooms</CardTitle>
+            <CardDescription>
+              {mode === 'exact'
+                ? 'Find classrooms that meet your requirements'
+                : 'Find any free slot of the length you need within a time window and a range of dates'}
+            </CardDescription>
+          </div>
+          <div className="flex rounded-md border p-0.5 w-fit" role="group" aria-label="Search mode">
+            <Button type="button" size="sm" variant={mode === 'exact' ? 'default' : 'ghost'} aria-pressed={mode === 'exact'} onClick={() => setMode('exact')}>
+              <Clock className="h-4 w-4 mr-1" />
+              Exact time
+            </Button>
+            <Button type="button" size="sm" variant={mode === 'flexible' ? 'default' : 'ghost'} aria-pressed={mode === 'flexible'} onClick={() => setMode('flexible')}>
+              <CalendarRange className="h-4 w-4 mr-1" />
+              Flexible
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Date and Time Row */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="search-date">Date</Label>
-                {isSmallPhone ? (
-                  <div>
-                    <input
-                      id="search-date"
-                      type="date"
-                      min={today}
-                      value={searchFilters.date}
-                      onChange={(e) => {
-                        const v = e.target.value;
-                        if (!v) {
-                          setSearchFilters(prev => ({ ...prev, date: '' }));
-                          setDateError(null);
-                          return;
-                        }
-                        if (!isValidISODate(v)) {
-                          setDateError('Invalid date');
-                        } else if (v < today) {
-                          setDateError('Date must be today or later');
-                        } else {
-                          setDateError(null);
-                          setSearchFilters(prev => ({ ...prev, date: v }));
-                        }
-                      }}
-                      className="w-full px-3 py-2 bg-surface border rounded-md"
-                    />
-                    {dateError && <p className="text-xs text-red-600 mt-1">{dateError}</p>}
-                  </div>
-                ) : (
-                  <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
-                    <PopoverTrigger asChild>
-                      <button
-                        type="button"
-                        className="w-full text-left px-3 py-2 bg-surface hover:bg-muted/50 border rounded-md flex items-center justify-between"
-                      >
-                        <span className={`text-sm ${searchFilters.date ? 'text-foreground' : 'text-muted-foreground'}`}>
-                          {searchFilters.date ? formatISOToMDY(searchFilters.date) : 'Select a date'}
-                        </span>
-                        <svg className="w-4 h-4 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor"><path d="M8 9l4 4 4-4" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg>
-                      </button>
-                    </PopoverTrigger>
-                    <PopoverContent>
-                      <div className="-mt-2">
-                        <Calendar
-                          value={searchFilters.date || undefined}
-                          onSelect={(iso) => {
-                            if (!iso) { setSearchFilters(prev => ({ ...prev, date: '' })); setDateError(null); return; }
-                            if (!isValidISODate(iso) || iso < today) {
-                              setDateError('Invalid or past date');
-                            } else {
-                              setDateError(null);
-                              setSearchFilters(prev => ({ ...prev, date: iso }));
-                              setIsCalendarOpen(false); // Close calendar after valid selection
-                            }
-                          }}
-                          min={today}
-                          className="md:w-[280px]"
-                        />
-                      </div>
-                    </PopoverContent>
-                  </Popover>
-                )}
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="search-start">Start Time</Label>
-              <Select value={searchFilters.startTime} onValueChange={handleStartTimeChange}>
-                <SelectTrigger id="search-start">
-                  <SelectValue placeholder="Select start time" />
-                </SelectTrigger>
-                <SelectContent>
-                  {timeSlots.map((time) => {
-                    const conflictType = getTimeSlotConflictType(time, true);
-                    const hasConflicts = conflictType !== 'none';
-
-                    // Mark as past if the selected date makes this time in the past
-                    const isPast = Boolean(searchFilters.date && isPastBookingTime(searchFilters.date, time));
-
-                    const isDisabled = Boolean(hasConflicts || isPast);
-
-                    const getBadgeText = () => {
-                      if (isPast) return 'Past';
-                      switch (conflictType) {
-                        case 'pending': return 'Pending';
-                        case 'confirmed': return 'Reserved';
-                        case 'both': return 'Limited';
-                        default: return '';
-                      }
-                    };
-
-                    const getBadgeClass = () => {
-                      if (isPast) return 'ml-2 text-xs border-gray-300 text-gray-600 bg-gray-50';
-                      switch (conflictType) {
-                        case 'pending': return 'ml-2 text-xs border-yellow-300 text-yellow-700 bg-yellow-50';
-                        case 'confirmed': return 'ml-2 text-xs border-red-300 text-red-700 bg-red-50';
-                        case 'both': return 'ml-2 text-xs border-orange-300 text-orange-600 bg-orange-50';
-                        default: return '';
-                      }
-                    };
-
-                    return (
-                      <SelectItem 
-                        key={time} 
-                        value={time}
-                        disabled={isDisabled}
-                        className={isDisabled ? "text-gray-400 opacity-60" : ""}
-                      >
-                        <div className="flex items-center justify-between w-full">
-                          <span>{time}</span>
-                          {isDisabled && (
-                            <Badge variant="outline" className={getBadgeClass()}>
-                              {getBadgeText()}
-                            </Badge>
-                          )}
+          {mode === 'exact' ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="search-date">Date</Label>
+                  {isSmallPhone ? (
+                    <div>
+                      <input
+                        id="search-date"
+                        type="date"
+                        min={today}
+                        value={searchFilters.date}
+                        onChange={(e) => {
+                          const v = e.target.value;
+                          if (!v) {
+                            setSearchFilters(prev => ({ ...prev, date: '' }));
+                            setDateError(null);
+                            return;
+                          }
+                          if (!isValidISODate(v)) {
+                            setDateError('Invalid date');
+                          } else if (v < today) {
+                            setDateError('Date must be today or later');
+                          } else if (isDateBlocked(academicCalendar, v)) {
+                            setDateError(`Closed: ${getDateBlockReason(academicCalendar, v)}`);
+                          } else {
+                            setDateError(null);
+                            setSearchFilters(prev => ({ ...prev, date: v }));
+                          }
+                        }}
+                        className="w-full px-3 py-2 bg-surface border rounded-md"
+                      />
+                      {dateError && <p className="text-xs text-red-600 mt-1">{dateError}</p>}
+                    </div>
+                  ) : (
+                    <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+                      <PopoverTrigger asChild>
+                        <button
+                          type="button"
+                          className="w-full text-left px-3 py-2 bg-surface hover:bg-muted/50 border rounded-md flex items-center justify-between"
+                        >
+                          <span className={`text-sm ${searchFilters.date ? 'text-foreground' : 'text-muted-foreground'}`}>
+                            {searchFilters.date ? formatISOToMDY(searchFilters.date) : 'Select a date'}
+                          </span>
+                          <svg className="w-4 h-4 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor"><path d="M8 9l4 4 4-4" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg>
+                        </button>
+                      </PopoverTrigger>
+                      <PopoverContent>
+                        <div className="-mt-2">
+                          <Calendar
+                            value={searchFilters.date || undefined}
+                            onSelect={(iso) => {
+                              if (!iso) { setSearchFilters(prev => ({ ...prev, date: '' })); setDateError(null); return; }
+                              if (!isValidISODate(iso) || iso < today) {
+                                setDateError('Invalid or past date');
+                              } else {
+                                setDateError(null);
+                                setSearchFilters(prev => ({ ...prev, date: iso }));
+                                setIsCalendarOpen(false); // Close calendar after valid selection
+                              }
+                            }}
+                            min={today}
+                            isDateDisabled={(iso) => isDateBlocked(academicCalendar, iso)}
+                            className="md:w-[280px]"
+                          />
                         </div>
-                      </SelectItem>
-                    );
-                  })}
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="search-end">End Time</Label>
-              <Select value={searchFilters.endTime} onValueChange={handleEndTimeChange} disabled={!searchFilters.startTime}>
-                <SelectTrigger id="search-end">
-                  <SelectValue placeholder={searchFilters.startTime ? 'Select end time' : 'Select start time first'} />
-                </SelectTrigger>
-                <SelectContent>
-                  {(() => {
-                    const validEndTimes = searchFilters.startTime ? getValidEndTimes(searchFilters.startTime, timeSlots) : timeSlots;
-                    return validEndTimes.map((time) => {
-                      const isDisabled = false; // already filtered by validEndTimes
-                      const conflictType = getTimeSlotConflictType(time, false);
+                      </PopoverContent>
+                    </Popover>
+                  )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="search-start">Start Time</Label>
+                <Select value={searchFilters.startTime} onValueChange={handleStartTimeChange}>
+                  <SelectTrigger id="search-start">
+                    <SelectValue placeholder="Select start time" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeSlots.map((time) => {
+                      const conflictType = getTimeSlotConflictType(time, true);
                       const hasConflicts = conflictType !== 'none';
 
+                      // Mark as past if the selected date makes this time in the past
+                      const isPast = Boolean(searchFilters.date && isPastBookingTime(searchFilters.date, time));
+
+                      const isDisabled = Boolean(hasConflicts || isPast);
+
                       const getBadgeText = () => {
+                        if (isPast) return 'Past';
                         switch (conflictType) {
                           case 'pending': return 'Pending';
                           case 'confirmed': return 'Reserved';
@@ -502,6 +520,7 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
                       };
 
                       const getBadgeClass = () => {
+                        if (isPast) return 'ml-2 text-xs border-gray-300 text-gray-600 bg-gray-50';
                         switch (conflictType) {
                           case 'pending': return 'ml-2 text-xs border-yellow-300 text-yellow-700 bg-yellow-50';
                           case 'confirmed': return 'ml-2 text-xs border-red-300 text-red-700 bg-red-50';
@@ -515,11 +534,11 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
                           key={time} 
                           value={time}
                           disabled={isDisabled}
-                          className={hasConflicts ? "text-gray-400 opacity-60" : ""}
+                          className={isDisabled ? "text-gray-400 opacity-60" : ""}
                         >
                           <div className="flex items-center justify-between w-full">
                             <span>{time}</span>
-                            {hasConflicts && (
+                            {isDisabled && (
                               <Badge variant="outline" className={getBadgeClass()}>
                                 {getBadgeText()}
                               </Badge>
@@ -527,21 +546,148 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
                           </div>
                         </SelectItem>
                       );
-                    });
-                  })()}
-                </SelectContent>
-              </Select>
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="search-end">End Time</Label>
+                <Select value={searchFilters.endTime} onValueChange={handleEndTimeChange} disabled={!searchFilters.startTime}>
+                  <SelectTrigger id="search-end">
+                    <SelectValue placeholder={searchFilters.startTime ? 'Select end time' : 'Select start time first'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(() => {
+                      const validEndTimes = searchFilters.startTime ? getValidEndTimes(searchFilters.startTime, timeSlots) : timeSlots;
+                      return validEndTimes.map((time) => {
+                        const isDisabled = false; // already filtered by validEndTimes
+                        const conflictType = getTimeSlotConflictType(time, false);
+                        const hasConflicts = conflictType !== 'none';
+
+                        const getBadgeText = () => {
+                          switch (conflictType) {
+                            case 'pending': return 'Pending';
+                            case 'confirmed': return 'Reserved';
+                            case 'both': return 'Limited';
+                            default: return '';
+                          }
+                        };
+
+                        const getBadgeClass = () => {
+                          switch (conflictType) {
+                            case 'pending': return 'ml-2 text-xs border-yellow-300 text-yellow-700 bg-yellow-50';
+                            case 'confirmed': return 'ml-2 text-xs border-red-300 text-red-700 bg-red-50';
+                            case 'both': return 'ml-2 text-xs border-orange-300 text-orange-600 bg-orange-50';
+                            default: return '';
+                          }
+                        };
+
+                        return (
+                          <SelectItem 
+                            key={time} 
+                            value={time}
+                            disabled={isDisabled}
+                            className={hasConflicts ? "text-gray-400 opacity-60" : ""}
+                          >
+                            <div className="flex items-center justify-between w-full">
+                              <span>{time}</span>
+                              {hasConflicts && (
+                                <Badge variant="outline" className={getBadgeClass()}>
+                                  {getBadgeText()}
+                                </Badge>
+                              )}
+                            </div>
+                          </SelectItem>
+                        );
+                      });
+                    })()}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
-          </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="flexible-duration">Duration</Label>
+                  <Select value={flexibleFilters.durationMinutes} onValueChange={(value) => setFlexibleFilters(prev => ({ ...prev, durationMinutes: value }))}>
+                    <SelectTrigger id="flexible-duration">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {durationOptions.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>{formatPolicyMinutes(minutes)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="flexible-window-start">Between</Label>
+                  <Select value={windowStart} onValueChange={(value) => setFlexibleFilters(prev => ({ ...prev, windowStart: value }))}>
+                    <SelectTrigger id="flexible-window-start">
+                      <SelectValue placeholder="Earliest start" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {windowTimes.slice(0, -1).map((time) => (
+                        <SelectItem key={time} value={time}>{time}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="flexible-window-end">And</Label>
+                  <Select value={windowEnd} onValueChange={(value) => setFlexibleFilters(prev => ({ ...prev, windowEnd: value }))}>
+                    <SelectTrigger id="flexible-window-end">
+                      <SelectValue placeholder="Latest end" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {windowTimes.slice(1).map((time) => (
+                        <SelectItem key={time} value={time}>{time}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="flexible-from">From</Label>
+                  <Input
+                    id="flexible-from"
+                    type="date"
+                    min={today}
+                    value={flexibleFilters.fromDate}
+                    onChange={(e) => setFlexibleFilters(prev => ({ ...prev, fromDate: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="flexible-to">To</Label>
+                  <Input
+                    id="flexible-to"
+                    type="date"
+                    min={flexibleFilters.fromDate || today}
+                    max={flexibleFilters.fromDate ? addDaysToDateString(flexibleFilters.fromDate, MAX_FREE_WINDOW_DAYS - 1) : undefined}
+                    value={flexibleFilters.toDate}
+                    onChange={(e) => setFlexibleFilters(prev => ({ ...prev, toDate: e.target.value }))}
+                  />
+                </div>
+              </div>
+              {flexibleError && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {flexibleError}
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Filters Row */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="search-capacity">Minimum Room Capacity</Label>
+              <Label htmlFor="search-capacity">Group Size</Label>
               <Input
                 id="search-capacity"
                 type="number"
-                placeholder="e.g., 30"
+                placeholder="Number of attendees, e.g., 30"
                 min="1"
                 value={searchFilters.minCapacity}
                 onChange={(e) => setSearchFilters(prev => ({ ...prev, minCapacity: e.target.value }))}
@@ -603,113 +749,183 @@ export default function RoomSearch({ classrooms, schedules, bookingRequests, onR
                 </Button>
               )}
             </div>
-            <div className="text-sm text-gray-600">
-              Showing {filteredClassrooms.length} of {classrooms.filter(c => c.isAvailable).length} available classrooms
+            <div className="text-sm text-gray-600 text-right">
+              {mode === 'flexible' ? (
+                <div>{freeWindows.length} matching slot{freeWindows.length !== 1 ? 's' : ''}, soonest first</div>
+              ) : (
+                <div>Showing {filteredClassrooms.length} of {classrooms.filter(c => c.isAvailable).length} available classrooms</div>
+              )}
+              {mode === 'exact' && campusClosedReason && (
+                <div className="text-red-600">No classrooms can be reserved on this date. {campusClosedReason}.</div>
+              )}
+              {mode === 'exact' && closedBuildings.length > 0 && (
+                <div className="text-amber-700">
+                  Closed {searchFilters.startTime && searchFilters.endTime ? 'at this time' : 'on this date'}: {closedBuildings.join(', ')}
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
       </Card>
 
       {/* Search Results */}
-      <div className="space-y-4">
-        {filteredClassrooms.length === 0 ? (
-          <Card>
-            <CardContent className="p-8 text-center">
-              <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">
-                {hasActiveFilters ? 'No Matching Classrooms' : 'Start Your Search'}
-              </h3>
-              <p className="text-gray-600">
-                {hasActiveFilters 
-                  ? 'Try adjusting your search criteria to find available classrooms.'
-                  : 'Use the filters above to search for available classrooms that meet your needs.'
-                }
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredClassrooms.map((classroom) => {
-              const isAvailableForSearch = !searchFilters.date || !searchFilters.startTime || !searchFilters.endTime || 
-                isClassroomAvailable(classroom.id, searchFilters.date, searchFilters.startTime, searchFilters.endTime);
-
-              return (
-                <Card key={classroom.id} className={`${isAvailableForSearch ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
-                  <CardContent className="p-6">
-                    <div className="space-y-3">
-                      {/* Header */}
-                      <div className="flex items-center justify-between">
-                        <h3 className="font-semibold text-lg">{classroom.name}</h3>
-                        <div className="flex items-center space-x-1">
-                          {isAvailableForSearch ? (
-                            <CheckCircle className="h-5 w-5 text-green-600" />
-                          ) : (
-                            <XCircle className="h-5 w-5 text-red-600" />
-                          )}
-                          <Badge variant={isAvailableForSearch ? 'default' : 'destructive'}>
-                            {isAvailableForSearch ? 'Available' : 'Occupied'}
+      {mode === 'flexible' ? (
+        <div className="space-y-3">
+          {freeWindows.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Free Slots Found</h3>
+                <p className="text-gray-600">
+                  {flexibleError ?? 'Try a shorter duration, a wider time window or more dates.'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <ol className="space-y-3">
+              {freeWindows.map((slot, index) => (
+                <li key={`${slot.classroomId}-${slot.date}`}>
+                  <Card>
+                    <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                      <span className="text-sm font-semibold text-gray-500 w-6">{index + 1}.</span>
+                      <div className="flex-1 space-y-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <h3 className="font-semibold">{slot.classroomName}</h3>
+                          <Badge variant="outline" className="text-xs">
+                            {new Date(`${slot.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
                           </Badge>
                         </div>
-                      </div>
-
-                      {/* Location & Capacity */}
-                      <div className="space-y-2">
-                        <div className="flex items-center space-x-2 text-sm text-gray-600">
-                          <MapPin className="h-4 w-4" />
-                          <span>{classroom.building}, Floor {classroom.floor}</span>
-                        </div>
-                        <div className="flex items-center space-x-2 text-sm text-gray-600">
-                          <Users className="h-4 w-4" />
-                          <span>{classroom.capacity} seats</span>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-4 w-4" />
+                            {formatTimeRange(convertTo12Hour(slot.startTime), convertTo12Hour(slot.endTime))}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-4 w-4" />
+                            {slot.building}, Floor {slot.floor}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Users className="h-4 w-4" />
+                            {groupSize ? describeCapacityFit(slot.capacity, groupSize) : `${slot.capacity} seats`}
+                          </span>
                         </div>
                       </div>
-
-                      {/* Equipment */}
-                      {classroom.equipment.length > 0 && (
-                        <div className="space-y-2">
-                          <p className="text-sm font-medium text-gray-700">Equipment:</p>
-                          <div className="flex flex-wrap gap-1">
-                            {classroom.equipment.map((eq, index) => (
-                              <Badge key={index} variant="secondary" className="text-xs flex items-center space-x-1">
-                                {getIconForEquipment(eq) && <span>{getIconForEquipment(eq)}</span>}
-                                <span>{eq}</span>
-                              </Badge>
-                            ))}
+                      {onReserve && (
+                        <Button
+                          className="sm:w-auto w-full"
+                          onClick={() => onReserve(slot.classroomId, slot.date, convertTo12Hour(slot.startTime), convertTo12Hour(slot.endTime), groupSize)}
+                        >
+                          Reserve This Slot
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredClassrooms.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  {hasActiveFilters ? 'No Matching Classrooms' : 'Start Your Search'}
+                </h3>
+                <p className="text-gray-600">
+                  {hasActiveFilters 
+                    ? 'Try adjusting your search criteria to find available classrooms.'
+                    : 'Use the filters above to search for available classrooms that meet your needs.'
+                  }
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredClassrooms.map((classroom) => {
+                const isAvailableForSearch = !searchFilters.date || !searchFilters.startTime || !searchFilters.endTime || 
+                  isClassroomAvailable(classroom.id, searchFilters.date, searchFilters.startTime, searchFilters.endTime);
+
+                return (
+                  <Card key={classroom.id} className={`${isAvailableForSearch ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+                    <CardContent className="p-6">
+                      <div className="space-y-3">
+                        {/* Header */}
+                        <div className="flex items-center justify-between">
+                          <h3 className="font-semibold text-lg">{classroom.name}</h3>
+                          <div className="flex items-center space-x-1">
+                            {isAvailableForSearch ? (
+                              <CheckCircle className="h-5 w-5 text-green-600" />
+                            ) : (
+                              <XCircle className="h-5 w-5 text-red-600" />
+                            )}
+                            <Badge variant={isAvailableForSearch ? 'default' : 'destructive'}>
+                              {isAvailableForSearch ? 'Available' : 'Occupied'}
+                            </Badge>
                           </div>
                         </div>
-                      )}
 
-                      {/* Time Display */}
-                      {searchFilters.date && searchFilters.startTime && searchFilters.endTime && (
-                        <div className="pt-2 border-t border-gray-200">
-                          <div className="flex items-center space-x-2 text-sm">
-                            <Clock className="h-4 w-4 text-gray-500" />
-                            <span className="text-gray-600">
-                              {searchFilters.date} • {searchFilters.startTime}-{searchFilters.endTime}
-                            </span>
+                        {/* Location & Capacity */}
+                        <div className="space-y-2">
+                          <div className="flex items-center space-x-2 text-sm text-gray-600">
+                            <MapPin className="h-4 w-4" />
+                            <span>{classroom.building}, Floor {classroom.floor}</span>
+                          </div>
+                          <div className="flex items-center space-x-2 text-sm text-gray-600">
+                            <Users className="h-4 w-4" />
+                            <span>{groupSize ? describeCapacityFit(classroom.capacity, groupSize) : `${classroom.capacity} seats`}</span>
                           </div>
                         </div>
-                      )}
 
-                      {/* Reserve Button */}
-                      {isAvailableForSearch && searchFilters.date && searchFilters.startTime && searchFilters.endTime && onReserve && (
-                        <div className="pt-3">
-                          <Button
-                            className="w-full"
-                            onClick={() => onReserve(classroom.id, searchFilters.date, searchFilters.startTime, searchFilters.endTime)}
-                          >
-                            Reserve This Classroom
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
-        )}
-      </div>
+                        {/* Equipment */}
+                        {classroom.equipment.length > 0 && (
+                          <div className="space-y-2">
+                            <p className="text-sm font-medium text-gray-700">Equipment:</p>
+                            <div className="flex flex-wrap gap-1">
+                              {classroom.equipment.map((eq, index) => (
+                                <Badge key={index} variant="secondary" className="text-xs flex items-center space-x-1">
+                                  {getIconForEquipment(eq) && <span>{getIconForEquipment(eq)}</span>}
+                                  <span>{eq}</span>
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Time Display */}
+                        {searchFilters.date && searchFilters.startTime && searchFilters.endTime && (
+                          <div className="pt-2 border-t border-gray-200">
+                            <div className="flex items-center space-x-2 text-sm">
+                              <Clock className="h-4 w-4 text-gray-500" />
+                              <span className="text-gray-600">
+                                {searchFilters.date} • {searchFilters.startTime}-{searchFilters.endTime}
+                              </span>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Reserve Button */}
+                        {isAvailableForSearch && searchFilters.date && searchFilters.startTime && searchFilters.endTime && onReserve && (
+                          <div className="pt-3">
+                            <Button
+                              className="w-full"
+                              onClick={() => onReserve(classroom.id, searchFilters.date, searchFilters.startTime, searchFilters.endTime, groupSize)}
+                            >
+                              Reserve This Classroom
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
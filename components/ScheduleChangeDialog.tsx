@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import ProcessingFieldset from './ui/ProcessingFieldset';
+import { useAcademicCalendar } from '../hooks/useAcademicCalendar';
+import { useOperatingHours } from '../hooks/useOperatingHours';
+import { getDateBlockReason } from '../utils/academicCalendar';
+import { convertTo12Hour, convertTo24Hour, formatTimeRange, generateTimeSlots, getOperatingHoursViolation, getValidEndTimes } from '../utils/timeUtils';
+import type { BookingRequest, Classroom, Schedule } from '../App';
+
+export type ScheduleChangeProposal = Pick<BookingRequest, 'classroomId' | 'classroomName' | 'date' | 'startTime' | 'endTime'>;
+
+interface ScheduleChangeDialogProps {
+  schedule: Schedule | null; // Open while set
+  classrooms: Classroom[];
+  onClose: () => void;
+  // Resolves true when the change request was submitted
+  onSubmit: (schedule: Schedule, proposal: ScheduleChangeProposal) => Promise<boolean>;
+}
+
+/**
+ * Lets faculty propose a new date, time or room for a confirmed reservation.
+ * Times are picked in 12-hour format and submitted in 24-hour format.
+ */
+export default function ScheduleChangeDialog({ schedule, classrooms, onClose, onSubmit }: ScheduleChangeDialogProps) {
+  const [classroomId, setClassroomId] = useState('');
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const academicCalendar = useAcademicCalendar();
+  const operatingHours = useOperatingHours();
+
+  // Prefill with the current reservation each time the dialog opens
+  useEffect(() => {
+    if (!schedule) return;
+    setClassroomId(schedule.classroomId);
+    setDate(schedule.date);
+    setStartTime(convertTo12Hour(schedule.startTime));
+    setEndTime(convertTo12Hour(schedule.endTime));
+  }, [schedule]);
+
+  const roomOptions = useMemo(
+    () => classrooms.filter(c => c.isAvailable || c.id === schedule?.classroomId),
+    [classrooms, schedule?.classroomId]
+  );
+  const building = classrooms.find(c => c.id === classroomId)?.building;
+  const dateBlockReason = date ? getDateBlockReason(academicCalendar, date, building) : null;
+  const daySlots = useMemo(
+    () => generateTimeSlots(date, academicCalendar, building, operatingHours),
+    [date, academicCalendar, building, operatingHours]
+  );
+  const endOptions = useMemo(() => getValidEndTimes(startTime, daySlots), [startTime, daySlots]);
+  const hoursViolation = date && startTime && endTime
+    ? getOperatingHoursViolation(operatingHours, date, convertTo24Hour(startTime), convertTo24Hour(endTime), building)
+    : null;
+  const today = new Date().toLocaleDateString('en-CA');
+
+  const unchanged = !!schedule &&
+    classroomId === schedule.classroomId &&
+    date === schedule.date &&
+    startTime === convertTo12Hour(schedule.startTime) &&
+    endTime === convertTo12Hour(schedule.endTime);
+  const canSubmit = !!classroomId && !!date && !!startTime && endOptions.includes(endTime) && !dateBlockReason && !hoursViolation && !unchanged;
+
+  const handleSubmit = async () => {
+    if (!schedule || !canSubmit) return;
+    const classroom = classrooms.find(c => c.id === classroomId);
+    setSubmitting(true);
+    try {
+      const submitted = await onSubmit(schedule, {
+        classroomId,
+        classroomName: classroom?.name ?? schedule.classroomName,
+        date,
+        startTime: convertTo24Hour(startTime),
+        endTime: convertTo24Hour(endTime),
+      });
+      if (submitted) onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!schedule} onOpenChange={(open) => { if (!open && !submitting) onClose(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request a Change</DialogTitle>
+          <DialogDescription>
+            Propose a new date, time or room. Your current reservation stays confirmed until an admin approves the change.
+          </DialogDescription>
+        </DialogHeader>
+        {schedule && (
+          <ProcessingFieldset isProcessing={submitting} className="space-y-4">
+            <div className="p-3 bg-gray-50 rounded-lg text-sm">
+              <p className="font-medium">Current reservation</p>
+              <p className="text-gray-600">
+                {schedule.classroomName} · {schedule.date} · {formatTimeRange(convertTo12Hour(schedule.startTime), convertTo12Hour(schedule.endTime))}
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="change-classroom">Classroom</Label>
+              <Select value={classroomId} onValueChange={setClassroomId}>
+                <SelectTrigger id="change-classroom">
+                  <SelectValue placeholder="Select a classroom" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roomOptions.map((classroom) => (
+                    <SelectItem key={classroom.id} value={classroom.id}>
+                      {classroom.name} · {classroom.building}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="change-date">Date</Label>
+              <Input id="change-date" type="date" min={today} value={date} onChange={(e) => setDate(e.target.value)} />
+              {dateBlockReason && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {dateBlockReason}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="change-start">Start time</Label>
+                <Select
+                  value={startTime}
+                  onValueChange={(value) => {
+                    setStartTime(value);
+                    if (!getValidEndTimes(value, daySlots).includes(endTime)) setEndTime('');
+                  }}
+                >
+                  <SelectTrigger id="change-start">
+                    <SelectValue placeholder="Start" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {daySlots.map((time) => (
+                      <SelectItem key={time} value={time}>{time}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="change-end">End time</Label>
+                <Select value={endTime} onValueChange={setEndTime} disabled={!startTime}>
+                  <SelectTrigger id="change-end">
+                    <SelectValue placeholder="End" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {endOptions.map((time) => (
+                      <SelectItem key={time} value={time}>{time}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {hoursViolation && !dateBlockReason && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {hoursViolation}
+              </p>
+            )}
+          </ProcessingFieldset>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={submitting}>
+            Keep Current
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Change Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { convertTo12Hour, formatTimeRange } from '../utils/timeUtils';
+import type { BookingRequest, ScheduleChangeOrigin } from '../App';
+
+interface ScheduleChangeDiffProps {
+  original: ScheduleChangeOrigin;
+  proposal: Pick<BookingRequest, 'classroomName' | 'date' | 'startTime' | 'endTime'>;
+  className?: string;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Side-by-side view of a change request: the confirmed reservation it replaces and the
+ * proposed slot. Fields that change are highlighted.
+ */
+export default function ScheduleChangeDiff({ original, proposal, className = '' }: ScheduleChangeDiffProps) {
+  const rows = [
+    { label: 'Date', from: formatDate(original.date), to: formatDate(proposal.date) },
+    {
+      label: 'Time',
+      from: formatTimeRange(convertTo12Hour(original.startTime), convertTo12Hour(original.endTime)),
+      to: formatTimeRange(convertTo12Hour(proposal.startTime), convertTo12Hour(proposal.endTime)),
+    },
+    { label: 'Room', from: original.classroomName, to: proposal.classroomName },
+  ];
+
+  return (
+    <div className={`border border-indigo-200 bg-indigo-50 rounded-lg p-2 xs:p-3 ${className}`}>
+      <p className="text-xs xs:text-sm font-semibold text-indigo-900 leading-tight mb-2">Change request</p>
+      <dl className="space-y-1.5 text-xs xs:text-sm">
+        {rows.map(({ label, from, to }) => {
+          const changed = from !== to;
+          return (
+            <div key={label} className="grid grid-cols-[3.5rem_1fr] gap-2 items-start">
+              <dt className="text-gray-600">{label}</dt>
+              <dd className="flex flex-wrap items-center gap-1.5 min-w-0">
+                {changed ? (
+                  <>
+                    <span className="text-gray-500 line-through break-words">{from}</span>
+                    <ArrowRight className="h-3 w-3 text-indigo-600 flex-shrink-0" aria-label="changes to" />
+                    <span className="font-medium text-indigo-900 bg-indigo-100 rounded px-1 break-words">{to}</span>
+                  </>
+                ) : (
+                  <span className="text-gray-700 break-words">{to} <span className="text-gray-400">(unchanged)</span></span>
+                )}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { toast } from 'sonner';
 import { Label } from './ui/label';
 import { Calendar, Clock, MapPin, User, ChevronLeft, ChevronRight, X, Loader2 } from 'lucide-react';
 import { convertTo12Hour, formatTimeRange, generateTimeSlots } from '../utils/timeUtils';
+import { useOperatingHours } from '../hooks/useOperatingHours';
 import type { Schedule, Classroom } from '../App';
 
 interface ScheduleViewerProps {
@@ -31,6 +32,7 @@ export default function ScheduleViewer({ schedules, classrooms, onCancelSchedule
   const { announce } = useAnnouncer();
   const [cancelReasons, setCancelReasons] = useState<Record<string, string>>({});
   const [cancelErrors, setCancelErrors] = useState<Record<string, string | null>>({});
+  const operatingHours = useOperatingHours();
 
   const filteredSchedules = schedules.filter(schedule => {
     if (selectedClassroom && schedule.classroomId !== selectedClassroom) return false;
@@ -44,7 +46,7 @@ export default function ScheduleViewer({ schedules, classrooms, onCancelSchedule
     return scheduleDate >= startOfWeek && scheduleDate <= endOfWeek && schedule.status === 'confirmed';
   });
 
-  const timeSlots = generateTimeSlots();
+  const timeSlots = generateTimeSlots(undefined, null, undefined, operatingHours);
 
   const getWeekDates = (date: string) => {
     const selected = new Date(date);
@@ -211,6 +213,8 @@ function DayView({ schedules, classrooms, timeSlots, selectedDate, onCancelSched
                     {classroom && <span className="text-sm text-gray-500">({classroom.building}, Floor {classroom.floor})</span>}
                   </div>
 
+                  {schedule.groupId && <Badge variant="outline">Event booking</Badge>}
+
                   <div className="flex items-center space-x-2">
                     <User className="h-4 w-4 text-gray-500" />
                     <span>{schedule.facultyName}</span>
@@ -235,7 +239,7 @@ function DayView({ schedules, classrooms, timeSlots, selectedDate, onCancelSched
                     <AlertDialogContent className="max-h-[95vh] sm:max-h-[85vh] p-3 sm:p-6 w-[calc(100vw-20px)] max-w-[calc(100vw-20px)] sm:max-w-[500px] gap-2 sm:gap-4">
                       <AlertDialogHeader>
                         <AlertDialogTitle className="text-sm sm:text-lg">Cancel Classroom Reservation</AlertDialogTitle>
-                        <AlertDialogDescription className="text-xs sm:text-sm">Are you sure you want to cancel this reservation? This action cannot be undone. The faculty member will need to submit a new request if they need this classroom again.</AlertDialogDescription>
+                        <AlertDialogDescription className="text-xs sm:text-sm">Are you sure you want to cancel this reservation? This action cannot be undone. The faculty member will need to submit a new request if they need this classroom again.{schedule.groupId && ' This room is part of an event booking; the other rooms of the event are cancelled too.'}</AlertDialogDescription>
                       </AlertDialogHeader>
 
                       <div className="space-y-2 sm:space-y-4">
@@ -341,7 +345,7 @@ function WeekView({ schedules, classrooms, weekDates, onCancelSchedule, announce
                       <Card key={schedule.id} className="p-2 border-l-2 border-l-blue-500 relative group">
                         <div className="space-y-1">
                           <p className="text-xs font-medium">{formatTimeRange(convertTo12Hour(schedule.startTime), convertTo12Hour(schedule.endTime))}</p>
-                          <p className="text-xs text-gray-600">{schedule.classroomName}</p>
+                          <p className="text-xs text-gray-600">{schedule.classroomName}{schedule.groupId && ' · Event'}</p>
                           <p className="text-xs text-gray-600">{schedule.facultyName}</p>
                           <p className="text-xs text-gray-500 truncate">{schedule.purpose}</p>
 
@@ -360,7 +364,7 @@ function WeekView({ schedules, classrooms, weekDates, onCancelSchedule, announce
                                 <AlertDialogContent className="max-h-[95vh] sm:max-h-[85vh] p-3 sm:p-6 w-[calc(100vw-32px)] max-w-[calc(100vw-32px)] sm:max-w-[500px] gap-2 sm:gap-4">
                                   <AlertDialogHeader>
                                     <AlertDialogTitle className="text-sm sm:text-lg">Cancel Classroom Reservation</AlertDialogTitle>
-                                    <AlertDialogDescription className="text-xs sm:text-sm">Are you sure you want to cancel this reservation? This action cannot be undone.</AlertDialogDescription>
+                                    <AlertDialogDescription className="text-xs sm:text-sm">Are you sure you want to cancel this reservation? This action cannot be undone.{schedule.groupId && ' This room is part of an event booking; the other rooms of the event are cancelled too.'}</AlertDialogDescription>
                                   </AlertDialogHeader>
                                   <div className="space-y-2 sm:space-y-4">
                                     <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">Reason (required)</label>
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { DatabaseZap, Loader2, AlertTriangle, Play, FlaskConical, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { migrationService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import type { MigrationResumePoint, SchemaMigration, User } from '../App';
+
+interface SchemaMigrationsProps {
+  users: User[];
+}
+
+const STATUS_STYLES: Record<SchemaMigration['status'], { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  running: { label: 'Running', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-700 border-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700 border-red-200' },
+};
+
+// Documents seen and changed by the batches of the current run, per migration
+type RunTotals = Record<number, { scanned: number; updated: number }>;
+
+export default function SchemaMigrations({ users }: SchemaMigrationsProps) {
+  const [migrations, setMigrations] = useState<SchemaMigration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState<'apply' | 'dryRun' | null>(null);
+  const [runTotals, setRunTotals] = useState<RunTotals | null>(null);
+  const [lastRunWasDry, setLastRunWasDry] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  // Checked between batches; the batch in flight always finishes
+  const stopRequested = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    migrationService.list()
+      .then((list) => { if (!cancelled) setMigrations(list); })
+      .catch((err) => {
+        logger.error('Failed to load schema migrations:', err);
+        toast.error('Failed to load schema migrations');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const pendingCount = migrations.filter(m => m.status !== 'completed').length;
+  const userName = (id: string | null) => (id ? users.find(u => u.id === id)?.name ?? id : null);
+
+  // Calls the runner batch by batch until everything is done, it fails or the admin stops it
+  const run = async (dryRun: boolean) => {
+    setShowConfirm(false);
+    setRunning(dryRun ? 'dryRun' : 'apply');
+    setLastRunWasDry(dryRun);
+    stopRequested.current = false;
+    setStopping(false);
+    const totals: RunTotals = {};
+    setRunTotals({});
+    let resume: MigrationResumePoint | null = null;
+    try {
+      for (;;) {
+        const result = await migrationService.run({ dryRun, resume });
+        result.processed.forEach(({ id, scanned, updated }) => {
+          const current = totals[id] ?? { scanned: 0, updated: 0 };
+          totals[id] = { scanned: current.scanned + scanned, updated: current.updated + updated };
+        });
+        setRunTotals({ ...totals });
+        setMigrations(result.migrations);
+        resume = result.resume;
+        if (result.done) {
+          toast.success(dryRun ? 'Dry run finished' : 'All migrations completed');
+          break;
+        }
+        if (stopRequested.current) {
+          toast.info(dryRun ? 'Dry run stopped' : 'Migrations paused. Run them again to continue where they stopped.');
+          break;
+        }
+      }
+    } catch (err) {
+      logger.error('Schema migration run failed:', err);
+      toast.error(dryRun ? 'Dry run failed' : 'Migration failed', {
+        description: err instanceof Error ? err.message : 'Please try again.'
+      });
+      migrationService.list().then(setMigrations).catch(() => undefined);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex items-center gap-2 text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading schema migrations…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DatabaseZap className="h-5 w-5" />
+          Schema Migrations
+        </CardTitle>
+        <CardDescription>
+          Bring documents written by earlier versions up to date. Migrations run in order, in batches, and pick up where they stopped if interrupted. Run a dry run first to see how many documents each one would change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Migration</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Updated / scanned</TableHead>
+                {runTotals && <TableHead className="text-right">{lastRunWasDry ? 'Would update' : 'This run'}</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {migrations.map((migration) => {
+                const style = STATUS_STYLES[migration.status];
+                const totals = runTotals?.[migration.id];
+                return (
+                  <TableRow key={migration.id}>
+                    <TableCell className="font-mono text-xs align-top">{String(migration.id).padStart(3, '0')}</TableCell>
+                    <TableCell className="align-top">
+                      <p className="font-medium">{migration.name}</p>
+                      <p className="text-xs text-muted-foreground">{migration.description}</p>
+                      {migration.completedAt && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Completed {new Date(migration.completedAt).toLocaleString()}
+                          {userName(migration.runBy) && ` by ${userName(migration.runBy)}`}
+                        </p>
+                      )}
+                      {migration.status !== 'completed' && migration.cursor && (
+                        <p className="text-xs text-muted-foreground mt-1">Partly done; the next run continues from where it stopped.</p>
+                      )}
+                      {migration.status === 'failed' && migration.lastError && (
+                        <p className="text-xs text-red-600 mt-1 flex items-start gap-1">
+                          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                          {migration.lastError}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Badge variant="outline" className={style.className}>{style.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right align-top tabular-nums">{migration.updated} / {migration.scanned}</TableCell>
+                    {runTotals && (
+                      <TableCell className="text-right align-top tabular-nums">
+                        {totals ? `${totals.updated} of ${totals.scanned}` : '—'}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {pendingCount === 0 ? 'The database is up to date.' : `${pendingCount} migration${pendingCount !== 1 ? 's' : ''} pending.`}
+          </p>
+          <div className="flex gap-2">
+            {running ? (
+              <Button type="button" variant="outline" onClick={() => { stopRequested.current = true; setStopping(true); }} disabled={stopping}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop after this batch
+              </Button>
+            ) : (
+              <>
+                <Button type="button" variant="outline" onClick={() => run(true)} disabled={pendingCount === 0}>
+                  <FlaskConical className="h-4 w-4 mr-2" />
+                  Dry run
+                </Button>
+                <Button type="button" onClick={() => setShowConfirm(true)} disabled={pendingCount === 0}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Run pending migrations
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        {running && (
+          <p className="text-sm text-gray-600 flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {running === 'dryRun' ? 'Dry run in progress…' : 'Migrating… Keep this page open; progress is saved after every batch.'}
+          </p>
+        )}
+
+        <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Run pending migrations?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingCount} migration{pendingCount !== 1 ? 's' : ''} will update documents in place. This cannot be undone from here, so consider exporting a Firestore backup first.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => run(false)}>Run migrations</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
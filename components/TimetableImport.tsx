@@ -0,0 +1,300 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+import { FileSpreadsheet, Upload, Download, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { scheduleService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { readSpreadsheetFile } from '../utils/spreadsheet';
+import { WEEKDAY_LABELS } from '../utils/recurrence';
+import { convertTo12Hour, formatTimeRange } from '../utils/timeUtils';
+import {
+  TIMETABLE_TEMPLATE_HEADER,
+  buildImportedSchedules,
+  parseTimetable,
+  planTimetableImport,
+  type TimetableImportEntry,
+  type TimetableImportPlan,
+  type TimetableIssue,
+} from '../utils/timetableImport';
+import { useAcademicCalendar } from '../hooks/useAcademicCalendar';
+import { useOperatingHours } from '../hooks/useOperatingHours';
+import useBulkRunner, { type BulkTask } from '../hooks/useBulkRunner';
+import BulkProgressDialog from './BulkProgressDialog';
+import type { BookingRequest, Classroom, Schedule, User } from '../App';
+
+interface TimetableImportProps {
+  classrooms: Classroom[];
+  users: User[];
+  schedules: Schedule[];
+  bookingRequests: BookingRequest[];
+}
+
+// Firestore batches hold at most 500 writes; rows are grouped into chunks below that
+const CHUNK_SCHEDULES = 400;
+
+// How many issues of each kind the dry-run report lists
+const REPORT_LIMIT = 50;
+
+type ImportChunk = { id: string; label: string; importId: string; entries: TimetableImportEntry[] };
+
+const TEMPLATE_CSV = `${TIMETABLE_TEMPLATE_HEADER.join(',')}\nIT Lab 1,juan.delacruz@plv.edu.ph,Mon/Wed,7:30 AM,9:00 AM,IT 101 - BSIT 1A,2026-08-10,2026-12-11\n`;
+
+const describeRow = (entry: TimetableImportEntry) =>
+  `${entry.row.course} · ${entry.row.weekdays.map(d => WEEKDAY_LABELS[d]).join('/')} ${formatTimeRange(convertTo12Hour(entry.row.startTime), convertTo12Hour(entry.row.endTime))}`;
+
+// Groups rows into chunks of at most CHUNK_SCHEDULES meetings, keeping each row in one chunk
+const buildChunks = (entries: TimetableImportEntry[], importId: string): ImportChunk[] => {
+  const chunks: ImportChunk[] = [];
+  let current: TimetableImportEntry[] = [];
+  let size = 0;
+  const flush = () => {
+    if (current.length === 0) return;
+    const first = current[0].row.line;
+    const last = current[current.length - 1].row.line;
+    chunks.push({
+      id: `${importId}-${chunks.length}`,
+      label: `Rows ${first}${last !== first ? `–${last}` : ''} · ${size} class meeting${size !== 1 ? 's' : ''}`,
+      importId,
+      entries: current,
+    });
+    current = [];
+    size = 0;
+  };
+  entries.forEach(entry => {
+    if (size + entry.dates.length > CHUNK_SCHEDULES) flush();
+    current.push(entry);
+    size += entry.dates.length;
+  });
+  flush();
+  return chunks;
+};
+
+function IssueList({ title, issues }: { title: string; issues: TimetableIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-gray-900">{title} ({issues.length})</p>
+      <ul className="text-xs sm:text-sm text-gray-700 space-y-0.5">
+        {issues.slice(0, REPORT_LIMIT).map((issue, index) => (
+          <li key={`${issue.line}-${index}`}>Row {issue.line}: {issue.message}</li>
+        ))}
+        {issues.length > REPORT_LIMIT && <li className="text-gray-500">…and {issues.length - REPORT_LIMIT} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+export default function TimetableImport({ classrooms, users, schedules, bookingRequests }: TimetableImportProps) {
+  const calendar = useAcademicCalendar();
+  const hours = useOperatingHours();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [reading, setReading] = useState(false);
+  const bulkRunner = useBulkRunner();
+  const [chunks, setChunks] = useState<ImportChunk[]>([]);
+  const [progressOpen, setProgressOpen] = useState(false);
+
+  // The dry run is recomputed as schedules and requests change, until the import is committed
+  const plan = useMemo((): TimetableImportPlan | null => {
+    if (!table) return null;
+    const { rows, errors } = parseTimetable(table);
+    return { ...planTimetableImport(rows, { classrooms, users, schedules, bookingRequests, calendar, hours }), errors };
+  }, [table, classrooms, users, schedules, bookingRequests, calendar, hours]);
+
+  const conflicts = useMemo((): TimetableIssue[] => (plan?.entries ?? [])
+    .filter(entry => entry.conflicts.length > 0)
+    .map(entry => ({
+      line: entry.row.line,
+      message: `${describeRow(entry)} in ${entry.row.room}: ${entry.conflicts.slice(0, 2).join('; ')}${entry.conflicts.length > 2 ? ` (+${entry.conflicts.length - 2} more)` : ''}`,
+    })), [plan]);
+  const emptyRows = useMemo((): TimetableIssue[] => (plan?.entries ?? [])
+    .filter(entry => entry.classroom && entry.faculty && entry.dates.length === 0)
+    .map(entry => ({ line: entry.row.line, message: `${describeRow(entry)} has no class meetings left in its term` })), [plan]);
+
+  const readyMeetings = plan?.ready.reduce((sum, entry) => sum + entry.dates.length, 0) ?? 0;
+  const closedMeetings = plan?.ready.reduce((sum, entry) => sum + entry.closedDates.length, 0) ?? 0;
+
+  const resetFile = () => {
+    setFileName('');
+    setTable(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const rows = await readSpreadsheetFile(file);
+      setFileName(file.name);
+      setTable(rows);
+    } catch (err) {
+      logger.error('Failed to read timetable file:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to read the file');
+      resetFile();
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([TEMPLATE_CSV], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'timetable-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const runChunks = async (toRun: ImportChunk[]) => {
+    setChunks(toRun);
+    setProgressOpen(true);
+    const tasks: BulkTask[] = toRun.map(chunk => () =>
+      scheduleService.importBatch(chunk.entries.flatMap(entry => buildImportedSchedules(entry, chunk.importId)))
+    );
+    const results = await bulkRunner.start(tasks, 1);
+    const imported = results.reduce((sum, result, index) =>
+      sum + (result.status === 'fulfilled' ? toRun[index].entries.reduce((n, entry) => n + entry.dates.length, 0) : 0), 0);
+    const failed = results.filter(result => result.status === 'rejected').length;
+    if (imported > 0) toast.success(`Imported ${imported} class meeting${imported !== 1 ? 's' : ''}`);
+    if (failed > 0) toast.error(`${failed} chunk${failed !== 1 ? 's' : ''} failed to import`);
+  };
+
+  const handleImport = async () => {
+    if (!plan || plan.ready.length === 0) return;
+    // Every schedule of the import carries this id, so the import can be traced later
+    const importId = `import-${Date.now().toString(36)}`;
+    const toRun = buildChunks(plan.ready, importId);
+    setDialogOpen(false);
+    resetFile();
+    await runChunks(toRun);
+  };
+
+  const handleRetry = async () => {
+    const failed = chunks.filter((_, index) => bulkRunner.results[index]?.status === 'rejected');
+    if (failed.length === 0) return;
+    bulkRunner.retry();
+    await runChunks(failed);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Timetable Import
+          </CardTitle>
+          <CardDescription>
+            Import the registrar&apos;s timetable from a CSV or Excel file as confirmed class schedules.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setDialogOpen(true)} disabled={bulkRunner.running}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import Timetable
+        </Button>
+      </CardHeader>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => { setDialogOpen(open); if (!open) resetFile(); }}>
+        <DialogContent className="max-h-[90vh] flex flex-col sm:max-w-2xl p-3 sm:p-6 w-[calc(100vw-32px)] sm:w-auto">
+          <DialogHeader>
+            <DialogTitle>Import Timetable</DialogTitle>
+            <DialogDescription>
+              One row per class: room, faculty email, weekday, start and end time, course, term start and term end.
+              Nothing is saved until you confirm the dry run below.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 overflow-y-auto">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="timetable-file">Timetable file (.csv or .xlsx)</Label>
+                <input
+                  id="timetable-file"
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  disabled={reading}
+                  className="block w-full text-sm file:mr-3 file:rounded file:border-0 file:bg-gray-100 file:px-3 file:py-1.5"
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={downloadTemplate}>
+                <Download className="h-4 w-4 mr-2" />
+                Template
+              </Button>
+            </div>
+
+            {reading && (
+              <p className="text-sm text-gray-600 flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Reading file…
+              </p>
+            )}
+
+            {plan && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-700">Dry run of <span className="font-medium">{fileName}</span>:</p>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{plan.ready.length} row{plan.ready.length !== 1 ? 's' : ''} ready · {readyMeetings} class meetings</Badge>
+                  {plan.unknownRooms.length > 0 && <Badge variant="destructive">{plan.unknownRooms.length} unknown room{plan.unknownRooms.length !== 1 ? 's' : ''}</Badge>}
+                  {plan.unknownFaculty.length > 0 && <Badge variant="destructive">{plan.unknownFaculty.length} unknown faculty</Badge>}
+                  {conflicts.length > 0 && <Badge variant="destructive">{conflicts.length} conflicting row{conflicts.length !== 1 ? 's' : ''}</Badge>}
+                  {plan.errors.length > 0 && <Badge variant="destructive">{plan.errors.length} unreadable row{plan.errors.length !== 1 ? 's' : ''}</Badge>}
+                </div>
+                {closedMeetings > 0 && (
+                  <p className="text-xs sm:text-sm text-gray-600">
+                    {closedMeetings} meeting{closedMeetings !== 1 ? 's fall' : ' falls'} on dates the academic calendar closes and will be skipped.
+                  </p>
+                )}
+
+                {plan.errors.length + plan.unknownRooms.length + plan.unknownFaculty.length + conflicts.length + emptyRows.length > 0 ? (
+                  <div className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-3">
+                    <p className="text-sm text-amber-800 flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                      Rows with problems are left out of the import. Fix them in the file and import it again to add them.
+                    </p>
+                    <IssueList title="Unreadable rows" issues={plan.errors} />
+                    <IssueList title="Unknown rooms" issues={plan.unknownRooms} />
+                    <IssueList title="Unknown faculty" issues={plan.unknownFaculty} />
+                    <IssueList title="Conflicts" issues={conflicts} />
+                    <IssueList title="Nothing to import" issues={emptyRows} />
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-700 flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4" />
+                    No problems found.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleImport} disabled={!plan || plan.ready.length === 0}>
+              Import {plan?.ready.length ?? 0} row{plan?.ready.length !== 1 ? 's' : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <BulkProgressDialog
+        open={progressOpen}
+        onOpenChange={setProgressOpen}
+        items={chunks}
+        processed={bulkRunner.processed}
+        total={bulkRunner.total}
+        results={bulkRunner.results}
+        running={bulkRunner.running}
+        onCancel={bulkRunner.cancel}
+        onRetry={handleRetry}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Hourglass, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { waitlistService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import { convertTo12Hour, formatTimeRange } from '../utils/timeUtils';
+import type { WaitlistEntry } from '../App';
+
+interface WaitlistPanelProps {
+  userId: string;
+  // Prefill the booking form with a freed slot (times in 12-hour format)
+  onBook?: (classroomId: string, date: string, startTime: string, endTime: string, purpose: string) => void;
+}
+
+const STATUS_BADGES: Record<WaitlistEntry['status'], { label: string; className: string }> = {
+  waiting: { label: 'Waiting', className: 'bg-teal-100 text-teal-800' },
+  notified: { label: 'Slot available', className: 'bg-green-100 text-green-800' },
+  converted: { label: 'Request submitted', className: 'bg-blue-100 text-blue-800' },
+  cancelled: { label: 'Left', className: 'bg-gray-100 text-gray-700' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-700' },
+};
+
+/**
+ * Lists the faculty member's active waitlist entries. Renders nothing when there are none.
+ */
+export default function WaitlistPanel({ userId, onBook }: WaitlistPanelProps) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [leavingId, setLeavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = waitlistService.subscribeForFaculty(userId, setEntries);
+    } catch (error) {
+      logger.warn('Failed to subscribe to waitlist entries:', error);
+    }
+    return () => unsubscribe?.();
+  }, [userId]);
+
+  const today = new Date().toLocaleDateString('en-CA');
+  const active = entries.filter(e => (e.status === 'waiting' || e.status === 'notified') && e.date >= today);
+  if (active.length === 0) return null;
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    setLeavingId(entry.id);
+    try {
+      await waitlistService.leave(entry.id);
+      toast.success('Removed from the waitlist');
+    } catch (err) {
+      logger.error('Failed to leave waitlist:', err);
+      toast.error('Failed to leave the waitlist');
+    } finally {
+      setLeavingId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Hourglass className="h-5 w-5" />
+          My Waitlist
+        </CardTitle>
+        <CardDescription>You'll be notified when one of these slots frees up.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y border rounded-md">
+          {active.map((entry) => {
+            const badge = STATUS_BADGES[entry.status];
+            const start12 = convertTo12Hour(entry.startTime);
+            const end12 = convertTo12Hour(entry.endTime);
+            return (
+              <li key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 text-sm">
+                <div className="space-y-1">
+                  <div className="font-medium">{entry.classroomName}</div>
+                  <div className="text-gray-600">{entry.date} · {formatTimeRange(start12, end12)}</div>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge className={badge.className}>{badge.label}</Badge>
+                    {entry.autoConvert && entry.status === 'waiting' && <Badge variant="outline">Auto-request</Badge>}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {entry.status === 'notified' && onBook && (
+                    <Button size="sm" onClick={() => onBook(entry.classroomId, entry.date, start12, end12, entry.purpose)}>
+                      Reserve now
+                    </Button>
+                  )}
+                  {(entry.status === 'waiting' || entry.status === 'notified') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleLeave(entry)}
+                      disabled={leavingId === entry.id}
+                      aria-label={`Leave waitlist for ${entry.classroomName} on ${entry.date}`}
+                    >
+                      {leavingId === entry.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4 mr-1" />}
+                      {entry.status === 'notified' ? 'Dismiss' : 'Leave'}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { convertTo12Hour } from '../utils/timeUtils';
+import { DEFAULT_DAY_HOURS, WEEKDAY_NAMES, minutesToTime } from '../utils/operatingHours';
+import type { WeeklyHours } from '../App';
+
+// Opening and closing times admins can pick: 5:00 AM to 11:00 PM in 15-minute steps
+const TIME_OPTIONS = Array.from({ length: (23 - 5) * 4 + 1 }, (_, i) => minutesToTime(5 * 60 + i * 15));
+
+interface WeeklyHoursEditorProps {
+  idPrefix: string;
+  week: WeeklyHours;
+  onChange: (week: WeeklyHours) => void;
+}
+
+export default function WeeklyHoursEditor({ idPrefix, week, onChange }: WeeklyHoursEditorProps) {
+  const setDay = (day: number, value: WeeklyHours[number]) => onChange(week.map((d, i) => (i === day ? value : d)));
+
+  return (
+    <ul className="divide-y border rounded-md">
+      {WEEKDAY_NAMES.map((name, day) => {
+        const hours = week[day];
+        return (
+          <li key={name} className="grid grid-cols-[6rem_auto_1fr] sm:grid-cols-[7rem_6rem_1fr] items-center gap-2 p-2 text-sm">
+            <span className="font-medium">{name}</span>
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`${idPrefix}-open-${day}`}
+                checked={!!hours}
+                onCheckedChange={(checked: boolean) => setDay(day, checked ? { ...DEFAULT_DAY_HOURS } : null)}
+              />
+              <Label htmlFor={`${idPrefix}-open-${day}`} className="text-gray-600">{hours ? 'Open' : 'Closed'}</Label>
+            </div>
+            {hours ? (
+              <div className="flex items-center gap-2">
+                <Select value={hours.open} onValueChange={(value) => setDay(day, { ...hours, open: value })}>
+                  <SelectTrigger aria-label={`${name} opening time`} className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_OPTIONS.map((time) => (
+                      <SelectItem key={time} value={time}>{convertTo12Hour(time)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-gray-500">to</span>
+                <Select value={hours.close} onValueChange={(value) => setDay(day, { ...hours, close: value })}>
+                  <SelectTrigger aria-label={`${name} closing time`} className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_OPTIONS.map((time) => (
+                      <SelectItem key={time} value={time}>{convertTo12Hour(time)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <span className="text-gray-500">No reservations</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
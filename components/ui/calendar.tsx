@@ -7,6 +7,7 @@ type CalendarProps = {
   onSelect?: (isoDate?: string) => void; // emits YYYY-MM-DD
   min?: string; // YYYY-MM-DD
   max?: string; // YYYY-MM-DD
+  isDateDisabled?: (isoDate: string) => boolean; // extra per-day check, e.g. holidays
   className?: string;
 };
 
@@ -28,7 +29,7 @@ function formatLocalDateToISO(date?: Date): string | undefined {
   return `${y}-${m}-${d}`;
 }
 
-export function Calendar({ value, onSelect, min, max, className }: CalendarProps) {
+export function Calendar({ value, onSelect, min, max, isDateDisabled, className }: CalendarProps) {
   const selected = parseISOToLocal(value);
   const fromDate = parseISOToLocal(min);
   const toDate = parseISOToLocal(max);
@@ -44,6 +45,10 @@ export function Calendar({ value, onSelect, min, max, className }: CalendarProps
     disabledDates.after = toDate;
   }
 
+  const disabled: any[] = [];
+  if (Object.keys(disabledDates).length > 0) disabled.push(disabledDates);
+  if (isDateDisabled) disabled.push((date: Date) => isDateDisabled(formatLocalDateToISO(date)!));
+
   return (
     <div className={wrapper}>
       <DayPicker
@@ -53,7 +58,7 @@ export function Calendar({ value, onSelect, min, max, className }: CalendarProps
           if (!onSelect) return;
           onSelect(date ? formatLocalDateToISO(date) : undefined);
         }}
-        disabled={Object.keys(disabledDates).length > 0 ? disabledDates : undefined}
+        disabled={disabled.length > 0 ? disabled : undefined}
       />
     </div>
   );
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { academicCalendarService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import type { AcademicCalendar } from '../App';
+
+/**
+ * Subscribes to the admin-managed academic calendar.
+ *
+ * Returns null until the first snapshot arrives, and also when no calendar has been
+ * configured; both cases leave every date bookable.
+ */
+export function useAcademicCalendar(): AcademicCalendar | null {
+  const [calendar, setCalendar] = useState<AcademicCalendar | null>(null);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = academicCalendarService.subscribe(setCalendar);
+    } catch (error) {
+      logger.warn('Failed to subscribe to academic calendar:', error);
+    }
+    return () => unsubscribe?.();
+  }, []);
+
+  return calendar;
+}
+
+export default useAcademicCalendar;
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { bookingPoliciesService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import type { BookingPolicies } from '../App';
+
+/**
+ * Subscribes to the admin-managed booking policies.
+ *
+ * Returns null until the first snapshot arrives, and also when no policies have been
+ * saved; evaluateBookingPolicies applies the defaults in both cases.
+ */
+export function useBookingPolicies(): BookingPolicies | null {
+  const [policies, setPolicies] = useState<BookingPolicies | null>(null);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = bookingPoliciesService.subscribe(setPolicies);
+    } catch (error) {
+      logger.warn('Failed to subscribe to booking policies:', error);
+    }
+    return () => unsubscribe?.();
+  }, []);
+
+  return policies;
+}
+
+export default useBookingPolicies;
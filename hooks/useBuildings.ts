@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { buildingService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import type { Building } from '../App';
+
+/**
+ * Subscribes to the campus buildings, sorted by name.
+ *
+ * Returns an empty list until the first snapshot arrives; classrooms keep their building
+ * name, so screens can still show it while the buildings load.
+ */
+export function useBuildings(): Building[] {
+  const [buildings, setBuildings] = useState<Building[]>([]);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = buildingService.subscribe(setBuildings);
+    } catch (error) {
+      logger.warn('Failed to subscribe to buildings:', error);
+    }
+    return () => unsubscribe?.();
+  }, []);
+
+  return buildings;
+}
+
+export default useBuildings;
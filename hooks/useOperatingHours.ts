@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { operatingHoursService } from '../lib/firebaseService';
+import { logger } from '../lib/logger';
+import type { OperatingHours } from '../App';
+
+/**
+ * Subscribes to the admin-managed operating hours.
+ *
+ * Returns null until the first snapshot arrives, and also when no hours have been
+ * saved; the time utilities fall back to the default 7:00 AM - 8:30 PM in both cases.
+ */
+export function useOperatingHours(): OperatingHours | null {
+  const [hours, setHours] = useState<OperatingHours | null>(null);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = operatingHoursService.subscribe(setHours);
+    } catch (error) {
+      logger.warn('Failed to subscribe to operating hours:', error);
+    }
+    return () => unsubscribe?.();
+  }, []);
+
+  return hours;
+}
+
+export default useOperatingHours;
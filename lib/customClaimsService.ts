@@ -1,6 +1,7 @@
 import { getAuth } from 'firebase/auth';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { getFirebaseApp } from './firebaseConfig';
+import type { User } from '../App';
 
 /**
  * Service for managing Firebase custom claims and token refresh.
@@ -136,7 +137,7 @@ export const setUserCustomClaims = async (userId: string): Promise<void> => {
  * Firestore user document and the JWT custom claims atomically.
  * 
  * @param userId - The Firebase Auth UID of the user
- * @param newRole - The new role to assign ('admin' or 'faculty')
+ * @param newRole - The new role to assign ('admin', 'faculty' or 'approver')
  * @returns Object with success status and message
  * @throws Error if caller lacks admin privileges or if the operation fails
  * 
@@ -150,10 +151,10 @@ export const setUserCustomClaims = async (userId: string): Promise<void> => {
  */
 export const changeUserRole = async (
   userId: string, 
-  newRole: 'admin' | 'faculty'
+  newRole: User['role']
 ): Promise<{ success: boolean; message: string }> => {
   const functions = getFunctions(getFirebaseApp(), 'us-central1');
-  const callable = httpsCallable<{ userId: string; newRole: 'admin' | 'faculty' }, { success: boolean; message: string }>(
+  const callable = httpsCallable<{ userId: string; newRole: User['role'] }, { success: boolean; message: string }>(
     functions, 
     'changeUserRole'
   );
@@ -180,7 +181,7 @@ export const changeUserRole = async (
  * }
  * ```
  */
-export const checkClaimsSyncStatus = async (firestoreRole: 'admin' | 'faculty'): Promise<{
+export const checkClaimsSyncStatus = async (firestoreRole: User['role']): Promise<{
   /** Whether token claims match Firestore role */
   inSync: boolean;
   /** Role claim from JWT token */
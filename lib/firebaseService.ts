@@ -12,6 +12,8 @@ import {
   orderBy,
   onSnapshot,
   writeBatch,
+  deleteField,
+  Timestamp,
   type DocumentData,
   type DocumentSnapshot,
   type Firestore,
@@ -37,9 +39,18 @@ import {
 } from 'firebase/auth';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import notificationServiceImport from './notificationService';
-import type { BookingRequest, Classroom, Schedule, SignupRequest, SignupHistory, User } from '../App';
+import type { AcademicCalendar, AutoApprovalRules, BookingConflict, BookingPolicies, BookingRequest, Building, CalendarFeed, CheckInResult, CheckInSettings, Classroom, ClassroomBlock, DisplayRoom, DisplaySettings, EquipmentAvailability, EquipmentItem, MaintenanceWindow, MigrationResumePoint, MigrationRunResult, OperatingHours, PolicyViolation, Schedule, ScheduleSlot, SchemaMigration, SignupRequest, SignupHistory, User, WaitlistEntry, WeeklyHours } from '../App';
 import { getFirebaseDb, getFirebaseApp } from './firebaseConfig';
-import { isPastBookingTime } from '../utils/timeUtils';
+import { getCampusInstant, isPastBookingTime } from '../utils/timeUtils';
+import { collectOccupiedSlots, findBookingSuggestions, type BookingSuggestions, type SuggestionOptions } from '../utils/bookingSuggestions';
+import { DEFAULT_OPERATING_HOURS } from '../utils/operatingHours';
+import { DEFAULT_BOOKING_POLICIES } from '../utils/bookingPolicies';
+import { DEFAULT_CHECK_IN_SETTINGS } from '../utils/checkIn';
+import type { DisplayTarget } from '../utils/displays';
+import { toAutoApprovalRule } from '../utils/autoApproval';
+import { blockToConflict, requestToConflict, scheduleToConflict } from '../utils/conflicts';
+import { findOverlappingBlocks, getUpcomingBlocks } from '../utils/classroomBlocks';
+import { usesAdminDashboard } from '../utils/approvers';
 import withRetry, { isNetworkError } from './withRetry';
 import { logger } from './logger';
 import { systemCache, CACHE_NAMESPACES, CACHE_TTL } from './systemCache';
@@ -90,6 +101,20 @@ const COLLECTIONS = {
   SCHEDULES: 'schedules',
   SIGNUP_REQUESTS: 'signupRequests',
   SIGNUP_HISTORY: 'signupHistory',
+  SYSTEM_SETTINGS: 'systemSettings',
+  WAITLIST_ENTRIES: 'waitlistEntries',
+  EQUIPMENT_ITEMS: 'equipmentItems',
+  BUILDINGS: 'buildings',
+} as const;
+
+// Document ids inside the systemSettings collection
+const SETTINGS_DOCS = {
+  ACADEMIC_CALENDAR: 'academicCalendar',
+  OPERATING_HOURS: 'operatingHours',
+  BOOKING_POLICIES: 'bookingPolicies',
+  AUTO_APPROVAL_RULES: 'autoApprovalRules',
+  CHECK_IN: 'checkIn',
+  DISPLAYS: 'displays',
 } as const;
 
 let dbInstance: Firestore | null = null;
@@ -141,10 +166,16 @@ type FirestoreClassroomRecord = {
   capacity: number;
   equipment: string[];
   building: string;
+  buildingId?: string;
   floor: number;
   isAvailable: boolean;
   disabledUntil?: string; // ISO timestamp when classroom should be auto-enabled
   disableReason?: string; // Reason for disabling
+  ownerDepartment?: string;
+  priorityWindowDays?: number;
+  maintenanceWindows?: MaintenanceWindow[];
+  activeMaintenanceId?: string;
+  blockedSlots?: ClassroomBlock[];
   createdAt?: string;
   updatedAt?: string;
 };
@@ -157,10 +188,19 @@ type FirestoreBookingRequestRecord = {
   date: string;
   startTime: string;
   endTime: string;
+  startAt?: Timestamp;
+  endAt?: Timestamp;
   purpose: string;
+  expectedAttendees?: number;
+  reservedEquipment?: BookingRequest['reservedEquipment'];
   status: BookingRequest['status'];
   requestDate: string;
   adminFeedback?: string;
+  recurrence?: BookingRequest['recurrence'];
+  occurrenceDates?: string[];
+  skippedDates?: string[];
+  changeOf?: BookingRequest['changeOf'];
+  groupId?: string;
   createdAt?: string;
   updatedAt?: string;
   // optional actor id who performed the update (used to avoid self-notifications)
@@ -175,8 +215,21 @@ type FirestoreScheduleRecord = {
   date: string;
   startTime: string;
   endTime: string;
+  startAt?: Timestamp;
+  endAt?: Timestamp;
   purpose: string;
+  expectedAttendees?: number;
+  reservedEquipment?: Schedule['reservedEquipment'];
   status: Schedule['status'];
+  seriesId?: string;
+  rescheduledFrom?: string;
+  rescheduledTo?: string;
+  checkedInAt?: string;
+  checkedInBy?: string;
+  noShow?: boolean;
+  noShowAt?: string;
+  groupId?: string;
+  importId?: string;
   createdAt?: string;
   updatedAt?: string;
 };
@@ -459,6 +512,37 @@ const notifyAuthListeners = (user: User | null) => {
 
 const nowIso = () => new Date().toISOString();
 
+/**
+ * The `startAt`/`endAt` timestamps of a booking or schedule: its date and times read as
+ * campus time. Empty when they cannot be parsed, so the result can be spread into a record.
+ */
+const toBookingTimestamps = (date: string, startTime: string, endTime: string): { startAt?: Timestamp; endAt?: Timestamp } => {
+  const start = getCampusInstant(date, startTime);
+  const end = getCampusInstant(date, endTime);
+  return start && end ? { startAt: Timestamp.fromDate(start), endAt: Timestamp.fromDate(end) } : {};
+};
+
+/**
+ * The timestamps to store with an update that moves a booking or schedule. Parts the update
+ * leaves out are read from the stored document; updates that keep the slot get none.
+ */
+const getMovedTimestamps = async (
+  ref: DocumentReference,
+  updates: { date?: string; startTime?: string; endTime?: string }
+): Promise<{ startAt?: Timestamp; endAt?: Timestamp }> => {
+  if (updates.date === undefined && updates.startTime === undefined && updates.endTime === undefined) return {};
+  const stored = (await getDoc(ref)).data() ?? {};
+  return toBookingTimestamps(
+    updates.date ?? stored.date ?? '',
+    updates.startTime ?? stored.startTime ?? '',
+    updates.endTime ?? stored.endTime ?? ''
+  );
+};
+
+// Stored timestamps are exposed as ISO strings
+const timestampToIso = (value?: Timestamp): string | undefined =>
+  value && typeof value.toDate === 'function' ? value.toDate().toISOString() : undefined;
+
 /**
  * Removes undefined values from update objects to prevent Firestore errors.
  * 
@@ -599,10 +683,22 @@ const toClassroom = (
   capacity: data.capacity,
   equipment: Array.isArray(data.equipment) ? data.equipment : [],
   building: data.building,
+  buildingId: data.buildingId || undefined,
   floor: data.floor,
   isAvailable: data.isAvailable,
   disabledUntil: data.disabledUntil,
   disableReason: data.disableReason,
+  ownerDepartment: data.ownerDepartment || undefined,
+  priorityWindowDays: data.ownerDepartment && typeof data.priorityWindowDays === 'number' && data.priorityWindowDays > 0
+    ? data.priorityWindowDays
+    : undefined,
+  maintenanceWindows: Array.isArray(data.maintenanceWindows) && data.maintenanceWindows.length > 0
+    ? data.maintenanceWindows
+    : undefined,
+  activeMaintenanceId: data.activeMaintenanceId || undefined,
+  blockedSlots: Array.isArray(data.blockedSlots) && data.blockedSlots.length > 0
+    ? data.blockedSlots
+    : undefined,
 });
 
 const toBookingRequest = (
@@ -617,10 +713,19 @@ const toBookingRequest = (
   date: data.date,
   startTime: data.startTime,
   endTime: data.endTime,
+  startAt: timestampToIso(data.startAt),
+  endAt: timestampToIso(data.endAt),
   purpose: data.purpose,
+  expectedAttendees: data.expectedAttendees,
+  reservedEquipment: data.reservedEquipment,
   status: data.status,
   requestDate: data.requestDate,
   adminFeedback: data.adminFeedback,
+  recurrence: data.recurrence,
+  occurrenceDates: data.occurrenceDates,
+  skippedDates: data.skippedDates,
+  changeOf: data.changeOf,
+  groupId: data.groupId,
 });
 
 const toSchedule = (id: string, data: FirestoreScheduleRecord): Schedule => ({
@@ -632,8 +737,21 @@ const toSchedule = (id: string, data: FirestoreScheduleRecord): Schedule => ({
   date: data.date,
   startTime: data.startTime,
   endTime: data.endTime,
+  startAt: timestampToIso(data.startAt),
+  endAt: timestampToIso(data.endAt),
   purpose: data.purpose,
+  expectedAttendees: data.expectedAttendees,
+  reservedEquipment: data.reservedEquipment,
   status: data.status,
+  seriesId: data.seriesId,
+  rescheduledFrom: data.rescheduledFrom,
+  rescheduledTo: data.rescheduledTo,
+  checkedInAt: data.checkedInAt,
+  checkedInBy: data.checkedInBy,
+  noShow: data.noShow,
+  noShowAt: data.noShowAt,
+  groupId: data.groupId,
+  importId: data.importId,
 });
 
 const toSignupRequest = (
@@ -1963,11 +2081,16 @@ export const classroomService = {
     // Filter out undefined values to prevent Firebase errors
     const cleanedUpdates = removeUndefinedValues(updates);
     
-    const updatePayload: Partial<FirestoreClassroomRecord> = {
+    const updatePayload: Record<string, unknown> = {
       ...cleanedUpdates,
       updatedAt: nowIso(),
     };
-    await updateDoc(ref, updatePayload as Record<string, unknown>);
+    // Passing the ownership fields as undefined clears them, e.g. when a room is handed
+    // back to general use
+    (['ownerDepartment', 'priorityWindowDays'] as const).forEach(field => {
+      if (field in updates && updates[field] === undefined) updatePayload[field] = deleteField();
+    });
+    await updateDoc(ref, updatePayload);
     
     // Invalidate cache
     invalidateRelated('classroom', id);
@@ -1980,6 +2103,90 @@ export const classroomService = {
     return toClassroom(snapshot.id, data);
   },
 
+  /**
+   * Schedules a maintenance window. The maintenance job applies and lifts it, so the
+   * room's availability is not touched here.
+   */
+  async addMaintenanceWindow(id: string, window: MaintenanceWindow): Promise<Classroom> {
+    const database = getDb();
+    const ref = doc(database, COLLECTIONS.CLASSROOMS, id);
+    const snapshot = await getDoc(ref);
+    if (!snapshot.exists()) {
+      throw new Error('Classroom not found');
+    }
+    const current = (snapshot.data() as FirestoreClassroomRecord).maintenanceWindows ?? [];
+    const maintenanceWindows = [...current, removeUndefinedValues(window) as MaintenanceWindow]
+      .sort((a, b) => a.startAt.localeCompare(b.startAt));
+    await updateDoc(ref, { maintenanceWindows, updatedAt: nowIso() });
+    invalidateRelated('classroom', id);
+    return toClassroom(id, { ...(snapshot.data() as FirestoreClassroomRecord), maintenanceWindows });
+  },
+
+  /**
+   * Cancels a maintenance window. A window that is already in effect is lifted right away.
+   */
+  async removeMaintenanceWindow(id: string, windowId: string): Promise<Classroom> {
+    const database = getDb();
+    const ref = doc(database, COLLECTIONS.CLASSROOMS, id);
+    const snapshot = await getDoc(ref);
+    if (!snapshot.exists()) {
+      throw new Error('Classroom not found');
+    }
+    const data = snapshot.data() as FirestoreClassroomRecord;
+    const maintenanceWindows = (data.maintenanceWindows ?? []).filter(window => window.id !== windowId);
+    const updatePayload: Record<string, unknown> = { maintenanceWindows, updatedAt: nowIso() };
+    if (data.activeMaintenanceId === windowId) {
+      Object.assign(updatePayload, {
+        isAvailable: true,
+        disabledUntil: deleteField(),
+        disableReason: deleteField(),
+        activeMaintenanceId: deleteField(),
+      });
+    }
+    await updateDoc(ref, updatePayload);
+    invalidateRelated('classroom', id);
+    const updated = await getDoc(ref);
+    return toClassroom(id, updated.data() as FirestoreClassroomRecord);
+  },
+
+  /**
+   * Blocks a time range on one date, leaving the room available otherwise. Blocks that
+   * have already ended are dropped at the same time.
+   */
+  async addBlock(id: string, block: ClassroomBlock): Promise<Classroom> {
+    const database = getDb();
+    const ref = doc(database, COLLECTIONS.CLASSROOMS, id);
+    const snapshot = await getDoc(ref);
+    if (!snapshot.exists()) {
+      throw new Error('Classroom not found');
+    }
+    const data = snapshot.data() as FirestoreClassroomRecord;
+    const blockedSlots = [
+      ...getUpcomingBlocks(data),
+      removeUndefinedValues(block) as ClassroomBlock,
+    ].sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+    await updateDoc(ref, { blockedSlots, updatedAt: nowIso() });
+    invalidateRelated('classroom', id);
+    return toClassroom(id, { ...data, blockedSlots });
+  },
+
+  /**
+   * Removes a blocked time range, opening it for bookings again.
+   */
+  async removeBlock(id: string, blockId: string): Promise<Classroom> {
+    const database = getDb();
+    const ref = doc(database, COLLECTIONS.CLASSROOMS, id);
+    const snapshot = await getDoc(ref);
+    if (!snapshot.exists()) {
+      throw new Error('Classroom not found');
+    }
+    const data = snapshot.data() as FirestoreClassroomRecord;
+    const blockedSlots = (data.blockedSlots ?? []).filter(block => block.id !== blockId);
+    await updateDoc(ref, { blockedSlots, updatedAt: nowIso() });
+    invalidateRelated('classroom', id);
+    return toClassroom(id, { ...data, blockedSlots });
+  },
+
   async delete(id: string): Promise<void> {
     const database = getDb();
     const ref = doc(database, COLLECTIONS.CLASSROOMS, id);
@@ -2020,7 +2227,7 @@ export const classroomService = {
       for (const bs of bookingSnap.docs) {
         const data = bs.data() as FirestoreBookingRequestRecord;
         // Consider a booking lapsed if its endTime is in the past for the given date
-        const lapsed = isPastBookingTime(data.date, data.endTime);
+        const lapsed = isPastBookingTime(data.date, data.endTime, timestampToIso(data.endAt));
         if (!lapsed) {
           bookingDeletes.push(doc(database, COLLECTIONS.BOOKING_REQUESTS, bs.id));
         }
@@ -2034,7 +2241,7 @@ export const classroomService = {
       const scheduleDeletes: ReturnType<typeof doc>[] = [];
       for (const ss of scheduleSnap.docs) {
         const data = ss.data() as FirestoreScheduleRecord;
-        const lapsed = isPastBookingTime(data.date, data.endTime);
+        const lapsed = isPastBookingTime(data.date, data.endTime, timestampToIso(data.endAt));
         if (!lapsed) {
           scheduleDeletes.push(doc(database, COLLECTIONS.SCHEDULES, ss.id));
         }
@@ -2106,6 +2313,17 @@ const timesOverlap = (
   (endA > startB && endA <= endB) ||
   (startA <= startB && endA >= endB);
 
+/**
+ * Whether a booking request describes exactly the slot of a schedule
+ * (the approved request a schedule was created from).
+ */
+const isSameSlot = (request: BookingRequest, schedule: ScheduleSlot) =>
+  request.facultyId === schedule.facultyId &&
+  request.classroomId === schedule.classroomId &&
+  request.date === schedule.date &&
+  request.startTime === schedule.startTime &&
+  request.endTime === schedule.endTime;
+
 /**
  * Booking request service for managing classroom booking requests.
  * 
@@ -2182,7 +2400,7 @@ export const bookingRequestService = {
   },
 
   async create(
-    request: Omit<BookingRequest, 'id' | 'requestDate' | 'status'>
+    request: Omit<BookingRequest, 'id' | 'requestDate' | 'status' | 'startAt' | 'endAt'>
   ): Promise<BookingRequest> {
     // Rate limiting check
     const rateLimitKey = `booking-create-${request.facultyId}`;
@@ -2194,6 +2412,7 @@ export const bookingRequestService = {
     const database = getDb();
     const record: FirestoreBookingRequestRecord = {
       ...request,
+      ...toBookingTimestamps(request.date, request.startTime, request.endTime),
       status: 'pending',
       requestDate: nowIso(),
       createdAt: nowIso(),
@@ -2230,7 +2449,68 @@ export const bookingRequestService = {
     return newRequest;
   },
 
-  async update(id: string, updates: Partial<BookingRequest>): Promise<BookingRequest> {
+  // Submits the rooms of a multi-room event booking in one batch. Each room is its own
+  // request; they share a groupId (the first room's request id) so that admins approve,
+  // reject and cancel them as a unit.
+  async createGroup(
+    requests: Omit<BookingRequest, 'id' | 'requestDate' | 'status' | 'groupId' | 'startAt' | 'endAt'>[]
+  ): Promise<BookingRequest[]> {
+    if (requests.length === 0) {
+      throw new Error('An event booking needs at least one room');
+    }
+    const facultyId = requests[0].facultyId;
+    // Rate limiting check
+    const rateLimitKey = `booking-create-${facultyId}`;
+    const rateLimitCheck = checkRateLimit(rateLimitKey, RATE_LIMITS.BOOKING_CREATE);
+    if (!rateLimitCheck.allowed) {
+      throw new Error(rateLimitCheck.message || 'Too many booking requests. Please wait.');
+    }
+
+    const database = getDb();
+    const refs = requests.map(() => doc(collection(database, COLLECTIONS.BOOKING_REQUESTS)));
+    const groupId = refs[0].id;
+    const batch = writeBatch(database);
+    const records = requests.map((request, index) => {
+      const record: FirestoreBookingRequestRecord = {
+        ...request,
+        ...toBookingTimestamps(request.date, request.startTime, request.endTime),
+        groupId,
+        status: 'pending',
+        requestDate: nowIso(),
+        createdAt: nowIso(),
+        updatedAt: nowIso(),
+      };
+      batch.set(refs[index], record);
+      return record;
+    });
+    await batch.commit();
+
+    // Admins are notified once for the whole event
+    try {
+      const [lead] = records;
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable(functions, 'notifyAdminsOfNewRequest');
+      await withRetry(() => fn({
+        bookingRequestId: groupId,
+        facultyId: lead.facultyId,
+        facultyName: lead.facultyName,
+        classroomName: records.map(record => record.classroomName).join(', '),
+        date: lead.date,
+        startTime: lead.startTime,
+        endTime: lead.endTime,
+        purpose: lead.purpose,
+      }), { attempts: 3, shouldRetry: isNetworkError });
+    } catch (err) {
+      logger.warn('Failed to notify admins of new event booking:', err);
+    }
+
+    invalidateRelated('bookingRequest', groupId, { facultyId });
+    resetRateLimit(rateLimitKey);
+
+    return records.map((record, index) => toBookingRequest(refs[index].id, record));
+  },
+
+  async update(id: string, updates: Partial<Omit<BookingRequest, 'startAt' | 'endAt'>>): Promise<BookingRequest> {
     // Rate limiting check
     const rateLimitKey = `booking-update-${currentUserCache?.id || 'unknown'}`;
     const rateLimitCheck = checkRateLimit(rateLimitKey, RATE_LIMITS.BOOKING_UPDATE);
@@ -2246,6 +2526,7 @@ export const bookingRequestService = {
     
     const updatePayload: Partial<FirestoreBookingRequestRecord> = {
       ...cleanedUpdates,
+      ...(await getMovedTimestamps(ref, cleanedUpdates)),
       updatedAt: nowIso(),
       // Mark who performed this update so server-side triggers can avoid notifying the actor
       updatedBy: currentUserCache?.id ?? null,
@@ -2321,13 +2602,74 @@ export const bookingRequestService = {
     }
   },
 
+  // Approve a pending request through the server callable. The server re-checks conflicts,
+  // flips the status, creates the schedule(s) and writes the audit entry in one transaction.
+  async approveWithCallable(
+    id: string,
+    adminFeedback?: string
+  ): Promise<{ scheduleIds: string[]; skippedDates: string[] }> {
+    const fb = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<
+        { bookingRequestId: string; adminFeedback?: string },
+        { success: boolean; scheduleIds: string[]; skippedDates: string[] }
+      >(functions, 'approveBookingRequest');
+      const res = await withRetry(() => fn({ bookingRequestId: id, ...(fb ? { adminFeedback: fb } : {}) }), { attempts: 3, shouldRetry: isNetworkError });
+
+      invalidateRelated('bookingRequest', id);
+      return { scheduleIds: res.data.scheduleIds ?? [], skippedDates: res.data.skippedDates ?? [] };
+    } catch (err: any) {
+      // Surface clearer error messages coming from cloud function
+      const message = err?.message || err?.code || 'Failed to approve booking request';
+      throw new Error(message);
+    }
+  },
+
+  // Approve every room of a multi-room event booking in one server transaction. Resolves
+  // to the new schedule ids of each room, by request id.
+  async approveGroupWithCallable(groupId: string, adminFeedback?: string): Promise<Record<string, string[]>> {
+    const fb = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<
+        { groupId: string; adminFeedback?: string },
+        { success: boolean; scheduleIds: Record<string, string[]> }
+      >(functions, 'approveBookingGroup');
+      const res = await withRetry(() => fn({ groupId, ...(fb ? { adminFeedback: fb } : {}) }), { attempts: 3, shouldRetry: isNetworkError });
+
+      invalidateRelated('bookingRequest', groupId);
+      return res.data.scheduleIds ?? {};
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to approve event booking';
+      throw new Error(message);
+    }
+  },
+
+  // Reject every pending room of a multi-room event booking with one reason.
+  async rejectGroupWithCallable(groupId: string, adminFeedback: string): Promise<void> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<{ groupId: string; adminFeedback: string }, { success: boolean }>(functions, 'rejectBookingGroup');
+      await withRetry(() => fn({ groupId, adminFeedback: adminFeedback.trim() }), { attempts: 3, shouldRetry: isNetworkError });
+
+      invalidateRelated('bookingRequest', groupId);
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to reject event booking';
+      throw new Error(message);
+    }
+  },
+
+  // Every reservation overlapping the slot: pending and approved requests plus confirmed
+  // schedules. An empty list means the slot is free.
   async checkConflicts(
     classroomId: string,
     date: string,
     startTime: string,
     endTime: string,
-    excludeRequestId?: string
-  ): Promise<boolean> {
+    excludeRequestId?: string,
+    excludeSchedule?: ScheduleSlot
+  ): Promise<BookingConflict[]> {
     const database = getDb();
     const ref = collection(database, COLLECTIONS.BOOKING_REQUESTS);
 
@@ -2339,18 +2681,125 @@ export const bookingRequestService = {
       where('status', 'in', ['pending', 'approved'])
     );
 
-    const snapshot = await getDocs(q);
-    const conflictingRequests = snapshot.docs
+    // Pending recurring series only carry their first occurrence in `date`, so they
+    // are matched through the expanded occurrence list instead
+    const seriesQuery = query(
+      ref,
+      where('classroomId', '==', classroomId),
+      where('occurrenceDates', 'array-contains', date),
+      where('status', '==', 'pending')
+    );
+
+    const [snapshot, seriesSnapshot] = await Promise.all([getDocs(q), getDocs(seriesQuery)]);
+    const conflictingRequests = [...snapshot.docs, ...seriesSnapshot.docs]
       .map(doc => ({ id: doc.id, ...doc.data() } as BookingRequest))
-      .filter(req => req.id !== excludeRequestId);
+      .filter(req => req.id !== excludeRequestId)
+      .filter(req => !(req.recurrence && req.status === 'approved'))
+      // When moving a schedule, the approved request that produced it is not a conflict either
+      .filter(req => !(excludeSchedule && req.status === 'approved' && isSameSlot(req, excludeSchedule)));
+
+    const requestConflicts = conflictingRequests
+      .filter(req => doTimeRangesOverlap(startTime, endTime, req.startTime, req.endTime))
+      .map(req => requestToConflict(req, date));
+
+    // Approved series expand into one schedule per occurrence, so later occurrences
+    // are only visible through the schedules collection
+    const [scheduleConflicts, classroom] = await Promise.all([
+      scheduleService.checkConflict(classroomId, date, startTime, endTime, excludeSchedule?.id),
+      classroomService.getById(classroomId),
+    ]);
+    // Time ranges an admin blocked on the room are occupied like a confirmed reservation
+    const blockConflicts = findOverlappingBlocks(classroom ?? undefined, date, startTime, endTime)
+      .map(block => blockToConflict(classroomId, block));
+    return [...requestConflicts, ...scheduleConflicts, ...blockConflicts];
+  },
 
-    for (const req of conflictingRequests) {
-      if (doTimeRangesOverlap(startTime, endTime, req.startTime, req.endTime)) {
-        return true; // Found a conflict
-      }
-    }
+  // The occurrence dates of a new series on which the slot is taken, by the same rules as
+  // checkConflicts. Reservations are loaded once for the series' date range instead of date
+  // by date, so a semester-long series costs a handful of reads.
+  async findConflictingDates(
+    classroomId: string,
+    dates: string[],
+    startTime: string,
+    endTime: string
+  ): Promise<string[]> {
+    if (dates.length === 0) return [];
+    const sorted = [...dates].sort();
+    const firstDate = sorted[0];
+    const lastDate = sorted[sorted.length - 1];
 
-    return false; // No conflicts found
+    const database = getDb();
+    const requestsRef = collection(database, COLLECTIONS.BOOKING_REQUESTS);
+    // array-contains-any takes at most 30 values
+    const dateChunks: string[][] = [];
+    for (let i = 0; i < sorted.length; i += 30) dateChunks.push(sorted.slice(i, i + 30));
+
+    const [requestSnapshot, scheduleSnapshot, classroom, ...seriesSnapshots] = await Promise.all([
+      withRetry(() => getDocs(query(
+        requestsRef,
+        where('classroomId', '==', classroomId),
+        where('status', 'in', ['pending', 'approved']),
+        where('date', '>=', firstDate),
+        where('date', '<=', lastDate)
+      )), { attempts: 3, shouldRetry: isNetworkError }),
+      withRetry(() => getDocs(query(
+        collection(database, COLLECTIONS.SCHEDULES),
+        where('classroomId', '==', classroomId),
+        where('date', '>=', firstDate),
+        where('date', '<=', lastDate)
+      )), { attempts: 3, shouldRetry: isNetworkError }),
+      classroomService.getById(classroomId),
+      ...dateChunks.map(chunk => withRetry(() => getDocs(query(
+        requestsRef,
+        where('classroomId', '==', classroomId),
+        where('occurrenceDates', 'array-contains-any', chunk),
+        where('status', '==', 'pending')
+      )), { attempts: 3, shouldRetry: isNetworkError })),
+    ]);
+
+    const requests = new Map<string, BookingRequest>();
+    [requestSnapshot, ...seriesSnapshots].forEach(snapshot => snapshot.docs.forEach(d => {
+      requests.set(d.id, toBookingRequest(d.id, d.data() as FirestoreBookingRequestRecord));
+    }));
+    const schedules = scheduleSnapshot.docs
+      .map(d => toSchedule(d.id, d.data() as FirestoreScheduleRecord))
+      .filter(s => s.status !== 'cancelled');
+
+    // Approved series expand into schedules, so only pending ones occupy their occurrences
+    const occupies = (req: BookingRequest, date: string) => (
+      req.recurrence
+        ? req.status === 'pending' && (req.occurrenceDates ?? [req.date]).includes(date)
+        : req.date === date
+    );
+
+    return dates.filter(date => (
+      [...requests.values()].some(req => occupies(req, date) && doTimeRangesOverlap(startTime, endTime, req.startTime, req.endTime)) ||
+      schedules.some(s => s.date === date && timesOverlap(startTime, endTime, s.startTime, s.endTime)) ||
+      findOverlappingBlocks(classroom ?? undefined, date, startTime, endTime).length > 0
+    ));
+  },
+
+  // Suggest nearby free windows in the same room and other suitable rooms for a conflicting slot.
+  // Loads the date's occupancy from Firestore, so it also works where the caller has no local data.
+  async suggestAlternatives(
+    request: Pick<BookingRequest, 'classroomId' | 'date' | 'startTime' | 'endTime'>,
+    classrooms: Classroom[],
+    options: Omit<SuggestionOptions, 'calendar' | 'hours'> = {}
+  ): Promise<BookingSuggestions> {
+    const database = getDb();
+    const requestsRef = collection(database, COLLECTIONS.BOOKING_REQUESTS);
+    const [scheduleSnapshot, requestSnapshot, seriesSnapshot, calendar, hours] = await Promise.all([
+      withRetry(() => getDocs(query(collection(database, COLLECTIONS.SCHEDULES), where('date', '==', request.date))), { attempts: 3, shouldRetry: isNetworkError }),
+      withRetry(() => getDocs(query(requestsRef, where('date', '==', request.date), where('status', 'in', ['pending', 'approved']))), { attempts: 3, shouldRetry: isNetworkError }),
+      withRetry(() => getDocs(query(requestsRef, where('occurrenceDates', 'array-contains', request.date), where('status', '==', 'pending'))), { attempts: 3, shouldRetry: isNetworkError }),
+      academicCalendarService.get(),
+      operatingHoursService.get(),
+    ]);
+
+    const schedules = scheduleSnapshot.docs.map(d => toSchedule(d.id, d.data() as FirestoreScheduleRecord));
+    const requests = [...requestSnapshot.docs, ...seriesSnapshot.docs]
+      .map(d => toBookingRequest(d.id, d.data() as FirestoreBookingRequestRecord));
+    return findBookingSuggestions(request, classrooms, collectOccupiedSlots(request.date, schedules, requests, classrooms), { ...options, calendar, hours });
   },
 
   // Bulk update multiple booking requests atomically using a write batch.
@@ -2491,7 +2940,7 @@ export const scheduleService = {
     return schedule;
   },
 
-  async create(schedule: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<Schedule> {
+  async create(schedule: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt' | 'startAt' | 'endAt'>): Promise<Schedule> {
     // Rate limiting check
     const rateLimitKey = `schedule-create-${schedule.facultyId}`;
     const rateLimitCheck = checkRateLimit(rateLimitKey, RATE_LIMITS.SCHEDULE_CREATE);
@@ -2502,6 +2951,7 @@ export const scheduleService = {
     const database = getDb();
     const record: FirestoreScheduleRecord = {
       ...schedule,
+      ...toBookingTimestamps(schedule.date, schedule.startTime, schedule.endTime),
       createdAt: nowIso(),
       updatedAt: nowIso(),
     };
@@ -2517,7 +2967,21 @@ export const scheduleService = {
     return newSchedule;
   },
 
-  async update(id: string, updates: Partial<Schedule>): Promise<Schedule> {
+  // Writes schedules created by a timetable import in one batch (at most 500). The ids
+  // come from the import, so writing a chunk again replaces it instead of duplicating it.
+  async importBatch(schedules: Array<{ id: string; data: Omit<Schedule, 'id' | 'startAt' | 'endAt'> }>): Promise<void> {
+    if (schedules.length === 0) return;
+    const createdAt = nowIso();
+    await bulkUpdateDocs(COLLECTIONS.SCHEDULES, schedules.map(s => ({
+      id: s.id,
+      data: { ...s.data, ...toBookingTimestamps(s.data.date, s.data.startTime, s.data.endTime), createdAt },
+    })));
+    new Set(schedules.map(s => s.data.facultyId)).forEach(facultyId => {
+      invalidateRelated('schedule', schedules[0].id, { facultyId });
+    });
+  },
+
+  async update(id: string, updates: Partial<Omit<Schedule, 'startAt' | 'endAt'>>): Promise<Schedule> {
     const database = getDb();
     const ref = doc(database, COLLECTIONS.SCHEDULES, id);
     
@@ -2526,6 +2990,7 @@ export const scheduleService = {
     
     const updatePayload: Partial<FirestoreScheduleRecord> = {
       ...cleanedUpdates,
+      ...(await getMovedTimestamps(ref, cleanedUpdates)),
       updatedAt: nowIso(),
     };
     await updateDoc(ref, updatePayload as Record<string, unknown>);
@@ -2564,23 +3029,25 @@ export const scheduleService = {
     startTime: string,
     endTime: string,
     excludeId?: string
-  ): Promise<boolean> {
+  ): Promise<BookingConflict[]> {
     const database = getDb();
     const ref = collection(database, COLLECTIONS.SCHEDULES);
     const snapshot = await withRetry(() => getDocs(
       query(ref, where('classroomId', '==', classroomId), where('date', '==', date))
     ), { attempts: 3, shouldRetry: isNetworkError });
 
-    return snapshot.docs.some((docSnapshot) => {
-      if (excludeId && docSnapshot.id === excludeId) {
-        return false;
-      }
-      const data = docSnapshot.data() as FirestoreScheduleRecord;
-      if (data.status === 'cancelled') {
-        return false;
-      }
-      return timesOverlap(startTime, endTime, data.startTime, data.endTime);
-    });
+    return snapshot.docs
+      .filter((docSnapshot) => {
+        if (excludeId && docSnapshot.id === excludeId) {
+          return false;
+        }
+        const data = docSnapshot.data() as FirestoreScheduleRecord;
+        if (data.status === 'cancelled') {
+          return false;
+        }
+        return timesOverlap(startTime, endTime, data.startTime, data.endTime);
+      })
+      .map((docSnapshot) => scheduleToConflict(toSchedule(docSnapshot.id, docSnapshot.data() as FirestoreScheduleRecord)));
   },
 
   async cancelApprovedBooking(scheduleId: string, adminFeedback: string): Promise<void> {
@@ -2602,6 +3069,43 @@ export const scheduleService = {
       throw new Error(message);
     }
   },
+
+  // Cancel the upcoming occurrences of an approved recurring series and the series request
+  // in one server batch, with a single notification. Resolves to the cancelled schedule ids.
+  async cancelApprovedSeries(seriesId: string, adminFeedback: string): Promise<string[]> {
+    const fb = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+    if (!fb) {
+      throw new Error('adminFeedback (cancellation reason) is required when cancelling an approved booking.');
+    }
+
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<{ seriesId: string; adminFeedback: string }, { success: boolean; scheduleIds: string[] }>(functions, 'cancelApprovedSeries');
+      const res = await withRetry(() => fn({ seriesId, adminFeedback: fb }), { attempts: 3, shouldRetry: isNetworkError });
+
+      invalidateRelated('bookingRequest', seriesId);
+      return res.data.scheduleIds ?? [];
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to cancel recurring series';
+      throw new Error(message);
+    }
+  },
+
+  /**
+   * Check the signed-in faculty member in to their current reservation in a classroom
+   * (the target of the room's QR code). Fails when they have none open for check-in.
+   */
+  async checkIn(classroomId: string): Promise<CheckInResult> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<{ classroomId: string }, CheckInResult>(functions, 'checkInToSchedule');
+      const res = await withRetry(() => fn({ classroomId }), { attempts: 3, shouldRetry: isNetworkError });
+      return res.data;
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to check in';
+      throw new Error(message);
+    }
+  },
 };
 
 // ============================================
@@ -3056,8 +3560,9 @@ export const realtimeService = {
       // Always subscribe to classrooms (all users need this)
       setupClassroomsListener(onClassroomsUpdate, onError);
 
-      if (user?.role === 'admin') {
-        // Admin gets all data
+      if (usesAdminDashboard(user)) {
+        // Admins and department approvers get all data; approvers are narrowed to their
+        // departments in the dashboard
         setupBookingRequestsListener(onBookingRequestsUpdate, onError);
         setupSchedulesListener(onSchedulesUpdate, onError);
         
@@ -3094,6 +3599,757 @@ export const realtimeService = {
   }
 };
 
+// ============================================================================
+// ACADEMIC CALENDAR SERVICE
+// ============================================================================
+
+const toAcademicCalendar = (data: DocumentData): AcademicCalendar => ({
+  termName: data.termName ?? undefined,
+  termStart: data.termStart ?? undefined,
+  termEnd: data.termEnd ?? undefined,
+  holidays: Array.isArray(data.holidays) ? data.holidays : [],
+  blackouts: Array.isArray(data.blackouts) ? data.blackouts : [],
+  updatedAt: data.updatedAt ?? undefined,
+  updatedBy: data.updatedBy ?? undefined,
+});
+
+/**
+ * Academic calendar service.
+ *
+ * The term calendar (term dates, holidays and per-building blackouts) is a single
+ * admin-managed document. Every signed-in user reads it to know which dates are
+ * bookable; the Cloud Functions enforce the same document server-side.
+ */
+export const academicCalendarService = {
+  /**
+   * Get the current calendar, or null when none has been configured.
+   */
+  async get(): Promise<AcademicCalendar | null> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.ACADEMIC_CALENDAR);
+    const snapshot = await withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError });
+    return snapshot.exists() ? toAcademicCalendar(snapshot.data()) : null;
+  },
+
+  /**
+   * Replace the calendar (admin only, enforced by security rules).
+   */
+  async save(calendar: Omit<AcademicCalendar, 'updatedAt' | 'updatedBy'>, actorId: string): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.ACADEMIC_CALENDAR);
+    const record = removeUndefinedValues<AcademicCalendar>({
+      ...calendar,
+      holidays: [...calendar.holidays].sort((a, b) => a.date.localeCompare(b.date)),
+      blackouts: [...calendar.blackouts].sort((a, b) => a.startDate.localeCompare(b.startDate)),
+      updatedAt: nowIso(),
+      updatedBy: actorId,
+    });
+    await withRetry(() => setDoc(ref, record), { attempts: 3, shouldRetry: isNetworkError });
+  },
+
+  /**
+   * Listen for calendar changes. The callback receives null when no calendar exists.
+   */
+  subscribe(callback: (calendar: AcademicCalendar | null) => void, errorCallback?: DataErrorCallback): Unsubscribe {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.ACADEMIC_CALENDAR);
+    return onSnapshot(ref, (snapshot) => {
+      callback(snapshot.exists() ? toAcademicCalendar(snapshot.data()) : null);
+    }, (error) => {
+      logger.error('Academic calendar listener error:', error);
+      errorCallback?.(error);
+    });
+  },
+};
+
+// ============================================================================
+// OPERATING HOURS SERVICE
+// ============================================================================
+
+const toWeeklyHours = (value: unknown): WeeklyHours | null =>
+  Array.isArray(value) && value.length === 7 ? value.map(day => (day && typeof day === 'object' ? day : null)) : null;
+
+const toOperatingHours = (data: DocumentData): OperatingHours => ({
+  slotMinutes: typeof data.slotMinutes === 'number' && data.slotMinutes > 0 ? data.slotMinutes : DEFAULT_OPERATING_HOURS.slotMinutes,
+  weekly: toWeeklyHours(data.weekly) ?? DEFAULT_OPERATING_HOURS.weekly,
+  buildings: Object.fromEntries(
+    Object.entries((data.buildings ?? {}) as Record<string, unknown>)
+      .map(([building, week]) => [building, toWeeklyHours(week)] as const)
+      .filter((entry): entry is readonly [string, WeeklyHours] => entry[1] !== null)
+  ),
+  updatedAt: data.updatedAt ?? undefined,
+  updatedBy: data.updatedBy ?? undefined,
+});
+
+/**
+ * Operating hours service.
+ *
+ * Campus-wide hours per weekday, per-building hours and the slot length live in one
+ * admin-managed document; the building hours are copied there from the buildings. The
+ * booking and search UIs build their time pickers from it and the Cloud Functions validate
+ * bookings against the same document.
+ */
+export const operatingHoursService = {
+  /**
+   * Get the configured hours, or null when an admin has not saved any (defaults apply).
+   */
+  async get(): Promise<OperatingHours | null> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.OPERATING_HOURS);
+    const snapshot = await withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError });
+    return snapshot.exists() ? toOperatingHours(snapshot.data()) : null;
+  },
+
+  /**
+   * Replace the campus hours and slot length (admin only, enforced by security rules).
+   * Building hours are left alone; buildingService keeps them in step with the buildings.
+   */
+  async save(hours: Omit<OperatingHours, 'buildings' | 'updatedAt' | 'updatedBy'>, actorId: string): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.OPERATING_HOURS);
+    const record = removeUndefinedValues<Omit<OperatingHours, 'buildings'>>({
+      ...hours,
+      updatedAt: nowIso(),
+      updatedBy: actorId,
+    });
+    await withRetry(() => setDoc(ref, record, { merge: true }), { attempts: 3, shouldRetry: isNetworkError });
+  },
+
+  /**
+   * Listen for changes. The callback receives null when no hours have been saved.
+   */
+  subscribe(callback: (hours: OperatingHours | null) => void, errorCallback?: DataErrorCallback): Unsubscribe {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.OPERATING_HOURS);
+    return onSnapshot(ref, (snapshot) => {
+      callback(snapshot.exists() ? toOperatingHours(snapshot.data()) : null);
+    }, (error) => {
+      logger.error('Operating hours listener error:', error);
+      errorCallback?.(error);
+    });
+  },
+};
+
+// ============================================================================
+// BOOKING POLICIES SERVICE
+// ============================================================================
+
+const toBookingPolicies = (data: DocumentData): BookingPolicies => ({
+  maxDurationMinutes: typeof data.maxDurationMinutes === 'number' ? data.maxDurationMinutes : DEFAULT_BOOKING_POLICIES.maxDurationMinutes,
+  minLeadMinutes: typeof data.minLeadMinutes === 'number' ? data.minLeadMinutes : DEFAULT_BOOKING_POLICIES.minLeadMinutes,
+  maxAdvanceDays: typeof data.maxAdvanceDays === 'number' ? data.maxAdvanceDays : DEFAULT_BOOKING_POLICIES.maxAdvanceDays,
+  maxWeeklyHours: typeof data.maxWeeklyHours === 'number' && data.maxWeeklyHours > 0 ? data.maxWeeklyHours : null,
+  updatedAt: data.updatedAt ?? undefined,
+  updatedBy: data.updatedBy ?? undefined,
+});
+
+/**
+ * Booking policies service.
+ *
+ * The limits every reservation request must respect live in one admin-managed document.
+ * The booking form evaluates them locally for instant feedback and asks the server for the
+ * authoritative result before submitting; the server enforces them on creation.
+ */
+export const bookingPoliciesService = {
+  /**
+   * Get the configured policies, or null when an admin has not saved any (defaults apply).
+   */
+  async get(): Promise<BookingPolicies | null> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.BOOKING_POLICIES);
+    const snapshot = await withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError });
+    return snapshot.exists() ? toBookingPolicies(snapshot.data()) : null;
+  },
+
+  /**
+   * Replace the policies (admin only, enforced by security rules).
+   */
+  async save(policies: Omit<BookingPolicies, 'updatedAt' | 'updatedBy'>, actorId: string): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.BOOKING_POLICIES);
+    const record = removeUndefinedValues<BookingPolicies>({
+      ...policies,
+      updatedAt: nowIso(),
+      updatedBy: actorId,
+    });
+    await withRetry(() => setDoc(ref, record), { attempts: 3, shouldRetry: isNetworkError });
+  },
+
+  /**
+   * Listen for changes. The callback receives null when no policies have been saved.
+   */
+  subscribe(callback: (policies: BookingPolicies | null) => void, errorCallback?: DataErrorCallback): Unsubscribe {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.BOOKING_POLICIES);
+    return onSnapshot(ref, (snapshot) => {
+      callback(snapshot.exists() ? toBookingPolicies(snapshot.data()) : null);
+    }, (error) => {
+      logger.error('Booking policies listener error:', error);
+      errorCallback?.(error);
+    });
+  },
+
+  /**
+   * Ask the server whether the signed-in user may request this booking. Times are
+   * 24-hour; `occurrenceDates` covers every date of a series. With a classroom, the
+   * priority window of a department-owned room is checked too, and with an attendee count
+   * the room's capacity.
+   */
+  async check(booking: {
+    date: string;
+    startTime: string;
+    endTime: string;
+    classroomId?: string;
+    expectedAttendees?: number;
+    occurrenceDates?: string[];
+    excludeRequestId?: string;
+    excludeScheduleId?: string;
+  }): Promise<PolicyViolation[]> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<typeof booking, { violations: PolicyViolation[] }>(functions, 'checkBookingPolicies');
+      const res = await withRetry(() => fn(removeUndefinedValues(booking) as typeof booking), { attempts: 3, shouldRetry: isNetworkError });
+      return res.data.violations ?? [];
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to check booking policies';
+      throw new Error(message);
+    }
+  },
+};
+
+// ============================================================================
+// AUTO-APPROVAL RULES SERVICE
+// ============================================================================
+
+const toAutoApprovalRules = (data: DocumentData): AutoApprovalRules => ({
+  rules: Array.isArray(data.rules) ? data.rules.map(toAutoApprovalRule) : [],
+  updatedAt: data.updatedAt ?? undefined,
+  updatedBy: data.updatedBy ?? undefined,
+});
+
+/**
+ * Auto-approval rules service.
+ *
+ * The ordered list of admin-defined rules lives in one document. The Cloud Functions read
+ * it when a booking request is created and approve conflict-free requests that match.
+ */
+export const autoApprovalRulesService = {
+  /**
+   * Get the configured rules, or null when an admin has not saved any.
+   */
+  async get(): Promise<AutoApprovalRules | null> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.AUTO_APPROVAL_RULES);
+    const snapshot = await withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError });
+    return snapshot.exists() ? toAutoApprovalRules(snapshot.data()) : null;
+  },
+
+  /**
+   * Replace the rules (admin only, enforced by security rules).
+   */
+  async save(rules: AutoApprovalRules['rules'], actorId: string): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.AUTO_APPROVAL_RULES);
+    const record = removeUndefinedValues<AutoApprovalRules>({
+      rules,
+      updatedAt: nowIso(),
+      updatedBy: actorId,
+    });
+    await withRetry(() => setDoc(ref, record), { attempts: 3, shouldRetry: isNetworkError });
+  },
+};
+
+// ============================================================================
+// CHECK-IN SETTINGS SERVICE
+// ============================================================================
+
+const toCheckInSettings = (data: DocumentData): CheckInSettings => ({
+  enabled: data.enabled === true,
+  graceMinutes: typeof data.graceMinutes === 'number' && data.graceMinutes > 0 ? data.graceMinutes : DEFAULT_CHECK_IN_SETTINGS.graceMinutes,
+  updatedAt: data.updatedAt ?? undefined,
+  updatedBy: data.updatedBy ?? undefined,
+});
+
+/**
+ * Check-in settings service.
+ *
+ * Whether reservations nobody checked in to are released, and after how long, live in one
+ * admin-managed document read by the scheduled no-show job in the Cloud Functions.
+ */
+export const checkInSettingsService = {
+  /**
+   * Get the configured settings, or null when an admin has not saved any (defaults apply).
+   */
+  async get(): Promise<CheckInSettings | null> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.CHECK_IN);
+    const snapshot = await withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError });
+    return snapshot.exists() ? toCheckInSettings(snapshot.data()) : null;
+  },
+
+  /**
+   * Replace the settings (admin only, enforced by security rules).
+   */
+  async save(settings: Omit<CheckInSettings, 'updatedAt' | 'updatedBy'>, actorId: string): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.CHECK_IN);
+    const record = removeUndefinedValues<CheckInSettings>({
+      ...settings,
+      updatedAt: nowIso(),
+      updatedBy: actorId,
+    });
+    await withRetry(() => setDoc(ref, record), { attempts: 3, shouldRetry: isNetworkError });
+  },
+};
+
+// ============================================================================
+// DISPLAY SERVICE
+// ============================================================================
+
+const toDisplaySettings = (data: DocumentData): DisplaySettings => ({
+  maskFacultyNames: data.maskFacultyNames === true,
+  updatedAt: data.updatedAt ?? undefined,
+  updatedBy: data.updatedBy ?? undefined,
+});
+
+/**
+ * Door and lobby display service.
+ *
+ * Displays load today's schedule through a public Cloud Function, so they work without
+ * signing in and never read Firestore directly. Admins control what they show through
+ * one settings document.
+ */
+export const displayService = {
+  /**
+   * Today's reservations for a room or every room in a building. `date` is the display's
+   * local date; the server only accepts dates within a day of its own.
+   */
+  async getSchedule(target: DisplayTarget, date: string): Promise<DisplayRoom[]> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<DisplayTarget & { date: string }, { date: string; rooms: DisplayRoom[] }>(functions, 'getDisplaySchedule');
+      const res = await withRetry(() => fn({ ...target, date }), { attempts: 3, shouldRetry: isNetworkError });
+      return res.data.rooms ?? [];
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to load the display schedule';
+      throw new Error(message);
+    }
+  },
+
+  /**
+   * Get the display settings, or null when an admin has not saved any (defaults apply).
+   */
+  async getSettings(): Promise<DisplaySettings | null> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.DISPLAYS);
+    const snapshot = await withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError });
+    return snapshot.exists() ? toDisplaySettings(snapshot.data()) : null;
+  },
+
+  /**
+   * Replace the display settings (admin only, enforced by security rules).
+   */
+  async saveSettings(settings: Omit<DisplaySettings, 'updatedAt' | 'updatedBy'>, actorId: string): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.DISPLAYS);
+    const record = removeUndefinedValues<DisplaySettings>({
+      ...settings,
+      updatedAt: nowIso(),
+      updatedBy: actorId,
+    });
+    await withRetry(() => setDoc(ref, record), { attempts: 3, shouldRetry: isNetworkError });
+  },
+};
+
+// ============================================================================
+// BUILDING SERVICE
+// ============================================================================
+
+const toBuilding = (id: string, data: DocumentData): Building => ({
+  id,
+  name: data.name ?? '',
+  code: data.code ?? '',
+  floors: typeof data.floors === 'number' && data.floors > 0 ? data.floors : 1,
+  openingHours: toWeeklyHours(data.openingHours) ?? undefined,
+  accessibilityNotes: data.accessibilityNotes || undefined,
+  createdAt: data.createdAt ?? undefined,
+  updatedAt: data.updatedAt ?? undefined,
+});
+
+type BuildingInput = Omit<Building, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Building service.
+ *
+ * Buildings are admin-managed documents that classrooms reference by id. Operating hours,
+ * blackouts and auto-approval rules still refer to buildings by name, so a building's own
+ * hours are copied into the operating hours document, and renaming a building renames it
+ * everywhere in the same batch.
+ */
+export const buildingService = {
+  /**
+   * Listen to every building, sorted by name.
+   */
+  subscribe(callback: (buildings: Building[]) => void, errorCallback?: DataErrorCallback): Unsubscribe {
+    const q = query(collection(getDb(), COLLECTIONS.BUILDINGS), orderBy('name'));
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map((d) => toBuilding(d.id, d.data())));
+    }, (error) => {
+      logger.error('Buildings listener error:', error);
+      errorCallback?.(error);
+    });
+  },
+
+  /**
+   * Add a building (admin only, enforced by security rules).
+   */
+  async create(building: BuildingInput): Promise<Building> {
+    const database = getDb();
+    const ref = doc(collection(database, COLLECTIONS.BUILDINGS));
+    const record = removeUndefinedValues({
+      ...building,
+      createdAt: nowIso(),
+      updatedAt: nowIso(),
+    });
+    const batch = writeBatch(database);
+    batch.set(ref, record);
+    if (building.openingHours) {
+      batch.set(doc(database, COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.OPERATING_HOURS), {
+        buildings: { [building.name]: building.openingHours },
+      }, { merge: true });
+    }
+    await withRetry(() => batch.commit(), { attempts: 3, shouldRetry: isNetworkError });
+    return toBuilding(ref.id, record);
+  },
+
+  /**
+   * Replace a building's details. A new name is carried to its classrooms, its operating
+   * hours, calendar blackouts and auto-approval rules.
+   */
+  async update(id: string, building: BuildingInput): Promise<void> {
+    const database = getDb();
+    const ref = doc(database, COLLECTIONS.BUILDINGS, id);
+    const snapshot = await withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError });
+    if (!snapshot.exists()) {
+      throw new Error('Building not found');
+    }
+    const previousName: string = snapshot.data().name ?? '';
+    const renamed = previousName !== building.name;
+
+    const batch = writeBatch(database);
+    batch.update(ref, {
+      ...removeUndefinedValues(building),
+      // Clearing the hours or the notes removes them
+      openingHours: building.openingHours ?? deleteField(),
+      accessibilityNotes: building.accessibilityNotes ?? deleteField(),
+      updatedAt: nowIso(),
+    });
+    batch.set(doc(database, COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.OPERATING_HOURS), {
+      buildings: {
+        ...(renamed ? { [previousName]: deleteField() } : {}),
+        [building.name]: building.openingHours ?? deleteField(),
+      },
+    }, { merge: true });
+
+    let classroomIds: string[] = [];
+    if (renamed) {
+      const [classrooms, calendar, rules] = await Promise.all([
+        withRetry(() => getDocs(query(collection(database, COLLECTIONS.CLASSROOMS), where('buildingId', '==', id))), { attempts: 3, shouldRetry: isNetworkError }),
+        withRetry(() => getDoc(doc(database, COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.ACADEMIC_CALENDAR)), { attempts: 3, shouldRetry: isNetworkError }),
+        withRetry(() => getDoc(doc(database, COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.AUTO_APPROVAL_RULES)), { attempts: 3, shouldRetry: isNetworkError }),
+      ]);
+      classroomIds = classrooms.docs.map((d) => d.id);
+      classrooms.docs.forEach((d) => batch.update(d.ref, { building: building.name, updatedAt: nowIso() }));
+
+      const blackouts: DocumentData[] = calendar.exists() && Array.isArray(calendar.data().blackouts) ? calendar.data().blackouts : [];
+      if (blackouts.some((b) => b.building === previousName)) {
+        batch.update(calendar.ref, {
+          blackouts: blackouts.map((b) => (b.building === previousName ? { ...b, building: building.name } : b)),
+        });
+      }
+
+      const approvalRules: DocumentData[] = rules.exists() && Array.isArray(rules.data().rules) ? rules.data().rules : [];
+      if (approvalRules.some((r) => Array.isArray(r.buildings) && r.buildings.includes(previousName))) {
+        batch.update(rules.ref, {
+          rules: approvalRules.map((r) => (Array.isArray(r.buildings) && r.buildings.includes(previousName)
+            ? { ...r, buildings: r.buildings.map((b: string) => (b === previousName ? building.name : b)) }
+            : r)),
+        });
+      }
+    }
+
+    await withRetry(() => batch.commit(), { attempts: 3, shouldRetry: isNetworkError });
+    classroomIds.forEach((classroomId) => invalidateRelated('classroom', classroomId));
+  },
+
+  /**
+   * Remove a building. Refused while classrooms are still assigned to it.
+   */
+  async delete(id: string): Promise<void> {
+    const database = getDb();
+    const ref = doc(database, COLLECTIONS.BUILDINGS, id);
+    const [snapshot, classrooms] = await Promise.all([
+      withRetry(() => getDoc(ref), { attempts: 3, shouldRetry: isNetworkError }),
+      withRetry(() => getDocs(query(collection(database, COLLECTIONS.CLASSROOMS), where('buildingId', '==', id))), { attempts: 3, shouldRetry: isNetworkError }),
+    ]);
+    if (!snapshot.exists()) return;
+    if (!classrooms.empty) {
+      throw new Error(`${classrooms.size} classroom${classrooms.size !== 1 ? 's are' : ' is'} still in this building. Move or delete them first.`);
+    }
+    const batch = writeBatch(database);
+    batch.delete(ref);
+    batch.set(doc(database, COLLECTIONS.SYSTEM_SETTINGS, SETTINGS_DOCS.OPERATING_HOURS), {
+      buildings: { [snapshot.data().name ?? '']: deleteField() },
+    }, { merge: true });
+    await withRetry(() => batch.commit(), { attempts: 3, shouldRetry: isNetworkError });
+  },
+};
+
+// ============================================================================
+// EQUIPMENT SERVICE
+// ============================================================================
+
+const toEquipmentItem = (id: string, data: DocumentData): EquipmentItem => ({
+  id,
+  name: data.name ?? '',
+  description: data.description || undefined,
+  quantity: typeof data.quantity === 'number' ? data.quantity : 0,
+  isActive: data.isActive !== false,
+  createdAt: data.createdAt ?? undefined,
+  updatedAt: data.updatedAt ?? undefined,
+});
+
+/**
+ * Portable equipment inventory service.
+ *
+ * Admins keep the inventory of lendable items and their quantities; faculty reserve units
+ * with a booking. Availability is computed by a Cloud Function from the overlapping
+ * bookings, and the same check runs when a request is created and approved.
+ */
+export const equipmentService = {
+  /**
+   * Listen to the whole inventory, sorted by name.
+   */
+  subscribe(callback: (items: EquipmentItem[]) => void, errorCallback?: DataErrorCallback): Unsubscribe {
+    const q = query(collection(getDb(), COLLECTIONS.EQUIPMENT_ITEMS), orderBy('name'));
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map((d) => toEquipmentItem(d.id, d.data())));
+    }, (error) => {
+      logger.error('Equipment listener error:', error);
+      errorCallback?.(error);
+    });
+  },
+
+  /**
+   * Add an item to the inventory (admin only, enforced by security rules).
+   */
+  async create(item: Omit<EquipmentItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<EquipmentItem> {
+    const record = removeUndefinedValues({
+      ...item,
+      createdAt: nowIso(),
+      updatedAt: nowIso(),
+    });
+    const ref = await withRetry(() => addDoc(collection(getDb(), COLLECTIONS.EQUIPMENT_ITEMS), record), { attempts: 3, shouldRetry: isNetworkError });
+    return toEquipmentItem(ref.id, record);
+  },
+
+  /**
+   * Update an item's name, description, quantity or whether it can be reserved.
+   */
+  async update(id: string, updates: Partial<Omit<EquipmentItem, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.EQUIPMENT_ITEMS, id);
+    await withRetry(() => updateDoc(ref, { ...removeUndefinedValues(updates), updatedAt: nowIso() }), { attempts: 3, shouldRetry: isNetworkError });
+  },
+
+  /**
+   * Remove an item. Bookings that reserved it keep their copy of its name.
+   */
+  async delete(id: string): Promise<void> {
+    await withRetry(() => deleteDoc(doc(getDb(), COLLECTIONS.EQUIPMENT_ITEMS, id)), { attempts: 3, shouldRetry: isNetworkError });
+  },
+
+  /**
+   * Units of each reservable item still free for a prospective booking on the given dates.
+   * Pass the request or schedule being edited so it is not counted against itself.
+   */
+  async getAvailability(
+    dates: string[],
+    startTime: string,
+    endTime: string,
+    exclude?: { requestId?: string; scheduleId?: string }
+  ): Promise<EquipmentAvailability[]> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<
+        { dates: string[]; startTime: string; endTime: string; excludeRequestId?: string; excludeScheduleId?: string },
+        { items: EquipmentAvailability[] }
+      >(functions, 'getEquipmentAvailability');
+      const res = await withRetry(() => fn({
+        dates,
+        startTime,
+        endTime,
+        excludeRequestId: exclude?.requestId,
+        excludeScheduleId: exclude?.scheduleId,
+      }), { attempts: 3, shouldRetry: isNetworkError });
+      return res.data.items ?? [];
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to check equipment availability';
+      throw new Error(message);
+    }
+  },
+};
+
+// ============================================================================
+// WAITLIST SERVICE
+// ============================================================================
+
+const toWaitlistEntry = (id: string, data: DocumentData): WaitlistEntry => ({
+  id,
+  facultyId: data.facultyId,
+  facultyName: data.facultyName,
+  classroomId: data.classroomId,
+  classroomName: data.classroomName,
+  date: data.date,
+  startTime: data.startTime,
+  endTime: data.endTime,
+  purpose: data.purpose ?? '',
+  status: data.status,
+  autoConvert: data.autoConvert === true,
+  bookingRequestId: data.bookingRequestId ?? undefined,
+  createdAt: data.createdAt,
+  notifiedAt: data.notifiedAt ?? undefined,
+});
+
+/**
+ * Waitlist service for occupied time slots.
+ *
+ * Faculty join the waitlist for an exact room, date and time range. When a cancellation
+ * frees the slot, the Cloud Functions notify the first eligible entry or, if it opted in,
+ * turn it into a pending booking request. Clients only create and leave entries.
+ */
+export const waitlistService = {
+  /**
+   * Join the waitlist for a slot. Rejects duplicates of an active entry for the same slot.
+   */
+  async join(entry: Omit<WaitlistEntry, 'id' | 'status' | 'createdAt' | 'notifiedAt' | 'bookingRequestId'>): Promise<WaitlistEntry> {
+    const database = getDb();
+    const existing = await withRetry(() => getDocs(query(
+      collection(database, COLLECTIONS.WAITLIST_ENTRIES),
+      where('facultyId', '==', entry.facultyId),
+      where('classroomId', '==', entry.classroomId),
+      where('date', '==', entry.date)
+    )), { attempts: 3, shouldRetry: isNetworkError });
+    const duplicate = existing.docs.some((d) => {
+      const data = d.data();
+      return data.status === 'waiting' && data.startTime === entry.startTime && data.endTime === entry.endTime;
+    });
+    if (duplicate) {
+      throw new Error('You are already on the waitlist for this time slot.');
+    }
+
+    const record = {
+      ...entry,
+      status: 'waiting' as const,
+      createdAt: nowIso(),
+      updatedAt: nowIso(),
+    };
+    const ref = await addDoc(collection(database, COLLECTIONS.WAITLIST_ENTRIES), record);
+    return toWaitlistEntry(ref.id, record);
+  },
+
+  /**
+   * Leave the waitlist. The entry is kept with status 'cancelled'.
+   */
+  async leave(id: string): Promise<void> {
+    const ref = doc(getDb(), COLLECTIONS.WAITLIST_ENTRIES, id);
+    await withRetry(() => updateDoc(ref, { status: 'cancelled', updatedAt: nowIso() }), { attempts: 3, shouldRetry: isNetworkError });
+  },
+
+  /**
+   * Listen to a faculty member's waitlist entries, newest first.
+   */
+  subscribeForFaculty(
+    facultyId: string,
+    callback: (entries: WaitlistEntry[]) => void,
+    errorCallback?: DataErrorCallback
+  ): Unsubscribe {
+    const q = query(collection(getDb(), COLLECTIONS.WAITLIST_ENTRIES), where('facultyId', '==', facultyId));
+    return onSnapshot(q, (snapshot) => {
+      const entries = snapshot.docs
+        .map((d) => toWaitlistEntry(d.id, d.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      callback(entries);
+    }, (error) => {
+      logger.error('Waitlist listener error:', error);
+      errorCallback?.(error);
+    });
+  },
+};
+
+// ============================================================================
+// CALENDAR FEED SERVICE
+// ============================================================================
+
+/**
+ * Calendar feed service.
+ *
+ * Each user has a secret token for subscribing to their schedules (or a classroom's) from
+ * a calendar app. The token is created by the getCalendarFeed callable on first use;
+ * regenerating it revokes every feed URL built from the old one.
+ */
+export const calendarFeedService = {
+  /**
+   * The signed-in user's feed token and the base URL feed paths are appended to.
+   */
+  async get(): Promise<CalendarFeed> {
+    return calendarFeedService.call(false);
+  },
+
+  /**
+   * Replace the feed token; subscriptions using the old URLs stop updating.
+   */
+  async regenerate(): Promise<CalendarFeed> {
+    return calendarFeedService.call(true);
+  },
+
+  async call(regenerate: boolean): Promise<CalendarFeed> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<{ regenerate?: boolean }, CalendarFeed>(functions, 'getCalendarFeed');
+      const res = await withRetry(() => fn({ regenerate }), { attempts: 3, shouldRetry: isNetworkError });
+      return res.data;
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to load the calendar feed';
+      throw new Error(message);
+    }
+  },
+};
+
+// ============================================================================
+// SCHEMA MIGRATION SERVICE
+// ============================================================================
+
+/**
+ * Versioned schema migrations, run by the runSchemaMigrations Cloud Function. Admin only.
+ * Progress is kept server-side, so a run that stops (closed tab, failure) resumes where it
+ * stopped the next time.
+ */
+export const migrationService = {
+  async list(): Promise<SchemaMigration[]> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<void, { migrations: SchemaMigration[] }>(functions, 'getMigrationStatus');
+      const res = await withRetry(() => fn(), { attempts: 3, shouldRetry: isNetworkError });
+      return res.data.migrations;
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to load schema migrations';
+      throw new Error(message);
+    }
+  },
+
+  /**
+   * Run pending migrations for one time-boxed batch. Call again while the result is not
+   * `done`; a dry run continues from the `resume` point it returned.
+   */
+  async run(options: { dryRun?: boolean; resume?: MigrationResumePoint | null } = {}): Promise<MigrationRunResult> {
+    try {
+      const functions = getFunctions(getFirebaseApp(), 'us-central1');
+      const fn = httpsCallable<{ dryRun?: boolean; resume?: MigrationResumePoint | null }, MigrationRunResult>(functions, 'runSchemaMigrations');
+      // Not retried: a timed-out batch may still be running on the server
+      const res = await fn({ dryRun: options.dryRun === true, resume: options.resume ?? null });
+      return res.data;
+    } catch (err: any) {
+      const message = err?.message || err?.code || 'Failed to run schema migrations';
+      throw new Error(message);
+    }
+  },
+};
+
 // ============================================================================
 // AUDIT LOG SERVICE
 // ============================================================================
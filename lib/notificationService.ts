@@ -19,7 +19,7 @@ import { checkRateLimit, RATE_LIMITS } from './rateLimiter';
 /**
  * Types of notifications that can be sent to users
  */
-export type NotificationType = 'approved' | 'rejected' | 'info' | 'cancelled' | 'faculty_cancelled' | 'signup' | 'classroom_disabled';
+export type NotificationType = 'approved' | 'rejected' | 'info' | 'cancelled' | 'faculty_cancelled' | 'signup' | 'classroom_disabled' | 'waitlist';
 
 /**
  * Represents a notification in the system
@@ -4,9 +4,21 @@ import App from './App.tsx'
 import { Toaster } from './components/ui/sonner'
 import './styles/globals.css'
 import { logger } from './lib/logger'
+import { parseDisplayPath } from './utils/displays'
+
+// Door and lobby displays render on their own, without the signed-in app around them
+const DoorDisplay = React.lazy(() => import('./components/DoorDisplay'))
+const displayTarget = parseDisplayPath()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {displayTarget ? (
+      <React.Suspense fallback={null}>
+        <DoorDisplay target={displayTarget} />
+      </React.Suspense>
+    ) : (
+      <App />
+    )}
     {/* Global Toaster: single top-level instance so toasts render immediately during auth transitions */}
     <Toaster />
   </React.StrictMode>,
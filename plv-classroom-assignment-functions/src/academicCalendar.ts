@@ -0,0 +1,64 @@
+import * as admin from 'firebase-admin';
+import type { Transaction } from 'firebase-admin/firestore';
+
+// Server-side view of the admin-managed academic calendar stored at
+// `systemSettings/academicCalendar`. Mirrors utils/academicCalendar.ts on the client
+// so booking creation and approval enforce the same rules the booking UI shows.
+
+export type CalendarHoliday = { date: string; name: string };
+export type CalendarBlackout = { id: string; building: string; startDate: string; endDate: string; reason: string };
+
+export type AcademicCalendar = {
+  termName?: string;
+  termStart?: string;
+  termEnd?: string;
+  holidays: CalendarHoliday[];
+  blackouts: CalendarBlackout[];
+};
+
+export const ACADEMIC_CALENDAR_PATH = { collection: 'systemSettings', doc: 'academicCalendar' } as const;
+
+// Value used by blackouts that apply to every building
+export const ALL_BUILDINGS = '*';
+
+function toAcademicCalendar(data: admin.firestore.DocumentData | undefined): AcademicCalendar | null {
+  if (!data) return null;
+  return {
+    termName: typeof data.termName === 'string' ? data.termName : undefined,
+    termStart: typeof data.termStart === 'string' ? data.termStart : undefined,
+    termEnd: typeof data.termEnd === 'string' ? data.termEnd : undefined,
+    holidays: Array.isArray(data.holidays) ? data.holidays : [],
+    blackouts: Array.isArray(data.blackouts) ? data.blackouts : [],
+  };
+}
+
+// Reads the calendar, optionally inside a transaction. Returns null when no calendar
+// has been configured, in which case every date is bookable.
+export async function loadAcademicCalendar(tx?: Transaction): Promise<AcademicCalendar | null> {
+  const ref = admin.firestore().collection(ACADEMIC_CALENDAR_PATH.collection).doc(ACADEMIC_CALENDAR_PATH.doc);
+  const snap = tx ? await tx.get(ref) : await ref.get();
+  return snap.exists ? toAcademicCalendar(snap.data()) : null;
+}
+
+// Returns a human-readable reason when `date` cannot be booked in `building`, or null.
+export function getDateBlockReason(calendar: AcademicCalendar | null, date: string, building?: string | null): string | null {
+  if (!calendar || !date) return null;
+
+  if (calendar.termStart && date < calendar.termStart) {
+    return `${date} is before the start of the term (${calendar.termStart})`;
+  }
+  if (calendar.termEnd && date > calendar.termEnd) {
+    return `${date} is after the end of the term (${calendar.termEnd})`;
+  }
+
+  const holiday = calendar.holidays.find(h => h.date === date);
+  if (holiday) return `${date} is a holiday (${holiday.name})`;
+
+  const blackout = calendar.blackouts.find(b =>
+    (b.building === ALL_BUILDINGS || (!!building && b.building === building)) &&
+    date >= b.startDate && date <= b.endDate
+  );
+  if (blackout) return `${date} is blocked${blackout.building !== ALL_BUILDINGS ? ` in ${blackout.building}` : ''} (${blackout.reason})`;
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import * as admin from 'firebase-admin';
+
+// Department approvers are users with role 'approver'. They decide booking and signup
+// requests only for faculty who share one of their `departments`; admins decide all of
+// them. Mirrors utils/approvers.ts on the client so the dashboard lists the requests the
+// callables accept.
+
+export type UserRole = 'admin' | 'faculty' | 'approver';
+
+export const USER_ROLES: UserRole[] = ['admin', 'faculty', 'approver'];
+
+export type RoleClaims = {
+  admin?: boolean;
+  role?: string;
+  // Set for approvers so the Firestore rules can scope them without reading their user doc
+  departments?: string[];
+};
+
+// Departments of a user or signup record; older records only carry the single `department`
+export function getUserDepartments(data: admin.firestore.DocumentData | undefined): string[] {
+  if (!data) return [];
+  if (Array.isArray(data.departments) && data.departments.length > 0) {
+    return data.departments.filter((d: unknown): d is string => typeof d === 'string');
+  }
+  return typeof data.department === 'string' && data.department ? [data.department] : [];
+}
+
+// Custom claims for a user document, kept in sync by syncUserRoleClaims
+export function buildRoleClaims(data: admin.firestore.DocumentData | undefined): RoleClaims {
+  const role = data?.role || 'faculty';
+  const claims: RoleClaims = { role };
+  if (role === 'admin') {
+    claims.admin = true;
+  }
+  if (role === 'approver') {
+    claims.departments = getUserDepartments(data);
+  }
+  return claims;
+}
+
+// Whether the caller may decide requests from someone in the given departments
+export function canDecideFor(callerData: admin.firestore.DocumentData | undefined, departments: string[]): boolean {
+  if (callerData?.role === 'admin') return true;
+  if (callerData?.role !== 'approver') return false;
+  const own = getUserDepartments(callerData);
+  return departments.some(d => own.includes(d));
+}
+
+// Whether the caller may decide the booking requests of every one of the given faculty
+export async function canDecideBookingsOf(callerData: admin.firestore.DocumentData | undefined, facultyIds: string[]): Promise<boolean> {
+  if (callerData?.role === 'admin') return true;
+  if (callerData?.role !== 'approver') return false;
+  const ids = Array.from(new Set(facultyIds));
+  const snaps = await Promise.all(ids.map(id => admin.firestore().collection('users').doc(id).get()));
+  return snaps.every(snap => snap.exists && canDecideFor(callerData, getUserDepartments(snap.data())));
+}
+
+// Ids of the approvers responsible for someone in the given departments, for notifications
+export async function loadDepartmentApproverIds(departments: string[]): Promise<string[]> {
+  if (departments.length === 0) return [];
+  const snap = await admin.firestore().collection('users').where('role', '==', 'approver').get();
+  return snap.docs.filter(d => canDecideFor(d.data(), departments)).map(d => d.id);
+}
@@ -15,29 +15,36 @@ export type AuditEvent = {
   source?: string;
 };
 
-export async function logAuditEvent(event: AuditEvent): Promise<void> {
-  try {
-    const now = admin.firestore.Timestamp.now();
-    const expireAt = admin.firestore.Timestamp.fromDate(
-      new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-    );
+// Builds the audit document written by logAuditEvent. Exposed separately so callers
+// that need the audit entry to commit atomically with other writes can add it to
+// their own transaction or batch.
+export function buildAuditRecord(event: AuditEvent) {
+  const now = admin.firestore.Timestamp.now();
+  const expireAt = admin.firestore.Timestamp.fromDate(
+    new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+  );
+
+  // Lightweight deterministic-ish request id if caller doesn't provide one
+  const requestId = event.requestId || `${now.toMillis()}-${Math.random().toString(36).slice(2,10)}`;
 
-    // Lightweight deterministic-ish request id if caller doesn't provide one
-    const requestId = event.requestId || `${now.toMillis()}-${Math.random().toString(36).slice(2,10)}`;
+  return {
+    actionType: event.actionType,
+    userId: event.userId ?? null,
+    actorId: event.actorId ?? null,
+    status: event.status ?? 'unknown',
+    ip: event.ip ?? null,
+    requestId,
+    metadata: event.metadata ?? {},
+    source: event.source ?? 'cloud-function',
+    createdAt: now,
+    expireAt,
+    _v: 1,
+  } as const;
+}
 
-    const doc = {
-      actionType: event.actionType,
-      userId: event.userId ?? null,
-      actorId: event.actorId ?? null,
-      status: event.status ?? 'unknown',
-      ip: event.ip ?? null,
-      requestId,
-      metadata: event.metadata ?? {},
-      source: event.source ?? 'cloud-function',
-      createdAt: now,
-      expireAt,
-      _v: 1,
-    } as const;
+export async function logAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    const doc = buildAuditRecord(event);
 
     // Single lightweight write. Keep payload small to control cost/latency.
     await admin.firestore().collection('auditLogs').add(doc as any);
@@ -0,0 +1,92 @@
+import * as admin from 'firebase-admin';
+import { toCampusMillis } from './campusTime';
+
+// Server-side view of the admin-defined auto-approval rules stored at
+// `systemSettings/autoApprovalRules`. Mirrors utils/autoApproval.ts on the client so the
+// settings page describes the same matching the creation trigger applies.
+
+export type AutoApprovalRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Empty lists match any value
+  classroomIds: string[];
+  buildings: string[];
+  departments: string[];
+  facultyIds: string[];
+  // null means no limit
+  maxDurationMinutes: number | null;
+  minLeadMinutes: number | null;
+};
+
+export type AutoApprovalCandidate = {
+  classroomId: string;
+  building: string | null;
+  facultyId: string;
+  departments: string[];
+  date: string;
+  startTime: string;
+  endTime: string;
+};
+
+export const AUTO_APPROVAL_RULES_PATH = { collection: 'systemSettings', doc: 'autoApprovalRules' } as const;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.length > 0) : [];
+
+const toLimit = (value: unknown) => (typeof value === 'number' && value >= 0 ? value : null);
+
+function toAutoApprovalRule(value: any, index: number): AutoApprovalRule {
+  return {
+    id: typeof value?.id === 'string' ? value.id : `rule-${index + 1}`,
+    name: typeof value?.name === 'string' && value.name ? value.name : `Rule ${index + 1}`,
+    enabled: value?.enabled !== false,
+    classroomIds: toStringList(value?.classroomIds),
+    buildings: toStringList(value?.buildings),
+    departments: toStringList(value?.departments),
+    facultyIds: toStringList(value?.facultyIds),
+    maxDurationMinutes: toLimit(value?.maxDurationMinutes),
+    minLeadMinutes: toLimit(value?.minLeadMinutes),
+  };
+}
+
+// Reads the rules in priority order. Returns an empty list when none have been saved,
+// so every request waits for an admin.
+export async function loadAutoApprovalRules(): Promise<AutoApprovalRule[]> {
+  const snap = await admin.firestore().collection(AUTO_APPROVAL_RULES_PATH.collection).doc(AUTO_APPROVAL_RULES_PATH.doc).get();
+  const rules = snap.exists ? snap.data()?.rules : undefined;
+  return Array.isArray(rules) ? rules.map(toAutoApprovalRule) : [];
+}
+
+// Returns the first enabled rule whose conditions all hold for the request, or null.
+// Every condition left empty (or null) matches anything; a rule with no conditions at
+// all never matches so an empty rule cannot approve every request by accident.
+export function findMatchingRule(
+  rules: AutoApprovalRule[],
+  candidate: AutoApprovalCandidate,
+  now: Date = new Date()
+): AutoApprovalRule | null {
+  const duration = toMinutes(candidate.endTime) - toMinutes(candidate.startTime);
+  const start = toCampusMillis(candidate.date, candidate.startTime);
+  const leadMinutes = isNaN(start) ? -1 : (start - now.getTime()) / (60 * 1000);
+
+  return rules.find(rule => {
+    if (!rule.enabled) return false;
+    const hasCondition = rule.classroomIds.length > 0 || rule.buildings.length > 0 || rule.departments.length > 0
+      || rule.facultyIds.length > 0 || rule.maxDurationMinutes !== null || rule.minLeadMinutes !== null;
+    if (!hasCondition) return false;
+
+    if (rule.classroomIds.length > 0 && !rule.classroomIds.includes(candidate.classroomId)) return false;
+    if (rule.buildings.length > 0 && (!candidate.building || !rule.buildings.includes(candidate.building))) return false;
+    if (rule.departments.length > 0 && !candidate.departments.some(d => rule.departments.includes(d))) return false;
+    if (rule.facultyIds.length > 0 && !rule.facultyIds.includes(candidate.facultyId)) return false;
+    if (rule.maxDurationMinutes !== null && (duration <= 0 || duration > rule.maxDurationMinutes)) return false;
+    if (rule.minLeadMinutes !== null && leadMinutes < rule.minLeadMinutes) return false;
+    return true;
+  }) ?? null;
+}
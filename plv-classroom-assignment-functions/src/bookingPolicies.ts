@@ -0,0 +1,224 @@
+import * as admin from 'firebase-admin';
+import type { Transaction, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { toCampusMillis } from './campusTime';
+
+// Server-side view of the admin-managed booking policies stored at
+// `systemSettings/bookingPolicies`. Mirrors utils/bookingPolicies.ts on the client so
+// the booking form shows the same violations the server enforces on creation.
+
+export type BookingPolicies = {
+  maxDurationMinutes: number;
+  minLeadMinutes: number;
+  maxAdvanceDays: number;
+  maxWeeklyHours: number | null;
+};
+
+export type PolicyViolation = {
+  code: 'max_duration' | 'min_lead_time' | 'max_advance' | 'weekly_hours' | 'capacity' | 'equipment' | 'priority_window';
+  message: string;
+};
+
+export type PolicySlot = { date: string; startTime: string; endTime: string };
+
+export const BOOKING_POLICIES_PATH = { collection: 'systemSettings', doc: 'bookingPolicies' } as const;
+
+// Applies when no policies have been saved
+export const DEFAULT_BOOKING_POLICIES: BookingPolicies = {
+  maxDurationMinutes: 8 * 60,
+  minLeadMinutes: 5,
+  maxAdvanceDays: 60,
+  maxWeeklyHours: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const positiveNumber = (value: unknown, fallback: number) => (typeof value === 'number' && value >= 0 ? value : fallback);
+
+function toBookingPolicies(data: admin.firestore.DocumentData | undefined): BookingPolicies {
+  if (!data) return DEFAULT_BOOKING_POLICIES;
+  return {
+    maxDurationMinutes: positiveNumber(data.maxDurationMinutes, DEFAULT_BOOKING_POLICIES.maxDurationMinutes),
+    minLeadMinutes: positiveNumber(data.minLeadMinutes, DEFAULT_BOOKING_POLICIES.minLeadMinutes),
+    maxAdvanceDays: positiveNumber(data.maxAdvanceDays, DEFAULT_BOOKING_POLICIES.maxAdvanceDays),
+    maxWeeklyHours: typeof data.maxWeeklyHours === 'number' && data.maxWeeklyHours > 0 ? data.maxWeeklyHours : null,
+  };
+}
+
+// Reads the policies, optionally inside a transaction. Falls back to the defaults when
+// none have been saved.
+export async function loadBookingPolicies(tx?: Transaction): Promise<BookingPolicies> {
+  const ref = admin.firestore().collection(BOOKING_POLICIES_PATH.collection).doc(BOOKING_POLICIES_PATH.doc);
+  const snap = tx ? await tx.get(ref) : await ref.get();
+  return toBookingPolicies(snap.exists ? snap.data() : undefined);
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours} hour${hours !== 1 ? 's' : ''}`);
+  if (rest > 0 || hours === 0) parts.push(`${rest} minute${rest !== 1 ? 's' : ''}`);
+  return parts.join(' ');
+};
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// Monday of the week containing `date` (weeks run Monday to Sunday)
+export const getWeekStart = (date: string) => addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+// Loads the faculty member's other active reservations in the weeks covering `dates`:
+// confirmed schedules plus pending requests (one entry per occurrence). Approved requests
+// are represented by their schedules. A change request passes the schedule it replaces
+// so the moved reservation is not counted twice. The rooms of a multi-room event booking
+// count once, and the other rooms of the request's own group (`excludeGroupId`) not at all.
+export async function loadFacultyReservations(
+  facultyId: string,
+  dates: string[],
+  excludeRequestId?: string,
+  excludeScheduleId?: string,
+  excludeGroupId?: string
+): Promise<PolicySlot[]> {
+  if (dates.length === 0) return [];
+  const sorted = [...dates].sort();
+  const from = getWeekStart(sorted[0]);
+  const to = addDays(getWeekStart(sorted[sorted.length - 1]), 6);
+  const db = admin.firestore();
+
+  const [scheduleSnap, pendingSnap] = await Promise.all([
+    db.collection('schedules').where('facultyId', '==', facultyId).where('date', '>=', from).where('date', '<=', to).get(),
+    db.collection('bookingRequests').where('facultyId', '==', facultyId).where('status', '==', 'pending').get(),
+  ]);
+
+  const slots: PolicySlot[] = [];
+  const seenGroups = new Set<string>();
+  const isCountedGroup = (groupId: unknown, date: string) => {
+    if (typeof groupId !== 'string') return false;
+    if (groupId === excludeGroupId || seenGroups.has(`${groupId}|${date}`)) return true;
+    seenGroups.add(`${groupId}|${date}`);
+    return false;
+  };
+  scheduleSnap.docs.forEach((d: QueryDocumentSnapshot) => {
+    const s = d.data();
+    if (s.status !== 'confirmed' || d.id === excludeScheduleId || isCountedGroup(s.groupId, s.date)) return;
+    slots.push({ date: s.date, startTime: s.startTime, endTime: s.endTime });
+  });
+  pendingSnap.docs.forEach((d: QueryDocumentSnapshot) => {
+    if (d.id === excludeRequestId) return;
+    const r = d.data();
+    if (isCountedGroup(r.groupId, r.date)) return;
+    const occurrences: string[] = r.recurrence && Array.isArray(r.occurrenceDates) && r.occurrenceDates.length > 0 ? r.occurrenceDates : [r.date];
+    occurrences
+      .filter(date => date >= from && date <= to)
+      .forEach(date => slots.push({ date, startTime: r.startTime, endTime: r.endTime }));
+  });
+  return slots;
+}
+
+// Checks a request against the policies. The lead time and advance limit apply to the
+// first date; the duration and weekly cap apply to every occurrence. Returns an empty
+// list when the request is allowed.
+export function evaluateBookingPolicies(
+  policies: BookingPolicies,
+  booking: PolicySlot,
+  occurrenceDates: string[] = [booking.date],
+  existing: PolicySlot[] = [],
+  now: Date = new Date()
+): PolicyViolation[] {
+  const { maxDurationMinutes, minLeadMinutes, maxAdvanceDays, maxWeeklyHours } = policies;
+  const violations: PolicyViolation[] = [];
+  const duration = toMinutes(booking.endTime) - toMinutes(booking.startTime);
+  if (!booking.date || duration <= 0) return violations;
+
+  if (duration > maxDurationMinutes) {
+    violations.push({ code: 'max_duration', message: `Reservations can be at most ${formatMinutes(maxDurationMinutes)} long.` });
+  }
+
+  const start = toCampusMillis(booking.date, booking.startTime);
+  if (minLeadMinutes > 0 && !isNaN(start) && start - now.getTime() < minLeadMinutes * 60 * 1000) {
+    violations.push({ code: 'min_lead_time', message: `Reservations must be requested at least ${formatMinutes(minLeadMinutes)} before they start.` });
+  }
+
+  if (booking.date > addDays(now.toISOString().slice(0, 10), maxAdvanceDays)) {
+    violations.push({ code: 'max_advance', message: `Reservations can be made at most ${maxAdvanceDays} day${maxAdvanceDays !== 1 ? 's' : ''} in advance.` });
+  }
+
+  if (maxWeeklyHours !== null) {
+    const weekMinutes = new Map<string, number>();
+    const add = (date: string, amount: number) => weekMinutes.set(getWeekStart(date), (weekMinutes.get(getWeekStart(date)) ?? 0) + amount);
+    occurrenceDates.forEach(date => add(date, duration));
+    const requestedWeeks = new Set(weekMinutes.keys());
+    existing.forEach(slot => {
+      if (requestedWeeks.has(getWeekStart(slot.date))) add(slot.date, toMinutes(slot.endTime) - toMinutes(slot.startTime));
+    });
+    const over = Array.from(weekMinutes.entries()).sort(([a], [b]) => a.localeCompare(b)).find(([, total]) => total > maxWeeklyHours * 60);
+    if (over) {
+      violations.push({
+        code: 'weekly_hours',
+        message: `This would bring your reservations for the week of ${over[0]} to ${formatMinutes(over[1])}, over the ${maxWeeklyHours}-hour weekly limit.`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Checks the expected attendees against the room's capacity. Mirrors getCapacityViolation
+// in utils/capacity.ts; null when the group fits or either number is unknown.
+export function getCapacityViolation(classroom: { name?: unknown; capacity?: unknown } | undefined, attendees: unknown): PolicyViolation | null {
+  const capacity = classroom?.capacity;
+  if (typeof capacity !== 'number' || !(capacity > 0) || typeof attendees !== 'number' || !(attendees > 0) || attendees <= capacity) return null;
+  const name = typeof classroom?.name === 'string' ? classroom.name : 'This classroom';
+  return { code: 'capacity', message: `${name} seats ${capacity}, fewer than the ${attendees} expected attendees.` };
+}
+
+// Checks an event booking's expected attendees against the seats of all its rooms together,
+// since the attendees are spread over them. Mirrors getGroupCapacityViolation in
+// utils/capacity.ts; null when they fit or a count or capacity is unknown.
+export function getGroupCapacityViolation(rooms: Array<{ capacity?: unknown }>, attendees: unknown): PolicyViolation | null {
+  if (typeof attendees !== 'number' || !(attendees > 0) || rooms.length === 0) return null;
+  if (rooms.some((room) => typeof room.capacity !== 'number' || !(room.capacity > 0))) return null;
+  const seats = rooms.reduce((sum: number, room) => sum + (room.capacity as number), 0);
+  if (attendees <= seats) return null;
+  return { code: 'capacity', message: `The ${rooms.length} rooms seat ${seats} together, fewer than the ${attendees} expected attendees.` };
+}
+
+// The classrooms of every room of an event booking, for getGroupCapacityViolation. A room
+// that no longer exists is returned empty, which leaves the check undecided.
+export async function loadGroupClassrooms(groupId: string): Promise<admin.firestore.DocumentData[]> {
+  const db = admin.firestore();
+  const members = await db.collection('bookingRequests').where('groupId', '==', groupId).get();
+  const ids = Array.from(new Set(members.docs.map((d) => d.data().classroomId).filter((id): id is string => typeof id === 'string')));
+  if (ids.length === 0) return [];
+  const snaps = await db.getAll(...ids.map((id) => db.collection('classrooms').doc(id)));
+  return snaps.map((snap) => snap.data() ?? {});
+}
+
+// Checks a department-owned room's priority window: until `priorityWindowDays` before a
+// date only faculty of the owning department can request it. Mirrors
+// getPriorityWindowViolation in utils/classroomOwnership.ts; null when the room is open to
+// the requester for every date.
+export function getPriorityWindowViolation(
+  classroom: { name?: unknown; ownerDepartment?: unknown; priorityWindowDays?: unknown } | undefined,
+  departments: string[],
+  dates: string[],
+  now: Date = new Date()
+): PolicyViolation | null {
+  const owner = classroom?.ownerDepartment;
+  const days = classroom?.priorityWindowDays;
+  if (typeof owner !== 'string' || !owner || typeof days !== 'number' || !(days > 0) || departments.includes(owner)) return null;
+  const today = now.toISOString().slice(0, 10);
+  const blocked = dates.filter(date => addDays(date, -days) > today).sort();
+  if (blocked.length === 0) return null;
+  const last = blocked[blocked.length - 1];
+  const name = typeof classroom?.name === 'string' ? classroom.name : 'This classroom';
+  return {
+    code: 'priority_window',
+    message: `${name} belongs to ${owner}, whose faculty have priority until ${days} day${days !== 1 ? 's' : ''} before each date. Other departments can request it for ${last} from ${addDays(last, -days)}.`,
+  };
+}
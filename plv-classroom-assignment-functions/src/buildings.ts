@@ -0,0 +1,23 @@
+// Campus buildings, stored in the `buildings` collection. Classrooms reference one by
+// `buildingId` and keep its name in `building`, which is what operating hours and blackouts
+// are keyed by. Mirrors utils/buildings.ts.
+
+export const BUILDINGS_COLLECTION = 'buildings';
+
+// "  CEIT   Building " -> "CEIT Building"
+export function normalizeBuildingName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+// Key two spellings of the same building share
+export function getBuildingKey(name: string): string {
+  return normalizeBuildingName(name).toLowerCase();
+}
+
+// "CEIT Building" -> "CEIT", "Main Academic Building" -> "MA"
+export function suggestBuildingCode(name: string): string {
+  const words = normalizeBuildingName(name).split(' ').filter((w) => w && !/^(building|bldg\.?)$/i.test(w));
+  if (words.length === 0) return '';
+  if (words.length === 1) return words[0].replace(/[^a-z0-9]/gi, '').slice(0, 6).toUpperCase();
+  return words.map((w) => w[0]).join('').replace(/[^a-z0-9]/gi, '').slice(0, 6).toUpperCase();
+}
@@ -0,0 +1,154 @@
+import * as admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
+import { CAMPUS_TIME_ZONE } from './campusTime';
+
+// iCalendar (.ics) feeds of schedules that calendar apps subscribe to by URL. Every user
+// has one secret token, stored at `calendarFeedTokens/{uid}`; the token is the only
+// credential in the URL, so regenerating it revokes every copy of the old one. A feed lists
+// either the user's own schedules or one classroom's, and cancelled schedules stay in the
+// feed as cancelled events so subscribed calendars drop them. Mirrors utils/calendarFeeds.ts.
+
+export const FEED_TOKENS_COLLECTION = 'calendarFeedTokens';
+
+// Times are stored as wall-clock times in the campus time zone
+export const FEED_TIME_ZONE = CAMPUS_TIME_ZONE;
+
+// How far back feeds reach; calendar apps keep older events they already have
+export const FEED_PAST_DAYS = 60;
+
+export type FeedTarget = { kind: 'faculty' } | { kind: 'classroom'; classroomId: string };
+
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Base URL of the calendarFeed HTTPS function, which the client appends feed paths to
+export function getFeedBaseUrl(): string {
+  const projectId = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT || (() => {
+    try {
+      return JSON.parse(process.env.FIREBASE_CONFIG || '{}').projectId as string | undefined;
+    } catch (e) {
+      return undefined;
+    }
+  })();
+  return `https://us-central1-${projectId}.cloudfunctions.net/calendarFeed`;
+}
+
+// Reads "/<token>.ics" (the user's own schedules) or "/<token>/classrooms/<id>.ics"
+export function parseFeedPath(path: string): { token: string; target: FeedTarget } | null {
+  const own = path.match(/^\/([A-Za-z0-9_-]{16,64})\.ics$/);
+  if (own) return { token: own[1], target: { kind: 'faculty' } };
+  const room = path.match(/^\/([A-Za-z0-9_-]{16,64})\/classrooms\/([A-Za-z0-9_-]{1,128})\.ics$/);
+  if (room) return { token: room[1], target: { kind: 'classroom', classroomId: room[2] } };
+  return null;
+}
+
+// The approved, active user a feed token belongs to, or null for unknown or revoked tokens
+export async function loadFeedOwner(token: string): Promise<{ uid: string; data: admin.firestore.DocumentData } | null> {
+  const db = admin.firestore();
+  const tokenSnap = await db.collection(FEED_TOKENS_COLLECTION).where('token', '==', token).limit(1).get();
+  const uid = tokenSnap.docs[0]?.id;
+  if (!uid) return null;
+  const userSnap = await db.collection('users').doc(uid).get();
+  const data = userSnap.data();
+  if (!data || data.status !== 'approved') return null;
+  return { uid, data };
+}
+
+// Escapes a TEXT value (RFC 5545 section 3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Folds a content line to 75 octets, continuing with a leading space (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const chSize = Buffer.byteLength(ch, 'utf8');
+    if (size + chSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += chSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// "2026-10-19", "07:30" -> "20261019T073000"
+const toLocalDateTime = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+// An ISO timestamp as a UTC DATE-TIME, e.g. "20261019T023000Z"
+const toUtcDateTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Builds the VEVENT of a schedule; null for documents without a usable date and time
+export function buildScheduleEvent(id: string, data: admin.firestore.DocumentData, options: { showFaculty: boolean }): string[] | null {
+  if (typeof data.date !== 'string' || typeof data.startTime !== 'string' || typeof data.endTime !== 'string') return null;
+  const stamp = typeof data.updatedAt === 'string' && !isNaN(Date.parse(data.updatedAt)) ? data.updatedAt : new Date().toISOString();
+  const cancelled = data.status === 'cancelled';
+  const purpose = typeof data.purpose === 'string' && data.purpose.trim() ? data.purpose.trim() : 'Classroom reservation';
+  const room = typeof data.classroomName === 'string' ? data.classroomName : '';
+  const details = [
+    options.showFaculty && typeof data.facultyName === 'string' ? `Faculty: ${data.facultyName}` : '',
+    room ? `Room: ${room}` : '',
+    cancelled && typeof data.adminFeedback === 'string' && data.adminFeedback ? `Cancelled: ${data.adminFeedback}` : '',
+  ].filter(Boolean).join('\n');
+  return [
+    'BEGIN:VEVENT',
+    `UID:${id}@plv-classroom-schedules`,
+    `DTSTAMP:${toUtcDateTime(stamp)}`,
+    `LAST-MODIFIED:${toUtcDateTime(stamp)}`,
+    // Bumped on cancellation so calendar apps apply the change
+    `SEQUENCE:${cancelled ? 1 : 0}`,
+    `DTSTART;TZID=${FEED_TIME_ZONE}:${toLocalDateTime(data.date, data.startTime)}`,
+    `DTEND;TZID=${FEED_TIME_ZONE}:${toLocalDateTime(data.date, data.endTime)}`,
+    `SUMMARY:${escapeText(options.showFaculty && typeof data.facultyName === 'string' ? `${purpose} (${data.facultyName})` : purpose)}`,
+    ...(room ? [`LOCATION:${escapeText(room)}`] : []),
+    ...(details ? [`DESCRIPTION:${escapeText(details)}`] : []),
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+}
+
+// Wraps events in a VCALENDAR; the campus time zone has no daylight saving time
+export function buildCalendar(name: string, events: string[][]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PLV CEIT//Classroom Reservations//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${FEED_TIME_ZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'BEGIN:VTIMEZONE',
+    `TZID:${FEED_TIME_ZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0800',
+    'TZOFFSETTO:+0800',
+    'TZNAME:PST',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Loads the schedules of a feed from FEED_PAST_DAYS ago on, oldest first
+export async function loadFeedSchedules(target: FeedTarget, uid: string, now: Date = new Date()): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const db = admin.firestore();
+  const from = new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const query = target.kind === 'faculty'
+    ? db.collection('schedules').where('facultyId', '==', uid)
+    : db.collection('schedules').where('classroomId', '==', target.classroomId);
+  const snap = await query.where('date', '>=', from).get();
+  return snap.docs.sort((a, b) =>
+    String(a.get('date')).localeCompare(String(b.get('date'))) || String(a.get('startTime')).localeCompare(String(b.get('startTime'))));
+}
@@ -0,0 +1,57 @@
+import * as admin from 'firebase-admin';
+
+// Booking dates and times are wall-clock times on campus, but the functions run in UTC,
+// so they must never be parsed with a bare `new Date(date + 'T' + time)`. Bookings and
+// schedules carry `startAt`/`endAt` Firestore timestamps computed here; documents written
+// before those fields existed are read from their date and times the same way. Mirrors
+// getCampusInstant in utils/timeUtils.ts.
+
+export const CAMPUS_TIME_ZONE = 'Asia/Manila';
+
+// Philippine time has no daylight saving time, so the offset is fixed
+const CAMPUS_UTC_OFFSET = '+08:00';
+
+// Epoch milliseconds of a campus date (YYYY-MM-DD) and 24-hour time (HH:MM or HH:MM:SS),
+// or NaN when either cannot be parsed
+export function toCampusMillis(date: unknown, time: unknown): number {
+  if (typeof date !== 'string' || typeof time !== 'string') return NaN;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{1,2}:\d{2}(:\d{2})?$/.test(time)) return NaN;
+  const [hours, minutes, seconds = '00'] = time.split(':');
+  return Date.parse(`${date}T${hours.padStart(2, '0')}:${minutes}:${seconds}${CAMPUS_UTC_OFFSET}`);
+}
+
+// The startAt/endAt fields of a booking or schedule. Empty when the date or times cannot be
+// parsed, so the result can be spread into a write.
+export function toBookingTimestamps(date: unknown, startTime: unknown, endTime: unknown): { startAt?: admin.firestore.Timestamp; endAt?: admin.firestore.Timestamp } {
+  const start = toCampusMillis(date, startTime);
+  const end = toCampusMillis(date, endTime);
+  if (isNaN(start) || isNaN(end)) return {};
+  return { startAt: admin.firestore.Timestamp.fromMillis(start), endAt: admin.firestore.Timestamp.fromMillis(end) };
+}
+
+const toMillis = (value: unknown): number => {
+  if (value instanceof admin.firestore.Timestamp) return value.toMillis();
+  // Timestamps that went through JSON keep only their fields
+  const seconds = (value as { seconds?: unknown; _seconds?: unknown } | null)?.seconds ?? (value as { _seconds?: unknown } | null)?._seconds;
+  return typeof seconds === 'number' ? seconds * 1000 : NaN;
+};
+
+// Start of a booking or schedule document in epoch milliseconds: its startAt, or its date
+// and start time in campus time for documents not yet backfilled. NaN when neither is usable.
+export function getStartMillis(data: admin.firestore.DocumentData): number {
+  const stored = toMillis(data.startAt);
+  return isNaN(stored) ? toCampusMillis(data.date, data.startTime) : stored;
+}
+
+// End of a booking or schedule document in epoch milliseconds, like getStartMillis
+export function getEndMillis(data: admin.firestore.DocumentData): number {
+  const stored = toMillis(data.endAt);
+  return isNaN(stored) ? toCampusMillis(data.date, data.endTime) : stored;
+}
+
+// Whether a document's stored startAt/endAt are missing or disagree with its date and times
+export function needsTimestampBackfill(data: admin.firestore.DocumentData): boolean {
+  const expected = toBookingTimestamps(data.date, data.startTime, data.endTime);
+  if (!expected.startAt || !expected.endAt) return false;
+  return toMillis(data.startAt) !== expected.startAt.toMillis() || toMillis(data.endAt) !== expected.endAt.toMillis();
+}
@@ -0,0 +1,70 @@
+import * as admin from 'firebase-admin';
+import { toCampusMillis } from './campusTime';
+
+// Server-side view of the admin-managed check-in settings stored at
+// `systemSettings/checkIn`. Mirrors utils/checkIn.ts on the client so the check-in
+// dialog and the no-show release use the same window.
+
+export type CheckInSettings = {
+  // When false, faculty can still check in but nothing is released
+  enabled: boolean;
+  // Minutes after the start a reservation is held without a check-in
+  graceMinutes: number;
+};
+
+export const CHECK_IN_SETTINGS_PATH = { collection: 'systemSettings', doc: 'checkIn' } as const;
+
+// Check-in opens this many minutes before a reservation starts
+export const CHECK_IN_EARLY_MINUTES = 15;
+
+// Applies when no settings have been saved: no-show release stays off
+export const DEFAULT_CHECK_IN_SETTINGS: CheckInSettings = {
+  enabled: false,
+  graceMinutes: 15,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+function toCheckInSettings(data: admin.firestore.DocumentData | undefined): CheckInSettings {
+  if (!data) return DEFAULT_CHECK_IN_SETTINGS;
+  return {
+    enabled: data.enabled === true,
+    graceMinutes: typeof data.graceMinutes === 'number' && data.graceMinutes > 0 ? data.graceMinutes : DEFAULT_CHECK_IN_SETTINGS.graceMinutes,
+  };
+}
+
+export async function loadCheckInSettings(): Promise<CheckInSettings> {
+  const snap = await admin.firestore().collection(CHECK_IN_SETTINGS_PATH.collection).doc(CHECK_IN_SETTINGS_PATH.doc).get();
+  return toCheckInSettings(snap.exists ? snap.data() : undefined);
+}
+
+// Start and end of a reservation in epoch milliseconds, or null when unparseable.
+// Times are campus time, like everywhere else in the functions.
+export function getReservationRange(date: string, startTime: string, endTime: string): { start: number; end: number } | null {
+  const start = toCampusMillis(date, startTime);
+  const end = toCampusMillis(date, endTime);
+  return isNaN(start) || isNaN(end) ? null : { start, end };
+}
+
+// Whether a reservation can be checked in to at `now`: from shortly before it starts until it ends
+export function isWithinCheckInWindow(date: string, startTime: string, endTime: string, now: number = Date.now()): boolean {
+  const range = getReservationRange(date, startTime, endTime);
+  return !!range && now >= range.start - CHECK_IN_EARLY_MINUTES * MINUTE_MS && now < range.end;
+}
+
+// When a reservation without a check-in is released: after the grace period, or at its
+// end when the grace period is longer than the reservation
+export function getNoShowDeadline(date: string, startTime: string, endTime: string, graceMinutes: number): number | null {
+  const range = getReservationRange(date, startTime, endTime);
+  return range ? Math.min(range.start + graceMinutes * MINUTE_MS, range.end) : null;
+}
+
+// Local dates (YYYY-MM-DD) from the day before to the day after `now`, which covers every
+// reservation that can be open for check-in or due for release
+export function getCheckInDates(now: number = Date.now()): string[] {
+  return [-1, 0, 1].map((offset) => {
+    const d = new Date(now);
+    d.setDate(d.getDate() + offset);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  });
+}
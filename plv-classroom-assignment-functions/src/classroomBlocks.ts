@@ -0,0 +1,19 @@
+// Time ranges an admin blocked on a classroom, stored on the classroom document as
+// `blockedSlots`. A block has a date and 24-hour start and end times like a reservation, and
+// approval and the waitlist treat it as an occupied slot. Mirrors utils/classroomBlocks.ts.
+
+export type ClassroomBlock = {
+  id: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  reason?: string;
+};
+
+// The well-formed blocks of a classroom document
+export function toClassroomBlocks(value: unknown): ClassroomBlock[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((b): b is ClassroomBlock =>
+    !!b && typeof b.id === 'string' && typeof b.date === 'string'
+      && typeof b.startTime === 'string' && typeof b.endTime === 'string' && b.startTime < b.endTime);
+}
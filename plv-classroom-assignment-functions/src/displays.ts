@@ -0,0 +1,97 @@
+import * as admin from 'firebase-admin';
+
+// Server-side view of the admin-managed door display settings stored at
+// `systemSettings/displays`, and the trimmed-down schedule the public displays receive.
+// Mirrors utils/displays.ts on the client.
+
+export type DisplaySettings = {
+  // Show faculty as initials instead of full names
+  maskFacultyNames: boolean;
+};
+
+export type DisplayBooking = {
+  startTime: string;
+  endTime: string;
+  facultyName: string;
+};
+
+export type DisplayRoom = {
+  id: string;
+  name: string;
+  building: string;
+  isAvailable: boolean;
+  bookings: DisplayBooking[];
+};
+
+export const DISPLAY_SETTINGS_PATH = { collection: 'systemSettings', doc: 'displays' } as const;
+
+// Applies when no settings have been saved
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  maskFacultyNames: false,
+};
+
+export async function loadDisplaySettings(): Promise<DisplaySettings> {
+  const snap = await admin.firestore().collection(DISPLAY_SETTINGS_PATH.collection).doc(DISPLAY_SETTINGS_PATH.doc).get();
+  const data = snap.exists ? snap.data() : undefined;
+  return { maskFacultyNames: data?.maskFacultyNames === true };
+}
+
+// "Juan Dela Cruz" -> "J. D. C."
+export function maskName(name: string): string {
+  const initials = name.split(/\s+/).filter(Boolean).map((part) => `${part[0].toUpperCase()}.`);
+  return initials.length > 0 ? initials.join(' ') : 'Reserved';
+}
+
+// Whether `date` (YYYY-MM-DD) is within a day of `now`, so a display in any time zone can
+// ask for its own today but not browse other days
+export function isNearToday(date: string, now: number = Date.now()): boolean {
+  const time = new Date(`${date}T12:00:00`).getTime();
+  return !isNaN(time) && Math.abs(time - now) <= 36 * 60 * 60 * 1000;
+}
+
+// Loads the rooms to show with their confirmed reservations on `date`, sorted by start time.
+// Only times and the (optionally masked) faculty name leave the server.
+export async function loadDisplayRooms(
+  target: { classroomId: string } | { building: string },
+  date: string,
+  settings: DisplaySettings
+): Promise<DisplayRoom[]> {
+  const db = admin.firestore();
+  const classroomDocs = 'classroomId' in target
+    ? [await db.collection('classrooms').doc(target.classroomId).get()].filter((doc) => doc.exists)
+    : (await db.collection('classrooms').where('building', '==', target.building).get()).docs;
+  if (classroomDocs.length === 0) return [];
+
+  const roomIds = new Set(classroomDocs.map((doc) => doc.id));
+  const schedulesSnap = await db.collection('schedules')
+    .where('date', '==', date)
+    .where('status', '==', 'confirmed')
+    .get();
+
+  const bookingsByRoom = new Map<string, DisplayBooking[]>();
+  schedulesSnap.docs.forEach((doc) => {
+    const s = doc.data();
+    if (!roomIds.has(s.classroomId)) return;
+    const facultyName = typeof s.facultyName === 'string' ? s.facultyName : '';
+    const list = bookingsByRoom.get(s.classroomId) ?? [];
+    list.push({
+      startTime: s.startTime,
+      endTime: s.endTime,
+      facultyName: settings.maskFacultyNames ? maskName(facultyName) : facultyName || 'Reserved',
+    });
+    bookingsByRoom.set(s.classroomId, list);
+  });
+
+  return classroomDocs
+    .map((doc) => {
+      const c = doc.data() ?? {};
+      return {
+        id: doc.id,
+        name: typeof c.name === 'string' ? c.name : doc.id,
+        building: typeof c.building === 'string' ? c.building : '',
+        isAvailable: c.isAvailable !== false,
+        bookings: (bookingsByRoom.get(doc.id) ?? []).sort((a, b) => a.startTime.localeCompare(b.startTime)),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
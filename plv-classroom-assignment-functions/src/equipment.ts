@@ -0,0 +1,136 @@
+import * as admin from 'firebase-admin';
+import type { Transaction, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import type { PolicyViolation } from './bookingPolicies';
+
+// Server-side view of the portable equipment inventory stored in `equipmentItems`.
+// Mirrors utils/equipment.ts on the client so the booking form shows the same
+// availability the server enforces on creation and approval.
+
+export type EquipmentItem = {
+  id: string;
+  name: string;
+  quantity: number;
+  isActive: boolean;
+};
+
+// Items reserved with a booking, as stored on bookingRequests and schedules
+export type ReservedEquipment = {
+  equipmentId: string;
+  name: string;
+  quantity: number;
+};
+
+export const EQUIPMENT_COLLECTION = 'equipmentItems';
+
+const overlaps = (startA: string, endA: string, startB: string, endB: string) => startA < endB && endA > startB;
+
+function toEquipmentItem(id: string, data: admin.firestore.DocumentData): EquipmentItem {
+  return {
+    id,
+    name: typeof data.name === 'string' ? data.name : id,
+    quantity: typeof data.quantity === 'number' && data.quantity > 0 ? Math.floor(data.quantity) : 0,
+    isActive: data.isActive !== false,
+  };
+}
+
+// Normalizes the reservations stored on a booking, dropping malformed entries
+export function toReservedEquipment(value: unknown): ReservedEquipment[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is ReservedEquipment =>
+    !!item && typeof item.equipmentId === 'string' && typeof item.quantity === 'number' && Number.isInteger(item.quantity) && item.quantity > 0
+  ).map(item => ({ equipmentId: item.equipmentId, name: typeof item.name === 'string' ? item.name : item.equipmentId, quantity: item.quantity }));
+}
+
+// Reads the whole inventory, optionally inside a transaction
+export async function loadEquipmentInventory(tx?: Transaction): Promise<EquipmentItem[]> {
+  const ref = admin.firestore().collection(EQUIPMENT_COLLECTION);
+  const snap = tx ? await tx.get(ref) : await ref.get();
+  return snap.docs.map((d: QueryDocumentSnapshot) => toEquipmentItem(d.id, d.data()));
+}
+
+export type EquipmentHoldOptions = {
+  // The request being checked, which does not compete with itself
+  excludeRequestId?: string;
+  // The reservation a change request replaces
+  excludeScheduleId?: string;
+  // Pending requests hold their items too; approval only counts confirmed schedules
+  includePending?: boolean;
+  tx?: Transaction;
+};
+
+// Units of each item held, by equipment id
+export type EquipmentHolds = Map<string, number>;
+
+/**
+ * Units of each item held on each of the given dates by bookings that overlap
+ * startTime-endTime: confirmed schedules and, unless turned off, pending requests.
+ * Approved requests are represented by their schedules. Bookings that overlap the time
+ * range count for the whole range, so the totals can only overstate what is in use.
+ */
+export async function loadEquipmentHolds(
+  dates: string[],
+  startTime: string,
+  endTime: string,
+  { excludeRequestId, excludeScheduleId, includePending = true, tx }: EquipmentHoldOptions = {}
+): Promise<Map<string, EquipmentHolds>> {
+  const perDate = new Map<string, EquipmentHolds>();
+  if (dates.length === 0) return perDate;
+  const sorted = [...dates].sort();
+  const db = admin.firestore();
+  const get = (q: admin.firestore.Query) => (tx ? tx.get(q) : q.get());
+
+  const [scheduleSnap, pendingSnap] = await Promise.all([
+    get(db.collection('schedules').where('date', '>=', sorted[0]).where('date', '<=', sorted[sorted.length - 1])),
+    includePending ? get(db.collection('bookingRequests').where('status', '==', 'pending')) : Promise.resolve(null),
+  ]);
+
+  const add = (date: string, items: ReservedEquipment[]) => {
+    if (!dates.includes(date)) return;
+    const day: EquipmentHolds = perDate.get(date) ?? new Map();
+    items.forEach(item => day.set(item.equipmentId, (day.get(item.equipmentId) ?? 0) + item.quantity));
+    perDate.set(date, day);
+  };
+
+  scheduleSnap.docs.forEach((d: QueryDocumentSnapshot) => {
+    const s = d.data();
+    if (s.status !== 'confirmed' || d.id === excludeScheduleId || !overlaps(startTime, endTime, s.startTime, s.endTime)) return;
+    add(s.date, toReservedEquipment(s.reservedEquipment));
+  });
+  pendingSnap?.docs.forEach((d: QueryDocumentSnapshot) => {
+    const r = d.data();
+    if (d.id === excludeRequestId || !overlaps(startTime, endTime, r.startTime, r.endTime)) return;
+    const items = toReservedEquipment(r.reservedEquipment);
+    if (items.length === 0) return;
+    const occurrences: string[] = r.recurrence && Array.isArray(r.occurrenceDates) && r.occurrenceDates.length > 0 ? r.occurrenceDates : [r.date];
+    occurrences.forEach(date => add(date, items));
+  });
+
+  return perDate;
+}
+
+// The most units of each item held on any one of the dates
+export function getPeakHolds(perDate: Map<string, EquipmentHolds>): EquipmentHolds {
+  const peak: EquipmentHolds = new Map();
+  perDate.forEach(day => day.forEach((held, id) => peak.set(id, Math.max(peak.get(id) ?? 0, held))));
+  return peak;
+}
+
+// Checks requested items against the inventory and what is already held. Returns one
+// violation per item that is retired, unknown or short.
+export function getEquipmentViolations(
+  inventory: EquipmentItem[],
+  requested: ReservedEquipment[],
+  holds: EquipmentHolds = new Map()
+): PolicyViolation[] {
+  return requested.flatMap((item): PolicyViolation[] => {
+    const stock = inventory.find(i => i.id === item.equipmentId);
+    if (!stock || !stock.isActive) {
+      return [{ code: 'equipment', message: `${item.name} is no longer available for reservation.` }];
+    }
+    const available = Math.max(0, stock.quantity - (holds.get(stock.id) ?? 0));
+    if (item.quantity > available) {
+      return [{ code: 'equipment', message: `Only ${available} of ${stock.quantity} ${stock.name} available at that time; ${item.quantity} requested.` }];
+    }
+    return [];
+  });
+}
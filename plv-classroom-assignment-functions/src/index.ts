@@ -68,10 +68,11 @@ export const expirePastPendingBookings = scheduler.onSchedule(
   // Run hourly to reduce lag between a booking expiring and the UI reflecting that status
   { schedule: '0 * * * *', timeZone: 'Etc/UTC' },
   async (event: ScheduledEventLike) => {
-    const now = admin.firestore.Timestamp.now();
+    const now = Date.now();
 
-    // IMPORTANT: Prefer a proper timestamp field (startAt) on booking requests. This function
-    // handles both timestamp and legacy string-based (date/startTime) formats conservatively.
+    // Requests carry a startAt timestamp; ones written before it existed are read from
+    // their date and start time in campus time (see getStartMillis). A series stays
+    // approvable until its last occurrence starts, since approval skips the past ones.
     const snapshot = await db.collection('bookingRequests')
       .where('status', '==', 'pending')
       .get();
@@ -82,29 +83,15 @@ export const expirePastPendingBookings = scheduler.onSchedule(
   snapshot.forEach((doc: QueryDocumentSnapshot) => {
       const data = doc.data();
 
-      // If explicit timestamp exists, use it
-      let startTs: admin.firestore.Timestamp | null = null;
-      if (data.startAt && data.startAt._seconds) {
-        // already a Firestore Timestamp-like object
-        startTs = data.startAt as admin.firestore.Timestamp;
-      } else if (data.startAt && data.startAt.seconds) {
-        startTs = admin.firestore.Timestamp.fromMillis((data.startAt.seconds || 0) * 1000);
-      } else if (data.date && data.startTime) {
-        // Try to parse ISO-like strings. Expect date = 'YYYY-MM-DD' and startTime = 'HH:MM' or 'HH:MM:SS'
-        try {
-          const iso = `${data.date}T${data.startTime}`;
-          const parsed = new Date(iso);
-          if (!isNaN(parsed.getTime())) {
-            startTs = admin.firestore.Timestamp.fromDate(parsed);
-          }
-        } catch (e) {
-          // ignore parse errors
-        }
-      }
-
-      if (!startTs) return;
+      const occurrenceDates: string[] = data.recurrence && Array.isArray(data.occurrenceDates) && data.occurrenceDates.length > 0
+        ? [...data.occurrenceDates].sort()
+        : [];
+      const start = occurrenceDates.length > 0
+        ? toCampusMillis(occurrenceDates[occurrenceDates.length - 1], data.startTime)
+        : getStartMillis(data);
+      if (isNaN(start)) return;
 
-      if (startTs.toMillis() < now.toMillis()) {
+      if (start < now) {
         batch.update(doc.ref, {
           status: 'expired',
           adminFeedback: 'Auto-expired: booking date/time has passed',
@@ -164,6 +151,7 @@ export const autoReEnableDisabledClassrooms = scheduler.onSchedule(
             isAvailable: true,
             disabledUntil: admin.firestore.FieldValue.delete(),
             disableReason: admin.firestore.FieldValue.delete(),
+            activeMaintenanceId: admin.firestore.FieldValue.delete(),
             updatedAt: admin.firestore.FieldValue.serverTimestamp(),
           });
           
@@ -219,6 +207,88 @@ export const autoReEnableDisabledClassrooms = scheduler.onSchedule(
   }
 );
 
+/**
+ * Scheduled Cloud Function: apply and lift classroom maintenance windows.
+ *
+ * When a window starts the room is disabled until the window ends, with the window's reason;
+ * autoReEnableDisabledClassrooms or this job re-enables it afterwards, and ended windows are
+ * removed from the classroom. Rooms an admin disabled by hand are left alone, and so are rooms
+ * an admin re-enabled during a window. Within MAINTENANCE_FLAG_LEAD_DAYS of a window, admins are
+ * told once about the reservations inside it so they can be moved in time.
+ */
+export const applyMaintenanceWindows = scheduler.onSchedule(
+  { schedule: '*/15 * * * *', timeZone: 'Etc/UTC' },
+  async (event: ScheduledEventLike) => {
+    try {
+      const snapshot = await db.collection('classrooms').where('maintenanceWindows', '!=', []).get();
+      const now = Date.now();
+      const flagUntil = now + MAINTENANCE_FLAG_LEAD_DAYS * 24 * 60 * 60 * 1000;
+      const flagged: Array<{ classroomName: string; window: MaintenanceWindow; count: number }> = [];
+      let applied = 0;
+      let lifted = 0;
+
+      for (const doc of snapshot.docs) {
+        const data = doc.data();
+        const windows = toMaintenanceWindows(data.maintenanceWindows);
+        const remaining = windows.filter((w) => Date.parse(w.endAt) > now);
+        const active = remaining.find((w) => Date.parse(w.startAt) <= now);
+        const heldByMaintenance = typeof data.activeMaintenanceId === 'string';
+        const updates: Record<string, unknown> = {};
+
+        if (active && data.activeMaintenanceId !== active.id && (data.isAvailable !== false || heldByMaintenance)) {
+          updates.isAvailable = false;
+          updates.disabledUntil = active.endAt;
+          updates.disableReason = `Scheduled maintenance: ${active.reason}`;
+          updates.activeMaintenanceId = active.id;
+          applied++;
+        } else if (heldByMaintenance && !remaining.some((w) => w.id === data.activeMaintenanceId)) {
+          // The window ended or was removed before autoReEnableDisabledClassrooms ran
+          if (data.isAvailable === false) {
+            updates.isAvailable = true;
+            updates.disabledUntil = admin.firestore.FieldValue.delete();
+            updates.disableReason = admin.firestore.FieldValue.delete();
+            lifted++;
+          }
+          updates.activeMaintenanceId = admin.firestore.FieldValue.delete();
+        }
+
+        let windowsChanged = remaining.length !== windows.length;
+        for (const window of remaining) {
+          if (window.flaggedAt || Date.parse(window.startAt) > flagUntil) continue;
+          try {
+            const reservations = await loadReservationsInWindow(doc.id, window);
+            if (reservations.length > 0) flagged.push({ classroomName: data.name || 'Unknown', window, count: reservations.length });
+            window.flaggedAt = new Date(now).toISOString();
+            windowsChanged = true;
+          } catch (e) {
+            logger.error(`Failed to check reservations in maintenance window ${window.id} of classroom ${doc.id}`, e);
+          }
+        }
+        if (windowsChanged) updates.maintenanceWindows = remaining;
+
+        if (Object.keys(updates).length > 0) {
+          await doc.ref.update({ ...updates, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+        }
+      }
+
+      if (flagged.length > 0) {
+        const adminsSnap = await db.collection('users').where('role', '==', 'admin').get();
+        for (const { classroomName, window, count } of flagged) {
+          const message = `${count} reservation${count !== 1 ? 's' : ''} in "${classroomName}" fall${count === 1 ? 's' : ''} inside scheduled maintenance (${formatMaintenanceWindow(window)}: ${window.reason}). Move or cancel ${count !== 1 ? 'them' : 'it'} before the room closes.`;
+          await Promise.allSettled(adminsSnap.docs.map((adminDoc) =>
+            persistAndSendNotification(adminDoc.id, 'info', message, { bookingRequestId: null, adminFeedback: null, actorId: 'system' })
+              .catch((error) => logger.error(`Failed to notify admin ${adminDoc.id}:`, error))
+          ));
+        }
+      }
+
+      logger.info(`Maintenance windows: applied ${applied}, lifted ${lifted}, flagged ${flagged.length}`);
+    } catch (error) {
+      logger.error('Error in applyMaintenanceWindows:', error);
+    }
+  }
+);
+
 /**
  * Scheduled Cloud Function: run daily to automatically clean up acknowledged notifications
  * that are older than 72 hours (3 days). This reduces database clutter while maintaining
@@ -282,14 +352,69 @@ export const cleanupAcknowledgedNotifications = scheduler.onSchedule(
   }
 );
 
+/**
+ * Scheduled Cloud Function: run every 5 minutes to release confirmed reservations nobody
+ * checked in to within the grace period (see releaseNoShowSchedule). Does nothing until
+ * an admin enables no-show release in the check-in settings.
+ */
+export const releaseNoShowSchedules = scheduler.onSchedule(
+  { schedule: '*/5 * * * *', timeZone: 'Etc/UTC' },
+  async (event: ScheduledEventLike) => {
+    const settings = await loadCheckInSettings();
+    if (!settings.enabled) return;
+
+    const now = Date.now();
+    const snapshot = await db.collection('schedules')
+      .where('status', '==', 'confirmed')
+      .where('date', 'in', getCheckInDates(now))
+      .get();
+
+    // Only reservations whose deadline passed within the last hour, so enabling the
+    // setting does not mark reservations from before it was turned on
+    const due = snapshot.docs.filter((doc) => {
+      const data = doc.data();
+      if (data.checkedInAt) return false;
+      const deadline = getNoShowDeadline(data.date, data.startTime, data.endTime, settings.graceMinutes);
+      return deadline !== null && deadline <= now && deadline > now - 60 * 60 * 1000;
+    });
+
+    let released = 0;
+    for (const doc of due) {
+      try {
+        if (await releaseNoShowSchedule(doc.id, settings.graceMinutes)) released++;
+      } catch (e) {
+        logger.error(`Failed to release no-show schedule ${doc.id}`, e);
+      }
+    }
+
+    logger.info(`No-show job ran. Released ${released} of ${due.length} reservation(s) without a check-in.`);
+  }
+);
+
 /**
  * Firebase Cloud Functions for PLV Classroom Reservation System
  * Provides admin-level user management capabilities using Firebase Admin SDK
  */
 
-import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onCall, onRequest, HttpsError} from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
-import { logAuditEvent } from './auditService';
+import { logAuditEvent, buildAuditRecord } from './auditService';
+import { loadAcademicCalendar, getDateBlockReason } from './academicCalendar';
+import { loadOperatingHours, getOperatingHoursViolation } from './operatingHours';
+import { loadBookingPolicies, loadFacultyReservations, evaluateBookingPolicies, getCapacityViolation, getGroupCapacityViolation, loadGroupClassrooms, getPriorityWindowViolation } from './bookingPolicies';
+import { loadAutoApprovalRules, findMatchingRule } from './autoApproval';
+import { loadCheckInSettings, getCheckInDates, getNoShowDeadline, isWithinCheckInWindow } from './checkIn';
+import { loadDisplaySettings, loadDisplayRooms, isNearToday } from './displays';
+import { loadEquipmentInventory, loadEquipmentHolds, getPeakHolds, getEquipmentViolations, toReservedEquipment } from './equipment';
+import type { EquipmentHolds, EquipmentItem, ReservedEquipment } from './equipment';
+import { USER_ROLES, buildRoleClaims, canDecideFor, canDecideBookingsOf, getUserDepartments, loadDepartmentApproverIds } from './approvers';
+import type { UserRole } from './approvers';
+import { toCampusMillis, toBookingTimestamps, getStartMillis } from './campusTime';
+import { loadMigrationStates, runMigrations, MigrationBusyError } from './migrations';
+import { MAINTENANCE_FLAG_LEAD_DAYS, toMaintenanceWindows, formatMaintenanceWindow, getMaintenanceBlockReason, loadReservationsInWindow } from './maintenanceWindows';
+import type { MaintenanceWindow } from './maintenanceWindows';
+import { toClassroomBlocks } from './classroomBlocks';
+import { FEED_TOKENS_COLLECTION, generateFeedToken, getFeedBaseUrl, parseFeedPath, loadFeedOwner, loadFeedSchedules, buildScheduleEvent, buildCalendar } from './calendarFeeds';
 
 // Constants for brute force protection
 const MAX_FAILED_ATTEMPTS = 5;
@@ -324,7 +449,7 @@ export const deleteUserAccount = onCall(async (request: CallableRequest<{ userId
   }
 
   const callerData = callerDoc.data();
-  if (!callerData || callerData.role !== "admin") {
+  if (!callerData || (callerData.role !== "admin" && callerData.role !== "approver")) {
     throw new HttpsError("permission-denied",
       "Only admin users can delete accounts");
   }
@@ -335,6 +460,17 @@ export const deleteUserAccount = onCall(async (request: CallableRequest<{ userId
       "userId is required and must be a string");
   }
 
+  // Department approvers may only remove the account of a signup they reject
+  if (callerData.role === "approver") {
+    const targetDoc = await admin.firestore().collection("users").doc(userId).get();
+    const targetData = targetDoc.data();
+    if (!targetData || targetData.role !== "faculty" || targetData.status !== "pending" ||
+      !canDecideFor(callerData, getUserDepartments(targetData))) {
+      throw new HttpsError("permission-denied",
+        "Department approvers can only remove pending signups from their departments");
+    }
+  }
+
   try {
     const msg = `Admin ${callerUid} attempting to delete user ${userId}`;
     logger.info(msg);
@@ -380,6 +516,9 @@ export const deleteUserAccount = onCall(async (request: CallableRequest<{ userId
     await admin.firestore().collection("users").doc(userId).delete();
     logger.info(`Successfully deleted Firestore doc for ${userId}`);
 
+    // The user's calendar feed stops working with the account; drop its token too
+    await admin.firestore().collection(FEED_TOKENS_COLLECTION).doc(userId).delete();
+
     // Delete any pending signup requests for this user.
     // Handle both current ('uid') and legacy ('userId') field names to be robust
     // against older documents that may have used a different schema.
@@ -506,6 +645,13 @@ export const cancelBookingRequest = onCall(async (request: CallableRequest<{ boo
     await docRef.delete();
     logger.info(`Booking request ${bookingRequestId} cancelled by owner ${callerUid}`);
 
+    // The slot is free again: offer it to the waitlist (best-effort)
+    const freedDates: string[] = data.recurrence && Array.isArray(data.occurrenceDates) ? data.occurrenceDates : [data.date];
+    for (const date of freedDates) {
+      await offerFreedSlotToWaitlist({ classroomId: data.classroomId, date, startTime: data.startTime, endTime: data.endTime })
+        .catch((e) => logger.warn('Failed to offer freed slot to waitlist', e));
+    }
+
     // Audit: booking cancellation by owner
     logAuditEvent({
       actionType: 'booking.cancel',
@@ -580,7 +726,9 @@ export const deleteClassroomCascade = onCall(async (request: CallableRequest<{ c
         minutes = parts[1] ? parseInt(parts[1], 10) : 0;
       }
 
-      return new Date(y, m - 1, d, hours, minutes, 0, 0);
+      // Booking times are campus time, not the function's UTC
+      const millis = toCampusMillis(dateStr, `${hours}:${String(minutes).padStart(2, '0')}`);
+      return isNaN(millis) ? null : new Date(millis);
     } catch (e) {
       return null;
     }
@@ -682,180 +830,1300 @@ export const deleteClassroomCascade = onCall(async (request: CallableRequest<{ c
       logger.warn('Failed to delete deletion lock:', e);
     }
 
-    return { success: true, deletedRelated: deletedCount };
-  } catch (error) {
-    logger.error(`Error in deleteClassroomCascade for ${classroomId}:`, error);
-    // Attempt to clean up the lock if present
+    return { success: true, deletedRelated: deletedCount };
+  } catch (error) {
+    logger.error(`Error in deleteClassroomCascade for ${classroomId}:`, error);
+    // Attempt to clean up the lock if present
+    try {
+      const db = admin.firestore();
+      const lockRef = db.collection('deletionLocks').doc(classroomId);
+      const lockSnap = await lockRef.get();
+      if (lockSnap.exists) {
+        await lockRef.delete();
+      }
+    } catch (cleanupErr) {
+      logger.warn('Failed to cleanup deletion lock after error:', cleanupErr);
+    }
+
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError('internal', `Failed to delete classroom: ${error instanceof Error ? error.message : String(error)}`);
+  }
+});
+
+// Notifies about a cancelled approved reservation: every admin when its owner cancelled it,
+// otherwise the owner. `reservation` describes what was cancelled, e.g. "Room 301 on
+// 2026-10-20 08:00-09:30". Failures are logged, never thrown.
+async function notifyApprovedCancellation(
+  callerUid: string,
+  callerData: admin.firestore.DocumentData | undefined,
+  facultyId: string,
+  reservation: string,
+  feedback: string,
+  bookingRequestId: string | null
+): Promise<void> {
+  try {
+    if (callerUid === facultyId) {
+      // Faculty cancelled their own booking - notify all admins
+      logger.info(`Faculty member ${facultyId} cancelled their own reservation - notifying admins`);
+
+      const facultyName = (callerData && (callerData.name || callerData.displayName)) ? (callerData.name || callerData.displayName) : 'A faculty member';
+      const message = `${facultyName} cancelled their approved reservation for ${reservation}. Reason: ${feedback}`;
+
+      const adminsSnap = await admin.firestore().collection('users').where('role', '==', 'admin').get();
+      await Promise.all(
+        adminsSnap.docs.map((adminDoc) =>
+          persistAndSendNotification(adminDoc.id, 'faculty_cancelled', message, {
+            bookingRequestId,
+            adminFeedback: feedback,
+            actorId: callerUid
+          })
+        )
+      );
+      logger.info(`Notified ${adminsSnap.size} admin(s) about faculty cancellation`);
+    } else {
+      // Admin cancelled the booking - notify the faculty member
+      const adminName = (callerData && (callerData.name || callerData.displayName)) ? (callerData.name || callerData.displayName) : 'an administrator';
+      const message = `Admin ${adminName} cancelled your approved reservation for ${reservation}.`;
+      await persistAndSendNotification(facultyId, 'cancelled', message, { bookingRequestId, adminFeedback: feedback, actorId: callerUid });
+    }
+  } catch (err) {
+    logger.warn('Failed to create notification for a cancelled reservation', err);
+  }
+}
+
+/**
+ * Callable: cancel an approved booking as admin.
+ * Expects data: { scheduleId: string, adminFeedback: string }
+ * Only callable by users with role === 'admin' in `users` collection.
+ * A room of a multi-room event booking (`groupId`) is cancelled together with every
+ * other confirmed room of the group.
+ */
+export const cancelApprovedBooking = onCall(async (request: CallableRequest<{ scheduleId?: string; adminFeedback?: string }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const callerUid = request.auth.uid;
+  const callerDoc = await admin.firestore().collection('users').doc(callerUid).get();
+  if (!callerDoc.exists) {
+    throw new HttpsError('permission-denied', 'Caller user data not found');
+  }
+  const callerData = callerDoc.data();
+  // Allow either an admin or the owner (faculty) of the reservation to cancel it.
+  const callerRole = callerData?.role;
+
+  const { scheduleId, adminFeedback } = request.data || {};
+  if (!scheduleId || typeof scheduleId !== 'string') {
+    throw new HttpsError('invalid-argument', 'scheduleId is required and must be a string');
+  }
+  const feedback = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+  if (!feedback) {
+    throw new HttpsError('invalid-argument', 'adminFeedback (cancellation reason) is required');
+  }
+
+  try {
+    const ref = admin.firestore().collection('schedules').doc(scheduleId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      throw new HttpsError('not-found', 'Schedule not found');
+    }
+
+    const data = snap.data() as any;
+
+    // Check if schedule has already started/past, by its startAt or, for older documents,
+    // its date and start time in campus time
+    const start = getStartMillis(data);
+    if (!isNaN(start) && start <= Date.now()) {
+      throw new HttpsError('failed-precondition', 'Cannot cancel a booking that has already started or passed');
+    }
+
+    // Determine if caller is admin or the owner (facultyId must match callerUid)
+    const isOwner = !!data && data.facultyId === callerUid;
+    const isAdmin = callerRole === 'admin';
+    if (!isAdmin && !isOwner) {
+      throw new HttpsError('permission-denied', 'Only admins or the reservation owner can cancel this booking');
+    }
+
+    // The schedules to cancel: this one, or every confirmed room of its event group
+    const groupId: string | null = typeof data.groupId === 'string' ? data.groupId : null;
+    const groupSnap = groupId
+      ? await admin.firestore().collection('schedules').where('groupId', '==', groupId).where('status', '==', 'confirmed').get()
+      : null;
+    const cancelled: Record<string, any>[] = groupSnap && !groupSnap.empty ? groupSnap.docs.map(d => d.data()) : [data];
+    const rooms = cancelled.map(s => s.classroomName).join(', ');
+
+    // Perform the cancellation update
+    const scheduleBatch = admin.firestore().batch();
+    (groupSnap && !groupSnap.empty ? groupSnap.docs.map(d => d.ref) : [ref]).forEach(scheduleRef => {
+      scheduleBatch.update(scheduleRef, {
+        status: 'cancelled',
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        adminFeedback: feedback,
+      });
+    });
+    await scheduleBatch.commit();
+
+    // Also update corresponding bookingRequests (best-effort: find by matching fields, or by
+    // group). A recurring series request stays approved when a single occurrence is cancelled.
+    try {
+      const reqs = groupId
+        ? await admin.firestore().collection('bookingRequests')
+          .where('groupId', '==', groupId)
+          .where('status', '==', 'approved')
+          .get()
+        : await admin.firestore().collection('bookingRequests')
+          .where('facultyId', '==', data.facultyId)
+          .where('date', '==', data.date)
+          .where('startTime', '==', data.startTime)
+          .where('endTime', '==', data.endTime)
+          .where('classroomId', '==', data.classroomId)
+          .get();
+
+      const batch = admin.firestore().batch();
+      const related = reqs.docs.filter(d => !d.data().recurrence);
+      related.forEach(d => {
+        // Mark updatedBy so server-side triggers can avoid notifying the actor who initiated the cancellation
+        batch.update(d.ref, { status: 'cancelled', adminFeedback: feedback, updatedAt: admin.firestore.FieldValue.serverTimestamp(), updatedBy: callerUid });
+      });
+      if (related.length > 0) await batch.commit();
+    } catch (err) {
+      logger.warn('Failed to update related bookingRequests during cancelApprovedBooking', err);
+    }
+
+    // Notify the admins, or the faculty member when an admin cancelled (best-effort)
+    if (data && data.facultyId) {
+      await notifyApprovedCancellation(callerUid, callerData, data.facultyId, `${rooms} on ${data.date} ${data.startTime}-${data.endTime}`, feedback, data.seriesId ?? groupId);
+    }
+
+    // The slots are free again: offer them to the waitlist (best-effort)
+    for (const s of cancelled) {
+      await offerFreedSlotToWaitlist({ classroomId: s.classroomId, date: s.date, startTime: s.startTime, endTime: s.endTime })
+        .catch((e) => logger.warn('Failed to offer freed slot to waitlist', e));
+    }
+
+    return { success: true, cancelledCount: cancelled.length };
+  } catch (error: unknown) {
+    logger.error('Error in cancelApprovedBooking callable:', error);
+
+    // Audit: booking cancellation failure
+    logAuditEvent({
+      actionType: 'booking.cancel',
+      actorId: callerUid,
+      status: 'failure',
+      metadata: { scheduleId, error: String(error) },
+      source: 'cloud-function',
+    }).catch((e) => logger.error('logAuditEvent failed', e));
+
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError('internal', 'Failed to cancel approved booking');
+  }
+});
+
+/**
+ * Callable: cancel an approved recurring series.
+ * Expects data: { seriesId: string, adminFeedback: string }, the seriesId being the id of
+ * the series' booking request. Callable by admins and the owner of the series.
+ * Every confirmed occurrence that has not started yet is cancelled together with the series
+ * request in one batch; occurrences that already took place are kept as history. One
+ * notification covers the whole series, and each freed slot is offered to the waitlist.
+ */
+export const cancelApprovedSeries = onCall(async (request: CallableRequest<{ seriesId?: string; adminFeedback?: string }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const callerUid = request.auth.uid;
+  const callerDoc = await admin.firestore().collection('users').doc(callerUid).get();
+  if (!callerDoc.exists) {
+    throw new HttpsError('permission-denied', 'Caller user data not found');
+  }
+  const callerData = callerDoc.data();
+
+  const { seriesId, adminFeedback } = request.data || {};
+  if (!seriesId || typeof seriesId !== 'string') {
+    throw new HttpsError('invalid-argument', 'seriesId is required and must be a string');
+  }
+  const feedback = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+  if (!feedback) {
+    throw new HttpsError('invalid-argument', 'adminFeedback (cancellation reason) is required');
+  }
+
+  try {
+    const seriesRef = admin.firestore().collection('bookingRequests').doc(seriesId);
+    const seriesSnap = await seriesRef.get();
+    if (!seriesSnap.exists) {
+      throw new HttpsError('not-found', 'Booking request not found');
+    }
+    const data = seriesSnap.data() as Record<string, any>;
+    if (!data.recurrence) {
+      throw new HttpsError('failed-precondition', 'Booking request is not a recurring series');
+    }
+    if (data.status !== 'approved') {
+      throw new HttpsError('failed-precondition', 'Only an approved series can be cancelled');
+    }
+    if (callerData?.role !== 'admin' && data.facultyId !== callerUid) {
+      throw new HttpsError('permission-denied', 'Only admins or the reservation owner can cancel this booking');
+    }
+
+    const schedulesSnap = await admin.firestore().collection('schedules')
+      .where('seriesId', '==', seriesId)
+      .where('status', '==', 'confirmed')
+      .get();
+    const now = Date.now();
+    const upcoming = schedulesSnap.docs
+      .filter(d => {
+        const start = getStartMillis(d.data());
+        return isNaN(start) || start > now;
+      })
+      .sort((a, b) => String(a.data().date).localeCompare(String(b.data().date)));
+
+    const batch = admin.firestore().batch();
+    upcoming.forEach(d => {
+      batch.update(d.ref, {
+        status: 'cancelled',
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        adminFeedback: feedback,
+      });
+    });
+    // Mark updatedBy so server-side triggers can avoid notifying the actor who initiated the cancellation
+    batch.update(seriesRef, { status: 'cancelled', adminFeedback: feedback, updatedAt: admin.firestore.FieldValue.serverTimestamp(), updatedBy: callerUid });
+    await batch.commit();
+
+    if (data.facultyId) {
+      const occurrences = upcoming.length > 0
+        ? `${upcoming.length} occurrence${upcoming.length !== 1 ? 's' : ''} from ${upcoming[0].data().date}`
+        : `the series from ${data.date}`;
+      await notifyApprovedCancellation(callerUid, callerData, data.facultyId, `${data.classroomName}, ${occurrences}, ${data.startTime}-${data.endTime}`, feedback, seriesId);
+    }
+
+    // The slots are free again: offer them to the waitlist (best-effort)
+    for (const d of upcoming) {
+      const s = d.data();
+      await offerFreedSlotToWaitlist({ classroomId: s.classroomId, date: s.date, startTime: s.startTime, endTime: s.endTime })
+        .catch((e) => logger.warn('Failed to offer freed slot to waitlist', e));
+    }
+
+    return { success: true, scheduleIds: upcoming.map(d => d.id) };
+  } catch (error: unknown) {
+    logger.error('Error in cancelApprovedSeries callable:', error);
+
+    // Audit: series cancellation failure
+    logAuditEvent({
+      actionType: 'booking.cancel',
+      actorId: callerUid,
+      status: 'failure',
+      metadata: { seriesId, error: String(error) },
+      source: 'cloud-function',
+    }).catch((e) => logger.error('logAuditEvent failed', e));
+
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError('internal', 'Failed to cancel recurring series');
+  }
+});
+
+type ApprovalOptions = {
+  // Approving admin, or 'system' for auto-approval
+  actorId: string;
+  feedback: string;
+  source: 'cloud-function' | 'firestore-trigger';
+  // Extra audit metadata, e.g. the auto-approval rule that fired
+  auditMetadata?: Record<string, unknown>;
+};
+
+// What approving one request will write, worked out by planApproval before any write
+type ApprovalPlan = {
+  bookingRequestId: string;
+  data: Record<string, any>;
+  approvedDates: string[];
+  skippedDates: string[];
+  finalFeedback: string;
+  reservedEquipment: ReservedEquipment[];
+  changeOf?: { scheduleId: string; classroomId: string; date: string };
+  // The confirmed schedule a change request replaces, and the approved request it came from
+  original: Record<string, any> | null;
+  replacedRequestIds: string[];
+};
+
+/**
+ * Reads a pending request and everything its approval depends on inside the transaction,
+ * and decides which dates it gets. Only reads, so several requests can be planned before
+ * the first write. Throws an HttpsError when the request cannot be approved.
+ */
+async function planApproval(tx: Transaction, bookingRequestId: string, feedback: string): Promise<ApprovalPlan> {
+  const overlaps = (startA: string, endA: string, startB: string, endB: string) => startA < endB && endA > startB;
+  const hasStarted = (date: string, startTime: string) => {
+    const start = toCampusMillis(date, startTime);
+    return !isNaN(start) && start <= Date.now();
+  };
+
+  const db = admin.firestore();
+  const snap = await tx.get(db.collection('bookingRequests').doc(bookingRequestId));
+  if (!snap.exists) {
+    throw new HttpsError('not-found', 'Booking request not found');
+  }
+  const data = snap.data() as Record<string, any>;
+  if (data.status !== 'pending') {
+    throw new HttpsError('failed-precondition', 'Request has already been processed');
+  }
+
+  const occurrenceDates: string[] = Array.isArray(data.occurrenceDates) && data.occurrenceDates.length > 0
+    ? [...data.occurrenceDates].sort()
+    : [data.date];
+  const firstDate = occurrenceDates[0];
+  const lastDate = occurrenceDates[occurrenceDates.length - 1];
+
+  const [scheduleSnap, approvedSnap, calendar, operatingHours, classroomSnap] = await Promise.all([
+    tx.get(db.collection('schedules')
+      .where('classroomId', '==', data.classroomId)
+      .where('date', '>=', firstDate)
+      .where('date', '<=', lastDate)),
+    tx.get(db.collection('bookingRequests')
+      .where('classroomId', '==', data.classroomId)
+      .where('status', '==', 'approved')
+      .where('date', '>=', firstDate)
+      .where('date', '<=', lastDate)),
+    loadAcademicCalendar(tx),
+    loadOperatingHours(tx),
+    tx.get(db.collection('classrooms').doc(data.classroomId)),
+  ]);
+  const building: string | null = classroomSnap.exists ? classroomSnap.data()?.building ?? null : null;
+
+  // Change request: the reservation being replaced must still be confirmed and not yet started
+  const changeOf = data.changeOf as ApprovalPlan['changeOf'];
+  const [originalSnap, originalRequestsSnap] = changeOf
+    ? await Promise.all([
+      tx.get(db.collection('schedules').doc(changeOf.scheduleId)),
+      tx.get(db.collection('bookingRequests')
+        .where('facultyId', '==', data.facultyId)
+        .where('classroomId', '==', changeOf.classroomId)
+        .where('date', '==', changeOf.date)
+        .where('status', '==', 'approved')),
+    ])
+    : [null, null];
+  const original = originalSnap?.exists ? originalSnap.data() as Record<string, any> : null;
+  if (changeOf) {
+    if (!original || original.status !== 'confirmed' || original.facultyId !== data.facultyId) {
+      throw new HttpsError('failed-precondition', 'Cannot approve: the reservation this change replaces is no longer active');
+    }
+    if (hasStarted(original.date, original.startTime)) {
+      throw new HttpsError('failed-precondition', 'Cannot approve: the reservation this change replaces has already started');
+    }
+  }
+  // The approved single request the original schedule was created from
+  const replacedRequestIds: string[] = original
+    ? (originalRequestsSnap?.docs ?? [])
+      .filter((d: QueryDocumentSnapshot) => {
+        const r = d.data();
+        return !r.recurrence && r.startTime === original.startTime && r.endTime === original.endTime;
+      })
+      .map((d: QueryDocumentSnapshot) => d.id)
+    : [];
+
+  // Portable equipment held by other confirmed schedules at the same time
+  const reservedEquipment = toReservedEquipment(data.reservedEquipment);
+  const [inventory, equipmentHolds]: [EquipmentItem[], Map<string, EquipmentHolds>] = reservedEquipment.length > 0
+    ? await Promise.all([
+      loadEquipmentInventory(tx),
+      loadEquipmentHolds(occurrenceDates, data.startTime, data.endTime, {
+        excludeRequestId: bookingRequestId,
+        excludeScheduleId: changeOf?.scheduleId,
+        includePending: false,
+        tx,
+      }),
+    ])
+    : [[], new Map()];
+
+  // Dates closed by the academic calendar (holidays, blackouts, outside the term), whose
+  // operating hours do not cover the booked time, inside a maintenance window of the room or
+  // without enough of the reserved equipment left are treated like conflicts: a series
+  // skips them, a single booking fails.
+  const blocked = new Map<string, string>();
+  occurrenceDates.forEach(date => {
+    const reason = getDateBlockReason(calendar, date, building)
+      ?? getOperatingHoursViolation(operatingHours, date, data.startTime, data.endTime, building)
+      ?? getMaintenanceBlockReason(classroomSnap.data(), date, data.startTime, data.endTime)
+      ?? getEquipmentViolations(inventory, reservedEquipment, equipmentHolds.get(date))[0]?.message;
+    if (reason) blocked.set(date, reason);
+  });
+
+  const busy = new Set<string>();
+  scheduleSnap.docs.forEach((d: QueryDocumentSnapshot) => {
+    const s = d.data();
+    // The reservation being moved does not conflict with its own replacement
+    if (s.status === 'cancelled' || d.id === changeOf?.scheduleId) return;
+    if (overlaps(data.startTime, data.endTime, s.startTime, s.endTime)) busy.add(s.date);
+  });
+  approvedSnap.docs.forEach((d: QueryDocumentSnapshot) => {
+    const r = d.data();
+    // Approved series are represented by their schedules above
+    if (d.id === bookingRequestId || r.recurrence || replacedRequestIds.includes(d.id)) return;
+    if (overlaps(data.startTime, data.endTime, r.startTime, r.endTime)) busy.add(r.date);
+  });
+  // Time ranges an admin blocked on the room are occupied like a confirmed reservation
+  toClassroomBlocks(classroomSnap.data()?.blockedSlots).forEach((block) => {
+    if (occurrenceDates.includes(block.date) && overlaps(data.startTime, data.endTime, block.startTime, block.endTime)) busy.add(block.date);
+  });
+
+  const approvedDates = occurrenceDates.filter(date => !busy.has(date) && !blocked.has(date) && !hasStarted(date, data.startTime));
+  const skippedDates = occurrenceDates.filter(date => !approvedDates.includes(date));
+
+  if (!data.recurrence && blocked.has(data.date)) {
+    throw new HttpsError('failed-precondition', `Cannot approve: ${blocked.get(data.date)}`);
+  }
+  if (approvedDates.length === 0) {
+    throw new HttpsError(
+      'failed-precondition',
+      data.recurrence
+        ? 'Cannot approve: every occurrence of this series conflicts with an existing booking, falls on a closed date or has already started'
+        : 'Cannot approve: conflicts with an existing confirmed booking or the booking time has passed'
+    );
+  }
+  if (!data.recurrence && skippedDates.length > 0) {
+    throw new HttpsError('failed-precondition', 'Cannot approve: conflicts with an existing confirmed booking');
+  }
+
+  const skippedNote = skippedDates.length > 0
+    ? `Skipped ${skippedDates.length} unavailable occurrence(s): ${skippedDates.join(', ')}`
+    : '';
+  const finalFeedback = [feedback, skippedNote].filter(Boolean).join('\n');
+
+  return { bookingRequestId, data, approvedDates, skippedDates, finalFeedback, reservedEquipment, changeOf, original, replacedRequestIds };
+}
+
+/**
+ * Writes a planned approval: the new schedule(s), the swap for a change request, the status
+ * change and the audit entry. Returns the ids of the new schedules.
+ */
+function commitApproval(
+  tx: Transaction,
+  plan: ApprovalPlan,
+  { actorId, source, auditMetadata }: Omit<ApprovalOptions, 'feedback'>
+): string[] {
+  const db = admin.firestore();
+  const { bookingRequestId, data, approvedDates, skippedDates, finalFeedback, reservedEquipment, changeOf, original, replacedRequestIds } = plan;
+
+  const scheduleIds: string[] = [];
+  for (const date of approvedDates) {
+    const scheduleRef = db.collection('schedules').doc();
+    scheduleIds.push(scheduleRef.id);
+    tx.set(scheduleRef, {
+      classroomId: data.classroomId,
+      classroomName: data.classroomName,
+      facultyId: data.facultyId,
+      facultyName: data.facultyName,
+      date,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      ...toBookingTimestamps(date, data.startTime, data.endTime),
+      purpose: data.purpose,
+      ...(typeof data.expectedAttendees === 'number' ? { expectedAttendees: data.expectedAttendees } : {}),
+      ...(reservedEquipment.length > 0 ? { reservedEquipment } : {}),
+      status: 'confirmed',
+      ...(data.recurrence ? { seriesId: bookingRequestId } : {}),
+      // A moved series occurrence stays part of its series
+      ...(original?.seriesId ? { seriesId: original.seriesId } : {}),
+      ...(changeOf ? { rescheduledFrom: changeOf.scheduleId } : {}),
+      ...(typeof data.groupId === 'string' ? { groupId: data.groupId } : {}),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  if (changeOf) {
+    const movedNote = `Rescheduled to ${data.classroomName} on ${data.date} ${data.startTime}-${data.endTime}`;
+    tx.update(db.collection('schedules').doc(changeOf.scheduleId), {
+      status: 'cancelled',
+      rescheduledTo: scheduleIds[0],
+      adminFeedback: movedNote,
+      updatedAt: new Date().toISOString(),
+    });
+    replacedRequestIds.forEach(id => {
+      tx.update(db.collection('bookingRequests').doc(id), {
+        status: 'cancelled',
+        adminFeedback: movedNote,
+        updatedAt: new Date().toISOString(),
+        updatedBy: actorId,
+      });
+    });
+  }
+
+  tx.update(db.collection('bookingRequests').doc(bookingRequestId), {
+    status: 'approved',
+    ...(finalFeedback ? { adminFeedback: finalFeedback } : {}),
+    ...(skippedDates.length > 0 ? { skippedDates } : {}),
+    resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: new Date().toISOString(),
+    // Mark updatedBy so server-side triggers can avoid notifying the approver
+    updatedBy: actorId,
+  });
+
+  tx.set(db.collection('auditLogs').doc(), buildAuditRecord({
+    actionType: 'booking.approve',
+    actorId: actorId,
+    userId: data.facultyId,
+    status: 'success',
+    metadata: {
+      bookingRequestId,
+      classroomId: data.classroomId,
+      scheduleIds,
+      skippedDates,
+      ...(changeOf ? { replacedScheduleId: changeOf.scheduleId, replacedRequestIds } : {}),
+      ...(typeof data.groupId === 'string' ? { groupId: data.groupId } : {}),
+      ...auditMetadata,
+    },
+    source,
+  }));
+
+  return scheduleIds;
+}
+
+/**
+ * Approves a pending booking request. Shared by the admin callable and auto-approval.
+ *
+ * Overlaps against confirmed schedules and approved bookingRequests are re-checked inside a
+ * Firestore transaction, so two admins approving overlapping requests at the same moment cannot
+ * both succeed. The status change, the new schedule(s) and the audit entry commit together.
+ * For a recurring series, conflicting or already-started occurrences are skipped and recorded
+ * in `skippedDates`; the approval fails only when no occurrence is left.
+ * A change request (`changeOf`) swaps in the same transaction: the original schedule and the
+ * approved request it came from are cancelled and the new schedule is created in their place.
+ * Reserved portable equipment is re-checked against confirmed schedules the same way: a date
+ * without enough units left is treated like a closed date.
+ * Throws an HttpsError when the request cannot be approved.
+ */
+async function approvePendingRequest(
+  bookingRequestId: string,
+  { actorId, feedback, source, auditMetadata }: ApprovalOptions
+): Promise<{ scheduleIds: string[]; skippedDates: string[] }> {
+  const db = admin.firestore();
+
+  const result = await db.runTransaction(async (tx: Transaction) => {
+    const plan = await planApproval(tx, bookingRequestId, feedback);
+    return { ...plan, scheduleIds: commitApproval(tx, plan, { actorId, source, auditMetadata }) };
+  });
+
+  // Notify the faculty member once the approval is committed (best-effort)
+  try {
+    const { data, finalFeedback } = result;
+    const when = data.recurrence
+      ? `starting ${data.date} (${result.scheduleIds.length} occurrence(s))`
+      : `on ${data.date}`;
+    const message = result.original
+      ? `Your change request was approved. Your reservation for ${result.original.classroomName} on ${result.original.date} ${result.original.startTime}-${result.original.endTime} is now ${data.classroomName} on ${data.date} ${data.startTime}-${data.endTime}.`
+      : `Your booking request for ${data.classroomName} ${when} ${data.startTime}-${data.endTime} was approved.`;
+    await persistAndSendNotification(data.facultyId, 'approved', message, { bookingRequestId, adminFeedback: finalFeedback || null, actorId });
+  } catch (notifyErr) {
+    logger.warn('Failed to notify faculty after approval', notifyErr);
+  }
+
+  // A change request frees the original slot: offer it to the waitlist (best-effort)
+  if (result.original) {
+    const { classroomId, date, startTime, endTime } = result.original;
+    await offerFreedSlotToWaitlist({ classroomId, date, startTime, endTime })
+      .catch((e) => logger.warn('Failed to offer freed slot to waitlist', e));
+  }
+
+  return { scheduleIds: result.scheduleIds, skippedDates: result.skippedDates };
+}
+
+// Admins decide every booking request; department approvers only those made by faculty
+// in their departments. Throws a permission-denied HttpsError otherwise.
+async function assertCanDecideBookings(callerData: admin.firestore.DocumentData | undefined, facultyIds: string[]): Promise<void> {
+  if (!(await canDecideBookingsOf(callerData, facultyIds))) {
+    throw new HttpsError('permission-denied', 'You can only decide requests from faculty in your departments');
+  }
+}
+
+/**
+ * Callable: approve a pending booking request as admin or department approver.
+ * Expects data: { bookingRequestId: string, adminFeedback?: string }
+ *
+ * See approvePendingRequest for how conflicts, series and change requests are handled.
+ */
+export const approveBookingRequest = onCall(async (request: CallableRequest<{ bookingRequestId?: string; adminFeedback?: string }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const callerUid = request.auth.uid;
+  const callerDoc = await admin.firestore().collection('users').doc(callerUid).get();
+  if (!callerDoc.exists) {
+    throw new HttpsError('permission-denied', 'Caller user data not found');
+  }
+  const callerData = callerDoc.data();
+  if (!callerData || (callerData.role !== 'admin' && callerData.role !== 'approver')) {
+    throw new HttpsError('permission-denied', 'Only admins and department approvers can approve booking requests');
+  }
+
+  const { bookingRequestId, adminFeedback } = request.data || {};
+  if (!bookingRequestId || typeof bookingRequestId !== 'string') {
+    throw new HttpsError('invalid-argument', 'bookingRequestId is required and must be a string');
+  }
+  const feedback = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+  if (feedback.length > 500) {
+    throw new HttpsError('invalid-argument', 'adminFeedback must be 500 characters or less');
+  }
+
+  try {
+    const requestSnap = await admin.firestore().collection('bookingRequests').doc(bookingRequestId).get();
+    if (requestSnap.exists) {
+      await assertCanDecideBookings(callerData, [requestSnap.data()?.facultyId]);
+      // The rooms of an event booking are only approved together
+      if (typeof requestSnap.data()?.groupId === 'string') {
+        throw new HttpsError('failed-precondition', 'This room is part of an event booking; approve the whole event instead');
+      }
+    }
+
+    const { scheduleIds, skippedDates } = await approvePendingRequest(bookingRequestId, { actorId: callerUid, feedback, source: 'cloud-function' });
+    return { success: true, scheduleIds, skippedDates };
+  } catch (error: unknown) {
+    logger.error('Error in approveBookingRequest callable:', error);
+
+    // Audit: booking approval failure
+    logAuditEvent({
+      actionType: 'booking.approve',
+      actorId: callerUid,
+      status: 'failure',
+      metadata: { bookingRequestId, error: String(error) },
+      source: 'cloud-function',
+    }).catch((e) => logger.error('logAuditEvent failed', e));
+
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError('internal', 'Failed to approve booking request');
+  }
+});
+
+// The requests of a multi-room event booking, read inside a transaction. Each room is its
+// own bookingRequest sharing the groupId, which is the id of the first room's request.
+async function loadBookingGroup(tx: Transaction, groupId: string): Promise<QueryDocumentSnapshot[]> {
+  const snap = await tx.get(admin.firestore().collection('bookingRequests').where('groupId', '==', groupId));
+  if (snap.empty) {
+    throw new HttpsError('not-found', 'Booking group not found');
+  }
+  return snap.docs;
+}
+
+const describeGroupRooms = (members: Record<string, any>[]) => members.map(m => m.classroomName).join(', ');
+
+/**
+ * Callable: approve every room of a multi-room event booking as admin or department approver.
+ * Expects data: { groupId: string, adminFeedback?: string }
+ *
+ * The group is approved as a unit in one transaction: each room is checked the way
+ * approvePendingRequest checks a single request, and no schedule is created unless every
+ * room can be booked.
+ */
+export const approveBookingGroup = onCall(async (request: CallableRequest<{ groupId?: string; adminFeedback?: string }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const callerUid = request.auth.uid;
+  const callerDoc = await admin.firestore().collection('users').doc(callerUid).get();
+  if (!callerDoc.exists) {
+    throw new HttpsError('permission-denied', 'Caller user data not found');
+  }
+  const callerData = callerDoc.data();
+  if (!callerData || (callerData.role !== 'admin' && callerData.role !== 'approver')) {
+    throw new HttpsError('permission-denied', 'Only admins and department approvers can approve booking requests');
+  }
+
+  const { groupId, adminFeedback } = request.data || {};
+  if (!groupId || typeof groupId !== 'string') {
+    throw new HttpsError('invalid-argument', 'groupId is required and must be a string');
+  }
+  const feedback = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+  if (feedback.length > 500) {
+    throw new HttpsError('invalid-argument', 'adminFeedback must be 500 characters or less');
+  }
+
+  try {
+    const db = admin.firestore();
+    const groupSnap = await db.collection('bookingRequests').where('groupId', '==', groupId).get();
+    await assertCanDecideBookings(callerData, groupSnap.docs.map(d => d.data().facultyId));
+
+    const result = await db.runTransaction(async (tx: Transaction) => {
+      const members = await loadBookingGroup(tx, groupId);
+      if (members.some(d => d.data().status !== 'pending')) {
+        throw new HttpsError('failed-precondition', 'This event booking has already been processed');
+      }
+
+      const plans: ApprovalPlan[] = [];
+      for (const member of members) {
+        try {
+          plans.push(await planApproval(tx, member.id, feedback));
+        } catch (err) {
+          // Name the room that holds the group back
+          if (err instanceof HttpsError) throw new HttpsError(err.code, `${member.data().classroomName}: ${err.message}`);
+          throw err;
+        }
+      }
+      // The new schedule ids of each room, by bookingRequest id
+      const scheduleIds: Record<string, string[]> = {};
+      plans.forEach(plan => {
+        scheduleIds[plan.bookingRequestId] = commitApproval(tx, plan, { actorId: callerUid, source: 'cloud-function' });
+      });
+      return { members: plans.map(plan => plan.data), scheduleIds };
+    });
+
+    // Notify the faculty member once for the whole group (best-effort)
+    try {
+      const lead = result.members[0];
+      const message = `Your event booking for ${describeGroupRooms(result.members)} on ${lead.date} ${lead.startTime}-${lead.endTime} was approved.`;
+      await persistAndSendNotification(lead.facultyId, 'approved', message, { bookingRequestId: groupId, adminFeedback: feedback || null, actorId: callerUid });
+    } catch (notifyErr) {
+      logger.warn('Failed to notify faculty after group approval', notifyErr);
+    }
+
+    return { success: true, scheduleIds: result.scheduleIds };
+  } catch (error: unknown) {
+    logger.error('Error in approveBookingGroup callable:', error);
+
+    // Audit: group approval failure
+    logAuditEvent({
+      actionType: 'booking.approve',
+      actorId: callerUid,
+      status: 'failure',
+      metadata: { groupId, error: String(error) },
+      source: 'cloud-function',
+    }).catch((e) => logger.error('logAuditEvent failed', e));
+
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError('internal', 'Failed to approve booking group');
+  }
+});
+
+/**
+ * Callable: reject every room of a multi-room event booking as admin or department approver.
+ * Expects data: { groupId: string, adminFeedback: string }
+ *
+ * All pending rooms are rejected in one transaction; the status change of each is audited
+ * by bookingRequestOnUpdateNotifyAdmins.
+ */
+export const rejectBookingGroup = onCall(async (request: CallableRequest<{ groupId?: string; adminFeedback?: string }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const callerUid = request.auth.uid;
+  const callerDoc = await admin.firestore().collection('users').doc(callerUid).get();
+  if (!callerDoc.exists) {
+    throw new HttpsError('permission-denied', 'Caller user data not found');
+  }
+  const callerData = callerDoc.data();
+  if (!callerData || (callerData.role !== 'admin' && callerData.role !== 'approver')) {
+    throw new HttpsError('permission-denied', 'Only admins and department approvers can reject booking requests');
+  }
+
+  const { groupId, adminFeedback } = request.data || {};
+  if (!groupId || typeof groupId !== 'string') {
+    throw new HttpsError('invalid-argument', 'groupId is required and must be a string');
+  }
+  const feedback = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
+  if (!feedback) {
+    throw new HttpsError('invalid-argument', 'adminFeedback (rejection reason) is required');
+  }
+  if (feedback.length > 500) {
+    throw new HttpsError('invalid-argument', 'adminFeedback must be 500 characters or less');
+  }
+
+  try {
+    const db = admin.firestore();
+    const groupSnap = await db.collection('bookingRequests').where('groupId', '==', groupId).get();
+    await assertCanDecideBookings(callerData, groupSnap.docs.map(d => d.data().facultyId));
+
+    const result = await db.runTransaction(async (tx: Transaction) => {
+      const members = await loadBookingGroup(tx, groupId);
+      if (members.some(d => d.data().status !== 'pending')) {
+        throw new HttpsError('failed-precondition', 'This event booking has already been processed');
+      }
+      members.forEach(member => {
+        tx.update(member.ref, {
+          status: 'rejected',
+          adminFeedback: feedback,
+          resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: new Date().toISOString(),
+          updatedBy: callerUid,
+        });
+      });
+      return { members: members.map(d => d.data()), bookingRequestIds: members.map(d => d.id) };
+    });
+
+    try {
+      const lead = result.members[0];
+      const message = `Your event booking for ${describeGroupRooms(result.members)} on ${lead.date} ${lead.startTime}-${lead.endTime} was rejected.`;
+      await persistAndSendNotification(lead.facultyId, 'rejected', message, { bookingRequestId: groupId, adminFeedback: feedback, actorId: callerUid });
+    } catch (notifyErr) {
+      logger.warn('Failed to notify faculty after group rejection', notifyErr);
+    }
+
+    return { success: true, bookingRequestIds: result.bookingRequestIds };
+  } catch (error: unknown) {
+    logger.error('Error in rejectBookingGroup callable:', error);
+
+    logAuditEvent({
+      actionType: 'booking.reject',
+      actorId: callerUid,
+      status: 'failure',
+      metadata: { groupId, error: String(error) },
+      source: 'cloud-function',
+    }).catch((e) => logger.error('logAuditEvent failed', e));
+
+    if (error instanceof HttpsError) throw error;
+    throw new HttpsError('internal', 'Failed to reject booking group');
+  }
+});
+
+/**
+ * Callable: check a prospective booking against the admin-configured booking policies
+ * (maximum duration, minimum lead time, advance limit and weekly hour cap) for the caller,
+ * plus, when a classroomId is given, the room's capacity (with expectedAttendees) and the
+ * priority window of a department-owned room.
+ * Returns structured violations so the booking form can show them before submission;
+ * bookingRequestOnCreateEnforceCalendar enforces the same rules when the request is created.
+ */
+export const checkBookingPolicies = onCall(async (request: CallableRequest<{ date?: string; startTime?: string; endTime?: string; occurrenceDates?: string[]; excludeRequestId?: string; excludeScheduleId?: string; classroomId?: string; expectedAttendees?: number }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { date, startTime, endTime, occurrenceDates, excludeRequestId, excludeScheduleId, classroomId, expectedAttendees } = request.data || {};
+  const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const isTime = (value: unknown): value is string => typeof value === 'string' && /^\d{2}:\d{2}$/.test(value);
+  if (!isDate(date) || !isTime(startTime) || !isTime(endTime)) {
+    throw new HttpsError('invalid-argument', 'date (YYYY-MM-DD), startTime and endTime (HH:MM) are required');
+  }
+  if (occurrenceDates != null && (!Array.isArray(occurrenceDates) || occurrenceDates.length > 120 || !occurrenceDates.every(isDate))) {
+    throw new HttpsError('invalid-argument', 'occurrenceDates must be a list of at most 120 dates');
+  }
+  if (expectedAttendees != null && (typeof expectedAttendees !== 'number' || !Number.isInteger(expectedAttendees) || expectedAttendees < 1)) {
+    throw new HttpsError('invalid-argument', 'expectedAttendees must be a positive whole number');
+  }
+
+  const dates = occurrenceDates && occurrenceDates.length > 0 ? occurrenceDates : [date];
+  try {
+    const [policies, existing, classroomSnap] = await Promise.all([
+      loadBookingPolicies(),
+      loadFacultyReservations(
+        request.auth.uid,
+        dates,
+        typeof excludeRequestId === 'string' ? excludeRequestId : undefined,
+        typeof excludeScheduleId === 'string' ? excludeScheduleId : undefined
+      ),
+      typeof classroomId === 'string' && classroomId
+        ? db.collection('classrooms').doc(classroomId).get()
+        : Promise.resolve(null),
+    ]);
+    const classroom = classroomSnap?.data();
+    const violations = evaluateBookingPolicies(policies, { date, startTime, endTime }, dates, existing);
+    const capacityViolation = getCapacityViolation(classroom, expectedAttendees);
+    if (capacityViolation) violations.push(capacityViolation);
+    if (classroom?.ownerDepartment) {
+      const callerSnap = await db.collection('users').doc(request.auth.uid).get();
+      const priorityViolation = getPriorityWindowViolation(classroom, getUserDepartments(callerSnap.data()), dates);
+      if (priorityViolation) violations.push(priorityViolation);
+    }
+    return { violations };
+  } catch (error: unknown) {
+    logger.error('Error in checkBookingPolicies callable:', error);
+    throw new HttpsError('internal', 'Failed to check booking policies');
+  }
+});
+
+/**
+ * Callable: how many units of each active portable equipment item are free for a
+ * prospective booking, counting confirmed schedules and pending requests that overlap it.
+ * Expects data: { dates: string[], startTime: string, endTime: string, excludeRequestId?, excludeScheduleId? }
+ *
+ * For a series, an item's availability is the lowest over all of its dates.
+ */
+export const getEquipmentAvailability = onCall(async (request: CallableRequest<{ dates?: string[]; startTime?: string; endTime?: string; excludeRequestId?: string; excludeScheduleId?: string }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { dates, startTime, endTime, excludeRequestId, excludeScheduleId } = request.data || {};
+  const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const isTime = (value: unknown): value is string => typeof value === 'string' && /^\d{2}:\d{2}$/.test(value);
+  if (!Array.isArray(dates) || dates.length === 0 || dates.length > 120 || !dates.every(isDate)) {
+    throw new HttpsError('invalid-argument', 'dates must be a list of 1 to 120 dates (YYYY-MM-DD)');
+  }
+  if (!isTime(startTime) || !isTime(endTime)) {
+    throw new HttpsError('invalid-argument', 'startTime and endTime (HH:MM) are required');
+  }
+
+  try {
+    const [inventory, holds] = await Promise.all([
+      loadEquipmentInventory(),
+      loadEquipmentHolds(dates, startTime, endTime, {
+        excludeRequestId: typeof excludeRequestId === 'string' ? excludeRequestId : undefined,
+        excludeScheduleId: typeof excludeScheduleId === 'string' ? excludeScheduleId : undefined,
+      }),
+    ]);
+    const peak = getPeakHolds(holds);
+    const items = inventory
+      .filter(item => item.isActive && item.quantity > 0)
+      .map(item => ({ id: item.id, name: item.name, quantity: item.quantity, available: Math.max(0, item.quantity - (peak.get(item.id) ?? 0)) }));
+    return { items };
+  } catch (error: unknown) {
+    logger.error('Error in getEquipmentAvailability callable:', error);
+    throw new HttpsError('internal', 'Failed to check equipment availability');
+  }
+});
+
+/**
+ * Callable: check in to the caller's current reservation in a classroom, usually after
+ * scanning the QR code posted in the room.
+ * Expects data: { classroomId: string }
+ *
+ * Check-in opens shortly before the reservation starts and stays open until it ends.
+ * Checking in again is harmless and returns the same reservation.
+ */
+export const checkInToSchedule = onCall(async (request: CallableRequest<{ classroomId?: string }>) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  const callerUid = request.auth.uid;
+  const { classroomId } = request.data || {};
+  if (!classroomId || typeof classroomId !== 'string') {
+    throw new HttpsError('invalid-argument', 'classroomId is required and must be a string');
+  }
+
+  try {
+    const now = Date.now();
+    const snapshot = await db.collection('schedules')
+      .where('facultyId', '==', callerUid)
+      .where('classroomId', '==', classroomId)
+      .where('date', 'in', getCheckInDates(now))
+      .get();
+
+    const current = snapshot.docs
+      .filter((doc) => {
+        const s = doc.data();
+        return s.status === 'confirmed' && isWithinCheckInWindow(s.date, s.startTime, s.endTime, now);
+      })
+      .sort((a, b) => `${a.data().date}T${a.data().startTime}`.localeCompare(`${b.data().date}T${b.data().startTime}`))[0];
+    if (!current) {
+      throw new HttpsError('not-found', 'You have no reservation in this classroom right now');
+    }
+
+    const data = current.data();
+    const alreadyCheckedIn = typeof data.checkedInAt === 'string';
+    const checkedInAt = alreadyCheckedIn ? data.checkedInAt as string : new Date().toISOString();
+    if (!alreadyCheckedIn) {
+      await current.ref.update({ checkedInAt, checkedInBy: callerUid, updatedAt: checkedInAt });
+
+      logAuditEvent({
+        actionType: 'schedule.check_in',
+        actorId: callerUid,
+        userId: callerUid,
+        status: 'success',
+        metadata: { scheduleId: current.id, classroomId, date: data.date, timeSlot: `${data.startTime}-${data.endTime}` },
+        source: 'cloud-function',
+      }).catch((e) => logger.error('logAuditEvent failed', e));
+    }
+
+    return {
+      scheduleId: current.id,
+      classroomName: data.classroomName,
+      date: data.date,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      checkedInAt,
+      alreadyCheckedIn,
+    };
+  } catch (error: unknown) {
+    if (error instanceof HttpsError) throw error;
+    logger.error('Error in checkInToSchedule callable:', error);
+    throw new HttpsError('internal', 'Failed to check in');
+  }
+});
+
+/**
+ * Public callable behind the door and lobby displays; no sign-in required.
+ * Expects data: { classroomId?: string, building?: string, date: string } with exactly one
+ * of classroomId or building.
+ *
+ * Returns only the rooms' confirmed reservations for `date`, which must be within a day of
+ * today, with start and end times and the faculty name (as initials when masking is on).
+ */
+export const getDisplaySchedule = onCall(
+  {
+    cors: [
+      'http://localhost:3000',
+      'http://localhost:5173',
+      'https://plv-classroom-assigment.web.app',
+      'https://plv-classroom-assigment.firebaseapp.com',
+      'https://digital-classroom-reservation-for-plv.vercel.app',
+      /\.vercel\.app$/
+    ]
+  },
+  async (request: CallableRequest<{ classroomId?: string; building?: string; date?: string }>) => {
+    const { classroomId, building, date } = request.data || {};
+    const hasRoom = typeof classroomId === 'string' && classroomId.length > 0 && classroomId.length <= 128;
+    const hasBuilding = typeof building === 'string' && building.trim().length > 0 && building.length <= 128;
+    if (hasRoom === hasBuilding) {
+      throw new HttpsError('invalid-argument', 'Exactly one of classroomId or building is required');
+    }
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !isNearToday(date)) {
+      throw new HttpsError('invalid-argument', "date must be today's date (YYYY-MM-DD)");
+    }
+
     try {
-      const db = admin.firestore();
-      const lockRef = db.collection('deletionLocks').doc(classroomId);
-      const lockSnap = await lockRef.get();
-      if (lockSnap.exists) {
-        await lockRef.delete();
+      const settings = await loadDisplaySettings();
+      const rooms = await loadDisplayRooms(hasRoom ? { classroomId: classroomId as string } : { building: (building as string).trim() }, date, settings);
+      if (rooms.length === 0) {
+        throw new HttpsError('not-found', hasRoom ? 'Classroom not found' : 'No classrooms in this building');
       }
-    } catch (cleanupErr) {
-      logger.warn('Failed to cleanup deletion lock after error:', cleanupErr);
+      return { date, rooms };
+    } catch (error: unknown) {
+      if (error instanceof HttpsError) throw error;
+      logger.error('Error in getDisplaySchedule callable:', error);
+      throw new HttpsError('internal', 'Failed to load the display schedule');
     }
-
-    if (error instanceof HttpsError) throw error;
-    throw new HttpsError('internal', `Failed to delete classroom: ${error instanceof Error ? error.message : String(error)}`);
   }
-});
+);
 
 /**
- * Callable: cancel an approved booking as admin.
- * Expects data: { scheduleId: string, adminFeedback: string }
- * Only callable by users with role === 'admin' in `users` collection.
+ * Callable: the caller's calendar feed token, created on first use, and the base URL of
+ * the calendarFeed function. Expects data: { regenerate?: boolean }
+ *
+ * With regenerate, a new token replaces the old one, so every URL built from the old token
+ * stops working.
  */
-export const cancelApprovedBooking = onCall(async (request: CallableRequest<{ scheduleId?: string; adminFeedback?: string }>) => {
+export const getCalendarFeed = onCall(async (request: CallableRequest<{ regenerate?: boolean }>) => {
   if (!request.auth) {
     throw new HttpsError('unauthenticated', 'User must be authenticated');
   }
+  const uid = request.auth.uid;
+  const regenerate = request.data?.regenerate === true;
 
-  const callerUid = request.auth.uid;
-  const callerDoc = await admin.firestore().collection('users').doc(callerUid).get();
-  if (!callerDoc.exists) {
-    throw new HttpsError('permission-denied', 'Caller user data not found');
+  try {
+    const callerSnap = await db.collection('users').doc(uid).get();
+    if (callerSnap.data()?.status !== 'approved') {
+      throw new HttpsError('permission-denied', 'Only approved accounts have a calendar feed');
+    }
+
+    const ref = db.collection(FEED_TOKENS_COLLECTION).doc(uid);
+    const existing = (await ref.get()).data();
+    let token = typeof existing?.token === 'string' ? existing.token : '';
+    if (!token || regenerate) {
+      token = generateFeedToken();
+      await ref.set({ userId: uid, token, createdAt: new Date().toISOString() });
+      if (existing) {
+        logAuditEvent({
+          actionType: 'calendarFeed.regenerate',
+          actorId: uid,
+          userId: uid,
+          status: 'success',
+          source: 'cloud-function',
+        }).catch((e) => logger.error('logAuditEvent failed', e));
+      }
+    }
+    return { token, baseUrl: getFeedBaseUrl() };
+  } catch (error: unknown) {
+    if (error instanceof HttpsError) throw error;
+    logger.error('Error in getCalendarFeed callable:', error);
+    throw new HttpsError('internal', 'Failed to load the calendar feed');
   }
-  const callerData = callerDoc.data();
-  // Allow either an admin or the owner (faculty) of the reservation to cancel it.
-  const callerRole = callerData?.role;
+});
 
-  const { scheduleId, adminFeedback } = request.data || {};
-  if (!scheduleId || typeof scheduleId !== 'string') {
-    throw new HttpsError('invalid-argument', 'scheduleId is required and must be a string');
+/**
+ * HTTPS: iCalendar feeds for calendar apps, authenticated by the feed token in the path.
+ *   GET /calendarFeed/<token>.ics                        the token owner's schedules
+ *   GET /calendarFeed/<token>/classrooms/<classroomId>.ics  one classroom's schedules
+ *
+ * Cancelled schedules are included as cancelled events. Unknown or revoked tokens get 404,
+ * so a URL does not reveal whether it ever worked.
+ */
+export const calendarFeed = onRequest(async (req, res) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.status(405).set('Allow', 'GET, HEAD').send('Method not allowed');
+    return;
   }
-  const feedback = typeof adminFeedback === 'string' ? adminFeedback.trim() : '';
-  if (!feedback) {
-    throw new HttpsError('invalid-argument', 'adminFeedback (cancellation reason) is required');
+  const feed = parseFeedPath(req.path);
+  if (!feed) {
+    res.status(404).send('Not found');
+    return;
   }
 
   try {
-    const ref = admin.firestore().collection('schedules').doc(scheduleId);
-    const snap = await ref.get();
-    if (!snap.exists) {
-      throw new HttpsError('not-found', 'Schedule not found');
+    const owner = await loadFeedOwner(feed.token);
+    if (!owner) {
+      res.status(404).send('Not found');
+      return;
     }
 
-    const data = snap.data() as any;
-
-    // Check if schedule has already started/past. Try to use explicit timestamp `startAt` if available,
-    // else fall back to date + startTime parsing conservatively.
-    const now = admin.firestore.Timestamp.now();
-    const parseStart = (): admin.firestore.Timestamp | null => {
-      if (data?.startAt && data.startAt._seconds) return data.startAt as admin.firestore.Timestamp;
-      if (data?.startAt && data.startAt.seconds) return admin.firestore.Timestamp.fromMillis((data.startAt.seconds || 0) * 1000);
-      if (data?.date && data?.startTime) {
-        try {
-          const iso = `${data.date}T${data.startTime}`;
-          const dt = new Date(iso);
-          if (!isNaN(dt.getTime())) return admin.firestore.Timestamp.fromDate(dt);
-        } catch (e) {
-          // ignore
-        }
+    let name = `${typeof owner.data.name === 'string' ? owner.data.name : 'My'} – Classroom Reservations`;
+    if (feed.target.kind === 'classroom') {
+      const classroomSnap = await db.collection('classrooms').doc(feed.target.classroomId).get();
+      if (!classroomSnap.exists) {
+        res.status(404).send('Not found');
+        return;
       }
-      return null;
-    };
-
-    const startTs = parseStart();
-    if (startTs && startTs.toMillis() <= now.toMillis()) {
-      throw new HttpsError('failed-precondition', 'Cannot cancel a booking that has already started or passed');
+      name = `${classroomSnap.get('name') ?? feed.target.classroomId} – Reservations`;
     }
 
-    // Determine if caller is admin or the owner (facultyId must match callerUid)
-    const isOwner = !!data && data.facultyId === callerUid;
-    const isAdmin = callerRole === 'admin';
-    if (!isAdmin && !isOwner) {
-      throw new HttpsError('permission-denied', 'Only admins or the reservation owner can cancel this booking');
+    const schedules = await loadFeedSchedules(feed.target, owner.uid);
+    const events = schedules
+      .map((doc) => buildScheduleEvent(doc.id, doc.data(), { showFaculty: feed.target.kind === 'classroom' }))
+      .filter((event): event is string[] => event !== null);
+
+    res.status(200)
+      .set('Content-Type', 'text/calendar; charset=utf-8')
+      .set('Content-Disposition', 'inline; filename="reservations.ics"')
+      .set('Cache-Control', 'private, max-age=900')
+      .send(buildCalendar(name, events));
+  } catch (error: unknown) {
+    logger.error('Error serving calendar feed:', error);
+    res.status(500).send('Failed to build the calendar feed');
+  }
+});
+
+// Throws unless the caller is an admin; schema migrations are admin-only
+async function assertMigrationAdmin(request: CallableRequest): Promise<string> {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  const callerDoc = await db.collection('users').doc(request.auth.uid).get();
+  if (callerDoc.data()?.role !== 'admin') {
+    throw new HttpsError('permission-denied', 'Only admin users can manage schema migrations');
+  }
+  return request.auth.uid;
+}
+
+/**
+ * Callable (admin only): every schema migration in order with its ledger status.
+ */
+export const getMigrationStatus = onCall(async (request: CallableRequest) => {
+  await assertMigrationAdmin(request);
+  try {
+    return { migrations: await loadMigrationStates() };
+  } catch (error: unknown) {
+    logger.error('Error loading migration status:', error);
+    throw new HttpsError('internal', 'Failed to load migration status');
+  }
+});
+
+/**
+ * Callable (admin only): runs pending schema migrations in order for up to about 40 seconds,
+ * saving progress in the `_migrations` ledger after every batch.
+ * Expects data: { dryRun?: boolean; resume?: { migrationId: number; cursor: string | null } }
+ *
+ * Returns a MigrationRunResult; call again while `done` is false. A dry run writes nothing
+ * and reports how many documents each migration would change; it continues from the
+ * `resume` it returned.
+ */
+export const runSchemaMigrations = onCall(async (request: CallableRequest<{ dryRun?: boolean; resume?: { migrationId?: number; cursor?: string | null } | null }>) => {
+  const callerUid = await assertMigrationAdmin(request);
+  const { dryRun, resume } = request.data || {};
+  if (resume && (typeof resume.migrationId !== 'number' || (resume.cursor != null && typeof resume.cursor !== 'string'))) {
+    throw new HttpsError('invalid-argument', 'resume must be { migrationId: number, cursor: string | null }');
+  }
+
+  try {
+    const result = await runMigrations(callerUid, {
+      dryRun: dryRun === true,
+      resume: resume ? { migrationId: resume.migrationId as number, cursor: resume.cursor ?? null } : null,
+    });
+    if (!result.dryRun && result.processed.length > 0) {
+      logAuditEvent({
+        actionType: 'migration.run',
+        actorId: callerUid,
+        status: 'success',
+        metadata: { processed: result.processed, done: result.done },
+        source: 'cloud-function',
+      }).catch((e) => logger.error('logAuditEvent failed', e));
+    }
+    return result;
+  } catch (error: unknown) {
+    if (error instanceof MigrationBusyError) {
+      throw new HttpsError('failed-precondition', error.message);
+    }
+    logger.error('Error running schema migrations:', error);
+    if (!dryRun) {
+      logAuditEvent({
+        actionType: 'migration.run',
+        actorId: callerUid,
+        status: 'failure',
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+        source: 'cloud-function',
+      }).catch((e) => logger.error('logAuditEvent failed', e));
     }
+    throw new HttpsError('internal', `Migration failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+});
 
-    // Perform the cancellation update
-    await ref.update({
+/**
+ * Releases a confirmed reservation nobody checked in to: the schedule is cancelled and
+ * marked as a no-show, the approved request behind a single booking is cancelled with it,
+ * the faculty member is told why, and the slot is offered to the waitlist.
+ *
+ * Returns false when the reservation was checked in to or changed in the meantime.
+ */
+async function releaseNoShowSchedule(scheduleId: string, graceMinutes: number): Promise<boolean> {
+  const feedback = `Released: nobody checked in within ${graceMinutes} minutes of the start time.`;
+  const scheduleRef = db.collection('schedules').doc(scheduleId);
+
+  const data = await db.runTransaction(async (tx: Transaction) => {
+    const snap = await tx.get(scheduleRef);
+    const schedule = snap.data();
+    if (!schedule || schedule.status !== 'confirmed' || schedule.checkedInAt) return null;
+
+    // A recurring series request stays approved when a single occurrence is released
+    const requestsSnap = await tx.get(db.collection('bookingRequests')
+      .where('facultyId', '==', schedule.facultyId)
+      .where('classroomId', '==', schedule.classroomId)
+      .where('date', '==', schedule.date)
+      .where('status', '==', 'approved'));
+    const related = requestsSnap.docs.filter((d) => {
+      const r = d.data();
+      return !r.recurrence && r.startTime === schedule.startTime && r.endTime === schedule.endTime;
+    });
+
+    const nowIso = new Date().toISOString();
+    tx.update(scheduleRef, {
       status: 'cancelled',
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      noShow: true,
+      noShowAt: nowIso,
       adminFeedback: feedback,
+      updatedAt: nowIso,
+      updatedBy: 'system',
+    });
+    related.forEach((d) => {
+      tx.update(d.ref, { status: 'cancelled', adminFeedback: feedback, updatedAt: nowIso, updatedBy: 'system' });
     });
 
-    // Also update corresponding bookingRequests (best-effort: find by matching fields)
-    try {
-      const reqs = await admin.firestore().collection('bookingRequests')
-        .where('facultyId', '==', data.facultyId)
-        .where('date', '==', data.date)
-        .where('startTime', '==', data.startTime)
-        .where('endTime', '==', data.endTime)
-        .where('classroomId', '==', data.classroomId)
-        .get();
-
-      const batch = admin.firestore().batch();
-      reqs.docs.forEach(d => {
-        // Mark updatedBy so server-side triggers can avoid notifying the actor who initiated the cancellation
-        batch.update(d.ref, { status: 'cancelled', adminFeedback: feedback, updatedAt: admin.firestore.FieldValue.serverTimestamp(), updatedBy: callerUid });
-      });
-      if (!reqs.empty) await batch.commit();
-    } catch (err) {
-      logger.warn('Failed to update related bookingRequests during cancelApprovedBooking', err);
-    }
-
-    // Create notifications based on who performed the cancellation
-    try {
-      if (data && data.facultyId) {
-        if (callerUid && callerUid === data.facultyId) {
-          // Faculty cancelled their own booking - notify all admins
-          logger.info(`Faculty member ${data.facultyId} cancelled their own reservation - notifying admins`);
-          
-          const facultyName = (callerData && (callerData.name || callerData.displayName)) ? (callerData.name || callerData.displayName) : 'A faculty member';
-          const message = `${facultyName} cancelled their approved reservation for ${data.classroomName} on ${data.date} ${data.startTime}-${data.endTime}. Reason: ${feedback}`;
+    tx.set(db.collection('auditLogs').doc(), buildAuditRecord({
+      actionType: 'schedule.no_show',
+      actorId: 'system',
+      userId: schedule.facultyId,
+      status: 'success',
+      metadata: {
+        scheduleId,
+        classroomId: schedule.classroomId,
+        date: schedule.date,
+        timeSlot: `${schedule.startTime}-${schedule.endTime}`,
+        graceMinutes,
+        cancelledRequestIds: related.map((d) => d.id),
+      },
+      source: 'cloud-function',
+    }));
 
-          // Get all admin users to notify them
-          try {
-            const adminsSnap = await admin.firestore().collection('users').where('role', '==', 'admin').get();
-            await Promise.all(
-              adminsSnap.docs.map((adminDoc) => 
-                persistAndSendNotification(adminDoc.id, 'faculty_cancelled', message, { 
-                  bookingRequestId: null, 
-                  adminFeedback: feedback, 
-                  actorId: callerUid 
-                })
-              )
-            );
-            logger.info(`Notified ${adminsSnap.size} admin(s) about faculty cancellation`);
-          } catch (adminNotifErr) {
-            logger.warn('Failed to notify admins about faculty cancellation', adminNotifErr);
-          }
-        } else {
-          // Admin cancelled the booking - notify the faculty member
-          const adminName = (callerData && (callerData.name || callerData.displayName)) ? (callerData.name || callerData.displayName) : 'an administrator';
-          const message = `Admin ${adminName} cancelled your approved reservation for ${data.classroomName} on ${data.date} ${data.startTime}-${data.endTime}.`;
+    return schedule;
+  });
 
-          // Use shared helper to persist notification and attempt FCM send. Pass actorId
-          try {
-            await persistAndSendNotification(data.facultyId, 'cancelled', message, { bookingRequestId: null, adminFeedback: feedback, actorId: callerUid });
-          } catch (helperErr) {
-            logger.warn('Failed to create/send faculty notification via helper in cancelApprovedBooking', helperErr);
-          }
-        }
-      }
-    } catch (err) {
-      logger.warn('Failed to create notification in cancelApprovedBooking', err);
-    }
+  if (!data) return false;
 
-    return { success: true };
-  } catch (error: unknown) {
-    logger.error('Error in cancelApprovedBooking callable:', error);
+  const message = `Your reservation for ${data.classroomName} on ${data.date} ${data.startTime}-${data.endTime} was released because nobody checked in within ${graceMinutes} minutes of the start time.`;
+  await persistAndSendNotification(data.facultyId, 'cancelled', message, { bookingRequestId: data.seriesId ?? null, adminFeedback: feedback, actorId: 'system' })
+    .catch((e) => logger.warn('Failed to notify faculty of no-show release', e));
 
-    // Audit: booking cancellation failure
-    logAuditEvent({
-      actionType: 'booking.cancel',
-      actorId: callerUid,
-      status: 'failure',
-      metadata: { scheduleId, error: String(error) },
-      source: 'cloud-function',
-    }).catch((e) => logger.error('logAuditEvent failed', e));
+  await offerFreedSlotToWaitlist({ classroomId: data.classroomId, date: data.date, startTime: data.startTime, endTime: data.endTime })
+    .catch((e) => logger.warn('Failed to offer freed slot to waitlist', e));
 
-    if (error instanceof HttpsError) throw error;
-    throw new HttpsError('internal', 'Failed to cancel approved booking');
-  }
-});
+  return true;
+}
 
 /**
  * Tracks failed login attempts and locks accounts after too many failures
@@ -1177,7 +2445,7 @@ export const acknowledgeNotifications = onCall(async (request: CallableRequest<{
 /**
  * Callable function to create a notification server-side.
  * Only callable by admin users.
- * Expects data: { userId: string, type: 'approved'|'rejected'|'info'|'cancelled', message: string, bookingRequestId?: string, adminFeedback?: string, actorId?: string }
+ * Expects data: { userId: string, type: 'approved'|'rejected'|'info'|'cancelled'|'waitlist', message: string, bookingRequestId?: string, adminFeedback?: string, actorId?: string }
  */
 export const createNotification = onCall(async (request: CallableRequest<{ userId?: string; type?: string; message?: string; bookingRequestId?: string; adminFeedback?: string; actorId?: string }>) => {
   if (!request.auth) {
@@ -1199,8 +2467,8 @@ export const createNotification = onCall(async (request: CallableRequest<{ userI
   if (!userId || typeof userId !== 'string') {
     throw new HttpsError('invalid-argument', 'userId is required and must be a string');
   }
-  if (!type || (type !== 'approved' && type !== 'rejected' && type !== 'info' && type !== 'cancelled' && type !== 'signup' && type !== 'classroom_disabled')) {
-    throw new HttpsError('invalid-argument', "type must be 'approved', 'rejected', 'info', 'cancelled', 'signup' or 'classroom_disabled'");
+  if (!type || (type !== 'approved' && type !== 'rejected' && type !== 'info' && type !== 'cancelled' && type !== 'signup' && type !== 'classroom_disabled' && type !== 'waitlist')) {
+    throw new HttpsError('invalid-argument', "type must be 'approved', 'rejected', 'info', 'cancelled', 'signup', 'classroom_disabled' or 'waitlist'");
   }
   if (!message || typeof message !== 'string') {
     throw new HttpsError('invalid-argument', 'message is required and must be a string');
@@ -1390,6 +2658,136 @@ async function persistAndSendNotification(
   return { success: true, id: ref.id } as any;
 }
 
+/**
+ * Helper: offer a freed slot to the waitlist.
+ *
+ * Called after cancelApprovedBooking or cancelBookingRequest releases a room. Waiting entries
+ * for the same classroom and date that overlap the freed range are considered in join order;
+ * the first one whose full range is now free (and not closed by the academic calendar) wins.
+ * Entries with `autoConvert` become a pending booking request, others are notified so they
+ * can book it themselves. Only one entry is served per freed slot.
+ */
+async function offerFreedSlotToWaitlist(slot: { classroomId: string; date: string; startTime: string; endTime: string }) {
+  const db = admin.firestore();
+  const overlaps = (startA: string, endA: string, startB: string, endB: string) => startA < endB && endA > startB;
+  const hasStarted = (date: string, startTime: string) => {
+    const start = toCampusMillis(date, startTime);
+    return !isNaN(start) && start <= Date.now();
+  };
+
+  const waitingSnap = await db.collection('waitlistEntries')
+    .where('classroomId', '==', slot.classroomId)
+    .where('date', '==', slot.date)
+    .where('status', '==', 'waiting')
+    .get();
+  const candidates = waitingSnap.docs
+    .filter((d: QueryDocumentSnapshot) => overlaps(d.data().startTime, d.data().endTime, slot.startTime, slot.endTime))
+    .sort((a: QueryDocumentSnapshot, b: QueryDocumentSnapshot) => String(a.data().createdAt).localeCompare(String(b.data().createdAt)));
+  if (candidates.length === 0) return { offered: false };
+
+  // What still occupies the room that day
+  const [scheduleSnap, requestSnap, seriesSnap, classroomSnap, calendar] = await Promise.all([
+    db.collection('schedules').where('classroomId', '==', slot.classroomId).where('date', '==', slot.date).get(),
+    db.collection('bookingRequests').where('classroomId', '==', slot.classroomId).where('date', '==', slot.date).get(),
+    db.collection('bookingRequests').where('classroomId', '==', slot.classroomId).where('occurrenceDates', 'array-contains', slot.date).where('status', '==', 'pending').get(),
+    db.collection('classrooms').doc(slot.classroomId).get(),
+    loadAcademicCalendar(),
+  ]);
+  const busy: Array<{ startTime: string; endTime: string }> = [];
+  scheduleSnap.docs.forEach((d: QueryDocumentSnapshot) => {
+    if (d.data().status === 'confirmed') busy.push(d.data() as any);
+  });
+  requestSnap.docs.forEach((d: QueryDocumentSnapshot) => {
+    const r = d.data();
+    // Approved series are represented by their schedules above
+    if ((r.status === 'pending' || r.status === 'approved') && !(r.recurrence && r.status === 'approved')) busy.push(r as any);
+  });
+  seriesSnap.docs.forEach((d: QueryDocumentSnapshot) => busy.push(d.data() as any));
+
+  const classroom = classroomSnap.data();
+  if (!classroom || classroom.isAvailable === false) return { offered: false };
+  if (getDateBlockReason(calendar, slot.date, classroom.building ?? null)) return { offered: false };
+  toClassroomBlocks(classroom.blockedSlots).forEach((block) => {
+    if (block.date === slot.date) busy.push(block);
+  });
+
+  const batch = db.batch();
+  const nowIso = new Date().toISOString();
+  let winner: QueryDocumentSnapshot | null = null;
+  for (const candidate of candidates) {
+    const entry = candidate.data();
+    if (hasStarted(entry.date, entry.startTime)) {
+      batch.update(candidate.ref, { status: 'expired', updatedAt: nowIso });
+      continue;
+    }
+    if (busy.some(b => overlaps(entry.startTime, entry.endTime, b.startTime, b.endTime))) continue;
+    winner = candidate;
+    break;
+  }
+
+  if (!winner) {
+    await batch.commit();
+    return { offered: false };
+  }
+
+  const entry = winner.data();
+  let bookingRequestId: string | null = null;
+  if (entry.autoConvert) {
+    const requestRef = db.collection('bookingRequests').doc();
+    bookingRequestId = requestRef.id;
+    batch.set(requestRef, {
+      facultyId: entry.facultyId,
+      facultyName: entry.facultyName,
+      classroomId: entry.classroomId,
+      classroomName: entry.classroomName,
+      date: entry.date,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      ...toBookingTimestamps(entry.date, entry.startTime, entry.endTime),
+      purpose: entry.purpose,
+      status: 'pending',
+      requestDate: nowIso,
+      waitlistEntryId: winner.id,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    });
+    batch.update(winner.ref, { status: 'converted', bookingRequestId, notifiedAt: nowIso, updatedAt: nowIso });
+  } else {
+    batch.update(winner.ref, { status: 'notified', notifiedAt: nowIso, updatedAt: nowIso });
+  }
+  await batch.commit();
+
+  const when = `${entry.classroomName} on ${entry.date} ${entry.startTime}-${entry.endTime}`;
+  const message = bookingRequestId
+    ? `A slot you were waitlisted for opened up: ${when}. A booking request was submitted for you and is awaiting approval.`
+    : `A slot you were waitlisted for is now free: ${when}. Reserve it soon before someone else does.`;
+  await persistAndSendNotification(entry.facultyId, 'waitlist', message, { bookingRequestId, adminFeedback: null, actorId: 'system' })
+    .catch((e) => logger.warn('Failed to notify waitlisted faculty', e));
+
+  if (bookingRequestId) {
+    try {
+      const adminsSnap = await db.collection('users').where('role', '==', 'admin').get();
+      const adminMessage = `New reservation request from ${entry.facultyName} (from waitlist): ${when}. Purpose: ${entry.purpose}`;
+      await Promise.allSettled(
+        adminsSnap.docs.map((adoc) => persistAndSendNotification(adoc.id, 'info', adminMessage, { bookingRequestId, adminFeedback: null, actorId: 'system' }))
+      );
+    } catch (e) {
+      logger.warn('Failed to notify admins of waitlist conversion', e);
+    }
+  }
+
+  logAuditEvent({
+    actionType: 'waitlist.offer',
+    actorId: 'system',
+    userId: entry.facultyId,
+    status: 'success',
+    metadata: { waitlistEntryId: winner.id, classroomId: entry.classroomId, date: entry.date, bookingRequestId },
+    source: 'cloud-function',
+  }).catch((e) => logger.error('logAuditEvent failed', e));
+
+  return { offered: true, waitlistEntryId: winner.id, bookingRequestId };
+}
+
 /**
  * Callable to register a push token for the current authenticated user.
  * Expects data: { token: string }
@@ -1475,7 +2873,8 @@ export const setPushEnabled = onCall(async (request: CallableRequest<{ enabled?:
 });
 
 /**
- * Callable to notify all admins about a new booking request.
+ * Callable to notify all admins, and the department approvers of the requesting faculty
+ * member, about a new booking request.
  * Expects data: { bookingRequestId: string, facultyId: string, facultyName: string, classroomName: string, date: string, startTime: string, endTime: string, purpose?: string }
  * Callable by any authenticated user (the faculty who created the request will normally call this via the client service).
  */
@@ -1495,9 +2894,14 @@ export const notifyAdminsOfNewRequest = onCall(async (request: CallableRequest<{
 
   try {
     const db = admin.firestore();
-    // Find all admin users
-    const adminsSnap = await db.collection('users').where('role', '==', 'admin').get();
-    if (adminsSnap.empty) return { success: true, notified: 0 };
+    // Find all admin users, plus the department approvers of the requesting faculty member
+    const [adminsSnap, facultySnap] = await Promise.all([
+      db.collection('users').where('role', '==', 'admin').get(),
+      db.collection('users').doc(facultyId).get(),
+    ]);
+    const approverIds = await loadDepartmentApproverIds(getUserDepartments(facultySnap.data()));
+    const recipientIds = [...adminsSnap.docs.map((adoc) => adoc.id), ...approverIds];
+    if (recipientIds.length === 0) return { success: true, notified: 0 };
 
     const shortMessage = `New reservation request from ${facultyName}: ${classroomName} on ${date} ${startTime}-${endTime}.`;
     const longMessage = purpose ? `${shortMessage} Purpose: ${purpose}` : shortMessage;
@@ -1505,7 +2909,7 @@ export const notifyAdminsOfNewRequest = onCall(async (request: CallableRequest<{
     // Persist + send notifications to each admin via shared helper. Pass actorId so actor-exclusion applies.
     const actorId = request.auth?.uid || null;
     const results = await Promise.allSettled(
-      adminsSnap.docs.map((adoc) => persistAndSendNotification(adoc.id, 'info', longMessage, { bookingRequestId, adminFeedback: null, actorId }))
+      recipientIds.map((recipientId) => persistAndSendNotification(recipientId, 'info', longMessage, { bookingRequestId, adminFeedback: null, actorId }))
     );
 
     const notified = results.reduce((count, r) => (r.status === 'fulfilled' && !(r.value && (r.value as any).skipped) ? count + 1 : count), 0);
@@ -1517,7 +2921,8 @@ export const notifyAdminsOfNewRequest = onCall(async (request: CallableRequest<{
 });
 
 /**
- * Callable to notify admins about a new signup request
+ * Callable to notify admins, and the department approvers of the departments it lists,
+ * about a new signup request
  * Expects data: { requestId: string; name: string; email: string }
  */
 export const notifyAdminsOfNewSignup = onCall(async (request: CallableRequest<{ requestId?: string; name?: string; email?: string }>) => {
@@ -1532,13 +2937,19 @@ export const notifyAdminsOfNewSignup = onCall(async (request: CallableRequest<{
 
   try {
     const db = admin.firestore();
-    const adminsSnap = await db.collection('users').where('role', '==', 'admin').get();
-    if (adminsSnap.empty) return { success: true, notified: 0 };
+    // Admins and the department approvers of the departments the signup lists
+    const [adminsSnap, signupSnap] = await Promise.all([
+      db.collection('users').where('role', '==', 'admin').get(),
+      db.collection('signupRequests').doc(requestId).get(),
+    ]);
+    const approverIds = await loadDepartmentApproverIds(getUserDepartments(signupSnap.data()));
+    const recipientIds = [...adminsSnap.docs.map((adoc) => adoc.id), ...approverIds];
+    if (recipientIds.length === 0) return { success: true, notified: 0 };
 
     const msg = `New signup request from ${name} (${email}).`;
     const actorId = request.auth?.uid || null;
     const results = await Promise.allSettled(
-      adminsSnap.docs.map((adoc) => persistAndSendNotification(adoc.id, 'signup', msg, { bookingRequestId: null, adminFeedback: null, actorId }))
+      recipientIds.map((recipientId) => persistAndSendNotification(recipientId, 'signup', msg, { bookingRequestId: null, adminFeedback: null, actorId }))
     );
     const notified = results.reduce((count, r) => (r.status === 'fulfilled' && !(r.value && (r.value as any).skipped) ? count + 1 : count), 0);
     return { success: true, notified };
@@ -1651,6 +3062,218 @@ export const acknowledgeNotification = onCall(async (request: CallableRequest<{
   }
 });
 
+/**
+ * Approves a request that has passed the creation checks when one of the admin-defined
+ * auto-approval rules matches it. Rules are tried in order and the first match is used;
+ * the approval goes through approvePendingRequest, so conflicts are re-checked and a
+ * request that conflicts simply stays pending for an admin. Best-effort: failures are logged.
+ */
+async function autoApproveIfRuleMatches(
+  requestId: string,
+  data: Record<string, any>,
+  building: string | null
+): Promise<string | null> {
+  if (!data.facultyId || !data.classroomId) return null;
+  try {
+    const rules = await loadAutoApprovalRules();
+    if (!rules.some(rule => rule.enabled)) return null;
+
+    const facultySnap = await admin.firestore().collection('users').doc(data.facultyId).get();
+    const faculty = facultySnap.exists ? facultySnap.data() ?? {} : {};
+    const departments: string[] = Array.isArray(faculty.departments) && faculty.departments.length > 0
+      ? faculty.departments
+      : faculty.department ? [faculty.department] : [];
+
+    const rule = findMatchingRule(rules, {
+      classroomId: data.classroomId,
+      building,
+      facultyId: data.facultyId,
+      departments,
+      date: data.date,
+      startTime: data.startTime,
+      endTime: data.endTime,
+    });
+    if (!rule) return null;
+
+    await approvePendingRequest(requestId, {
+      actorId: 'system',
+      feedback: `Automatically approved by rule "${rule.name}"`,
+      source: 'firestore-trigger',
+      auditMetadata: { autoApprovalRuleId: rule.id, autoApprovalRuleName: rule.name },
+    });
+    return rule.id;
+  } catch (err) {
+    // A conflict or a request processed in the meantime leaves it for an admin
+    if (err instanceof HttpsError) {
+      logger.info(`Auto-approval skipped for booking request ${requestId}: ${err.message}`);
+    } else {
+      logger.error('Auto-approval failed', err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Firestore trigger: enforce the academic calendar, operating hours and booking policies on
+ * newly created booking requests. Requests are written directly by clients, so this is where
+ * server-side booking creation checks term dates, holidays, building blackouts, building
+ * hours and the admin-configured policies. A single booking on a closed date or outside
+ * hours is rejected; a series drops those occurrences and is only rejected if none remain.
+ * A request that breaks a booking policy, expects more attendees than the room seats (all
+ * the rooms of an event booking together) or reserves more portable equipment than is left
+ * at that time is rejected with the violations as feedback. A request that passes is then
+ * auto-approved when an auto-approval rule matches it. The rooms of a multi-room event booking
+ * (`groupId`) are never auto-approved, and one rejected room rejects the whole group.
+ */
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+
+export const bookingRequestOnCreateEnforceCalendar = onDocumentCreated('bookingRequests/{requestId}', async (event) => {
+  try {
+    const snap = event.data;
+    if (!snap) return { success: true, reason: 'no-data' };
+    const data = snap.data() || {};
+    if (data.status !== 'pending' || !data.date) return { success: true, reason: 'not-pending' };
+
+    const [calendar, operatingHours, policies] = await Promise.all([loadAcademicCalendar(), loadOperatingHours(), loadBookingPolicies()]);
+
+    let building: string | null = null;
+    let classroom: admin.firestore.DocumentData | undefined;
+    if (data.classroomId) {
+      const classroomSnap = await admin.firestore().collection('classrooms').doc(data.classroomId).get();
+      classroom = classroomSnap.exists ? classroomSnap.data() : undefined;
+      building = classroom?.building ?? null;
+    }
+
+    const occurrenceDates: string[] = data.recurrence && Array.isArray(data.occurrenceDates) && data.occurrenceDates.length > 0
+      ? data.occurrenceDates
+      : [data.date];
+    const reasons = new Map<string, string>();
+    occurrenceDates.forEach(date => {
+      const reason = getDateBlockReason(calendar, date, building)
+        ?? getOperatingHoursViolation(operatingHours, date, data.startTime, data.endTime, building)
+        ?? getMaintenanceBlockReason(classroom, date, data.startTime, data.endTime);
+      if (reason) reasons.set(date, reason);
+    });
+    const requestId = event.params.requestId;
+    const remaining = occurrenceDates.filter(date => !reasons.has(date));
+
+    // Policies apply to what is left of the request. The lead time is measured with a
+    // short grace period for the delay between the client's write and this trigger.
+    const violations = remaining.length > 0 && data.facultyId
+      ? evaluateBookingPolicies(
+        policies,
+        { date: remaining[0], startTime: data.startTime, endTime: data.endTime },
+        remaining,
+        await loadFacultyReservations(data.facultyId, remaining, requestId, data.changeOf?.scheduleId, data.groupId),
+        new Date(Date.now() - 60 * 1000)
+      )
+      : [];
+    // The attendees of an event booking are spread over its rooms, so the group's first
+    // request (whose id is the groupId) checks the seats of every room together
+    const capacityViolation = typeof data.groupId === 'string'
+      ? (requestId === data.groupId ? getGroupCapacityViolation(await loadGroupClassrooms(data.groupId), data.expectedAttendees) : null)
+      : getCapacityViolation(classroom, data.expectedAttendees);
+    if (capacityViolation) violations.push(capacityViolation);
+    if (classroom?.ownerDepartment && data.facultyId && remaining.length > 0) {
+      const facultySnap = await admin.firestore().collection('users').doc(data.facultyId).get();
+      const priorityViolation = getPriorityWindowViolation(classroom, getUserDepartments(facultySnap.data()), remaining);
+      if (priorityViolation) violations.push(priorityViolation);
+    }
+    const reservedEquipment = toReservedEquipment(data.reservedEquipment);
+    if (reservedEquipment.length > 0 && remaining.length > 0) {
+      const [inventory, holds] = await Promise.all([
+        loadEquipmentInventory(),
+        loadEquipmentHolds(remaining, data.startTime, data.endTime, { excludeRequestId: requestId, excludeScheduleId: data.changeOf?.scheduleId }),
+      ]);
+      violations.push(...getEquipmentViolations(inventory, reservedEquipment, getPeakHolds(holds)));
+    }
+    if (reasons.size === 0 && violations.length === 0) {
+      // The rooms of an event booking are only approved together, by an admin
+      if (data.groupId) return { success: true, reason: 'open' };
+      const autoApprovedBy = await autoApproveIfRuleMatches(requestId, data, building);
+      return { success: true, reason: 'open', autoApprovedBy };
+    }
+
+    if (violations.length === 0 && data.recurrence && remaining.length > 0) {
+      // Keep the series but drop the closed dates, recording them as excluded
+      const excludedDates = Array.from(new Set([...(data.recurrence.excludedDates ?? []), ...reasons.keys()])).sort();
+      await snap.ref.update({
+        date: remaining[0],
+        ...toBookingTimestamps(remaining[0], data.startTime, data.endTime),
+        occurrenceDates: remaining,
+        recurrence: { ...data.recurrence, excludedDates },
+        updatedAt: new Date().toISOString(),
+        updatedBy: 'system',
+      });
+      logAuditEvent({
+        actionType: 'booking.calendar_adjust',
+        actorId: 'system',
+        userId: data.facultyId ?? null,
+        status: 'success',
+        metadata: { bookingRequestId: requestId, removedDates: Array.from(reasons.keys()) },
+        source: 'firestore-trigger',
+      }).catch((e) => logger.error('logAuditEvent failed', e));
+      const autoApprovedBy = await autoApproveIfRuleMatches(requestId, { ...data, date: remaining[0] }, building);
+      return { success: true, removed: reasons.size, autoApprovedBy };
+    }
+
+    const feedback = violations.length > 0
+      ? `Automatically rejected: ${violations.map(v => v.message).join(' ')}`
+      : data.recurrence
+        ? 'Automatically rejected: every occurrence falls on a closed date, outside operating hours or during maintenance'
+        : `Automatically rejected: ${reasons.get(data.date)}`;
+    await snap.ref.update({
+      status: 'rejected',
+      adminFeedback: feedback,
+      resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: new Date().toISOString(),
+      updatedBy: 'system',
+    });
+    if (violations.length > 0) {
+      logAuditEvent({
+        actionType: 'booking.policy_reject',
+        actorId: 'system',
+        userId: data.facultyId ?? null,
+        status: 'success',
+        metadata: { bookingRequestId: requestId, violations: violations.map(v => v.code) },
+        source: 'firestore-trigger',
+      }).catch((e) => logger.error('logAuditEvent failed', e));
+    }
+
+    // An event booking stands or falls as a whole: the other rooms of the group go too
+    let rooms: string = data.classroomName || 'a classroom';
+    if (typeof data.groupId === 'string') {
+      try {
+        const siblings = await admin.firestore().collection('bookingRequests').where('groupId', '==', data.groupId).get();
+        const batch = admin.firestore().batch();
+        siblings.docs
+          .filter(d => d.id !== requestId && d.data().status === 'pending')
+          .forEach(d => batch.update(d.ref, {
+            status: 'rejected',
+            adminFeedback: `Automatically rejected: ${data.classroomName} in the same event booking could not be booked.`,
+            resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+            updatedAt: new Date().toISOString(),
+            updatedBy: 'system',
+          }));
+        await batch.commit();
+        rooms = siblings.docs.map(d => d.data().classroomName).join(', ');
+      } catch (groupErr) {
+        logger.warn('Failed to reject the rest of the event booking group', groupErr);
+      }
+    }
+
+    if (data.facultyId) {
+      const message = `Your booking request for ${rooms} on ${data.date} ${data.startTime || ''}-${data.endTime || ''} was rejected.`;
+      await persistAndSendNotification(data.facultyId, 'rejected', message, { bookingRequestId: requestId, adminFeedback: feedback, actorId: 'system' })
+        .catch((e) => logger.warn('Failed to notify faculty of calendar rejection', e));
+    }
+    return { success: true, rejected: true };
+  } catch (err) {
+    logger.error('Error in bookingRequestOnCreateEnforceCalendar trigger:', err);
+    return { success: false, error: String(err) };
+  }
+});
+
 /**
  * Firestore trigger: when a bookingRequest document is updated, notify all admins
  * if the change was performed by a faculty user (i.e. the document has a facultyId)
@@ -2000,14 +3623,8 @@ export const setUserCustomClaims = onCall(async (request: CallableRequest<{ user
     const targetData = targetDoc.data();
     const role = targetData?.role;
 
-    // Set custom claims based on role
-    const claims: { admin?: boolean; role?: string } = {
-      role: role || 'faculty',
-    };
-
-    if (role === 'admin') {
-      claims.admin = true;
-    }
+    // Set custom claims based on role (and departments, for approvers)
+    const claims = buildRoleClaims(targetData);
 
     await admin.auth().setCustomUserClaims(userId, claims);
     
@@ -2030,7 +3647,8 @@ export const setUserCustomClaims = onCall(async (request: CallableRequest<{ user
 });
 
 /**
- * Firestore trigger: Automatically update custom claims when a user's role changes.
+ * Firestore trigger: Automatically update custom claims when a user's role changes, or when
+ * a department approver's departments change (they scope the approver in the rules).
  * This ensures JWT tokens stay in sync with Firestore role data.
  */
 import { onDocumentWritten } from 'firebase-functions/v2/firestore';
@@ -2056,35 +3674,31 @@ export const syncUserRoleClaims = onDocumentWritten('users/{userId}', async (eve
 
   const newRole = afterData?.role;
   const oldRole = beforeData?.role;
+  const departmentsChanged = newRole === 'approver'
+    && getUserDepartments(afterData).join('|') !== getUserDepartments(beforeData ?? undefined).join('|');
 
-  // Handle role change - update custom claims
-  if (newRole !== oldRole) {
+  // Handle role change (or approver department change) - update custom claims
+  if (newRole !== oldRole || departmentsChanged) {
     try {
-      const claims: { admin?: boolean; role?: string } = {
-        role: newRole || 'faculty',
-      };
-
-      if (newRole === 'admin') {
-        claims.admin = true;
-      }
-
-      await admin.auth().setCustomUserClaims(userId, claims);
+      await admin.auth().setCustomUserClaims(userId, buildRoleClaims(afterData));
       
       logger.info(`Auto-synced custom claims for user ${userId}. Old role: ${oldRole}, New role: ${newRole}`);
       
       // Audit role change
-      logAuditEvent({
-        actionType: 'admin.roleChange',
-        actorId: 'system',
-        userId,
-        status: 'success',
-        metadata: {
-          oldRole,
-          newRole,
-          userName: afterData?.name || afterData?.email || userId,
-        },
-        source: 'firestore-trigger',
-      }).catch((e) => logger.error('logAuditEvent failed for role change', e));
+      if (newRole !== oldRole) {
+        logAuditEvent({
+          actionType: 'admin.roleChange',
+          actorId: 'system',
+          userId,
+          status: 'success',
+          metadata: {
+            oldRole,
+            newRole,
+            userName: afterData?.name || afterData?.email || userId,
+          },
+          source: 'firestore-trigger',
+        }).catch((e) => logger.error('logAuditEvent failed for role change', e));
+      }
     } catch (err) {
       logger.error(`Failed to sync custom claims for user ${userId}:`, err);
     }
@@ -2120,7 +3734,7 @@ export const syncUserRoleClaims = onDocumentWritten('users/{userId}', async (eve
  * Only callable by admin users.
  * Automatically triggers custom claims update via the Firestore trigger.
  */
-export const changeUserRole = onCall(async (request: CallableRequest<{ userId?: string; newRole?: 'admin' | 'faculty' }>) => {
+export const changeUserRole = onCall(async (request: CallableRequest<{ userId?: string; newRole?: UserRole }>) => {
   if (!request.auth) {
     throw new HttpsError('unauthenticated', 'User must be authenticated');
   }
@@ -2143,12 +3757,12 @@ export const changeUserRole = onCall(async (request: CallableRequest<{ userId?:
     throw new HttpsError('invalid-argument', 'userId is required and must be a string');
   }
 
-  if (!newRole || (newRole !== 'admin' && newRole !== 'faculty')) {
-    throw new HttpsError('invalid-argument', 'newRole must be either "admin" or "faculty"');
+  if (!newRole || !USER_ROLES.includes(newRole)) {
+    throw new HttpsError('invalid-argument', 'newRole must be "admin", "faculty" or "approver"');
   }
 
   // Prevent demoting yourself
-  if (userId === callerUid && newRole === 'faculty') {
+  if (userId === callerUid && newRole !== 'admin') {
     throw new HttpsError('permission-denied', 'Admins cannot demote themselves');
   }
 
@@ -2157,6 +3771,10 @@ export const changeUserRole = onCall(async (request: CallableRequest<{ userId?:
     if (!targetDoc.exists) {
       throw new HttpsError('not-found', 'Target user not found');
     }
+    // An approver without departments would not be able to decide anything
+    if (newRole === 'approver' && getUserDepartments(targetDoc.data()).length === 0) {
+      throw new HttpsError('failed-precondition', 'The user has no departments to approve for');
+    }
 
     // Update the role in Firestore (this will trigger syncUserRoleClaims)
     await admin.firestore().collection('users').doc(userId).update({
@@ -2212,13 +3830,7 @@ export const refreshMyCustomClaims = onCall(async (request: CallableRequest) =>
     const userData = userDoc.data();
     const role = userData?.role;
 
-    const claims: { admin?: boolean; role?: string } = {
-      role: role || 'faculty',
-    };
-
-    if (role === 'admin') {
-      claims.admin = true;
-    }
+    const claims = buildRoleClaims(userData);
 
     await admin.auth().setCustomUserClaims(userId, claims);
     
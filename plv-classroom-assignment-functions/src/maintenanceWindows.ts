@@ -0,0 +1,88 @@
+import * as admin from 'firebase-admin';
+import { CAMPUS_TIME_ZONE, toCampusMillis } from './campusTime';
+
+// Scheduled maintenance windows of a classroom, stored on the classroom document as
+// `maintenanceWindows`. Booking creation and approval refuse slots overlapping a window, and
+// applyMaintenanceWindows disables the room while one is in effect. Mirrors
+// utils/maintenanceWindows.ts.
+
+export type MaintenanceWindow = {
+  id: string;
+  startAt: string;
+  endAt: string;
+  reason: string;
+  createdBy?: string;
+  createdAt?: string;
+  flaggedAt?: string;
+};
+
+// Days before a window starts when admins are warned about reservations inside it
+export const MAINTENANCE_FLAG_LEAD_DAYS = 7;
+
+// The well-formed windows of a classroom document
+export function toMaintenanceWindows(value: unknown): MaintenanceWindow[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((w): w is MaintenanceWindow =>
+    !!w && typeof w.id === 'string' && typeof w.reason === 'string'
+      && typeof w.startAt === 'string' && !isNaN(Date.parse(w.startAt))
+      && typeof w.endAt === 'string' && !isNaN(Date.parse(w.endAt)));
+}
+
+// "Oct 20, 2026, 1:00 PM – Oct 24, 2026, 5:00 PM" in campus time
+export function formatMaintenanceWindow(window: MaintenanceWindow): string {
+  const format = (iso: string) => new Date(iso).toLocaleString('en-US', {
+    timeZone: CAMPUS_TIME_ZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `${format(window.startAt)} – ${format(window.endAt)}`;
+}
+
+// Why a slot of a classroom cannot be booked because of maintenance, or null
+export function getMaintenanceBlockReason(
+  classroom: admin.firestore.DocumentData | undefined,
+  date: string,
+  startTime: string,
+  endTime: string
+): string | null {
+  const windows = toMaintenanceWindows(classroom?.maintenanceWindows);
+  if (windows.length === 0) return null;
+  const start = toCampusMillis(date, startTime);
+  const end = toCampusMillis(date, endTime);
+  if (isNaN(start) || isNaN(end)) return null;
+  const window = windows.find((w) => Date.parse(w.startAt) < end && Date.parse(w.endAt) > start);
+  return window
+    ? `${classroom?.name ?? 'The classroom'} is closed for maintenance (${formatMaintenanceWindow(window)}): ${window.reason}`
+    : null;
+}
+
+// Confirmed schedules and pending or approved requests of a classroom with an occurrence
+// overlapping a window that has not ended yet
+export async function loadReservationsInWindow(
+  classroomId: string,
+  window: MaintenanceWindow
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const db = admin.firestore();
+  const start = Date.parse(window.startAt);
+  const end = Date.parse(window.endAt);
+  const [schedules, requests] = await Promise.all([
+    db.collection('schedules').where('classroomId', '==', classroomId).where('status', '==', 'confirmed').get(),
+    db.collection('bookingRequests').where('classroomId', '==', classroomId).where('status', 'in', ['pending', 'approved']).get(),
+  ]);
+  const now = Date.now();
+  return [...schedules.docs, ...requests.docs].filter((doc) => {
+    const data = doc.data();
+    // Approved series are represented by their schedules
+    if (doc.ref.parent.id === 'bookingRequests' && data.status === 'approved' && data.recurrence) return false;
+    // A pending series is checked date by date
+    const dates: unknown[] = Array.isArray(data.occurrenceDates) && data.occurrenceDates.length > 0 ? data.occurrenceDates : [data.date];
+    return dates.some((date) => {
+      const occurrenceStart = toCampusMillis(date, data.startTime);
+      const occurrenceEnd = toCampusMillis(date, data.endTime);
+      return occurrenceEnd > now && occurrenceStart < end && occurrenceEnd > start;
+    });
+  });
+}
@@ -0,0 +1,21 @@
+import type { Migration } from './common';
+import { migrateCollectionsPage } from './common';
+import { getUserDepartments } from '../approvers';
+
+// Users created before multi-department support only have the `department` string, and
+// some later writes set `departments` without the primary `department`. Every reader falls
+// back between the two; this fills in whichever is missing so both agree, with
+// `department` holding the first of `departments`.
+export const userDepartmentsMigration: Migration = {
+  id: 1,
+  name: 'User departments',
+  description: 'Fills in `departments` from the legacy `department` field on users, and `department` from the first of `departments`.',
+  runPage: (options) => migrateCollectionsPage(['users'], (data) => {
+    const departments = getUserDepartments(data);
+    if (departments.length === 0) return null;
+    const fields: Record<string, unknown> = {};
+    if (!Array.isArray(data.departments) || data.departments.length === 0) fields.departments = departments;
+    if (data.department !== departments[0]) fields.department = departments[0];
+    return Object.keys(fields).length > 0 ? fields : null;
+  }, options),
+};
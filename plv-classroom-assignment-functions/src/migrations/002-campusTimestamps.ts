@@ -0,0 +1,15 @@
+import type { Migration } from './common';
+import { migrateCollectionsPage } from './common';
+import { needsTimestampBackfill, toBookingTimestamps } from '../campusTime';
+
+// Booking requests and schedules written before `startAt`/`endAt` existed only have their
+// date and time strings. This adds the campus-time timestamps the scheduled functions use,
+// and corrects any that disagree with the strings.
+export const campusTimestampsMigration: Migration = {
+  id: 2,
+  name: 'Campus-time timestamps',
+  description: 'Adds `startAt`/`endAt` (date and times read as Asia/Manila time) to booking requests and schedules.',
+  runPage: (options) => migrateCollectionsPage(['bookingRequests', 'schedules'], (data) =>
+    needsTimestampBackfill(data) ? toBookingTimestamps(data.date, data.startTime, data.endTime) : null,
+  options),
+};
@@ -0,0 +1,112 @@
+import * as admin from 'firebase-admin';
+import type { Migration } from './common';
+import { migrateCollectionsPage } from './common';
+import { BUILDINGS_COLLECTION, getBuildingKey, normalizeBuildingName, suggestBuildingCode } from '../buildings';
+import { OPERATING_HOURS_PATH } from '../operatingHours';
+
+type BuildingRef = { id: string; name: string };
+
+// Creates a building document for every building name classrooms use that has none yet,
+// matching names regardless of case and spacing. A new building takes the spelling and the
+// hours of its operating-hours entry when there is one, so those keep applying, and as many
+// floors as its highest classroom. Existing buildings grow to their highest classroom.
+// Dry runs create nothing but still return the buildings that would exist.
+async function ensureBuildings(dryRun: boolean): Promise<{ byId: Map<string, BuildingRef>; byKey: Map<string, BuildingRef> }> {
+  const db = admin.firestore();
+  const [buildings, classrooms, hours] = await Promise.all([
+    db.collection(BUILDINGS_COLLECTION).get(),
+    db.collection('classrooms').select('building', 'buildingId', 'floor').get(),
+    db.collection(OPERATING_HOURS_PATH.collection).doc(OPERATING_HOURS_PATH.doc).get(),
+  ]);
+
+  const byId = new Map<string, BuildingRef>();
+  const byKey = new Map<string, BuildingRef>();
+  const floors = new Map<string, number>();
+  const codes = new Set<string>();
+  buildings.docs.forEach((doc) => {
+    const data = doc.data();
+    const building = { id: doc.id, name: typeof data.name === 'string' ? data.name : '' };
+    byId.set(doc.id, building);
+    byKey.set(getBuildingKey(building.name), building);
+    floors.set(doc.id, typeof data.floors === 'number' ? data.floors : 1);
+    if (typeof data.code === 'string') codes.add(data.code.toUpperCase());
+  });
+
+  const hoursByName: Record<string, unknown> = hours.data()?.buildings ?? {};
+  const hoursNames = new Map(Object.keys(hoursByName).map((name) => [getBuildingKey(name), name]));
+
+  const created = new Map<string, admin.firestore.DocumentData>();
+  const topFloor = new Map<string, number>();
+  classrooms.docs.forEach((doc) => {
+    const data = doc.data();
+    let building = typeof data.buildingId === 'string' ? byId.get(data.buildingId) : undefined;
+    if (!building) {
+      const name = normalizeBuildingName(typeof data.building === 'string' ? data.building : '');
+      if (!name) return;
+      const key = getBuildingKey(name);
+      building = byKey.get(key);
+      if (!building) {
+        const hoursName = hoursNames.get(key);
+        building = { id: db.collection(BUILDINGS_COLLECTION).doc().id, name: hoursName ?? name };
+        byId.set(building.id, building);
+        byKey.set(key, building);
+
+        const base = suggestBuildingCode(building.name) || 'BLDG';
+        let code = base;
+        for (let n = 2; codes.has(code); n++) code = `${base}${n}`;
+        codes.add(code);
+        const now = new Date().toISOString();
+        created.set(building.id, {
+          name: building.name,
+          code,
+          ...(hoursName && Array.isArray(hoursByName[hoursName]) ? { openingHours: hoursByName[hoursName] } : {}),
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    }
+    const floor = typeof data.floor === 'number' && data.floor > 0 ? data.floor : 1;
+    topFloor.set(building.id, Math.max(topFloor.get(building.id) ?? 1, floor));
+  });
+
+  if (!dryRun) {
+    const batch = db.batch();
+    let writes = 0;
+    created.forEach((record, id) => {
+      batch.set(db.collection(BUILDINGS_COLLECTION).doc(id), { ...record, floors: topFloor.get(id) ?? 1 });
+      writes++;
+    });
+    floors.forEach((count, id) => {
+      const needed = topFloor.get(id) ?? 0;
+      if (needed > count) {
+        batch.update(db.collection(BUILDINGS_COLLECTION).doc(id), { floors: needed, updatedAt: new Date().toISOString() });
+        writes++;
+      }
+    });
+    if (writes > 0) await batch.commit();
+  }
+  return { byId, byKey };
+}
+
+// Classrooms used to name their building in free text, so typos and spacing split one
+// building into several in reports. This creates a building document for each distinct
+// name and links every classroom to it with `buildingId`, rewriting `building` to the
+// building's spelling. Campuses have few classrooms, so every page looks at all of them to
+// know the buildings before fixing its own documents.
+export const classroomBuildingsMigration: Migration = {
+  id: 3,
+  name: 'Classroom buildings',
+  description: 'Creates `buildings` documents from the building names on classrooms and sets each classroom\'s `buildingId`.',
+  runPage: async (options) => {
+    const { byId, byKey } = await ensureBuildings(options.dryRun);
+    return migrateCollectionsPage(['classrooms'], (data) => {
+      const building = (typeof data.buildingId === 'string' ? byId.get(data.buildingId) : undefined)
+        ?? byKey.get(getBuildingKey(typeof data.building === 'string' ? data.building : ''));
+      if (!building) return null;
+      const fields: Record<string, unknown> = {};
+      if (data.buildingId !== building.id) fields.buildingId = building.id;
+      if (data.building !== building.name) fields.building = building.name;
+      return Object.keys(fields).length > 0 ? fields : null;
+    }, options);
+  },
+};
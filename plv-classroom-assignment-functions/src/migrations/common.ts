@@ -0,0 +1,65 @@
+import * as admin from 'firebase-admin';
+
+// Shape shared by the numbered migration modules in this directory, and a helper for the
+// common case of fixing documents one page at a time across one or more collections.
+
+export type MigrationPageOptions = {
+  // Where the previous page stopped, as returned in nextCursor; null to start over
+  cursor: string | null;
+  pageSize: number;
+  // Count what would change without writing anything
+  dryRun: boolean;
+};
+
+export type MigrationPage = {
+  scanned: number;
+  updated: number;
+  // Where the next page starts, or null when the migration has seen every document
+  nextCursor: string | null;
+};
+
+export type Migration = {
+  // Position in the sequence; migrations run in this order and each completes once
+  id: number;
+  name: string;
+  description: string;
+  // Migrates the page after `cursor`. Must be idempotent: a failed page is run again.
+  runPage(options: MigrationPageOptions): Promise<MigrationPage>;
+};
+
+// The fields to update on a document, or null when it is already migrated
+export type DocumentFix = (data: admin.firestore.DocumentData) => Record<string, unknown> | null;
+
+// Runs `fix` over one page of `collections`, which are visited in order and each in document
+// id order. The cursor reads "<collection>/<last document id>"; an empty id starts that
+// collection from the beginning.
+export async function migrateCollectionsPage(
+  collections: string[],
+  fix: DocumentFix,
+  { cursor, pageSize, dryRun }: MigrationPageOptions
+): Promise<MigrationPage> {
+  const slash = cursor ? cursor.indexOf('/') : -1;
+  const collectionName = cursor ? cursor.slice(0, slash) : collections[0];
+  const after = cursor ? cursor.slice(slash + 1) : '';
+  const index = collections.indexOf(collectionName);
+  if (index < 0) throw new Error(`Unknown migration cursor "${cursor}"`);
+
+  const db = admin.firestore();
+  let query = db.collection(collectionName).orderBy(admin.firestore.FieldPath.documentId()).limit(pageSize);
+  if (after) query = query.startAfter(after);
+  const snap = await query.get();
+
+  const updates = snap.docs
+    .map((doc) => ({ ref: doc.ref, fields: fix(doc.data()) }))
+    .filter((u): u is { ref: admin.firestore.DocumentReference; fields: Record<string, unknown> } => u.fields !== null);
+  if (!dryRun && updates.length > 0) {
+    const batch = db.batch();
+    updates.forEach(({ ref, fields }) => batch.update(ref, fields));
+    await batch.commit();
+  }
+
+  let nextCursor: string | null = null;
+  if (snap.size === pageSize) nextCursor = `${collectionName}/${snap.docs[snap.docs.length - 1].id}`;
+  else if (index + 1 < collections.length) nextCursor = `${collections[index + 1]}/`;
+  return { scanned: snap.size, updated: updates.length, nextCursor };
+}
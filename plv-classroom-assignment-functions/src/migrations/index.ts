@@ -0,0 +1,199 @@
+import * as admin from 'firebase-admin';
+import type { Migration } from './common';
+import { userDepartmentsMigration } from './001-userDepartments';
+import { campusTimestampsMigration } from './002-campusTimestamps';
+import { classroomBuildingsMigration } from './003-classroomBuildings';
+
+// Versioned schema migrations. Each migration is a numbered module in this directory and is
+// listed in MIGRATIONS in order. Progress is kept in the `_migrations` ledger, one document
+// per migration keyed by its zero-padded number, so a run can stop after any page and the
+// next run resumes from the saved cursor. Migrations run strictly in order: one never starts
+// before every earlier one has completed. Mirrored by the types in App.tsx.
+
+export const MIGRATIONS_COLLECTION = '_migrations';
+
+export const MIGRATIONS: Migration[] = [
+  userDepartmentsMigration,
+  campusTimestampsMigration,
+  classroomBuildingsMigration,
+];
+
+// Documents per page; one page is one batched write, well under Firestore's 500 limit
+const PAGE_SIZE = 300;
+
+// Work per call, leaving headroom below the callable timeout. Longer runs take several calls.
+const RUN_BUDGET_MS = 40 * 1000;
+
+// A run that has not saved progress for this long is assumed to have died
+const STALE_RUN_MS = 5 * 60 * 1000;
+
+export type MigrationStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export type MigrationState = {
+  id: number;
+  name: string;
+  description: string;
+  status: MigrationStatus;
+  // Where a paused or failed run resumes; null before the first page
+  cursor: string | null;
+  scanned: number;
+  updated: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string | null;
+  lastError: string | null;
+  runBy: string | null;
+};
+
+export type MigrationRunResult = {
+  dryRun: boolean;
+  // Every migration has completed; for a dry run, every pending one has been scanned
+  done: boolean;
+  // Dry runs write nothing to the ledger; pass this back to continue where one stopped
+  resume: { migrationId: number; cursor: string | null } | null;
+  // What this call went through, per migration
+  processed: Array<{ id: number; scanned: number; updated: number }>;
+  migrations: MigrationState[];
+};
+
+// Thrown when another run holds a migration
+export class MigrationBusyError extends Error {}
+
+const ledgerRef = (id: number) => admin.firestore().collection(MIGRATIONS_COLLECTION).doc(String(id).padStart(3, '0'));
+
+const toState = (migration: Migration, data: admin.firestore.DocumentData | undefined): MigrationState => ({
+  id: migration.id,
+  name: migration.name,
+  description: migration.description,
+  status: data?.status === 'running' || data?.status === 'completed' || data?.status === 'failed' ? data.status : 'pending',
+  cursor: typeof data?.cursor === 'string' ? data.cursor : null,
+  scanned: typeof data?.scanned === 'number' ? data.scanned : 0,
+  updated: typeof data?.updated === 'number' ? data.updated : 0,
+  startedAt: typeof data?.startedAt === 'string' ? data.startedAt : null,
+  completedAt: typeof data?.completedAt === 'string' ? data.completedAt : null,
+  updatedAt: typeof data?.updatedAt === 'string' ? data.updatedAt : null,
+  lastError: typeof data?.lastError === 'string' ? data.lastError : null,
+  runBy: typeof data?.runBy === 'string' ? data.runBy : null,
+});
+
+// Every migration in order, merged with its ledger entry
+export async function loadMigrationStates(): Promise<MigrationState[]> {
+  const snaps = await admin.firestore().getAll(...MIGRATIONS.map((m) => ledgerRef(m.id)));
+  return MIGRATIONS.map((migration, i) => toState(migration, snaps[i].data()));
+}
+
+// Marks a migration as running for `actorId`, unless it has completed (null) or another run
+// holds it (MigrationBusyError). Returns its state when claimed.
+async function claimMigration(migration: Migration, actorId: string): Promise<MigrationState | null> {
+  const ref = ledgerRef(migration.id);
+  return admin.firestore().runTransaction(async (tx) => {
+    const state = toState(migration, (await tx.get(ref)).data());
+    if (state.status === 'completed') return null;
+    if (state.status === 'running' && state.updatedAt && Date.parse(state.updatedAt) > Date.now() - STALE_RUN_MS) {
+      throw new MigrationBusyError(`Migration ${migration.id} (${migration.name}) is already running`);
+    }
+    const now = new Date().toISOString();
+    tx.set(ref, {
+      id: migration.id,
+      name: migration.name,
+      status: 'running',
+      cursor: state.cursor,
+      scanned: state.scanned,
+      updated: state.updated,
+      startedAt: state.startedAt ?? now,
+      updatedAt: now,
+      lastError: null,
+      runBy: actorId,
+    }, { merge: true });
+    return state;
+  });
+}
+
+// Runs pending migrations in order until they are all complete or the time budget is spent,
+// saving the cursor after every page. A failing page marks its migration as failed and
+// rethrows; the next run retries it from the same cursor.
+async function applyMigrations(actorId: string, deadline: number): Promise<Omit<MigrationRunResult, 'migrations'>> {
+  const processed: MigrationRunResult['processed'] = [];
+  for (const migration of MIGRATIONS) {
+    if (Date.now() >= deadline) return { dryRun: false, done: false, resume: null, processed };
+    const claimed = await claimMigration(migration, actorId);
+    if (!claimed) continue;
+
+    const ref = ledgerRef(migration.id);
+    const totals = { id: migration.id, scanned: 0, updated: 0 };
+    processed.push(totals);
+    let { cursor, scanned, updated } = claimed;
+    let complete = false;
+    while (!complete && Date.now() < deadline) {
+      try {
+        const page = await migration.runPage({ cursor, pageSize: PAGE_SIZE, dryRun: false });
+        cursor = page.nextCursor;
+        scanned += page.scanned;
+        updated += page.updated;
+        totals.scanned += page.scanned;
+        totals.updated += page.updated;
+        complete = page.nextCursor === null;
+      } catch (error: unknown) {
+        await ref.set({
+          status: 'failed',
+          lastError: error instanceof Error ? error.message : String(error),
+          updatedAt: new Date().toISOString(),
+        }, { merge: true });
+        throw error;
+      }
+      const now = new Date().toISOString();
+      await ref.set({
+        status: complete ? 'completed' : 'running',
+        cursor,
+        scanned,
+        updated,
+        updatedAt: now,
+        ...(complete ? { completedAt: now } : {}),
+      }, { merge: true });
+    }
+    if (!complete) {
+      // Out of time mid-migration: back to pending so the next run picks it up
+      await ref.set({ status: 'pending', updatedAt: new Date().toISOString() }, { merge: true });
+      return { dryRun: false, done: false, resume: null, processed };
+    }
+  }
+  return { dryRun: false, done: true, resume: null, processed };
+}
+
+// Goes through the pending migrations like applyMigrations, but only counts what would
+// change. Starts at `resume`, or where the ledger says the first pending migration stopped.
+async function previewMigrations(
+  states: MigrationState[],
+  resume: MigrationRunResult['resume'],
+  deadline: number
+): Promise<Omit<MigrationRunResult, 'migrations'>> {
+  const processed: MigrationRunResult['processed'] = [];
+  const pending = states.filter((s) => s.status !== 'completed' && (!resume || s.id >= resume.migrationId));
+  for (const state of pending) {
+    const migration = MIGRATIONS.find((m) => m.id === state.id)!;
+    const totals = { id: migration.id, scanned: 0, updated: 0 };
+    processed.push(totals);
+    let cursor = resume?.migrationId === migration.id ? resume.cursor : state.cursor;
+    do {
+      if (Date.now() >= deadline) return { dryRun: true, done: false, resume: { migrationId: migration.id, cursor }, processed };
+      const page = await migration.runPage({ cursor, pageSize: PAGE_SIZE, dryRun: true });
+      totals.scanned += page.scanned;
+      totals.updated += page.updated;
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+  }
+  return { dryRun: true, done: true, resume: null, processed };
+}
+
+// Runs (or with dryRun, previews) pending migrations for about RUN_BUDGET_MS. Call again
+// while `done` is false; dry runs continue from the `resume` they returned.
+export async function runMigrations(
+  actorId: string,
+  { dryRun = false, resume = null }: { dryRun?: boolean; resume?: MigrationRunResult['resume'] } = {}
+): Promise<MigrationRunResult> {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const result = dryRun
+    ? await previewMigrations(await loadMigrationStates(), resume, deadline)
+    : await applyMigrations(actorId, deadline);
+  return { ...result, migrations: await loadMigrationStates() };
+}
@@ -0,0 +1,90 @@
+import * as admin from 'firebase-admin';
+import type { Transaction } from 'firebase-admin/firestore';
+
+// Server-side view of the admin-managed operating hours stored at
+// `systemSettings/operatingHours`. Mirrors utils/operatingHours.ts and
+// getOperatingHoursViolation in utils/timeUtils.ts on the client so booking creation and
+// approval enforce the same hours the booking UI offers.
+
+export type DayHours = { open: string; close: string };
+// Indexed by weekday (0 = Sunday); null means closed all day
+export type WeeklyHours = Array<DayHours | null>;
+
+export type OperatingHours = {
+  slotMinutes: number;
+  weekly: WeeklyHours;
+  buildings: Record<string, WeeklyHours>;
+};
+
+export const OPERATING_HOURS_PATH = { collection: 'systemSettings', doc: 'operatingHours' } as const;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Applies when no hours have been saved: 7:00 AM to 8:30 PM every day in 30-minute slots
+export const DEFAULT_OPERATING_HOURS: OperatingHours = {
+  slotMinutes: 30,
+  weekly: Array.from({ length: 7 }, () => ({ open: '07:00', close: '20:30' })),
+  buildings: {},
+};
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+function toWeeklyHours(value: unknown): WeeklyHours | null {
+  if (!Array.isArray(value) || value.length !== 7) return null;
+  return value.map(day => (day && typeof day.open === 'string' && typeof day.close === 'string' ? { open: day.open, close: day.close } : null));
+}
+
+function toOperatingHours(data: admin.firestore.DocumentData | undefined): OperatingHours {
+  if (!data) return DEFAULT_OPERATING_HOURS;
+  const buildings: Record<string, WeeklyHours> = {};
+  Object.entries(data.buildings ?? {}).forEach(([building, week]) => {
+    const parsed = toWeeklyHours(week);
+    if (parsed) buildings[building] = parsed;
+  });
+  return {
+    slotMinutes: typeof data.slotMinutes === 'number' && data.slotMinutes > 0 ? data.slotMinutes : DEFAULT_OPERATING_HOURS.slotMinutes,
+    weekly: toWeeklyHours(data.weekly) ?? DEFAULT_OPERATING_HOURS.weekly,
+    buildings,
+  };
+}
+
+// Reads the hours, optionally inside a transaction. Falls back to the defaults when
+// none have been saved, so validation always applies.
+export async function loadOperatingHours(tx?: Transaction): Promise<OperatingHours> {
+  const ref = admin.firestore().collection(OPERATING_HOURS_PATH.collection).doc(OPERATING_HOURS_PATH.doc);
+  const snap = tx ? await tx.get(ref) : await ref.get();
+  return toOperatingHours(snap.exists ? snap.data() : undefined);
+}
+
+// Returns a human-readable reason when `startTime`-`endTime` on `date` falls outside the
+// building's hours or off the slot grid, or null. Times are 24-hour HH:MM.
+export function getOperatingHoursViolation(
+  hours: OperatingHours,
+  date: string,
+  startTime: string,
+  endTime: string,
+  building?: string | null
+): string | null {
+  if (!date || !startTime || !endTime) return null;
+
+  // Dates are calendar days, so read the weekday in UTC to stay independent of the server timezone
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const week = (building && hours.buildings[building]) || hours.weekly;
+  const day = week[weekday];
+  const place = building || 'Campus';
+  if (!day) return `${place} is closed on ${WEEKDAY_NAMES[weekday]}s`;
+
+  if (startTime < day.open || endTime > day.close) {
+    return `${startTime}-${endTime} is outside ${place} hours on ${WEEKDAY_NAMES[weekday]} (${day.open}-${day.close})`;
+  }
+
+  const open = toMinutes(day.open);
+  if ((toMinutes(startTime) - open) % hours.slotMinutes !== 0 || (toMinutes(endTime) - open) % hours.slotMinutes !== 0) {
+    return `${startTime}-${endTime} is not on the ${hours.slotMinutes}-minute booking grid`;
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Academic calendar helpers.
+ *
+ * The admin-managed term calendar closes dates outside the term, holidays and
+ * per-building blackout ranges. These helpers answer "can this date be booked in
+ * this building?" for the booking UI; the Cloud Functions apply the same rules.
+ */
+
+import type { AcademicCalendar } from '../App';
+
+/** Blackout building value meaning "every building" (e.g. a campus-wide class suspension). */
+export const ALL_BUILDINGS = '*';
+
+/**
+ * Returns why a date cannot be booked, or null when it is open.
+ *
+ * @param calendar - Current academic calendar (null when none is configured)
+ * @param date - Date in YYYY-MM-DD format
+ * @param building - Building of the classroom; blackouts for other buildings are ignored
+ * @returns Human-readable reason, or null
+ *
+ * @example
+ * ```typescript
+ * getDateBlockReason(calendar, '2025-12-25', 'CEIT Building')
+ * // Returns "Holiday: Christmas Day"
+ * ```
+ */
+export function getDateBlockReason(calendar: AcademicCalendar | null | undefined, date: string, building?: string): string | null {
+  if (!calendar || !date) return null;
+
+  if (calendar.termStart && date < calendar.termStart) {
+    return `Before the start of the term (${calendar.termStart})`;
+  }
+  if (calendar.termEnd && date > calendar.termEnd) {
+    return `After the end of the term (${calendar.termEnd})`;
+  }
+
+  const holiday = calendar.holidays.find(h => h.date === date);
+  if (holiday) return `Holiday: ${holiday.name}`;
+
+  const blackout = findBlackout(calendar, date, building);
+  if (blackout) {
+    return blackout.building === ALL_BUILDINGS
+      ? `No classes: ${blackout.reason}`
+      : `${blackout.building} closed: ${blackout.reason}`;
+  }
+
+  return null;
+}
+
+/**
+ * Convenience predicate for date pickers.
+ */
+export function isDateBlocked(calendar: AcademicCalendar | null | undefined, date: string, building?: string): boolean {
+  return getDateBlockReason(calendar, date, building) !== null;
+}
+
+function findBlackout(calendar: AcademicCalendar, date: string, building?: string) {
+  return calendar.blackouts.find(b =>
+    (b.building === ALL_BUILDINGS || (!!building && b.building === building)) &&
+    date >= b.startDate && date <= b.endDate
+  );
+}
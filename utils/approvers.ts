@@ -0,0 +1,58 @@
+/**
+ * Department approver helpers.
+ *
+ * Besides admins, who decide every request, a user with the `approver` role decides the
+ * booking and signup requests of faculty who share one of their departments. Approvers use
+ * the admin dashboard with only the tabs they need; the Cloud Functions and Firestore rules
+ * apply the same department scope.
+ */
+
+import type { BookingRequest, SignupHistory, SignupRequest, User } from '../App';
+
+/** Display names of the roles, e.g. for badges and the user list. */
+export const ROLE_LABELS: Record<User['role'], string> = {
+  admin: 'Administrator',
+  faculty: 'Faculty',
+  approver: 'Department Approver',
+};
+
+/** Whether a user signs in to the admin dashboard: admins and department approvers. */
+export function usesAdminDashboard(user: Pick<User, 'role'> | null | undefined): boolean {
+  return user?.role === 'admin' || user?.role === 'approver';
+}
+
+/**
+ * Departments of a user or signup; older records only carry the single `department`.
+ */
+export function getUserDepartments(record: { department?: string; departments?: string[] } | null | undefined): string[] {
+  if (record?.departments && record.departments.length > 0) return record.departments;
+  return record?.department ? [record.department] : [];
+}
+
+/**
+ * Whether the user may decide requests from someone in the given departments.
+ */
+export function canDecideFor(user: Pick<User, 'role' | 'department' | 'departments'>, departments: string[]): boolean {
+  if (user.role === 'admin') return true;
+  if (user.role !== 'approver') return false;
+  const own = getUserDepartments(user);
+  return departments.some(d => own.includes(d));
+}
+
+/**
+ * Narrows the requests an approver sees to their departments; admins see everything.
+ * Booking requests are matched through the requesting faculty member's departments.
+ */
+export function scopeRequestsForApprover(
+  user: User,
+  users: User[],
+  data: { bookingRequests: BookingRequest[]; signupRequests: SignupRequest[]; signupHistory: SignupHistory[] }
+): { bookingRequests: BookingRequest[]; signupRequests: SignupRequest[]; signupHistory: SignupHistory[] } {
+  if (user.role !== 'approver') return data;
+  const facultyDepartments = new Map(users.map(u => [u.id, getUserDepartments(u)]));
+  return {
+    bookingRequests: data.bookingRequests.filter(r => canDecideFor(user, facultyDepartments.get(r.facultyId) ?? [])),
+    signupRequests: data.signupRequests.filter(r => canDecideFor(user, getUserDepartments(r))),
+    signupHistory: data.signupHistory.filter(h => canDecideFor(user, getUserDepartments(h))),
+  };
+}
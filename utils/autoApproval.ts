@@ -0,0 +1,65 @@
+/**
+ * Auto-approval rule helpers.
+ *
+ * Admins define rules that approve new booking requests without review, matched by room,
+ * building, department, faculty member, duration and notice. The Cloud Functions try the
+ * rules in order when a request is created and approve it with the first match, provided
+ * it has no conflicts; everything else waits for an admin as before.
+ */
+
+import type { AutoApprovalRule } from '../App';
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.length > 0) : [];
+
+const toLimit = (value: unknown) => (typeof value === 'number' && value >= 0 ? value : null);
+
+/**
+ * Creates a new, disabled rule with no conditions.
+ */
+export function createAutoApprovalRule(name = 'New rule'): AutoApprovalRule {
+  return {
+    id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    enabled: false,
+    classroomIds: [],
+    buildings: [],
+    departments: [],
+    facultyIds: [],
+    maxDurationMinutes: null,
+    minLeadMinutes: null,
+  };
+}
+
+/**
+ * Normalizes a stored rule, filling in anything missing from older or hand-edited data.
+ *
+ * @param value - Rule as stored in Firestore
+ * @param index - Position in the list, used for a fallback id and name
+ */
+export function toAutoApprovalRule(value: Partial<AutoApprovalRule> | undefined, index: number): AutoApprovalRule {
+  return {
+    id: typeof value?.id === 'string' ? value.id : `rule-${index + 1}`,
+    name: typeof value?.name === 'string' && value.name ? value.name : `Rule ${index + 1}`,
+    enabled: value?.enabled !== false,
+    classroomIds: toStringList(value?.classroomIds),
+    buildings: toStringList(value?.buildings),
+    departments: toStringList(value?.departments),
+    facultyIds: toStringList(value?.facultyIds),
+    maxDurationMinutes: toLimit(value?.maxDurationMinutes),
+    minLeadMinutes: toLimit(value?.minLeadMinutes),
+  };
+}
+
+/**
+ * Whether a rule restricts anything. A rule without conditions never matches, so an
+ * empty rule cannot approve every request by accident.
+ */
+export function hasRuleCondition(rule: AutoApprovalRule): boolean {
+  return rule.classroomIds.length > 0
+    || rule.buildings.length > 0
+    || rule.departments.length > 0
+    || rule.facultyIds.length > 0
+    || rule.maxDurationMinutes !== null
+    || rule.minLeadMinutes !== null;
+}
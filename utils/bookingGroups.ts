@@ -0,0 +1,46 @@
+/**
+ * Multi-room event booking helpers.
+ *
+ * An event can need several rooms at the same time. Each room is its own booking request;
+ * the requests share a `groupId` (the id of the first room's request) and the schedules
+ * created from them carry it too. The Cloud Functions approve or reject the rooms as a
+ * unit, and cancelling any room cancels the whole group.
+ */
+
+import type { BookingRequest, Schedule } from '../App';
+
+/**
+ * Whether a request stands for its group in lists: ungrouped requests and the first room
+ * of a group.
+ */
+export function isGroupLead(request: Pick<BookingRequest, 'id' | 'groupId'>): boolean {
+  return !request.groupId || request.groupId === request.id;
+}
+
+/**
+ * The requests of every group, by group id, first room first.
+ */
+export function collectBookingGroups(requests: BookingRequest[]): Map<string, BookingRequest[]> {
+  const groups = new Map<string, BookingRequest[]>();
+  requests.forEach(request => {
+    if (!request.groupId) return;
+    groups.set(request.groupId, [...(groups.get(request.groupId) ?? []), request]);
+  });
+  groups.forEach((members, groupId) => members.sort((a, b) => Number(b.id === groupId) - Number(a.id === groupId)));
+  return groups;
+}
+
+/**
+ * Room names of a group for display, e.g. "Room 101, Room 102".
+ */
+export function describeGroupRooms(members: Pick<BookingRequest, 'classroomName'>[]): string {
+  return members.map(member => member.classroomName).join(', ');
+}
+
+/**
+ * Room names of the confirmed schedules of a group, e.g. "Room 101, Room 102".
+ */
+export function describeGroupScheduleRooms(schedules: Schedule[], groupId: string): string {
+  const names = schedules.filter(s => s.groupId === groupId && s.status === 'confirmed').map(s => s.classroomName);
+  return Array.from(new Set(names)).join(', ');
+}
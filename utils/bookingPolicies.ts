@@ -0,0 +1,124 @@
+/**
+ * Booking policy helpers.
+ *
+ * Admins configure the limits every reservation request must respect: its longest
+ * duration, how long before its start it must be requested, how far ahead its date may
+ * be, and how many hours a faculty member may hold per week. The booking form uses these
+ * helpers to show violations before submission; the Cloud Functions apply the same rules
+ * when requests are created.
+ */
+
+import { addDaysToDateString } from './timeUtils';
+import { getWeekday } from './recurrence';
+import type { BookingPolicies, PolicyViolation } from '../App';
+
+/** Limits used before an admin saves any, matching the booking form's original rules. */
+export const DEFAULT_BOOKING_POLICIES: BookingPolicies = {
+  maxDurationMinutes: 8 * 60,
+  minLeadMinutes: 5,
+  maxAdvanceDays: 60,
+  maxWeeklyHours: null,
+};
+
+/** A reservation in 24-hour HH:MM times. */
+export interface PolicySlot {
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+const toMinutes = (time24: string) => {
+  const [h, m] = time24.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * Formats a number of minutes as "1 hour 30 minutes", "2 hours" or "45 minutes".
+ */
+export function formatPolicyMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours} hour${hours !== 1 ? 's' : ''}`);
+  if (rest > 0 || hours === 0) parts.push(`${rest} minute${rest !== 1 ? 's' : ''}`);
+  return parts.join(' ');
+}
+
+/**
+ * Returns the Monday of the week containing a date (weeks run Monday to Sunday).
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Monday in YYYY-MM-DD format
+ */
+export function getWeekStart(date: string): string {
+  return addDaysToDateString(date, -((getWeekday(date) + 6) % 7));
+}
+
+/**
+ * Checks a reservation request against the booking policies.
+ *
+ * The lead time and advance limit apply to the first date; the duration and weekly cap
+ * apply to every occurrence. `existing` should list the faculty member's other active
+ * reservations (confirmed schedules and pending requests, one entry per date) so the
+ * weekly cap counts them.
+ *
+ * @param policies - Configured policies (null uses the defaults)
+ * @param booking - Requested first date and 24-hour times
+ * @param occurrenceDates - Every date the request covers (defaults to the first date)
+ * @param existing - The faculty member's other active reservations
+ * @param now - Current time, for the lead time and advance limit
+ * @returns Violations; empty when the request is allowed
+ *
+ * @example
+ * ```typescript
+ * evaluateBookingPolicies(policies, { date: '2025-03-10', startTime: '08:00', endTime: '18:00' })
+ * // Returns [{ code: 'max_duration', message: 'Reservations can be at most 8 hours long.' }]
+ * ```
+ */
+export function evaluateBookingPolicies(
+  policies: BookingPolicies | null | undefined,
+  booking: PolicySlot,
+  occurrenceDates: string[] = [booking.date],
+  existing: PolicySlot[] = [],
+  now: Date = new Date()
+): PolicyViolation[] {
+  const { maxDurationMinutes, minLeadMinutes, maxAdvanceDays, maxWeeklyHours } = policies ?? DEFAULT_BOOKING_POLICIES;
+  const violations: PolicyViolation[] = [];
+  const duration = toMinutes(booking.endTime) - toMinutes(booking.startTime);
+  if (!booking.date || duration <= 0) return violations;
+
+  if (duration > maxDurationMinutes) {
+    violations.push({ code: 'max_duration', message: `Reservations can be at most ${formatPolicyMinutes(maxDurationMinutes)} long.` });
+  }
+
+  const [year, month, day] = booking.date.split('-').map(Number);
+  const [hours, minutes] = booking.startTime.split(':').map(Number);
+  const start = new Date(year, month - 1, day, hours, minutes);
+  if (minLeadMinutes > 0 && start.getTime() - now.getTime() < minLeadMinutes * 60 * 1000) {
+    violations.push({ code: 'min_lead_time', message: `Reservations must be requested at least ${formatPolicyMinutes(minLeadMinutes)} before they start.` });
+  }
+
+  const today = now.toLocaleDateString('en-CA');
+  if (booking.date > addDaysToDateString(today, maxAdvanceDays)) {
+    violations.push({ code: 'max_advance', message: `Reservations can be made at most ${maxAdvanceDays} day${maxAdvanceDays !== 1 ? 's' : ''} in advance.` });
+  }
+
+  if (maxWeeklyHours !== null) {
+    const weekMinutes = new Map<string, number>();
+    const add = (date: string, amount: number) => weekMinutes.set(getWeekStart(date), (weekMinutes.get(getWeekStart(date)) ?? 0) + amount);
+    occurrenceDates.forEach(date => add(date, duration));
+    const requestedWeeks = new Set(weekMinutes.keys());
+    existing.forEach(slot => {
+      if (requestedWeeks.has(getWeekStart(slot.date))) add(slot.date, toMinutes(slot.endTime) - toMinutes(slot.startTime));
+    });
+    const over = Array.from(weekMinutes.entries()).sort(([a], [b]) => a.localeCompare(b)).find(([, total]) => total > maxWeeklyHours * 60);
+    if (over) {
+      violations.push({
+        code: 'weekly_hours',
+        message: `This would bring your reservations for the week of ${over[0]} to ${formatPolicyMinutes(over[1])}, over the ${maxWeeklyHours}-hour weekly limit.`,
+      });
+    }
+  }
+
+  return violations;
+}
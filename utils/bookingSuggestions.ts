@@ -0,0 +1,163 @@
+/**
+ * Alternative slot suggestions for a conflicting booking.
+ *
+ * When the requested room is taken, these helpers look for the nearest free windows of
+ * the same length in that room, and for other rooms that are free at the requested time
+ * and offer at least the same capacity and equipment.
+ */
+
+import { convertTo12Hour, getOperatingHoursViolation, isPastBookingTime } from './timeUtils';
+import { getDateBlockReason } from './academicCalendar';
+import { getDayHours, minutesToTime, resolveOperatingHours, timeToMinutes } from './operatingHours';
+import type { AcademicCalendar, BookingRequest, Classroom, OperatingHours, Schedule } from '../App';
+
+/** A time range that is already taken in a room (24-hour HH:MM). */
+export interface OccupiedSlot {
+  classroomId: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface SlotSuggestion {
+  kind: 'time' | 'room';
+  classroomId: string;
+  classroomName: string;
+  date: string;
+  startTime: string; // 24-hour HH:MM
+  endTime: string;
+}
+
+export interface BookingSuggestions {
+  sameRoom: SlotSuggestion[]; // Nearest free windows in the requested room
+  otherRooms: SlotSuggestion[]; // Rooms free at the requested time
+}
+
+export interface SuggestionOptions {
+  calendar?: AcademicCalendar | null;
+  hours?: OperatingHours | null; // Defaults to 7:00 AM - 8:30 PM in 30-minute slots
+  minCapacity?: number; // Defaults to the requested room's capacity
+  requiredEquipment?: string[]; // Defaults to the requested room's equipment
+  maxTimes?: number;
+  maxRooms?: number;
+}
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) => startA < endB && endA > startB;
+
+/**
+ * Collects what is occupied on a date: confirmed schedules, pending and approved requests,
+ * pending series with an occurrence on that date and, when classrooms are given, the time
+ * ranges blocked on them. Approved series are covered by their schedules.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param schedules - Schedules to consider (any dates)
+ * @param bookingRequests - Booking requests to consider (any dates)
+ * @param classrooms - Classrooms whose blocked time ranges count as occupied
+ * @returns Occupied slots on `date`
+ */
+export function collectOccupiedSlots(date: string, schedules: Schedule[], bookingRequests: BookingRequest[], classrooms: Classroom[] = []): OccupiedSlot[] {
+  const fromSchedules = schedules.filter(s => s.date === date && s.status === 'confirmed');
+  const fromRequests = bookingRequests.filter(r => {
+    if (r.recurrence) return r.status === 'pending' && (r.occurrenceDates ?? [r.date]).includes(date);
+    return r.date === date && (r.status === 'pending' || r.status === 'approved');
+  });
+  const fromBlocks = classrooms.flatMap(c => (c.blockedSlots ?? [])
+    .filter(block => block.date === date)
+    .map(block => ({ classroomId: c.id, startTime: block.startTime, endTime: block.endTime })));
+  return [...fromSchedules, ...fromRequests].map(({ classroomId, startTime, endTime }) => ({ classroomId, startTime, endTime })).concat(fromBlocks);
+}
+
+/**
+ * Suggests alternatives for a requested slot.
+ *
+ * Same-room windows keep the requested duration, sit on the slot grid within the
+ * building's operating hours and are ordered by distance from the requested start.
+ * Other rooms must be available, free for the whole requested range, open at that time,
+ * not closed by the academic calendar, and have the required capacity and equipment;
+ * rooms in the same building come first, then the closest fit.
+ *
+ * @param requested - Requested room, date and 24-hour times
+ * @param classrooms - All classrooms
+ * @param occupied - Occupied slots on the requested date (see collectOccupiedSlots)
+ * @param options - Calendar, operating hours, requirements and result limits
+ * @returns Suggestions; both lists are empty when nothing fits
+ *
+ * @example
+ * ```typescript
+ * findBookingSuggestions(
+ *   { classroomId: 'r101', date: '2025-03-10', startTime: '09:00', endTime: '10:30' },
+ *   classrooms,
+ *   collectOccupiedSlots('2025-03-10', schedules, bookingRequests)
+ * )
+ * // Returns { sameRoom: [{ kind: 'time', startTime: '10:30', endTime: '12:00', ... }], otherRooms: [...] }
+ * ```
+ */
+export function findBookingSuggestions(
+  requested: Pick<BookingRequest, 'classroomId' | 'date' | 'startTime' | 'endTime'>,
+  classrooms: Classroom[],
+  occupied: OccupiedSlot[],
+  options: SuggestionOptions = {}
+): BookingSuggestions {
+  const { calendar, hours, maxTimes = 3, maxRooms = 3 } = options;
+  const room = classrooms.find(c => c.id === requested.classroomId);
+  const start = timeToMinutes(requested.startTime);
+  const end = timeToMinutes(requested.endTime);
+  const duration = end - start;
+  if (!requested.date || duration <= 0) return { sameRoom: [], otherRooms: [] };
+
+  const isFree = (classroomId: string, from: number, to: number) =>
+    !occupied.some(o => o.classroomId === classroomId && overlaps(from, to, timeToMinutes(o.startTime), timeToMinutes(o.endTime)));
+
+  const sameRoom: SlotSuggestion[] = [];
+  const roomHours = room ? getDayHours(hours, requested.date, room.building) : null;
+  if (room && roomHours && !getDateBlockReason(calendar, requested.date, room.building)) {
+    const step = resolveOperatingHours(hours).slotMinutes;
+    const dayEnd = timeToMinutes(roomHours.close);
+    const candidates: number[] = [];
+    for (let from = timeToMinutes(roomHours.open); from + duration <= dayEnd; from += step) {
+      if (from === start) continue;
+      if (isPastBookingTime(requested.date, convertTo12Hour(minutesToTime(from)))) continue;
+      if (isFree(room.id, from, from + duration)) candidates.push(from);
+    }
+    candidates
+      .sort((a, b) => Math.abs(a - start) - Math.abs(b - start) || a - b)
+      .slice(0, maxTimes)
+      .sort((a, b) => a - b)
+      .forEach(from => sameRoom.push({
+        kind: 'time',
+        classroomId: room.id,
+        classroomName: room.name,
+        date: requested.date,
+        startTime: minutesToTime(from),
+        endTime: minutesToTime(from + duration),
+      }));
+  }
+
+  const minCapacity = options.minCapacity ?? room?.capacity ?? 0;
+  const requiredEquipment = options.requiredEquipment ?? room?.equipment ?? [];
+  const otherRooms: SlotSuggestion[] = classrooms
+    .filter(c =>
+      c.id !== requested.classroomId &&
+      c.isAvailable &&
+      c.capacity >= minCapacity &&
+      requiredEquipment.every(item => c.equipment.includes(item)) &&
+      !getDateBlockReason(calendar, requested.date, c.building) &&
+      !getOperatingHoursViolation(hours, requested.date, requested.startTime, requested.endTime, c.building) &&
+      isFree(c.id, start, end)
+    )
+    .sort((a, b) =>
+      Number(b.building === room?.building) - Number(a.building === room?.building) ||
+      a.capacity - b.capacity ||
+      a.name.localeCompare(b.name)
+    )
+    .slice(0, maxRooms)
+    .map(c => ({
+      kind: 'room' as const,
+      classroomId: c.id,
+      classroomName: c.name,
+      date: requested.date,
+      startTime: requested.startTime,
+      endTime: requested.endTime,
+    }));
+
+  return { sameRoom, otherRooms };
+}
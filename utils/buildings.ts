@@ -0,0 +1,112 @@
+/**
+ * Campus buildings.
+ *
+ * Buildings are documents with a name, a short code, a floor count, optional opening hours
+ * and accessibility notes. Classrooms point at their building by id and keep a copy of its
+ * name, which is what operating hours, blackouts and auto-approval rules are keyed by.
+ * These helpers match the free-text names older classrooms were saved with.
+ */
+
+import type { Building, Classroom } from '../App';
+
+/** Floor count offered before any building has been set up. */
+export const DEFAULT_FLOOR_COUNT = 6;
+
+/** Most floors a building can have. */
+export const MAX_FLOOR_COUNT = 30;
+
+/**
+ * Trims a building name and collapses inner whitespace.
+ *
+ * @example
+ * ```typescript
+ * normalizeBuildingName("  CEIT   Building ") // "CEIT Building"
+ * ```
+ */
+export function normalizeBuildingName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Key two spellings of the same building share: normalized and lower-cased.
+ */
+export function getBuildingKey(name: string): string {
+  return normalizeBuildingName(name).toLowerCase();
+}
+
+/**
+ * Suggests a short code for a building name: a single remaining word in capitals, or the
+ * initials of several, ignoring the word "Building".
+ *
+ * @example
+ * ```typescript
+ * suggestBuildingCode("CEIT Building") // "CEIT"
+ * suggestBuildingCode("Main Academic Building") // "MA"
+ * ```
+ */
+export function suggestBuildingCode(name: string): string {
+  const words = normalizeBuildingName(name).split(' ').filter(w => w && !/^(building|bldg\.?)$/i.test(w));
+  if (words.length === 0) return '';
+  if (words.length === 1) return words[0].replace(/[^a-z0-9]/gi, '').slice(0, 6).toUpperCase();
+  return words.map(w => w[0]).join('').replace(/[^a-z0-9]/gi, '').slice(0, 6).toUpperCase();
+}
+
+/**
+ * Formats a floor number, e.g. "1st Floor", "12th Floor".
+ */
+export function formatFloor(floor: number): string {
+  const tens = floor % 100;
+  const suffix = tens >= 11 && tens <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[floor % 10] ?? 'th';
+  return `${floor}${suffix} Floor`;
+}
+
+/**
+ * Floors a classroom in the building can be on.
+ *
+ * @param building - The building, or undefined before one is chosen
+ */
+export function getFloorOptions(building: Pick<Building, 'floors'> | undefined): number[] {
+  return Array.from({ length: building?.floors ?? DEFAULT_FLOOR_COUNT }, (_, i) => i + 1);
+}
+
+/**
+ * The building a classroom is in: by its building id, or for rooms not yet migrated, by
+ * matching its building name.
+ *
+ * @param buildings - All buildings
+ * @param classroom - The classroom
+ */
+export function findClassroomBuilding(
+  buildings: Building[],
+  classroom: Pick<Classroom, 'building' | 'buildingId'>
+): Building | undefined {
+  if (classroom.buildingId) {
+    const byId = buildings.find(b => b.id === classroom.buildingId);
+    if (byId) return byId;
+  }
+  const key = getBuildingKey(classroom.building || '');
+  return key ? buildings.find(b => getBuildingKey(b.name) === key) : undefined;
+}
+
+/**
+ * Checks a building before it is saved. Returns an error message, or null when valid.
+ *
+ * @param building - Name, code and floor count being saved
+ * @param buildings - All buildings, to keep names and codes unique
+ * @param editingId - Id of the building being edited, if any
+ */
+export function validateBuilding(
+  building: Pick<Building, 'name' | 'code' | 'floors'>,
+  buildings: Building[],
+  editingId?: string
+): string | null {
+  const others = buildings.filter(b => b.id !== editingId);
+  if (!normalizeBuildingName(building.name)) return 'Name is required.';
+  if (!building.code.trim()) return 'Code is required.';
+  if (!Number.isInteger(building.floors) || building.floors < 1 || building.floors > MAX_FLOOR_COUNT) {
+    return `Floors must be a whole number from 1 to ${MAX_FLOOR_COUNT}.`;
+  }
+  if (others.some(b => getBuildingKey(b.name) === getBuildingKey(building.name))) return 'A building with this name already exists.';
+  if (others.some(b => b.code.toUpperCase() === building.code.trim().toUpperCase())) return 'A building with this code already exists.';
+  return null;
+}
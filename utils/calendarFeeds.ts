@@ -0,0 +1,31 @@
+/**
+ * Calendar feed URL helpers.
+ *
+ * Calendar apps subscribe to a user's confirmed schedules, or to a classroom's, through the
+ * calendarFeed Cloud Function. The URL carries the user's secret feed token, so anyone with
+ * the URL can read the feed until the token is regenerated.
+ */
+
+import type { CalendarFeed } from '../App';
+
+/**
+ * URL of the feed of the token owner's own schedules.
+ */
+export function getPersonalFeedUrl(feed: CalendarFeed): string {
+  return `${feed.baseUrl}/${feed.token}.ics`;
+}
+
+/**
+ * URL of the feed of one classroom's schedules.
+ */
+export function getClassroomFeedUrl(feed: CalendarFeed, classroomId: string): string {
+  return `${feed.baseUrl}/${feed.token}/classrooms/${encodeURIComponent(classroomId)}.ics`;
+}
+
+/**
+ * The webcal:// form of a feed URL, which opens the subscribe dialog of the device's
+ * calendar app.
+ */
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
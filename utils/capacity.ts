@@ -0,0 +1,82 @@
+/**
+ * Room capacity helpers.
+ *
+ * Booking requests record how many people are expected to attend. The booking form and
+ * the Cloud Functions reject requests for more people than the room seats, admins see how
+ * well each request fits its room, and the room search ranks rooms by fit for a group size.
+ */
+
+import type { Classroom, PolicyViolation } from '../App';
+
+/** Largest attendee count the booking form accepts. */
+export const MAX_EXPECTED_ATTENDEES = 1000;
+
+/**
+ * How a group fits a room: over capacity, near capacity (90% or more of the seats), a
+ * good fit, or a room much larger than needed (under 30% of the seats).
+ */
+export type CapacityFit = 'over' | 'snug' | 'good' | 'roomy';
+
+/**
+ * Classifies how a group of `attendees` fits a room seating `capacity`.
+ */
+export function getCapacityFit(capacity: number, attendees: number): CapacityFit {
+  if (attendees > capacity) return 'over';
+  if (attendees >= capacity * 0.9) return 'snug';
+  if (attendees < capacity * 0.3) return 'roomy';
+  return 'good';
+}
+
+/**
+ * Describes a fit for display, e.g. "45 of 40 seats: over capacity".
+ */
+export function describeCapacityFit(capacity: number, attendees: number): string {
+  const labels: Record<CapacityFit, string> = {
+    over: 'over capacity',
+    snug: 'near capacity',
+    good: 'good fit',
+    roomy: 'room much larger than needed',
+  };
+  return `${attendees} of ${capacity} seats: ${labels[getCapacityFit(capacity, attendees)]}`;
+}
+
+/**
+ * The violation for a request with more attendees than the room seats, or null when the
+ * group fits (or the count or capacity is unknown).
+ */
+export function getCapacityViolation(classroom: Pick<Classroom, 'name' | 'capacity'> | undefined, attendees: number | undefined): PolicyViolation | null {
+  if (!classroom || !attendees || !(classroom.capacity > 0) || attendees <= classroom.capacity) return null;
+  return {
+    code: 'capacity',
+    message: `${classroom.name} seats ${classroom.capacity}, fewer than the ${attendees} expected attendees.`,
+  };
+}
+
+/**
+ * The violation for an event booking whose rooms together seat fewer than the expected
+ * attendees, or null when they fit (or a count or capacity is unknown). The attendees are
+ * spread over the rooms, so no single room has to seat all of them.
+ */
+export function getGroupCapacityViolation(rooms: Pick<Classroom, 'name' | 'capacity'>[], attendees: number | undefined): PolicyViolation | null {
+  if (!attendees || rooms.length === 0 || rooms.some(room => !(room.capacity > 0))) return null;
+  const seats = rooms.reduce((sum, room) => sum + room.capacity, 0);
+  if (attendees <= seats) return null;
+  return {
+    code: 'capacity',
+    message: `The ${rooms.length} rooms seat ${seats} together, fewer than the ${attendees} expected attendees.`,
+  };
+}
+
+/**
+ * Sorts rooms by how well they fit a group: rooms that seat everyone first, tightest fit
+ * first, then rooms that are too small, closest first. Ties keep name order.
+ */
+export function sortByCapacityFit<T extends Pick<Classroom, 'name' | 'capacity'>>(rooms: T[], attendees: number): T[] {
+  return [...rooms].sort((a, b) => {
+    const aFits = a.capacity >= attendees;
+    const bFits = b.capacity >= attendees;
+    if (aFits !== bFits) return aFits ? -1 : 1;
+    const spare = aFits ? a.capacity - b.capacity : b.capacity - a.capacity;
+    return spare !== 0 ? spare : a.name.localeCompare(b.name);
+  });
+}
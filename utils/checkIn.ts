@@ -0,0 +1,42 @@
+/**
+ * Check-in helpers.
+ *
+ * Every classroom has a QR code that links back to the app with the room's id. Faculty scan
+ * it to check in to their current reservation; when an admin enables it, the Cloud
+ * Functions release reservations nobody checked in to within the grace period and record
+ * them as no-shows.
+ */
+
+import type { CheckInSettings } from '../App';
+
+/** Settings used before an admin saves any: no-show release stays off. */
+export const DEFAULT_CHECK_IN_SETTINGS: CheckInSettings = {
+  enabled: false,
+  graceMinutes: 15,
+};
+
+/** How many minutes before a reservation starts check-in opens (matches the server). */
+export const CHECK_IN_EARLY_MINUTES = 15;
+
+/** Query parameter carrying the classroom id in check-in links. */
+export const CHECK_IN_PARAM = 'checkin';
+
+/**
+ * Builds the link a classroom's QR code points to.
+ *
+ * @param classroomId - Classroom to check in to
+ * @param origin - App origin (defaults to the current one)
+ */
+export function buildCheckInUrl(classroomId: string, origin: string = window.location.origin): string {
+  const url = new URL('/', origin);
+  url.searchParams.set(CHECK_IN_PARAM, classroomId);
+  return url.toString();
+}
+
+/**
+ * Reads the classroom id from a check-in link, or null when the URL is not one.
+ */
+export function getCheckInClassroomId(search: string = window.location.search): string | null {
+  const value = new URLSearchParams(search).get(CHECK_IN_PARAM);
+  return value && value.trim() ? value.trim() : null;
+}
@@ -0,0 +1,103 @@
+/**
+ * Blocked time ranges of a classroom.
+ *
+ * Instead of disabling a room entirely, admins can block it for part of one day, for
+ * example during an aircon repair from 1 to 5 PM. A block is stored on the classroom like a
+ * reservation (a date with 24-hour start and end times), so conflict checks and free-slot
+ * searches treat it as an occupied slot while the rest of the day stays bookable.
+ */
+
+import { getCampusInstant } from './timeUtils';
+import { getOccurrenceDates } from './recurrence';
+import type { BookingRequest, Classroom, ClassroomBlock, Schedule } from '../App';
+
+/**
+ * Creates the id of a new block.
+ */
+export function createClassroomBlockId(): string {
+  return `block-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Blocks of a classroom overlapping a time range on a date.
+ *
+ * @param classroom - The classroom
+ * @param date - Date in YYYY-MM-DD format
+ * @param startTime - Start time in 24-hour format
+ * @param endTime - End time in 24-hour format
+ */
+export function findOverlappingBlocks(
+  classroom: Pick<Classroom, 'blockedSlots'> | undefined,
+  date: string,
+  startTime: string,
+  endTime: string
+): ClassroomBlock[] {
+  return (classroom?.blockedSlots ?? []).filter(block =>
+    block.date === date && startTime < block.endTime && endTime > block.startTime
+  );
+}
+
+/**
+ * Blocks of a classroom that have not ended yet, earliest first.
+ *
+ * @param classroom - The classroom
+ * @param now - Reference time (defaults to the current time)
+ */
+export function getUpcomingBlocks(classroom: Pick<Classroom, 'blockedSlots'>, now: Date = new Date()): ClassroomBlock[] {
+  return (classroom.blockedSlots ?? [])
+    .filter(block => (getCampusInstant(block.date, block.endTime)?.getTime() ?? 0) > now.getTime())
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Checks a new block before it is saved. Returns an error message, or null when valid.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param startTime - Start time in 24-hour format
+ * @param endTime - End time in 24-hour format
+ * @param reason - Why the room is blocked
+ * @param now - Reference time (defaults to the current time)
+ */
+export function validateClassroomBlock(date: string, startTime: string, endTime: string, reason: string, now: Date = new Date()): string | null {
+  if (!date || !startTime || !endTime) return 'Enter a date, start time and end time.';
+  if (endTime <= startTime) return 'The end time must be after the start time.';
+  const end = getCampusInstant(date, endTime);
+  if (!end) return 'Enter a valid date and time.';
+  if (end.getTime() <= now.getTime()) return 'This time range has already passed.';
+  if (!reason.trim()) return 'Enter a reason for blocking the room.';
+  return null;
+}
+
+/**
+ * Live reservations of a classroom overlapping a time range on one date: confirmed
+ * schedules and pending or approved requests, including series occurrences on that date.
+ *
+ * @param classroomId - The classroom
+ * @param date - Date in YYYY-MM-DD format
+ * @param startTime - Start time in 24-hour format
+ * @param endTime - End time in 24-hour format
+ * @param schedules - All schedules
+ * @param bookingRequests - All booking requests
+ */
+export function findReservationsInRange(
+  classroomId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  schedules: Schedule[],
+  bookingRequests: BookingRequest[]
+): { schedules: Schedule[]; bookingRequests: BookingRequest[] } {
+  const overlaps = (item: { startTime: string; endTime: string }) => startTime < item.endTime && endTime > item.startTime;
+  return {
+    schedules: schedules.filter(s =>
+      s.classroomId === classroomId && s.status === 'confirmed' && s.date === date && overlaps(s)
+    ),
+    bookingRequests: bookingRequests.filter(r =>
+      r.classroomId === classroomId &&
+      // Approved series are represented by their schedules
+      (r.status === 'pending' || (r.status === 'approved' && !r.recurrence)) &&
+      getOccurrenceDates(r).includes(date) &&
+      overlaps(r)
+    ),
+  };
+}
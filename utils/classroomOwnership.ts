@@ -0,0 +1,78 @@
+/**
+ * Classroom ownership helpers.
+ *
+ * Some rooms, like the IT labs, belong to a department. An owned room can have a priority
+ * window of `priorityWindowDays`: until that many days before a date, only faculty of the
+ * owning department can request the room for it; after that, anyone can. The booking form
+ * and the Cloud Functions apply the same rule, and admins see the ownership of the room
+ * when they approve.
+ */
+
+import type { Classroom, PolicyViolation } from '../App';
+import { addDaysToDateString } from './timeUtils';
+
+/** Departments of the college, as offered at signup. */
+export const DEPARTMENTS = ['Information Technology', 'Civil Engineering', 'Electrical Engineering'];
+
+/** Longest priority window an admin can set, in days. */
+export const MAX_PRIORITY_WINDOW_DAYS = 180;
+
+type OwnedRoom = Pick<Classroom, 'name' | 'ownerDepartment' | 'priorityWindowDays'>;
+
+/**
+ * The day (YYYY-MM-DD) the priority window for `date` closes and other departments can
+ * request the room.
+ */
+export function getPriorityWindowEnd(date: string, priorityWindowDays: number): string {
+  return addDaysToDateString(date, -priorityWindowDays);
+}
+
+/**
+ * The violation for a request by someone outside the owning department while the priority
+ * window is still open for any of `dates`, or null when the room may be requested.
+ *
+ * @param classroom - The requested room
+ * @param departments - Departments of the requesting faculty member
+ * @param dates - Every date the request covers
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function getPriorityWindowViolation(
+  classroom: OwnedRoom | undefined,
+  departments: string[],
+  dates: string[],
+  today: string = new Date().toLocaleDateString('en-CA')
+): PolicyViolation | null {
+  const days = classroom?.priorityWindowDays;
+  if (!classroom?.ownerDepartment || !days || departments.includes(classroom.ownerDepartment)) return null;
+  const blocked = dates.filter(date => getPriorityWindowEnd(date, days) > today).sort();
+  if (blocked.length === 0) return null;
+  const last = blocked[blocked.length - 1];
+  return {
+    code: 'priority_window',
+    message: `${classroom.name} belongs to ${classroom.ownerDepartment}, whose faculty have priority until ${days} day${days !== 1 ? 's' : ''} before each date. Other departments can request it for ${last} from ${getPriorityWindowEnd(last, days)}.`,
+  };
+}
+
+/**
+ * Describes who owns a room for display, e.g. "Owned by Information Technology (priority
+ * until 14 days before)", or null for rooms open to everyone.
+ */
+export function describeOwnership(classroom: OwnedRoom | undefined): string | null {
+  if (!classroom?.ownerDepartment) return null;
+  const days = classroom.priorityWindowDays;
+  return days
+    ? `Owned by ${classroom.ownerDepartment} (priority until ${days} day${days !== 1 ? 's' : ''} before)`
+    : `Owned by ${classroom.ownerDepartment}`;
+}
+
+/**
+ * Ownership context for an approver: who owns the room and whether the requester is from
+ * that department. Null for rooms without an owner.
+ */
+export function describeOwnershipForRequester(classroom: OwnedRoom | undefined, requesterDepartments: string[]): string | null {
+  const ownership = describeOwnership(classroom);
+  if (!ownership || !classroom?.ownerDepartment) return null;
+  return requesterDepartments.includes(classroom.ownerDepartment)
+    ? `${ownership} · requester is from the owning department`
+    : `${ownership} · requester is from another department`;
+}
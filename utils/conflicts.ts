@@ -0,0 +1,127 @@
+/**
+ * Booking conflict helpers.
+ *
+ * Conflict checks report one record per overlapping reservation, so the booking form and
+ * the approval screens can say what a slot clashes with instead of only that it does.
+ * Confirmed schedules, approved requests and time ranges an admin blocked on the room block
+ * a booking; other pending requests only compete with it until an admin decides.
+ */
+
+import { convertTo12Hour, formatTimeRange } from './timeUtils';
+import { getOccurrenceDates } from './recurrence';
+import type { BookingConflict, BookingRequest, ClassroomBlock, Schedule, ScheduleSlot } from '../App';
+
+/**
+ * Builds a conflict record from a schedule.
+ */
+export function scheduleToConflict(schedule: Schedule): BookingConflict {
+  return {
+    id: schedule.id,
+    type: 'schedule',
+    status: schedule.status,
+    classroomId: schedule.classroomId,
+    facultyId: schedule.facultyId,
+    facultyName: schedule.facultyName,
+    date: schedule.date,
+    startTime: schedule.startTime,
+    endTime: schedule.endTime,
+    purpose: schedule.purpose,
+  };
+}
+
+/**
+ * Builds a conflict record from a booking request.
+ *
+ * @param request - The conflicting request
+ * @param date - The overlapping occurrence, for a series (defaults to the request's date)
+ */
+export function requestToConflict(request: BookingRequest, date: string = request.date): BookingConflict {
+  return {
+    id: request.id,
+    type: 'request',
+    status: request.status,
+    classroomId: request.classroomId,
+    facultyId: request.facultyId,
+    facultyName: request.facultyName,
+    date,
+    startTime: request.startTime,
+    endTime: request.endTime,
+    purpose: request.purpose,
+  };
+}
+
+/**
+ * Builds a conflict record from a blocked time range of a classroom.
+ */
+export function blockToConflict(classroomId: string, block: ClassroomBlock): BookingConflict {
+  return {
+    id: block.id,
+    type: 'block',
+    status: 'confirmed',
+    classroomId,
+    facultyId: block.createdBy ?? '',
+    facultyName: 'An administrator',
+    date: block.date,
+    startTime: block.startTime,
+    endTime: block.endTime,
+    purpose: block.reason,
+  };
+}
+
+/**
+ * The reservation a change request replaces, which its proposal may overlap without
+ * conflicting. Undefined for other requests.
+ */
+export function getReplacedSlot(request: BookingRequest): ScheduleSlot | undefined {
+  return request.changeOf && {
+    id: request.changeOf.scheduleId,
+    facultyId: request.facultyId,
+    classroomId: request.changeOf.classroomId,
+    date: request.changeOf.date,
+    startTime: request.changeOf.startTime,
+    endTime: request.changeOf.endTime,
+  };
+}
+
+/**
+ * Loads every conflict of a request: one check per occurrence for a series, or a single
+ * check that ignores the replaced reservation for a change request.
+ *
+ * @param request - Request to check; it is excluded from its own results
+ * @param findConflicts - Conflict lookup for one date (usually `bookingRequestService.checkConflicts`)
+ */
+export async function findRequestConflicts(
+  request: BookingRequest,
+  findConflicts: (classroomId: string, date: string, startTime: string, endTime: string, excludeRequestId?: string, excludeSchedule?: ScheduleSlot) => Promise<BookingConflict[]>
+): Promise<BookingConflict[]> {
+  const dates = request.recurrence ? getOccurrenceDates(request) : [request.date];
+  const replaced = request.recurrence ? undefined : getReplacedSlot(request);
+  const perDate = await Promise.all(dates.map((date) => findConflicts(request.classroomId, date, request.startTime, request.endTime, request.id, replaced)));
+  return perDate.flat();
+}
+
+/**
+ * Whether a conflict prevents the booking from being approved. Pending requests do not:
+ * whichever is approved first takes the slot.
+ */
+export function isBlockingConflict(conflict: BookingConflict): boolean {
+  return conflict.type === 'schedule' || conflict.type === 'block' || conflict.status === 'approved';
+}
+
+/**
+ * Describes a conflict for display, e.g.
+ * "Juan Dela Cruz has a pending request from 9:00 AM - 10:30 AM".
+ *
+ * @param conflict - Conflict to describe
+ * @param withDate - Include the date, for lists that span several dates
+ */
+export function describeConflict(conflict: BookingConflict, withDate = false): string {
+  const when = formatTimeRange(convertTo12Hour(conflict.startTime), convertTo12Hour(conflict.endTime));
+  if (conflict.type === 'block') {
+    return `The room is blocked ${withDate ? `on ${conflict.date} ` : ''}from ${when}${conflict.purpose ? `: ${conflict.purpose}` : ''}`;
+  }
+  const what = conflict.type === 'schedule'
+    ? 'a confirmed reservation'
+    : conflict.status === 'approved' ? 'an approved request' : 'a pending request';
+  return `${conflict.facultyName} has ${what} ${withDate ? `on ${conflict.date} ` : ''}from ${when}`;
+}
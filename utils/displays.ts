@@ -0,0 +1,91 @@
+/**
+ * Door and lobby display helpers.
+ *
+ * Tablets outside rooms open `/display/room/<classroomId>` and lobby screens open
+ * `/display/building/<building>`. These pages need no sign-in: they load today's
+ * reservations from a public Cloud Function that returns only times and faculty names
+ * (as initials when an admin turns masking on), and refresh on their own.
+ */
+
+import { convertTo12Hour } from './timeUtils';
+import type { DisplayBooking, DisplaySettings } from '../App';
+
+/** Settings used before an admin saves any. */
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  maskFacultyNames: false,
+};
+
+/** How often a display reloads the schedule. */
+export const DISPLAY_REFRESH_MS = 60 * 1000;
+
+/** What a display shows: one room, or every room in a building. */
+export type DisplayTarget = { classroomId: string } | { building: string };
+
+/** Whether a room is free now, or in use and until when. */
+export type RoomStatus =
+  | { state: 'available'; next?: DisplayBooking }
+  | { state: 'in_use'; current: DisplayBooking; until: string; next?: DisplayBooking };
+
+/**
+ * Reads the display target from a path, or null when the path is not a display route.
+ */
+export function parseDisplayPath(pathname: string = window.location.pathname): DisplayTarget | null {
+  const match = pathname.match(/^\/display\/(room|building)\/([^/]+)\/?$/);
+  if (!match) return null;
+  let value: string;
+  try {
+    value = decodeURIComponent(match[2]).trim();
+  } catch {
+    return null;
+  }
+  if (!value) return null;
+  return match[1] === 'room' ? { classroomId: value } : { building: value };
+}
+
+/**
+ * Builds the address of a display.
+ *
+ * @param target - Room or building to show
+ * @param origin - App origin (defaults to the current one)
+ */
+export function buildDisplayUrl(target: DisplayTarget, origin: string = window.location.origin): string {
+  const path = 'classroomId' in target
+    ? `/display/room/${encodeURIComponent(target.classroomId)}`
+    : `/display/building/${encodeURIComponent(target.building)}`;
+  return new URL(path, origin).toString();
+}
+
+/** Local date as YYYY-MM-DD. */
+export function toLocalDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Works out a room's status at `now` from its reservations for the day. Back-to-back
+ * reservations count as one stretch, so "in use until" is when the room actually frees up.
+ *
+ * @param bookings - The day's reservations, sorted by start time
+ * @param now - Current time
+ */
+export function getRoomStatus(bookings: DisplayBooking[], now: Date): RoomStatus {
+  const time = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+  const index = bookings.findIndex((b) => b.startTime <= time && time < b.endTime);
+  if (index === -1) {
+    return { state: 'available', next: bookings.find((b) => b.startTime > time) };
+  }
+
+  let until = bookings[index].endTime;
+  let last = index;
+  for (let i = index + 1; i < bookings.length && bookings[i].startTime <= until; i++) {
+    if (bookings[i].endTime > until) until = bookings[i].endTime;
+    last = i;
+  }
+  return { state: 'in_use', current: bookings[index], until, next: bookings[last + 1] };
+}
+
+/**
+ * Describes a status for display, e.g. "Available now" or "In use until 3:00 PM".
+ */
+export function describeRoomStatus(status: RoomStatus): string {
+  return status.state === 'available' ? 'Available now' : `In use until ${convertTo12Hour(status.until)}`;
+}
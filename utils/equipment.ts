@@ -0,0 +1,62 @@
+/**
+ * Portable equipment helpers.
+ *
+ * Besides the fixed equipment of each room, the department lends out portable items
+ * (projectors, speakers, extension cords) kept in an inventory with quantities. Faculty
+ * reserve units with a booking; the Cloud Functions count the units held by overlapping
+ * bookings when a request is created and again when it is approved. Admins hand items out
+ * and take them back using a daily pickup and return list built from confirmed schedules.
+ */
+
+import type { EquipmentAvailability, PolicyViolation, ReservedEquipment, Schedule } from '../App';
+
+/**
+ * Describes reserved items for display, e.g. "2 × Projector, 1 × Speaker".
+ */
+export function describeReservedEquipment(items: ReservedEquipment[] | undefined): string {
+  return (items ?? []).map(item => `${item.quantity} × ${item.name}`).join(', ');
+}
+
+/**
+ * The violations for a selection that asks for more units than are free. Mirrors the
+ * server check, so the booking form can block the request before it is rejected.
+ *
+ * @param availability - Free units per item for the chosen slot (from `equipmentService.getAvailability`)
+ * @param requested - Items the booking reserves
+ */
+export function getEquipmentViolations(availability: EquipmentAvailability[], requested: ReservedEquipment[]): PolicyViolation[] {
+  return requested.flatMap((item): PolicyViolation[] => {
+    const stock = availability.find(a => a.id === item.equipmentId);
+    if (!stock) {
+      return [{ code: 'equipment', message: `${item.name} is no longer available for reservation.` }];
+    }
+    if (item.quantity > stock.available) {
+      return [{ code: 'equipment', message: `Only ${stock.available} of ${stock.quantity} ${stock.name} available at that time; ${item.quantity} requested.` }];
+    }
+    return [];
+  });
+}
+
+/** One entry on the daily list: items to hand out at a booking's start or take back at its end. */
+export interface EquipmentHandoff {
+  kind: 'pickup' | 'return';
+  time: string; // 24-hour HH:MM
+  schedule: Schedule;
+}
+
+/**
+ * Builds the pickup and return list for a day from the confirmed schedules that reserved
+ * equipment, ordered by time. At the same time returns come first, so returned units can
+ * be handed to the next booking.
+ */
+export function buildEquipmentHandoffs(schedules: Schedule[], date: string): EquipmentHandoff[] {
+  return schedules
+    .filter(s => s.date === date && s.status === 'confirmed' && (s.reservedEquipment?.length ?? 0) > 0)
+    .flatMap((schedule): EquipmentHandoff[] => [
+      { kind: 'pickup', time: schedule.startTime, schedule },
+      { kind: 'return', time: schedule.endTime, schedule },
+    ])
+    .sort((a, b) => a.time.localeCompare(b.time)
+      || (a.kind === b.kind ? 0 : a.kind === 'return' ? -1 : 1)
+      || a.schedule.classroomName.localeCompare(b.schedule.classroomName));
+}
@@ -0,0 +1,157 @@
+/**
+ * Flexible free-window room search.
+ *
+ * Instead of an exact start and end time, faculty describe what they need: how long, the
+ * part of the day it may fall in and a range of dates, e.g. "two hours with a projector,
+ * somewhere between 1 PM and 6 PM this week". These helpers walk every date and room
+ * that could host it and return ranked room and slot pairs that are free, open and not
+ * closed by the calendar, maintenance or a blocked range.
+ */
+
+import { addDaysToDateString, convertTo12Hour, getOperatingHoursViolation, isPastBookingTime } from './timeUtils';
+import { getDateBlockReason } from './academicCalendar';
+import { getMaintenanceBlockReason } from './maintenanceWindows';
+import { getDayHours, minutesToTime, resolveOperatingHours, timeToMinutes } from './operatingHours';
+import { collectOccupiedSlots } from './bookingSuggestions';
+import type { AcademicCalendar, BookingRequest, Classroom, OperatingHours, Schedule } from '../App';
+
+/** Longest date range searched at once, in days. */
+export const MAX_FREE_WINDOW_DAYS = 14;
+
+export interface FreeWindowQuery {
+  durationMinutes: number;
+  windowStart: string; // 24-hour HH:MM, earliest start
+  windowEnd: string; // 24-hour HH:MM, latest end
+  fromDate: string; // YYYY-MM-DD, inclusive
+  toDate: string; // YYYY-MM-DD, inclusive
+  minCapacity?: number; // Group size the room must seat
+  requiredEquipment?: string[];
+}
+
+export interface FreeWindowCandidate {
+  classroomId: string;
+  classroomName: string;
+  building: string;
+  floor: number;
+  capacity: number;
+  date: string; // YYYY-MM-DD
+  startTime: string; // 24-hour HH:MM
+  endTime: string; // 24-hour HH:MM
+}
+
+export interface FreeWindowOptions {
+  calendar?: AcademicCalendar | null;
+  hours?: OperatingHours | null; // Defaults to 7:00 AM - 8:30 PM in 30-minute slots
+  maxResults?: number;
+}
+
+/**
+ * Checks a query before searching. Returns an error message, or null when valid.
+ *
+ * @param query - The search
+ * @param today - Today's date in YYYY-MM-DD format
+ */
+export function validateFreeWindowQuery(query: FreeWindowQuery, today: string): string | null {
+  if (!query.fromDate || !query.toDate) return 'Choose the first and last date to search.';
+  if (query.toDate < query.fromDate) return 'The last date must be on or after the first date.';
+  if (query.toDate < today) return 'The dates have already passed.';
+  if (addDaysToDateString(query.fromDate, MAX_FREE_WINDOW_DAYS - 1) < query.toDate) {
+    return `Search at most ${MAX_FREE_WINDOW_DAYS} days at a time.`;
+  }
+  if (!(query.durationMinutes > 0)) return 'Choose how long you need the room.';
+  if (timeToMinutes(query.windowEnd) - timeToMinutes(query.windowStart) < query.durationMinutes) {
+    return 'The time window is shorter than the duration.';
+  }
+  return null;
+}
+
+/**
+ * Finds rooms free for the requested duration within the time window on any date of the
+ * range. Each room contributes its earliest free slot per date. Rooms must be available,
+ * seat the group and have every requested item (matched like the room search filter), and
+ * slots must fall on the slot grid within the building's operating hours.
+ *
+ * Candidates are ranked soonest first; at the same date and time, rooms that fit the group
+ * most tightly come first, then by name.
+ *
+ * @param query - Duration, time window, dates and room requirements
+ * @param classrooms - All classrooms
+ * @param schedules - All schedules
+ * @param bookingRequests - All booking requests
+ * @param options - Calendar, operating hours and result limit
+ * @returns Ranked candidates; empty when nothing fits
+ *
+ * @example
+ * ```typescript
+ * findFreeWindows(
+ *   { durationMinutes: 120, windowStart: '13:00', windowEnd: '18:00', fromDate: '2026-10-19', toDate: '2026-10-23', requiredEquipment: ['Projector'] },
+ *   classrooms, schedules, bookingRequests
+ * )
+ * // Returns [{ classroomName: 'Room 301', date: '2026-10-19', startTime: '13:00', endTime: '15:00', ... }, ...]
+ * ```
+ */
+export function findFreeWindows(
+  query: FreeWindowQuery,
+  classrooms: Classroom[],
+  schedules: Schedule[],
+  bookingRequests: BookingRequest[],
+  options: FreeWindowOptions = {}
+): FreeWindowCandidate[] {
+  const { calendar, hours, maxResults = 30 } = options;
+  const { durationMinutes, minCapacity = 0, requiredEquipment = [] } = query;
+  const step = resolveOperatingHours(hours).slotMinutes;
+
+  const rooms = classrooms.filter(c =>
+    c.isAvailable &&
+    c.capacity >= minCapacity &&
+    requiredEquipment.every(item => c.equipment.some(eq => eq.toLowerCase().includes(item.toLowerCase())))
+  );
+  if (rooms.length === 0 || durationMinutes <= 0) return [];
+
+  const candidates: FreeWindowCandidate[] = [];
+  for (let date = query.fromDate; date <= query.toDate; date = addDaysToDateString(date, 1)) {
+    if (getDateBlockReason(calendar, date)) continue;
+    const occupied = collectOccupiedSlots(date, schedules, bookingRequests, rooms);
+
+    rooms.forEach(room => {
+      if (getDateBlockReason(calendar, date, room.building)) return;
+      const dayHours = getDayHours(hours, date, room.building);
+      if (!dayHours) return;
+
+      const open = timeToMinutes(dayHours.open);
+      const earliest = Math.max(open, timeToMinutes(query.windowStart));
+      const latest = Math.min(timeToMinutes(dayHours.close), timeToMinutes(query.windowEnd));
+      const taken = occupied.filter(o => o.classroomId === room.id);
+
+      // Start times on the slot grid, counted from the building's opening time
+      for (let from = open + Math.ceil((earliest - open) / step) * step; from + durationMinutes <= latest; from += step) {
+        const startTime = minutesToTime(from);
+        const endTime = minutesToTime(from + durationMinutes);
+        if (isPastBookingTime(date, convertTo12Hour(startTime))) continue;
+        if (taken.some(o => startTime < o.endTime && endTime > o.startTime)) continue;
+        if (getOperatingHoursViolation(hours, date, startTime, endTime, room.building)) continue;
+        if (getMaintenanceBlockReason(room, date, startTime, endTime)) continue;
+        candidates.push({
+          classroomId: room.id,
+          classroomName: room.name,
+          building: room.building,
+          floor: room.floor,
+          capacity: room.capacity,
+          date,
+          startTime,
+          endTime,
+        });
+        break;
+      }
+    });
+  }
+
+  return candidates
+    .sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.startTime.localeCompare(b.startTime) ||
+      a.capacity - b.capacity ||
+      a.classroomName.localeCompare(b.classroomName)
+    )
+    .slice(0, maxResults);
+}
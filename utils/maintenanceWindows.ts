@@ -0,0 +1,148 @@
+/**
+ * Classroom maintenance windows.
+ *
+ * Admins schedule maintenance weeks ahead (renovations, repairs, equipment installs) as
+ * windows with a start, an end and a reason, stored on the classroom. Reservations that
+ * overlap a window are refused, both by the booking form and by the Cloud Functions. A
+ * scheduled job disables the room when a window starts, re-enables it when the window ends,
+ * and warns admins about reservations inside a window a few days ahead.
+ */
+
+import { CAMPUS_TIME_ZONE, getCampusInstant } from './timeUtils';
+import type { BookingRequest, Classroom, MaintenanceWindow, Schedule } from '../App';
+
+/**
+ * Days before a window starts when admins are warned about reservations inside it.
+ * Mirrored by the maintenance job in the Cloud Functions.
+ */
+export const MAINTENANCE_FLAG_LEAD_DAYS = 7;
+
+/**
+ * Creates the id of a new maintenance window.
+ */
+export function createMaintenanceWindowId(): string {
+  return `mw-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Formats a window in campus time, e.g. "Oct 20, 2026, 1:00 PM – Oct 24, 2026, 5:00 PM".
+ */
+export function formatMaintenanceWindow(window: Pick<MaintenanceWindow, 'startAt' | 'endAt'>): string {
+  const format = (iso: string) => new Date(iso).toLocaleString('en-US', {
+    timeZone: CAMPUS_TIME_ZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `${format(window.startAt)} – ${format(window.endAt)}`;
+}
+
+/**
+ * Windows of a classroom that have not ended yet, earliest first.
+ *
+ * @param classroom - The classroom
+ * @param now - Reference time (defaults to the current time)
+ */
+export function getUpcomingMaintenance(classroom: Pick<Classroom, 'maintenanceWindows'>, now: Date = new Date()): MaintenanceWindow[] {
+  return (classroom.maintenanceWindows ?? [])
+    .filter(window => new Date(window.endAt).getTime() > now.getTime())
+    .sort((a, b) => a.startAt.localeCompare(b.startAt));
+}
+
+/**
+ * The first window of a classroom overlapping a time range, or null.
+ *
+ * @param classroom - The classroom
+ * @param start - Start of the range
+ * @param end - End of the range
+ */
+export function findOverlappingMaintenance(
+  classroom: Pick<Classroom, 'maintenanceWindows'>,
+  start: Date,
+  end: Date
+): MaintenanceWindow | null {
+  return (classroom.maintenanceWindows ?? []).find(window =>
+    new Date(window.startAt).getTime() < end.getTime() && new Date(window.endAt).getTime() > start.getTime()
+  ) ?? null;
+}
+
+/**
+ * Why a classroom cannot be booked on a date and time because of maintenance, or null when
+ * no window overlaps the slot.
+ *
+ * @param classroom - The classroom
+ * @param date - Date in YYYY-MM-DD format
+ * @param startTime - Start time in 24-hour or 12-hour format
+ * @param endTime - End time in 24-hour or 12-hour format
+ *
+ * @example
+ * ```typescript
+ * getMaintenanceBlockReason(room, "2026-10-21", "09:00", "10:30")
+ * // "Room 301 is closed for maintenance (Oct 20, 2026, 8:00 AM – Oct 24, 2026, 5:00 PM): Ceiling repairs"
+ * ```
+ */
+export function getMaintenanceBlockReason(
+  classroom: Pick<Classroom, 'name' | 'maintenanceWindows'>,
+  date: string,
+  startTime: string,
+  endTime: string
+): string | null {
+  if (!classroom.maintenanceWindows?.length) return null;
+  const start = getCampusInstant(date, startTime);
+  const end = getCampusInstant(date, endTime);
+  if (!start || !end) return null;
+  const window = findOverlappingMaintenance(classroom, start, end);
+  return window
+    ? `${classroom.name} is closed for maintenance (${formatMaintenanceWindow(window)}): ${window.reason}`
+    : null;
+}
+
+/**
+ * Checks a new window before it is saved. Returns an error message, or null when valid.
+ *
+ * @param start - Start of the window
+ * @param end - End of the window
+ * @param reason - Why the room is closed
+ * @param now - Reference time (defaults to the current time)
+ */
+export function validateMaintenanceWindow(start: Date | null, end: Date | null, reason: string, now: Date = new Date()): string | null {
+  if (!start || !end) return 'Enter a start and end date and time.';
+  if (end.getTime() <= start.getTime()) return 'The window must end after it starts.';
+  if (end.getTime() <= now.getTime()) return 'The window has already ended.';
+  if (!reason.trim()) return 'Enter a reason for the maintenance.';
+  return null;
+}
+
+/**
+ * Live reservations of a classroom that overlap a window: confirmed schedules and pending or
+ * approved requests that have not ended yet. These are what admins need to move or cancel.
+ *
+ * @param window - The maintenance window
+ * @param classroomId - The classroom the window belongs to
+ * @param schedules - All schedules
+ * @param bookingRequests - All booking requests
+ */
+export function findReservationsInWindow(
+  window: Pick<MaintenanceWindow, 'startAt' | 'endAt'>,
+  classroomId: string,
+  schedules: Schedule[],
+  bookingRequests: BookingRequest[]
+): { schedules: Schedule[]; bookingRequests: BookingRequest[] } {
+  const windowStart = new Date(window.startAt).getTime();
+  const windowEnd = new Date(window.endAt).getTime();
+  const now = Date.now();
+  const overlaps = (item: Pick<Schedule, 'date' | 'startTime' | 'endTime' | 'startAt' | 'endAt'>) => {
+    const start = item.startAt ? new Date(item.startAt) : getCampusInstant(item.date, item.startTime);
+    const end = item.endAt ? new Date(item.endAt) : getCampusInstant(item.date, item.endTime);
+    if (!start || !end || end.getTime() <= now) return false;
+    return start.getTime() < windowEnd && end.getTime() > windowStart;
+  };
+  return {
+    schedules: schedules.filter(s => s.classroomId === classroomId && s.status === 'confirmed' && overlaps(s)),
+    bookingRequests: bookingRequests.filter(r =>
+      r.classroomId === classroomId && (r.status === 'pending' || r.status === 'approved') && overlaps(r)
+    ),
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Operating hours helpers.
+ *
+ * Admins configure when classrooms can be booked: campus-wide hours per weekday,
+ * optional per-building hours set on the building (e.g. an annex that closes earlier) and the slot
+ * granularity. These helpers resolve the hours that apply to a date and building;
+ * the Cloud Functions apply the same rules when validating bookings.
+ */
+
+import type { DayHours, OperatingHours, WeeklyHours } from '../App';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Slot lengths admins can choose from, in minutes. */
+export const SLOT_MINUTE_OPTIONS = [15, 30, 60];
+
+/** Hours used before an admin saves any: 7:00 AM to 8:30 PM every day. */
+export const DEFAULT_DAY_HOURS: DayHours = { open: '07:00', close: '20:30' };
+
+export const DEFAULT_OPERATING_HOURS: OperatingHours = {
+  slotMinutes: 30,
+  weekly: Array.from({ length: 7 }, () => ({ ...DEFAULT_DAY_HOURS })),
+  buildings: {},
+};
+
+export const timeToMinutes = (time24: string) => {
+  const [h, m] = time24.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Returns the first problem with a week's hours, or null when every open day is valid.
+ *
+ * @param week - Hours per weekday
+ * @param slotMinutes - Slot length; every open day must fit at least one slot
+ */
+export function validateWeeklyHours(week: WeeklyHours, slotMinutes: number): string | null {
+  for (let day = 0; day < 7; day++) {
+    const hours = week[day];
+    if (hours && timeToMinutes(hours.close) - timeToMinutes(hours.open) < slotMinutes) {
+      return `${WEEKDAY_NAMES[day]} must close at least ${slotMinutes} minutes after it opens.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the configured hours, falling back to the defaults when none are set.
+ */
+export function resolveOperatingHours(hours?: OperatingHours | null): OperatingHours {
+  return hours ?? DEFAULT_OPERATING_HOURS;
+}
+
+/**
+ * Returns the weekly hours for a building: its override when it has one, otherwise the campus hours.
+ */
+export function getWeeklyHours(hours: OperatingHours | null | undefined, building?: string): WeeklyHours {
+  const resolved = resolveOperatingHours(hours);
+  return (building && resolved.buildings[building]) || resolved.weekly;
+}
+
+/**
+ * Returns the hours a building is open on a date, or null when it is closed that day.
+ *
+ * @param hours - Configured operating hours (null uses the defaults)
+ * @param date - Date in YYYY-MM-DD format
+ * @param building - Building name; uses the campus hours when omitted or not overridden
+ * @returns Opening and closing time in 24-hour format, or null
+ *
+ * @example
+ * ```typescript
+ * getDayHours(hours, '2025-03-15', 'Annex') // Saturday
+ * // Returns { open: '08:00', close: '12:00' }
+ * ```
+ */
+export function getDayHours(hours: OperatingHours | null | undefined, date: string, building?: string): DayHours | null {
+  const [y, m, d] = date.split('-').map(Number);
+  const weekday = new Date(y, m - 1, d).getDay();
+  return getWeeklyHours(hours, building)[weekday] ?? null;
+}
+
+/**
+ * Returns the widest window bookings may fall in, or null when everything is closed.
+ *
+ * With a date and building this is that day's hours. Without a building it spans every
+ * building's hours, and without a date every weekday, so pickers that are filled in
+ * before the room or date is chosen still offer every time that could be valid.
+ */
+export function getHoursSpan(hours: OperatingHours | null | undefined, date?: string, building?: string): DayHours | null {
+  const resolved = resolveOperatingHours(hours);
+  const weeks = building ? [getWeeklyHours(resolved, building)] : [resolved.weekly, ...Object.values(resolved.buildings)];
+  const days = date
+    ? weeks.map(week => getDayHours({ ...resolved, weekly: week, buildings: {} }, date))
+    : weeks.flat();
+
+  return days.reduce<DayHours | null>((span, day) => {
+    if (!day) return span;
+    if (!span) return { ...day };
+    return {
+      open: day.open < span.open ? day.open : span.open,
+      close: day.close > span.close ? day.close : span.close,
+    };
+  }, null);
+}
@@ -0,0 +1,95 @@
+/**
+ * Recurrence helpers for recurring booking series.
+ *
+ * A series is stored as a single booking request carrying a RecurrenceRule.
+ * These helpers expand the rule into concrete ISO dates and describe it for display.
+ */
+
+import { addDaysToDateString } from './timeUtils';
+import type { RecurrenceRule } from '../App';
+
+/** Hard cap on the number of occurrences a single series may expand to. */
+export const MAX_SERIES_OCCURRENCES = 120;
+
+/** How far past the first occurrence a series may run (roughly one semester). */
+export const MAX_SERIES_SPAN_DAYS = 183;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Returns the weekday (0 = Sunday) of an ISO date string in local time.
+ *
+ * @param iso - Date in YYYY-MM-DD format
+ * @returns Day of week, 0-6
+ */
+export function getWeekday(iso: string): number {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d).getDay();
+}
+
+/**
+ * Expands a recurrence rule into the list of dates it covers.
+ *
+ * The series starts on `startDate` (always included unless excluded) and stops at the
+ * rule's end date, its occurrence count, MAX_SERIES_SPAN_DAYS or MAX_SERIES_OCCURRENCES,
+ * whichever comes first. Excluded dates do not count towards `count`.
+ *
+ * @param startDate - First occurrence in YYYY-MM-DD format
+ * @param rule - Recurrence rule
+ * @returns Sorted ISO dates of every occurrence
+ *
+ * @example
+ * ```typescript
+ * expandRecurrence('2025-01-06', { frequency: 'weekdays', daysOfWeek: [1, 3], count: 4 })
+ * // Returns ['2025-01-06', '2025-01-08', '2025-01-13', '2025-01-15']
+ * ```
+ */
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  if (!startDate) return [];
+
+  const days = rule.frequency === 'weekdays' && rule.daysOfWeek && rule.daysOfWeek.length > 0
+    ? rule.daysOfWeek
+    : [getWeekday(startDate)];
+  const excluded = new Set(rule.excludedDates ?? []);
+  const lastAllowed = addDaysToDateString(startDate, MAX_SERIES_SPAN_DAYS);
+  const endDate = rule.endDate && rule.endDate < lastAllowed ? rule.endDate : lastAllowed;
+  const limit = Math.min(rule.count && rule.count > 0 ? rule.count : MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const dates: string[] = [];
+  for (let current = startDate; current <= endDate && dates.length < limit; current = addDaysToDateString(current, 1)) {
+    if (!days.includes(getWeekday(current))) continue;
+    if (excluded.has(current)) continue;
+    dates.push(current);
+  }
+  return dates;
+}
+
+/**
+ * Builds a short human-readable summary of a recurrence rule.
+ *
+ * @param rule - Recurrence rule
+ * @param startDate - First occurrence, used to name the weekday of 'weekly' rules
+ * @returns Summary such as "Weekly on Mon, Wed until 2025-05-30"
+ */
+export function describeRecurrence(rule: RecurrenceRule, startDate: string): string {
+  const days = rule.frequency === 'weekdays' && rule.daysOfWeek && rule.daysOfWeek.length > 0
+    ? [...rule.daysOfWeek].sort((a, b) => a - b)
+    : [getWeekday(startDate)];
+  const parts = [`Weekly on ${days.map(d => WEEKDAY_LABELS[d]).join(', ')}`];
+  if (rule.count) parts.push(`for ${rule.count} occurrence${rule.count !== 1 ? 's' : ''}`);
+  else if (rule.endDate) parts.push(`until ${rule.endDate}`);
+  if (rule.excludedDates && rule.excludedDates.length > 0) {
+    parts.push(`(${rule.excludedDates.length} excluded date${rule.excludedDates.length !== 1 ? 's' : ''})`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Returns the dates a booking request occupies: every occurrence for a series,
+ * or just its single date otherwise.
+ */
+export function getOccurrenceDates(request: { date: string; recurrence?: RecurrenceRule; occurrenceDates?: string[] }): string[] {
+  if (!request.recurrence) return [request.date];
+  if (request.occurrenceDates && request.occurrenceDates.length > 0) return request.occurrenceDates;
+  return expandRecurrence(request.date, request.recurrence);
+}
@@ -0,0 +1,170 @@
+/**
+ * Spreadsheet readers for admin imports.
+ *
+ * Reads CSV text and the first worksheet of an Excel (.xlsx) file into rows of cell text.
+ * An .xlsx file is a zip of XML parts; it is unpacked with the browser's
+ * DecompressionStream, so no spreadsheet library is bundled. Numbers come back as written
+ * in the file, which for dates and times is Excel's serial form (see excelSerialToDate).
+ */
+
+/**
+ * Splits CSV text into rows, following RFC 4180: quoted cells may hold commas, line
+ * breaks and doubled quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+const readUint16 = (view: DataView, offset: number) => view.getUint16(offset, true);
+const readUint32 = (view: DataView, offset: number) => view.getUint32(offset, true);
+
+// Returns a reader for the files of a zip archive, by path
+function openZip(buffer: ArrayBuffer): (path: string) => Promise<string | null> {
+  const view = new DataView(buffer);
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (readUint32(view, i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a valid .xlsx workbook.');
+
+  const entries = new Map<string, { method: number; size: number; offset: number }>();
+  const count = readUint16(view, end + 10);
+  let pos = readUint32(view, end + 16);
+  const decoder = new TextDecoder();
+  for (let n = 0; n < count && readUint32(view, pos) === 0x02014b50; n++) {
+    const nameLength = readUint16(view, pos + 28);
+    const name = decoder.decode(new Uint8Array(buffer, pos + 46, nameLength));
+    entries.set(name, { method: readUint16(view, pos + 10), size: readUint32(view, pos + 20), offset: readUint32(view, pos + 42) });
+    pos += 46 + nameLength + readUint16(view, pos + 30) + readUint16(view, pos + 32);
+  }
+
+  return async (path: string) => {
+    const entry = entries.get(path);
+    if (!entry) return null;
+    const start = entry.offset + 30 + readUint16(view, entry.offset + 26) + readUint16(view, entry.offset + 28);
+    const data = new Uint8Array(buffer, start, entry.size);
+    if (entry.method === 0) return decoder.decode(data);
+    if (entry.method !== 8) throw new Error('The workbook uses an unsupported compression method.');
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+  };
+}
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// Zero-based column index of a cell reference such as "AB12"
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into rows of cell text. Empty rows are
+ * dropped; gaps between cells become empty strings.
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const read = openZip(buffer);
+  const workbookXml = await read('xl/workbook.xml');
+  if (!workbookXml) throw new Error('The file is not a valid .xlsx workbook.');
+
+  // The first <sheet> is the first tab; its relationship names the worksheet part
+  const sheetRelId = parseXml(workbookXml).getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const relsXml = await read('xl/_rels/workbook.xml.rels');
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  if (sheetRelId && relsXml) {
+    const rel = Array.from(parseXml(relsXml).getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === sheetRelId);
+    const target = rel?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheetXml = await read(sheetPath);
+  if (!sheetXml) throw new Error('The workbook has no worksheet.');
+  const sharedXml = await read('xl/sharedStrings.xml');
+  const shared = sharedXml
+    ? Array.from(parseXml(sharedXml).getElementsByTagName('si')).map(si =>
+      Array.from(si.getElementsByTagName('t')).map(t => t.textContent ?? '').join(''))
+    : [];
+
+  const rows: string[][] = [];
+  Array.from(parseXml(sheetXml).getElementsByTagName('row')).forEach(rowEl => {
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName('c')).forEach((cellEl, position) => {
+      const ref = cellEl.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cellEl.getAttribute('t');
+      const value = cellEl.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') text = shared[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = Array.from(cellEl.getElementsByTagName('t')).map(t => t.textContent ?? '').join('');
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+    if (row.some(c => c.trim() !== '')) rows.push(row);
+  });
+  return rows;
+}
+
+/**
+ * Reads a CSV or .xlsx file, chosen by its extension, into rows of cell text.
+ */
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) return readXlsxRows(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) throw new Error('Old .xls workbooks are not supported. Save the file as .xlsx or CSV.');
+  return parseCsv(await file.text());
+}
+
+/**
+ * Converts an Excel date serial (days since 1899-12-30) to YYYY-MM-DD.
+ */
+export function excelSerialToDate(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000).toISOString().slice(0, 10);
+}
+
+/**
+ * Converts the fraction of a day Excel stores for a time to 24-hour HH:MM.
+ */
+export function excelFractionToTime(fraction: number): string {
+  const minutes = Math.round((fraction % 1) * 1440) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -5,6 +5,10 @@
  * and provide consistent time formatting throughout the application.
  */
 
+import { isDateBlocked } from './academicCalendar';
+import { WEEKDAY_NAMES, getDayHours, getHoursSpan, minutesToTime, resolveOperatingHours, timeToMinutes } from './operatingHours';
+import type { AcademicCalendar, OperatingHours } from '../App';
+
 /**
  * Converts 24-hour time format to 12-hour format with AM/PM.
  * 
@@ -58,41 +62,60 @@ export function convertTo24Hour(time12: string): string {
 /**
  * Generates all available time slots for classroom booking.
  * 
- * Creates slots from 7:00 AM to 8:30 PM in 30-minute intervals,
- * representing school operating hours. The last available start time is 8:30 PM
- * so classes can run up to 9:30 PM if needed (but our policies cap at 8:30 PM end).
+ * Creates slots from opening to closing time in steps of the configured slot length.
+ * Without operating hours this is 7:00 AM to 8:30 PM in 30-minute intervals. The
+ * closing time is included because it is the latest valid end time.
+ * 
+ * When a date and academic calendar are given, days closed by the calendar
+ * (outside the term, holidays, building blackouts) have no slots at all. Days the
+ * building is closed by its operating hours have no slots either.
  * 
+ * @param date - Optional date in YYYY-MM-DD format
+ * @param calendar - Optional academic calendar to check the date against
+ * @param building - Optional building name for building-specific blackouts and hours
+ * @param hours - Optional operating hours (defaults apply when omitted)
  * @returns Array of time slots in 12-hour format
  * 
  * @example
  * ```typescript
  * const slots = generateTimeSlots();
- * // ["7:00 AM", "7:30 AM", "8:00 AM", ..., "7:30 PM"]
+ * // ["7:00 AM", "7:30 AM", "8:00 AM", ..., "8:30 PM"]
  * ```
  */
-export function generateTimeSlots(): string[] {
+export function generateTimeSlots(
+  date?: string,
+  calendar?: AcademicCalendar | null,
+  building?: string,
+  hours?: OperatingHours | null
+): string[] {
   const slots: string[] = [];
-  
-  // Start from 7:00 AM (07:00) to 8:30 PM (20:30) inclusive
-  // Latest classes and end-times include 8:30 PM
-  for (let hour = 7; hour <= 20; hour++) {
-    for (let minute = 0; minute < 60; minute += 30) {
-      const time24 = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-      slots.push(convertTo12Hour(time24));
-    }
+
+  if (date && isDateBlocked(calendar, date, building)) {
+    return slots;
+  }
+
+  const span = getHoursSpan(hours, date, building);
+  if (!span) return slots;
+
+  const step = resolveOperatingHours(hours).slotMinutes;
+  for (let minutes = timeToMinutes(span.open); minutes <= timeToMinutes(span.close); minutes += step) {
+    slots.push(convertTo12Hour(minutesToTime(minutes)));
   }
   
   return slots;
 }
 
 /**
- * Validates if a time falls within school operating hours.
+ * Validates if a time falls within operating hours.
  * 
- * School hours are defined as 7:00 AM to 8:30 PM (for end times).
- * Start times are limited to 7:30 PM max.
+ * Without operating hours, school hours are 7:00 AM to 8:30 PM. With a date and
+ * building, that day's hours for the building apply.
  * 
  * @param time12 - Time in 12-hour format
- * @returns true if time is within school hours
+ * @param hours - Optional operating hours
+ * @param date - Optional date in YYYY-MM-DD format
+ * @param building - Optional building name
+ * @returns true if time is within operating hours
  * 
  * @example
  * ```typescript
@@ -101,16 +124,58 @@ export function generateTimeSlots(): string[] {
  * isValidSchoolTime("9:00 PM")  // false
  * ```
  */
-export function isValidSchoolTime(time12: string): boolean {
+export function isValidSchoolTime(time12: string, hours?: OperatingHours | null, date?: string, building?: string): boolean {
+  const span = getHoursSpan(hours, date, building);
+  if (!span) return false;
+
   const time24 = convertTo24Hour(time12);
-  const [hours, minutes] = time24.split(':').map(Number);
-  
-  // Allow 7:00 AM to 8:30 PM
-  if (hours < 7) return false;
-  if (hours > 20) return false;
-  if (hours === 20 && minutes > 30) return false;
-  
-  return true;
+  return time24 >= span.open && time24 <= span.close;
+}
+
+/**
+ * Returns why a booking falls outside operating hours, or null when it fits.
+ * 
+ * Checks that the building is open on the date, that the range lies within that
+ * day's hours and that both times sit on the slot grid counted from opening time.
+ * 
+ * @param hours - Configured operating hours (null uses the defaults)
+ * @param date - Date in YYYY-MM-DD format
+ * @param startTime - Start time in 24-hour format
+ * @param endTime - End time in 24-hour format
+ * @param building - Optional building name
+ * @returns Human-readable reason, or null
+ * 
+ * @example
+ * ```typescript
+ * getOperatingHoursViolation(hours, '2025-03-15', '13:00', '15:00', 'Annex')
+ * // Returns "Annex is open 8:00 AM - 12:00 PM on Saturday"
+ * ```
+ */
+export function getOperatingHoursViolation(
+  hours: OperatingHours | null | undefined,
+  date: string,
+  startTime: string,
+  endTime: string,
+  building?: string
+): string | null {
+  if (!date || !startTime || !endTime) return null;
+
+  const place = building || 'Campus';
+  const weekday = WEEKDAY_NAMES[new Date(`${date}T00:00:00`).getDay()];
+  const day = getDayHours(hours, date, building);
+  if (!day) return `${place} is closed on ${weekday}`;
+
+  if (startTime < day.open || endTime > day.close) {
+    return `${place} is open ${formatTimeRange(convertTo12Hour(day.open), convertTo12Hour(day.close))} on ${weekday}`;
+  }
+
+  const step = resolveOperatingHours(hours).slotMinutes;
+  const open = timeToMinutes(day.open);
+  if ((timeToMinutes(startTime) - open) % step !== 0 || (timeToMinutes(endTime) - open) % step !== 0) {
+    return `Times must be in ${step}-minute steps from ${convertTo12Hour(day.open)}`;
+  }
+
+  return null;
 }
 
 /**
@@ -164,11 +229,14 @@ export function isValidTimeRange(startTime: string, endTime: string): boolean {
 /**
  * Checks if booking duration is within reasonable limits.
  * 
- * Enforces minimum duration of 30 minutes and maximum of 8 hours.
+ * Enforces a minimum of one slot (30 minutes by default) and a maximum duration
+ * (8 hours by default, see the booking policies).
  * 
  * @param startTime - Booking start time in 12-hour format
  * @param endTime - Booking end time in 12-hour format
- * @returns true if duration is between 30 minutes and 8 hours
+ * @param hours - Optional operating hours providing the slot length
+ * @param maxDurationMinutes - Longest allowed duration in minutes
+ * @returns true if duration is between one slot and the maximum
  * 
  * @example
  * ```typescript
@@ -177,7 +245,12 @@ export function isValidTimeRange(startTime: string, endTime: string): boolean {
  * isReasonableBookingDuration("9:00 AM", "10:00 PM")  // false (too long)
  * ```
  */
-export function isReasonableBookingDuration(startTime: string, endTime: string): boolean {
+export function isReasonableBookingDuration(
+  startTime: string,
+  endTime: string,
+  hours?: OperatingHours | null,
+  maxDurationMinutes: number = 8 * 60
+): boolean {
   const start24 = convertTo24Hour(startTime);
   const end24 = convertTo24Hour(endTime);
   
@@ -188,10 +261,9 @@ export function isReasonableBookingDuration(startTime: string, endTime: string):
   const endTotalMinutes = endHour * 60 + endMinute;
   
   const durationMinutes = endTotalMinutes - startTotalMinutes;
-  const durationHours = durationMinutes / 60;
   
-  // Max 8 hours, min 30 minutes
-  return durationHours >= 0.5 && durationHours <= 8;
+  // Min one slot, max the policy duration
+  return durationMinutes >= resolveOperatingHours(hours).slotMinutes && durationMinutes <= maxDurationMinutes;
 }
 
 /**
@@ -199,11 +271,12 @@ export function isReasonableBookingDuration(startTime: string, endTime: string):
  * 
  * Filters time slots to only show times that are:
  * - After the start time
- * - Within reasonable booking duration (up to 8 hours)
- * - Within school hours (up to 8:30 PM)
+ * - Within the maximum booking duration (8 hours by default)
+ * - Within the slot list, whose last entry is the closing time
  * 
  * @param startTime - Selected start time in 12-hour format
- * @param allTimeSlots - Array of all available time slots
+ * @param allTimeSlots - Array of all available time slots (see generateTimeSlots)
+ * @param maxDurationMinutes - Longest allowed duration in minutes
  * @returns Filtered array of valid end times
  * 
  * @example
@@ -212,41 +285,23 @@ export function isReasonableBookingDuration(startTime: string, endTime: string):
  * // Returns slots from 9:30 AM onwards, up to 8 hours later
  * ```
  */
-export function getValidEndTimes(startTime: string, allTimeSlots: string[]): string[] {
+export function getValidEndTimes(startTime: string, allTimeSlots: string[], maxDurationMinutes: number = 8 * 60): string[] {
   if (!startTime) return allTimeSlots;
   
   const start24 = convertTo24Hour(startTime);
   const [startHour, startMinute] = start24.split(':').map(Number);
   const startTotalMinutes = startHour * 60 + startMinute;
   
-  const validTimes = allTimeSlots.filter(timeSlot => {
+  return allTimeSlots.filter(timeSlot => {
     const end24 = convertTo24Hour(timeSlot);
     const [endHour, endMinute] = end24.split(':').map(Number);
     const endTotalMinutes = endHour * 60 + endMinute;
     
     const durationMinutes = endTotalMinutes - startTotalMinutes;
-    const durationHours = durationMinutes / 60;
     
-    // Must be after start time, max 8 hours, end by 8:30 PM (20:30)
-    return endTotalMinutes > startTotalMinutes && 
-           durationHours <= 8 && 
-           (endHour < 20 || (endHour === 20 && endMinute <= 30));
+    // Must be after start time, within the maximum duration
+    return durationMinutes > 0 && durationMinutes <= maxDurationMinutes;
   });
-  
-  // Add 8:30 PM as a valid end time if it's not already included and it's valid
-  const eightThirtyPM = '8:30 PM';
-  const eightThirtyPM24 = convertTo24Hour(eightThirtyPM);
-  const [eightThirtyHour, eightThirtyMinute] = eightThirtyPM24.split(':').map(Number);
-  const eightThirtyTotalMinutes = eightThirtyHour * 60 + eightThirtyMinute;
-  const durationToEightThirty = (eightThirtyTotalMinutes - startTotalMinutes) / 60;
-  
-  if (!validTimes.includes(eightThirtyPM) && 
-      eightThirtyTotalMinutes > startTotalMinutes && 
-      durationToEightThirty <= 8) {
-    validTimes.push(eightThirtyPM);
-  }
-  
-  return validTimes;
 }
 
 // Format time range for display
@@ -254,39 +309,73 @@ export function formatTimeRange(startTime: string, endTime: string): string {
   return `${startTime} - ${endTime}`;
 }
 
-// Check if a booking time is in the past
-export function isPastBookingTime(date: string, time: string): boolean {
-  if (!date || !time) return false;
-  
-  const now = new Date();
-  
-  // Parse the date string and create a date object in local timezone
-  // This prevents timezone offset issues when comparing dates
-  const [year, month, day] = date.split('-').map(Number);
+/**
+ * Time zone of the campus. Booking dates and times are wall-clock times there, whatever
+ * the time zone of the browser or server reading them.
+ */
+export const CAMPUS_TIME_ZONE = 'Asia/Manila';
+
+// Philippine time has no daylight saving time, so the offset is fixed
+const CAMPUS_UTC_OFFSET = '+08:00';
+
+/**
+ * The instant a campus date and time refer to, or null when either cannot be parsed.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param time - Time in 24-hour (HH:MM) or 12-hour (h:mm AM) format
+ *
+ * @example
+ * ```typescript
+ * getCampusInstant("2026-10-19", "7:30 AM")?.toISOString() // "2026-10-18T23:30:00.000Z"
+ * ```
+ */
+export function getCampusInstant(date: string, time: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !time) return null;
   const time24 = convertTo24Hour(time);
-  const [hours, minutes] = time24.split(':').map(Number);
+  if (!/^\d{2}:\d{2}$/.test(time24)) return null;
+  const instant = new Date(`${date}T${time24}:00${CAMPUS_UTC_OFFSET}`);
+  return isNaN(instant.getTime()) ? null : instant;
+}
+
+// Check if a booking time is in the past. Pass the stored `startAt` of a booking or
+// schedule when there is one; otherwise the date and time are read as campus time.
+export function isPastBookingTime(date: string, time: string, startAt?: string): boolean {
+  if (!startAt && (!date || !time)) return false;
   
-  // Create booking datetime in local timezone
-  const bookingDateTime = new Date(year, month - 1, day, hours, minutes, 0, 0);
+  const bookingDateTime = startAt ? new Date(startAt) : getCampusInstant(date, time);
+  if (!bookingDateTime || isNaN(bookingDateTime.getTime())) return false;
   
   // Add a small buffer (5 minutes) to account for processing time
   // This prevents booking requests for times that are about to pass
-  const currentTimeWithBuffer = new Date(now.getTime() + 5 * 60 * 1000);
+  const currentTimeWithBuffer = new Date(Date.now() + 5 * 60 * 1000);
   
   return bookingDateTime <= currentTimeWithBuffer;
 }
 
-// Check if a specific time slot is available (not in past and not during existing bookings)
-export function isTimeSlotAvailable(date: string, time: string, currentTime?: Date): boolean {
+// Check if a specific time slot is available (not in past, within operating hours and on a
+// date the academic calendar leaves open)
+export function isTimeSlotAvailable(
+  date: string,
+  time: string,
+  currentTime?: Date,
+  calendar?: AcademicCalendar | null,
+  building?: string,
+  hours?: OperatingHours | null
+): boolean {
   const now = currentTime || new Date();
   
+  // Check if the academic calendar closes this date
+  if (isDateBlocked(calendar, date, building)) {
+    return false;
+  }
+
   // Check if it's in the past
   if (isPastBookingTime(date, time)) {
     return false;
   }
   
-  // Check if it's within school hours
-  if (!isValidSchoolTime(time)) {
+  // Check if it's within operating hours
+  if (!isValidSchoolTime(time, hours, date, building)) {
     return false;
   }
   
@@ -0,0 +1,298 @@
+/**
+ * Timetable import helpers.
+ *
+ * At the start of a semester admins import the registrar's timetable instead of typing it
+ * in one booking at a time. Each row names a room, the faculty member's email, the
+ * weekdays, the time, the course and the term; it becomes one confirmed schedule per class
+ * meeting. A dry run first reports unknown rooms, unknown faculty and conflicts with
+ * existing reservations (or with earlier rows), maintenance, blocked time ranges and
+ * operating hours, and only rows without problems are imported. Imported schedules are
+ * written directly, so the server-side booking checks never see them.
+ */
+
+import { getOccurrenceDates, getWeekday, MAX_SERIES_SPAN_DAYS } from './recurrence';
+import { addDaysToDateString, getOperatingHoursViolation } from './timeUtils';
+import { getDateBlockReason } from './academicCalendar';
+import { getMaintenanceBlockReason } from './maintenanceWindows';
+import { findOverlappingBlocks } from './classroomBlocks';
+import { blockToConflict, describeConflict, requestToConflict, scheduleToConflict } from './conflicts';
+import { excelFractionToTime, excelSerialToDate } from './spreadsheet';
+import type { AcademicCalendar, BookingRequest, Classroom, OperatingHours, Schedule, User } from '../App';
+
+/** A parsed timetable row; times are 24-hour HH:MM and dates YYYY-MM-DD. */
+export interface TimetableRow {
+  line: number; // Spreadsheet row number, the header being row 1
+  room: string;
+  facultyEmail: string;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string;
+  endTime: string;
+  course: string;
+  termStart: string;
+  termEnd: string;
+}
+
+export interface TimetableIssue {
+  line: number;
+  message: string;
+}
+
+/** Dry-run result for one timetable row. */
+export interface TimetableImportEntry {
+  row: TimetableRow;
+  classroom?: Classroom;
+  faculty?: User;
+  dates: string[]; // Class meetings to create
+  closedDates: string[]; // Meetings skipped because the academic calendar closes the date
+  conflicts: string[];
+}
+
+export interface TimetableImportPlan {
+  entries: TimetableImportEntry[];
+  errors: TimetableIssue[]; // Rows that could not be read
+  unknownRooms: TimetableIssue[];
+  unknownFaculty: TimetableIssue[];
+  ready: TimetableImportEntry[]; // Rows that will be imported
+}
+
+/** Header names accepted for each column, after lower-casing and collapsing punctuation. */
+const COLUMN_ALIASES = {
+  room: ['room', 'classroom', 'room name', 'venue'],
+  facultyEmail: ['faculty email', 'email', 'instructor email', 'faculty'],
+  weekday: ['weekday', 'weekdays', 'day', 'days'],
+  time: ['time', 'schedule'],
+  startTime: ['start time', 'start', 'time start', 'from time'],
+  endTime: ['end time', 'end', 'time end', 'to time'],
+  course: ['course', 'course code', 'subject', 'class'],
+  termStart: ['term start', 'start date', 'from', 'term from'],
+  termEnd: ['term end', 'end date', 'to', 'until', 'term to'],
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+/** Column headings of the downloadable template. */
+export const TIMETABLE_TEMPLATE_HEADER = ['Room', 'Faculty Email', 'Weekday', 'Start Time', 'End Time', 'Course', 'Term Start', 'Term End'];
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  su: 0, sun: 0, sunday: 0,
+  m: 1, mo: 1, mon: 1, monday: 1,
+  t: 2, tu: 2, tue: 2, tues: 2, tuesday: 2,
+  w: 3, we: 3, wed: 3, wednesday: 3,
+  th: 4, thu: 4, thur: 4, thurs: 4, thursday: 4,
+  f: 5, fr: 5, fri: 5, friday: 5,
+  s: 6, sa: 6, sat: 6, saturday: 6,
+};
+
+/**
+ * Reads a weekday cell such as "Mon", "Mon/Wed", "Tuesday, Thursday" or "MWF" ("Th" is
+ * Thursday in the compact form). Returns null when any part is not a weekday.
+ */
+export function parseWeekdays(value: string): number[] | null {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  const parts = /[\s,/;&-]/.test(text) || text in WEEKDAY_NAMES
+    ? text.split(/[\s,/;&-]+/).filter(Boolean)
+    : text.match(/th|su|sa|[mtwfs]/g) ?? [];
+  if (parts.join('') !== text.replace(/[\s,/;&-]+/g, '')) return null;
+  const days = parts.map(part => WEEKDAY_NAMES[part]);
+  if (days.length === 0 || days.some(day => day === undefined)) return null;
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * Reads a time such as "07:30", "7:30 AM", "1:00pm" or an Excel time fraction into
+ * 24-hour HH:MM, or null.
+ */
+export function parseTimetableTime(value: string): string | null {
+  const text = value.trim();
+  if (/^0?\.\d+$/.test(text)) return excelFractionToTime(Number(text));
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s*m?\.?$/i) ?? text.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Reads a date written as YYYY-MM-DD, M/D/YYYY or an Excel date serial, or returns null.
+ */
+export function parseTimetableDate(value: string): string | null {
+  const text = value.trim();
+  if (/^\d{5}(\.\d+)?$/.test(text)) return excelSerialToDate(Number(text));
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const usMatch = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = isoMatch
+    ? [isoMatch[1], isoMatch[2], isoMatch[3]]
+    : usMatch ? [usMatch[3], usMatch[1], usMatch[2]] : [];
+  if (!year || !month || !day) return null;
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === iso ? iso : null;
+}
+
+/**
+ * Reads the rows of a timetable sheet. The first row is the header; columns are matched by
+ * name in any order, and the time can be one "Time" column ("7:30 AM - 9:00 AM") or
+ * separate start and end columns. Rows that cannot be read are reported, not skipped silently.
+ */
+export function parseTimetable(table: string[][]): { rows: TimetableRow[]; errors: TimetableIssue[] } {
+  const [header = [], ...body] = table;
+  const headers = header.map(normalizeHeader);
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Column[]).map(column => [
+      column,
+      COLUMN_ALIASES[column].map(alias => headers.indexOf(alias)).find(index => index >= 0) ?? -1,
+    ])
+  ) as Record<Column, number>;
+
+  const missing = (['room', 'facultyEmail', 'weekday', 'course', 'termStart', 'termEnd'] as Column[])
+    .filter(column => columns[column] < 0)
+    .map(column => COLUMN_ALIASES[column][0]);
+  if (columns.time < 0 && (columns.startTime < 0 || columns.endTime < 0)) missing.push('start time', 'end time');
+  if (missing.length > 0) {
+    return { rows: [], errors: [{ line: 1, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.` }] };
+  }
+
+  const rows: TimetableRow[] = [];
+  const errors: TimetableIssue[] = [];
+  body.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (column: Column) => (columns[column] >= 0 ? (cells[columns[column]] ?? '').trim() : '');
+    const problems: string[] = [];
+
+    const room = cell('room');
+    const facultyEmail = cell('facultyEmail').toLowerCase();
+    const course = cell('course');
+    if (!room) problems.push('room is empty');
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(facultyEmail)) problems.push('faculty email is not valid');
+    if (!course) problems.push('course is empty');
+
+    const weekdays = parseWeekdays(cell('weekday'));
+    if (!weekdays) problems.push(`"${cell('weekday')}" is not a weekday`);
+
+    const [startText, endText] = columns.startTime >= 0 && columns.endTime >= 0
+      ? [cell('startTime'), cell('endTime')]
+      : cell('time').split(/\s*(?:-|–|to)\s*/i);
+    const startTime = parseTimetableTime(startText ?? '');
+    const endTime = parseTimetableTime(endText ?? '');
+    if (!startTime || !endTime) problems.push('time is not valid');
+    else if (startTime >= endTime) problems.push('end time must be after start time');
+
+    const termStart = parseTimetableDate(cell('termStart'));
+    const termEnd = parseTimetableDate(cell('termEnd'));
+    if (!termStart || !termEnd) problems.push('term dates are not valid');
+    else if (termEnd < termStart) problems.push('term end is before term start');
+    else if (termEnd > addDaysToDateString(termStart, MAX_SERIES_SPAN_DAYS)) problems.push(`term can be at most ${MAX_SERIES_SPAN_DAYS} days long`);
+
+    if (problems.length > 0 || !weekdays || !startTime || !endTime || !termStart || !termEnd) {
+      errors.push({ line, message: problems.join('; ') });
+      return;
+    }
+    rows.push({ line, room, facultyEmail, weekdays, startTime, endTime, course, termStart, termEnd });
+  });
+  return { rows, errors };
+}
+
+const overlaps = (a: { startTime: string; endTime: string }, b: { startTime: string; endTime: string }) =>
+  a.startTime < b.endTime && b.startTime < a.endTime;
+
+// Every date of the range on one of the weekdays. Unlike expandRecurrence there is no
+// occurrence cap: a daily class over a full term has more meetings than a booking series.
+const expandMeetings = (start: string, end: string, weekdays: number[]): string[] => {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDaysToDateString(date, 1)) {
+    if (weekdays.includes(getWeekday(date))) dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Dry run of an import: matches rooms by name and faculty by email, expands each row into
+ * its class meetings from today on (skipping dates the academic calendar closes), and
+ * lists the conflicts with confirmed schedules, pending requests, earlier rows of the same
+ * room, maintenance windows and blocked ranges, and meetings outside operating hours.
+ */
+export function planTimetableImport(
+  rows: TimetableRow[],
+  data: { classrooms: Classroom[]; users: User[]; schedules: Schedule[]; bookingRequests: BookingRequest[]; calendar?: AcademicCalendar | null; hours?: OperatingHours | null },
+  today: string = new Date().toLocaleDateString('en-CA')
+): Omit<TimetableImportPlan, 'errors'> {
+  const roomsByName = new Map(data.classrooms.map(c => [c.name.trim().toLowerCase(), c]));
+  const facultyByEmail = new Map(
+    data.users.filter(u => u.status === 'approved' && u.role !== 'admin').map(u => [u.email.trim().toLowerCase(), u])
+  );
+  const unknownRooms: TimetableIssue[] = [];
+  const unknownFaculty: TimetableIssue[] = [];
+  const accepted: TimetableImportEntry[] = [];
+
+  const entries = rows.map((row): TimetableImportEntry => {
+    const classroom = roomsByName.get(row.room.toLowerCase());
+    const faculty = facultyByEmail.get(row.facultyEmail);
+    if (!classroom) unknownRooms.push({ line: row.line, message: `No classroom named "${row.room}"` });
+    if (!faculty) unknownFaculty.push({ line: row.line, message: `No approved faculty account for ${row.facultyEmail}` });
+
+    const start = row.termStart > today ? row.termStart : today;
+    const meetings = expandMeetings(start, row.termEnd, row.weekdays);
+    const closedDates = meetings.filter(date => getDateBlockReason(data.calendar, date, classroom?.building));
+    const dates = meetings.filter(date => !closedDates.includes(date));
+
+    const conflicts: string[] = [];
+    if (classroom) {
+      dates.forEach(date => {
+        data.schedules
+          .filter(s => s.classroomId === classroom.id && s.date === date && s.status === 'confirmed' && overlaps(s, row))
+          .forEach(s => conflicts.push(describeConflict(scheduleToConflict(s), true)));
+        data.bookingRequests
+          .filter(r => r.classroomId === classroom.id && r.status === 'pending' && overlaps(r, row) && getOccurrenceDates(r).includes(date))
+          .forEach(r => conflicts.push(describeConflict(requestToConflict(r, date), true)));
+        findOverlappingBlocks(classroom, date, row.startTime, row.endTime)
+          .forEach(block => conflicts.push(describeConflict(blockToConflict(classroom.id, block), true)));
+        const closure = getOperatingHoursViolation(data.hours, date, row.startTime, row.endTime, classroom.building)
+          ?? getMaintenanceBlockReason(classroom, date, row.startTime, row.endTime);
+        // The same hours or maintenance window usually covers many meetings
+        if (closure && !conflicts.includes(closure)) conflicts.push(closure);
+      });
+      accepted
+        .filter(other => other.classroom?.id === classroom.id && overlaps(other.row, row) && other.dates.some(date => dates.includes(date)))
+        .forEach(other => conflicts.push(`Overlaps row ${other.row.line} (${other.row.course})`));
+    }
+
+    const entry = { row, classroom, faculty, dates, closedDates, conflicts };
+    if (classroom && faculty && conflicts.length === 0 && dates.length > 0) accepted.push(entry);
+    return entry;
+  });
+
+  return { entries, unknownRooms, unknownFaculty, ready: accepted };
+}
+
+/**
+ * The schedules an imported row creates, with ids derived from the import and the row so
+ * that committing a chunk again overwrites it instead of duplicating it.
+ */
+export function buildImportedSchedules(entry: TimetableImportEntry, importId: string): Array<{ id: string; data: Omit<Schedule, 'id'> }> {
+  const { row, classroom, faculty } = entry;
+  if (!classroom || !faculty) return [];
+  return entry.dates.map(date => ({
+    id: `${importId}-${row.line}-${date}`,
+    data: {
+      classroomId: classroom.id,
+      classroomName: classroom.name,
+      facultyId: faculty.id,
+      facultyName: faculty.name,
+      date,
+      startTime: row.startTime,
+      endTime: row.endTime,
+      purpose: row.course,
+      status: 'confirmed',
+      importId,
+    },
+  }));
+}